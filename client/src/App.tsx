@@ -9,6 +9,7 @@ import Dashboard from "./pages/Dashboard";
 import ThumbnailEditor from "./pages/ThumbnailEditor";
 import Settings from "./pages/Settings";
 import AdminDashboard from "./pages/AdminDashboard";
+import AdminTraces from "./pages/AdminTraces";
 import Billing from "./pages/Billing";
 
 function Router() {
@@ -20,6 +21,7 @@ function Router() {
       <Route path={"/editor/:thumbnailId"} component={ThumbnailEditor} />
       <Route path={"/settings"} component={Settings} />
       <Route path={"/admin"} component={AdminDashboard} />
+      <Route path={"/admin/traces"} component={AdminTraces} />
       <Route path={"/billing"} component={Billing} />
       <Route path={"/404"} component={NotFound} />
       {/* Final fallback route */}
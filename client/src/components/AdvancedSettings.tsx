@@ -1,14 +1,21 @@
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { X } from "lucide-react";
+import { Link } from "wouter";
+import { trpc } from "@/lib/trpc";
 
 interface SettingsProps {
   quality: "draft" | "standard" | "premium";
   style: string;
   size: string;
+  brandKitId: string | null;
+  overlayText: string;
   onQualityChange: (quality: "draft" | "standard" | "premium") => void;
   onStyleChange: (style: string) => void;
   onSizeChange: (size: string) => void;
+  onBrandKitChange: (brandKitId: string | null) => void;
+  onOverlayTextChange: (overlayText: string) => void;
   onClose: () => void;
 }
 
@@ -16,11 +23,17 @@ export function AdvancedSettings({
   quality,
   style,
   size,
+  brandKitId,
+  overlayText,
   onQualityChange,
   onStyleChange,
   onSizeChange,
+  onBrandKitChange,
+  onOverlayTextChange,
   onClose,
 }: SettingsProps) {
+  const { data: brandKits = [] } = trpc.brandKit.list.useQuery();
+
   const qualities = [
     { value: "draft", label: "Draft", description: "Fast, lower quality" },
     { value: "standard", label: "Standard", description: "Balanced quality & speed" },
@@ -120,6 +133,59 @@ export function AdvancedSettings({
             </div>
           </div>
 
+          {/* Brand Kit */}
+          <div>
+            <label className="block text-sm font-semibold text-gray-800 mb-3">Brand Kit</label>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              <button
+                onClick={() => onBrandKitChange(null)}
+                className={`p-2 rounded-lg border-2 transition-all text-sm ${
+                  brandKitId === null
+                    ? "border-blue-500 bg-blue-50 text-blue-700 font-semibold"
+                    : "border-slate-200 hover:border-blue-300 text-gray-700"
+                }`}
+              >
+                None
+              </button>
+              {brandKits.map((kit) => (
+                <button
+                  key={kit.id}
+                  onClick={() => onBrandKitChange(kit.id)}
+                  className={`p-2 rounded-lg border-2 transition-all text-sm text-left ${
+                    brandKitId === kit.id
+                      ? "border-blue-500 bg-blue-50 text-blue-700 font-semibold"
+                      : "border-slate-200 hover:border-blue-300 text-gray-700"
+                  }`}
+                >
+                  <span className="block truncate">{kit.name}</span>
+                  <span className="mt-1 flex gap-1">
+                    {kit.palette.map((color, index) => (
+                      <span key={index} className="h-3 w-3 rounded-sm border" style={{ backgroundColor: color }} />
+                    ))}
+                  </span>
+                </button>
+              ))}
+            </div>
+            {brandKits.length === 0 && (
+              <p className="mt-2 text-xs text-gray-600">
+                Create brand kits in{" "}
+                <Link href="/settings" className="text-blue-600 underline">
+                  Settings
+                </Link>
+                .
+              </p>
+            )}
+            {brandKitId && (
+              <Input
+                value={overlayText}
+                onChange={(e) => onOverlayTextChange(e.target.value)}
+                placeholder="Overlay text, drawn in the kit's style (optional)"
+                maxLength={100}
+                className="mt-3"
+              />
+            )}
+          </div>
+
           {/* Info */}
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
             <p className="text-sm text-gray-700">
@@ -0,0 +1,370 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { getErrorMessage } from "@/lib/errors";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Palette, Plus, Trash2, Upload, X } from "lucide-react";
+import { FONT_LIBRARY, type FontId } from "@shared/typography";
+import { LOGO_POSITIONS, TEXT_POSITIONS, type BrandKitSettings } from "@shared/brandKit";
+
+const MAX_COLORS = 8;
+
+const NEW_KIT: BrandKitSettings = {
+  name: "",
+  palette: ["#1e3a8a", "#facc15"],
+  bannedColors: [],
+  fonts: { heading: "anton", body: "montserrat" },
+  textStyle: { color: "#ffffff", outlineColor: "#000000", uppercase: true, position: "top", shadow: true },
+};
+
+function ColorList({
+  label,
+  colors,
+  onChange,
+  minimum = 0,
+}: {
+  label: string;
+  colors: string[];
+  onChange: (colors: string[]) => void;
+  minimum?: number;
+}) {
+  return (
+    <div>
+      <Label>{label}</Label>
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        {colors.map((color, index) => (
+          <div key={index} className="flex items-center gap-1">
+            <Input
+              type="color"
+              value={color.slice(0, 7)}
+              onChange={(e) => onChange(colors.map((current, i) => (i === index ? e.target.value : current)))}
+              className="h-9 w-12 p-1"
+            />
+            {colors.length > minimum && (
+              <Button variant="ghost" size="sm" onClick={() => onChange(colors.filter((_, i) => i !== index))}>
+                <X className="w-3 h-3" />
+              </Button>
+            )}
+          </div>
+        ))}
+        {colors.length < MAX_COLORS && (
+          <Button variant="outline" size="sm" onClick={() => onChange([...colors, "#ffffff"])}>
+            <Plus className="w-3 h-3" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Create and edit brand kits: palette, banned colors, fonts, logo and the
+ * style overlay text is drawn in
+ */
+export function BrandKitManager() {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<BrandKitSettings | null>(null);
+  const utils = trpc.useUtils();
+  const { data: kits = [] } = trpc.brandKit.list.useQuery();
+
+  const onSaved = () => {
+    toast.success("Brand kit saved");
+    utils.brandKit.list.invalidate();
+    setDraft(null);
+    setEditingId(null);
+  };
+  const createMutation = trpc.brandKit.create.useMutation({
+    onSuccess: onSaved,
+    onError: (error) => toast.error(getErrorMessage(error)),
+  });
+  const updateMutation = trpc.brandKit.update.useMutation({
+    onSuccess: onSaved,
+    onError: (error) => toast.error(getErrorMessage(error)),
+  });
+  const deleteMutation = trpc.brandKit.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Brand kit deleted");
+      utils.brandKit.list.invalidate();
+    },
+    onError: (error) => toast.error(getErrorMessage(error)),
+  });
+
+  const update = (changes: Partial<BrandKitSettings>) => setDraft((current) => current && { ...current, ...changes });
+  const updateTextStyle = (changes: Partial<BrandKitSettings["textStyle"]>) =>
+    setDraft((current) => current && { ...current, textStyle: { ...current.textStyle, ...changes } });
+
+  const handleLogoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    if (!file.type.startsWith("image/")) {
+      toast.error("Please choose an image file");
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () =>
+      setDraft(
+        (current) =>
+          current && {
+            ...current,
+            logo: { position: "bottom-right", size: 0.15, opacity: 1, ...current.logo, src: reader.result as string },
+          }
+      );
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      toast.error("Please name the brand kit");
+      return;
+    }
+    if (editingId) {
+      updateMutation.mutate({ id: editingId, settings: draft });
+    } else {
+      createMutation.mutate(draft);
+    }
+  };
+
+  if (draft) {
+    return (
+      <Card className="p-6 space-y-5">
+        <h2 className="text-xl font-semibold">{editingId ? "Edit Brand Kit" : "New Brand Kit"}</h2>
+
+        <div>
+          <Label htmlFor="brandKitName">Name</Label>
+          <Input
+            id="brandKitName"
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="e.g., Main Channel"
+            maxLength={60}
+            className="mt-2"
+          />
+        </div>
+
+        <ColorList label="Palette" colors={draft.palette} minimum={1} onChange={(palette) => update({ palette })} />
+        <ColorList
+          label="Banned Colors"
+          colors={draft.bannedColors}
+          onChange={(bannedColors) => update({ bannedColors })}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          {(["heading", "body"] as const).map((role) => (
+            <div key={role}>
+              <Label>{role === "heading" ? "Heading Font" : "Body Font"}</Label>
+              <Select
+                value={draft.fonts[role]}
+                onValueChange={(value: FontId) => update({ fonts: { ...draft.fonts, [role]: value } })}
+              >
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FONT_LIBRARY) as FontId[]).map((id) => (
+                    <SelectItem key={id} value={id}>
+                      {FONT_LIBRARY[id].family}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <Label>Logo</Label>
+          <div className="flex items-center gap-3">
+            {draft.logo && <img src={draft.logo.src} alt="" className="h-12 max-w-32 rounded border object-contain" />}
+            <Button variant="outline" size="sm" asChild>
+              <label className="cursor-pointer">
+                <Upload className="w-3 h-3 mr-1" />
+                {draft.logo ? "Replace" : "Upload"}
+                <input type="file" accept="image/*" className="hidden" onChange={handleLogoUpload} />
+              </label>
+            </Button>
+            {draft.logo && (
+              <Button variant="ghost" size="sm" onClick={() => update({ logo: undefined })}>
+                Remove
+              </Button>
+            )}
+          </div>
+          {draft.logo && (
+            <div className="grid grid-cols-2 gap-4">
+              <Select
+                value={draft.logo.position}
+                onValueChange={(position: (typeof LOGO_POSITIONS)[number]) =>
+                  update({ logo: { ...draft.logo!, position } })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOGO_POSITIONS.map((position) => (
+                    <SelectItem key={position} value={position}>
+                      {position}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div>
+                <p className="text-xs text-muted-foreground">Size: {Math.round(draft.logo.size * 100)}% of width</p>
+                <Slider
+                  value={[draft.logo.size * 100]}
+                  onValueChange={(value) => update({ logo: { ...draft.logo!, size: value[0] / 100 } })}
+                  min={5}
+                  max={40}
+                  step={1}
+                  className="mt-2"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <Label>Text Style</Label>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <p className="text-xs text-muted-foreground">Color</p>
+              <Input
+                type="color"
+                value={draft.textStyle.color.slice(0, 7)}
+                onChange={(e) => updateTextStyle({ color: e.target.value })}
+                className="mt-1 h-9"
+              />
+            </div>
+            {(["outlineColor", "highlightColor"] as const).map((key) => (
+              <div key={key}>
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-muted-foreground">{key === "outlineColor" ? "Outline" : "Highlight"}</p>
+                  <Switch
+                    checked={Boolean(draft.textStyle[key])}
+                    onCheckedChange={(checked) =>
+                      updateTextStyle({ [key]: checked ? (key === "outlineColor" ? "#000000" : "#facc15") : undefined })
+                    }
+                  />
+                </div>
+                {draft.textStyle[key] && (
+                  <Input
+                    type="color"
+                    value={draft.textStyle[key]!.slice(0, 7)}
+                    onChange={(e) => updateTextStyle({ [key]: e.target.value })}
+                    className="mt-1 h-9"
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-4 items-center">
+            <Select
+              value={draft.textStyle.position}
+              onValueChange={(position: (typeof TEXT_POSITIONS)[number]) => updateTextStyle({ position })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TEXT_POSITIONS.map((position) => (
+                  <SelectItem key={position} value={position}>
+                    {position}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <label className="flex items-center gap-2 text-sm">
+              <Switch
+                checked={draft.textStyle.uppercase}
+                onCheckedChange={(uppercase) => updateTextStyle({ uppercase })}
+              />
+              Capitals
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <Switch checked={draft.textStyle.shadow} onCheckedChange={(shadow) => updateTextStyle({ shadow })} />
+              Shadow
+            </label>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={() => {
+              setDraft(null);
+              setEditingId(null);
+            }}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={createMutation.isPending || updateMutation.isPending}>
+            Save
+          </Button>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Brand Kits</h2>
+        <Button size="sm" onClick={() => setDraft(structuredClone(NEW_KIT))}>
+          New Brand Kit
+        </Button>
+      </div>
+
+      {kits.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Save your channel's colors, fonts and logo to apply them to every thumbnail.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {kits.map(({ id, userId, createdAt, updatedAt, ...settings }) => (
+            <div key={id} className="p-4 border rounded-lg flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <Palette className="w-4 h-4 text-muted-foreground" />
+                <div>
+                  <p className="font-medium">{settings.name}</p>
+                  <div className="mt-1 flex gap-1">
+                    {settings.palette.map((color, index) => (
+                      <span key={index} className="h-4 w-4 rounded border" style={{ backgroundColor: color }} />
+                    ))}
+                  </div>
+                </div>
+                {settings.logo && <img src={settings.logo.src} alt="" className="h-8 max-w-20 object-contain" />}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setEditingId(id);
+                    setDraft(settings);
+                  }}
+                >
+                  Edit
+                </Button>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => deleteMutation.mutate({ id })}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,240 @@
+import { useEffect, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import type { inferRouterOutputs } from "@trpc/server";
+import type { AppRouter } from "../../../server/routers";
+
+type CostSettings = inferRouterOutputs<AppRouter>["admin"]["getCostSettings"];
+
+const PERIODS = [
+  { label: "24 hours", days: 1 },
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+] as const;
+
+function formatUsd(value: number): string {
+  return value < 1 && value > -1 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
+
+function formatTokens(value: number): string {
+  return value >= 1000 ? `${(value / 1000).toFixed(1)}k` : String(value);
+}
+
+/**
+ * Admin view of provider spend: cost per model and per generation, margin
+ * against credits charged, and the daily spend caps.
+ */
+export function CostReport() {
+  const utils = trpc.useUtils();
+  const [days, setDays] = useState<number>(7);
+  const [startDate] = useState(() => new Date());
+  const { data: report, isLoading } = trpc.admin.getCostReport.useQuery({
+    startDate: new Date(startDate.getTime() - days * 24 * 60 * 60 * 1000),
+  });
+  const { data: settings } = trpc.admin.getCostSettings.useQuery();
+  const [draft, setDraft] = useState<CostSettings | null>(null);
+
+  useEffect(() => {
+    if (settings) setDraft(settings);
+  }, [settings]);
+
+  const updateMutation = trpc.admin.updateCostSettings.useMutation({
+    onSuccess: () => {
+      toast.success("Cost settings updated");
+      utils.admin.getCostSettings.invalidate();
+      utils.admin.getCostReport.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const toCap = (value: string) => (value === "" ? null : Math.max(0, parseFloat(value) || 0));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-2">
+        {PERIODS.map((period) => (
+          <Button
+            key={period.days}
+            size="sm"
+            variant={days === period.days ? "default" : "outline"}
+            onClick={() => setDays(period.days)}
+          >
+            {period.label}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading || !report ? (
+        <p className="text-sm text-gray-600">Loading costs...</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Card className="p-6 bg-white/50 backdrop-blur-sm border-blue-100/50">
+              <p className="text-sm text-gray-600">Provider Cost</p>
+              <p className="text-2xl font-bold text-gray-800">{formatUsd(report.totals.costUsd)}</p>
+              <p className="text-xs text-gray-500">{report.totals.calls} calls</p>
+            </Card>
+            <Card className="p-6 bg-white/50 backdrop-blur-sm border-blue-100/50">
+              <p className="text-sm text-gray-600">Credits Charged</p>
+              <p className="text-2xl font-bold text-gray-800">{report.totals.creditsCharged}</p>
+              <p className="text-xs text-gray-500">{formatUsd(report.totals.revenueUsd)} revenue</p>
+            </Card>
+            <Card className="p-6 bg-white/50 backdrop-blur-sm border-green-100/50">
+              <p className="text-sm text-gray-600">Margin</p>
+              <p
+                className={`text-2xl font-bold ${
+                  report.totals.marginUsd < 0 ? "text-red-600" : "text-green-600"
+                }`}
+              >
+                {formatUsd(report.totals.marginUsd)}
+              </p>
+              <p className="text-xs text-gray-500">
+                {report.totals.marginPercent === null
+                  ? "No credits charged"
+                  : `${report.totals.marginPercent.toFixed(1)}% of revenue`}
+              </p>
+            </Card>
+            <Card className="p-6 bg-white/50 backdrop-blur-sm border-purple-100/50">
+              <p className="text-sm text-gray-600">Spent Today (UTC)</p>
+              <p className="text-2xl font-bold text-gray-800">{formatUsd(report.spentToday)}</p>
+              <p className="text-xs text-gray-500">
+                {report.settings.globalDailyCapUsd === null
+                  ? "No global cap"
+                  : `of ${formatUsd(report.settings.globalDailyCapUsd)} cap`}
+              </p>
+            </Card>
+          </div>
+
+          <Card className="p-6 bg-white/50 backdrop-blur-sm border-blue-100/50">
+            <h3 className="text-lg font-semibold text-gray-800 mb-4">Cost per Model</h3>
+            {report.byModel.length === 0 ? (
+              <p className="text-sm text-gray-600">No provider calls in this period.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b border-slate-200">
+                    <th className="py-2">Model</th>
+                    <th className="py-2">Calls</th>
+                    <th className="py-2">Tokens in / out</th>
+                    <th className="py-2">Images</th>
+                    <th className="py-2 text-right">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.byModel.map((row) => (
+                    <tr key={`${row.capability}:${row.model}`} className="border-b border-slate-100">
+                      <td className="py-2">
+                        <Badge variant="outline" className="mr-2">
+                          {row.capability}
+                        </Badge>
+                        {row.model}
+                      </td>
+                      <td className="py-2">{row.calls}</td>
+                      <td className="py-2">
+                        {formatTokens(row.inputTokens)} / {formatTokens(row.outputTokens)}
+                      </td>
+                      <td className="py-2">{row.imageCount}</td>
+                      <td className="py-2 text-right">{formatUsd(row.costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </Card>
+
+          <Card className="p-6 bg-white/50 backdrop-blur-sm border-blue-100/50">
+            <h3 className="text-lg font-semibold text-gray-800 mb-4">Cost per Generation</h3>
+            {report.generations.length === 0 ? (
+              <p className="text-sm text-gray-600">No generations in this period.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b border-slate-200">
+                    <th className="py-2">Job</th>
+                    <th className="py-2">Model</th>
+                    <th className="py-2">Calls</th>
+                    <th className="py-2">Cost</th>
+                    <th className="py-2">Credits</th>
+                    <th className="py-2 text-right">Margin</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.generations.map((row) => (
+                    <tr key={row.jobId} className="border-b border-slate-100">
+                      <td className="py-2">
+                        <p className="font-mono text-xs text-gray-800">{row.jobId}</p>
+                        <p className="text-xs text-gray-500">{new Date(row.createdAt).toLocaleString()}</p>
+                      </td>
+                      <td className="py-2">{row.model ?? "—"}</td>
+                      <td className="py-2">{row.calls}</td>
+                      <td className="py-2">{formatUsd(row.costUsd)}</td>
+                      <td className="py-2">{row.creditsCharged}</td>
+                      <td
+                        className={`py-2 text-right ${row.marginUsd < 0 ? "text-red-600" : "text-green-600"}`}
+                      >
+                        {formatUsd(row.marginUsd)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </Card>
+        </>
+      )}
+
+      {draft && (
+        <Card className="p-6 bg-white/50 backdrop-blur-sm border-purple-100/50">
+          <h3 className="text-lg font-semibold text-gray-800 mb-1">Spend Caps</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Generation is blocked for the rest of the UTC day once estimated provider spend reaches a
+            cap. Leave a cap empty to disable it.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <label className="space-y-1 text-sm text-gray-600">
+              <span>Credit value (USD)</span>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                value={draft.creditValueUsd}
+                onChange={(e) =>
+                  setDraft({ ...draft, creditValueUsd: Math.max(0, parseFloat(e.target.value) || 0) })
+                }
+              />
+            </label>
+            <label className="space-y-1 text-sm text-gray-600">
+              <span>Per-user daily cap (USD)</span>
+              <Input
+                type="number"
+                min={0}
+                step="0.5"
+                value={draft.userDailyCapUsd ?? ""}
+                onChange={(e) => setDraft({ ...draft, userDailyCapUsd: toCap(e.target.value) })}
+              />
+            </label>
+            <label className="space-y-1 text-sm text-gray-600">
+              <span>Global daily cap (USD)</span>
+              <Input
+                type="number"
+                min={0}
+                step="10"
+                value={draft.globalDailyCapUsd ?? ""}
+                onChange={(e) => setDraft({ ...draft, globalDailyCapUsd: toCap(e.target.value) })}
+              />
+            </label>
+          </div>
+          <div className="flex justify-end mt-4">
+            <Button disabled={updateMutation.isPending} onClick={() => updateMutation.mutate(draft)}>
+              Save Settings
+            </Button>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
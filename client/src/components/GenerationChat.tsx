@@ -1,5 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Send, Upload, RefreshCw, Download, Share2, Zap, Clock, Star } from 'lucide-react';
+import { skipToken } from '@tanstack/react-query';
 import { trpc } from '../lib/trpc';
 
 interface GenerationMessage {
@@ -15,30 +16,125 @@ interface GenerationMessage {
     model?: string;
     referenceId?: string;
   };
+  candidates?: Array<{
+    rank: number;
+    imageUrl: string;
+    combinedScore: number;
+    isTopPick: boolean;
+  }>;
+  formats?: Array<{
+    aspectRatio: string;
+    imageUrl: string;
+    width: number;
+    height: number;
+  }>;
+}
+
+type UploadedImageRole = 'subject' | 'product' | 'background' | 'style';
+
+const UPLOADED_IMAGE_ROLES: Array<{ value: UploadedImageRole; label: string }> = [
+  { value: 'subject', label: 'Me / subject' },
+  { value: 'product', label: 'Product' },
+  { value: 'background', label: 'Background' },
+  { value: 'style', label: 'Style' },
+];
+
+const MAX_UPLOADED_IMAGES = 4;
+
+type ExtraFormat = '9:16' | '1:1';
+
+// The main image is 16:9; these are produced from it
+const EXTRA_FORMATS: Array<{ value: ExtraFormat; label: string }> = [
+  { value: '9:16', label: 'Shorts 9:16' },
+  { value: '1:1', label: 'Square 1:1' },
+];
+
+// Labels for the built-in pipeline steps; custom steps show their own name
+const STEP_LABELS: Record<string, string> = {
+  validation: 'Validating Request',
+  moderation: 'Checking Content Policy',
+  analysis: 'AI Analysis',
+  referenceSelection: 'Reference Selection',
+  promptEngineering: 'Prompt Engineering',
+  generation: 'Generating Image',
+  postProduction: 'Post-Production & Quality Check',
+  formats: 'Creating Formats',
+  delivery: 'Delivery',
+  complete: 'Finishing Up',
+};
+
+function getStepLabel(step?: string): string {
+  if (!step) return 'Starting';
+  return STEP_LABELS[step] ?? step.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, (c) => c.toUpperCase());
 }
 
 interface GenerationPreview {
   isGenerating: boolean;
   progress: number;
+  // Name of the pipeline step in progress, from the progress events
+  stepName?: string;
   currentStep: number;
+  // Steps in the job's pipeline; 0 until the first event arrives
   totalSteps: number;
   estimatedTime: number;
+  referenceTitle?: string;
+  engineeredPrompt?: string;
 }
 
 export function GenerationChat() {
   const [messages, setMessages] = useState<GenerationMessage[]>([]);
   const [inputValue, setInputValue] = useState('');
-  const [uploadedImages, setUploadedImages] = useState<string[]>([]);
+  const [uploadedImages, setUploadedImages] = useState<Array<{ url: string; role: UploadedImageRole }>>([]);
   const [preview, setPreview] = useState<GenerationPreview>({
     isGenerating: false,
     progress: 0,
     currentStep: 0,
-    totalSteps: 8,
+    totalSteps: 0,
     estimatedTime: 0,
   });
   const [selectedGeneration, setSelectedGeneration] = useState<GenerationMessage | null>(null);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [candidateCount, setCandidateCount] = useState(1);
+  const [extraFormats, setExtraFormats] = useState<ExtraFormat[]>([]);
+  // Empty means the plan's (or template's) pipeline
+  const [pipelineId, setPipelineId] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  const generateMutation = trpc.generation.generate.useMutation();
+  const { data: quote } = trpc.generation.quote.useQuery({
+    candidates: candidateCount,
+    formats: extraFormats,
+  });
+  const { data: pipelines } = trpc.generation.listPipelines.useQuery();
+
+  // Live progress from the orchestrator; reconnects resume from the last event ID
+  trpc.generation.onProgress.useSubscription(
+    activeJobId ? { jobId: activeJobId } : skipToken,
+    {
+      onData: ({ data: event }) => {
+        setPreview((prev) => ({
+          ...prev,
+          progress: event.progress,
+          stepName: event.step ?? prev.stepName,
+          currentStep: Math.max(event.stepIndex, 1),
+          totalSteps: event.totalSteps,
+          estimatedTime: Math.ceil(event.etaMs / 1000),
+          referenceTitle:
+            event.type === 'reference.selected'
+              ? String(event.data?.title ?? '')
+              : prev.referenceTitle,
+          engineeredPrompt:
+            event.type === 'prompt.engineered'
+              ? String(event.data?.prompt ?? '')
+              : prev.engineeredPrompt,
+        }));
+      },
+      onError: (error) => {
+        console.error('Generation progress error:', error);
+      },
+    }
+  );
+
   // Scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -57,55 +153,64 @@ export function GenerationChat() {
     setMessages((prev) => [...prev, userMessage]);
     setInputValue('');
 
-    // Start generation
+    // Start generation; the job ID is chosen up front so progress can be subscribed to first
+    const jobId = `job_${crypto.randomUUID()}`;
+    setActiveJobId(jobId);
     setPreview({
       isGenerating: true,
       progress: 0,
-      currentStep: 1,
-      totalSteps: 8,
-      estimatedTime: 30,
+      currentStep: 0,
+      totalSteps: 0,
+      estimatedTime: 0,
     });
 
-    // Simulate progress
-    const progressInterval = setInterval(() => {
-      setPreview((prev) => {
-        const newProgress = Math.min(prev.progress + Math.random() * 15, 95);
-        const newStep = Math.ceil((newProgress / 100) * 8);
-        return {
-          ...prev,
-          progress: newProgress,
-          currentStep: newStep,
-        };
+    try {
+      const result = await generateMutation.mutateAsync({
+        userPrompt: userMessage.content,
+        uploadedImages: uploadedImages.length > 0 ? uploadedImages : undefined,
+        candidates: candidateCount,
+        formats: extraFormats.length > 0 ? extraFormats : undefined,
+        pipeline: pipelineId || undefined,
+        jobId,
       });
-    }, 1000);
 
-    try {
-      // TODO: Call generation API when router is ready
-      // Simulate successful generation for now
-      setTimeout(() => {
-        const assistantMessage: GenerationMessage = {
-          id: `gen_${Date.now()}`,
+      const assistantMessage: GenerationMessage = {
+        id: result.id,
+        role: 'assistant',
+        content: `Generated thumbnail for: ${userMessage.content}`,
+        imageUrl: result.generatedImageUrl,
+        generationId: result.id,
+        timestamp: new Date(),
+        metadata: {
+          qualityScore: result.qualityScore,
+          creditsUsed: result.creditsUsed,
+          model: result.model,
+          referenceId: result.referenceThumbnailId,
+        },
+        candidates: result.candidates && result.candidates.length > 1 ? result.candidates : undefined,
+        formats: result.formats && result.formats.length > 0 ? result.formats : undefined,
+      };
+      setMessages((prev) => [...prev, assistantMessage]);
+    } catch (error) {
+      setMessages((prev) => [
+        ...prev,
+        {
+          id: `err_${Date.now()}`,
           role: 'assistant',
-          content: `Generated thumbnail for: ${inputValue}`,
-          imageUrl: 'https://via.placeholder.com/1280x720?text=Generated+Thumbnail',
+          content: `Generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
           timestamp: new Date(),
-          metadata: {
-            qualityScore: 0.85,
-            creditsUsed: 10,
-            model: 'DALL-E 3',
-          },
-        };
-        setMessages((prev) => [...prev, assistantMessage]);
-        setPreview({
-          isGenerating: false,
-          progress: 100,
-          currentStep: 8,
-          totalSteps: 8,
-          estimatedTime: 0,
-        });
-      }, 3000);
+        },
+      ]);
     } finally {
-      clearInterval(progressInterval);
+      setActiveJobId(null);
+      setPreview((prev) => ({
+        ...prev,
+        isGenerating: false,
+        estimatedTime: 0,
+        stepName: undefined,
+        referenceTitle: undefined,
+        engineeredPrompt: undefined,
+      }));
     }
   };
 
@@ -117,7 +222,12 @@ export function GenerationChat() {
       const reader = new FileReader();
       reader.onload = (event) => {
         const imageUrl = event.target?.result as string;
-        setUploadedImages((prev) => [...prev, imageUrl]);
+        // The first upload is usually the creator; later ones default to the product
+        setUploadedImages((prev) =>
+          prev.length >= MAX_UPLOADED_IMAGES
+            ? prev
+            : [...prev, { url: imageUrl, role: prev.length === 0 ? 'subject' : 'product' }]
+        );
       };
       reader.readAsDataURL(file);
     }
@@ -149,17 +259,6 @@ export function GenerationChat() {
     }
   };
 
-  const steps = [
-    'Validating Request',
-    'AI Analysis',
-    'Reference Selection',
-    'Prompt Engineering',
-    'Generating Image',
-    'Post-Production',
-    'Quality Check',
-    'Delivery',
-  ];
-
   return (
     <div className="flex h-full bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
       {/* Main Chat Area */}
@@ -212,6 +311,54 @@ export function GenerationChat() {
                         </div>
                       )}
 
+                      {message.formats && (
+                        <div className="flex flex-wrap gap-2 text-xs">
+                          {message.formats.map((format) => (
+                            <a
+                              key={format.aspectRatio}
+                              href={format.imageUrl}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="px-2 py-1 rounded bg-slate-700 text-purple-300 hover:bg-slate-600"
+                            >
+                              {format.aspectRatio} · {format.width}×{format.height}
+                            </a>
+                          ))}
+                        </div>
+                      )}
+
+                      {message.candidates && (
+                        <div className="grid grid-cols-4 gap-2">
+                          {message.candidates.map((candidate) => (
+                            <button
+                              key={candidate.rank}
+                              onClick={() =>
+                                setMessages((prev) =>
+                                  prev.map((m) =>
+                                    m.id === message.id ? { ...m, imageUrl: candidate.imageUrl } : m
+                                  )
+                                )
+                              }
+                              className={`relative rounded overflow-hidden border ${
+                                message.imageUrl === candidate.imageUrl
+                                  ? 'border-purple-400'
+                                  : 'border-slate-600'
+                              }`}
+                            >
+                              <img
+                                src={candidate.imageUrl}
+                                alt={`Candidate ${candidate.rank}`}
+                                className="w-full aspect-video object-cover"
+                              />
+                              <span className="absolute bottom-0 left-0 right-0 bg-black/60 text-[10px] text-white px-1">
+                                #{candidate.rank} · {(candidate.combinedScore * 100).toFixed(0)}
+                                {candidate.isTopPick && ' · Top pick'}
+                              </span>
+                            </button>
+                          ))}
+                        </div>
+                      )}
+
                       <div className="flex gap-2">
                         <button
                           onClick={() => handleDownloadImage(message.imageUrl!)}
@@ -257,7 +404,7 @@ export function GenerationChat() {
               <div className="flex items-center gap-2 mb-3">
                 <Clock className="w-4 h-4 text-purple-400 animate-spin" />
                 <span className="text-sm font-semibold text-white">
-                  {steps[preview.currentStep - 1]}...
+                  {getStepLabel(preview.stepName)}...
                 </span>
               </div>
 
@@ -270,24 +417,38 @@ export function GenerationChat() {
               </div>
 
               {/* Step Indicators */}
-              <div className="grid grid-cols-8 gap-1">
-                {steps.map((step, index) => (
+              <div className="flex gap-1">
+                {Array.from({ length: preview.totalSteps }, (_, index) => (
                   <div
                     key={index}
-                    className={`h-1 rounded-full transition-all ${
-                      index < preview.currentStep
-                        ? 'bg-purple-500'
-                        : index === preview.currentStep - 1
+                    className={`h-1 flex-1 rounded-full transition-all ${
+                      index === preview.currentStep - 1
                         ? 'bg-purple-400 animate-pulse'
+                        : index < preview.currentStep
+                        ? 'bg-purple-500'
                         : 'bg-slate-600'
                     }`}
                   />
                 ))}
               </div>
 
-              <div className="text-xs text-gray-400 mt-2">
-                Step {preview.currentStep} of {preview.totalSteps}
+              <div className="flex justify-between text-xs text-gray-400 mt-2">
+                {preview.totalSteps > 0 && (
+                  <span>
+                    Step {preview.currentStep} of {preview.totalSteps}
+                  </span>
+                )}
+                {preview.estimatedTime > 0 && <span>~{preview.estimatedTime}s remaining</span>}
               </div>
+
+              {preview.referenceTitle && (
+                <div className="text-xs text-gray-300 mt-2">
+                  Reference: <span className="text-purple-300">{preview.referenceTitle}</span>
+                </div>
+              )}
+              {preview.engineeredPrompt && (
+                <p className="text-xs text-gray-400 mt-1 line-clamp-2">{preview.engineeredPrompt}</p>
+              )}
             </div>
           )}
 
@@ -299,12 +460,28 @@ export function GenerationChat() {
           {uploadedImages.length > 0 && (
             <div className="flex gap-2 mb-3 pb-3 border-b border-slate-700 overflow-x-auto">
               {uploadedImages.map((img, idx) => (
-                <div key={idx} className="relative flex-shrink-0">
+                <div key={idx} className="relative flex-shrink-0 flex flex-col items-center gap-1">
                   <img
-                    src={img}
+                    src={img.url}
                     alt={`Upload ${idx}`}
                     className="w-16 h-16 rounded border border-purple-500/30 object-cover"
                   />
+                  <select
+                    value={img.role}
+                    onChange={(e) => {
+                      const role = e.target.value as UploadedImageRole;
+                      setUploadedImages((prev) => prev.map((entry, i) => (i === idx ? { ...entry, role } : entry)));
+                    }}
+                    disabled={preview.isGenerating}
+                    className="w-16 bg-slate-700 text-white text-[10px] rounded px-1 py-0.5"
+                    title="How the model should use this image"
+                  >
+                    {UPLOADED_IMAGE_ROLES.map((role) => (
+                      <option key={role.value} value={role.value}>
+                        {role.label}
+                      </option>
+                    ))}
+                  </select>
                   <button
                     onClick={() =>
                       setUploadedImages((prev) => prev.filter((_, i) => i !== idx))
@@ -318,6 +495,71 @@ export function GenerationChat() {
             </div>
           )}
 
+          <div className="flex items-center justify-between mb-2 text-xs text-gray-400">
+            <label className="flex items-center gap-2">
+              Candidates
+              <select
+                value={candidateCount}
+                onChange={(e) => setCandidateCount(Number(e.target.value))}
+                disabled={preview.isGenerating}
+                className="bg-slate-700 text-white rounded px-2 py-1"
+              >
+                {[1, 2, 3, 4].map((count) => (
+                  <option key={count} value={count}>
+                    {count}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="flex items-center gap-2">
+              Also
+              {EXTRA_FORMATS.map((format) => (
+                <label key={format.value} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={extraFormats.includes(format.value)}
+                    onChange={(e) =>
+                      setExtraFormats((prev) =>
+                        e.target.checked
+                          ? [...prev, format.value]
+                          : prev.filter((value) => value !== format.value)
+                      )
+                    }
+                    disabled={preview.isGenerating}
+                  />
+                  {format.label}
+                </label>
+              ))}
+            </div>
+            {pipelines && pipelines.length > 0 && (
+              <label className="flex items-center gap-2">
+                Mode
+                <select
+                  value={pipelineId}
+                  onChange={(e) => setPipelineId(e.target.value)}
+                  disabled={preview.isGenerating}
+                  className="bg-slate-700 text-white rounded px-2 py-1"
+                >
+                  <option value="">Default</option>
+                  {pipelines.map((pipeline) => (
+                    <option key={pipeline.id} value={pipeline.id} title={pipeline.description}>
+                      {pipeline.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {quote && (
+              <span
+                className={quote.sufficient ? '' : 'text-red-400'}
+                title={quote.lineItems.map((item) => `${item.label}: ${item.credits}`).join('\n')}
+              >
+                Cost: {quote.totalCredits} credits
+                {quote.extraCredits > 0 && ` (+${quote.extraCredits} for extra candidates)`}
+              </span>
+            )}
+          </div>
+
           <div className="flex gap-2">
             <label className="flex items-center justify-center w-10 h-10 rounded-lg bg-slate-700 hover:bg-slate-600 cursor-pointer transition">
               <Upload className="w-5 h-5 text-gray-300" />
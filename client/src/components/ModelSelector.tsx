@@ -8,7 +8,13 @@ interface AIModel {
   description: string;
   provider: string;
   quality: "draft" | "standard" | "premium";
-  costPerGeneration: number;
+  capabilities: {
+    sizes: string[];
+    supportsEditing: boolean;
+    supportsSeed: boolean;
+    creditCost: number;
+  };
+  available: boolean;
 }
 
 interface ModelSelectorProps {
@@ -41,11 +47,12 @@ export function ModelSelector({
             {models.map((model) => (
               <button
                 key={model.id}
+                disabled={!model.available}
                 onClick={() => {
                   onSelect(model.id);
                   onClose();
                 }}
-                className={`p-4 rounded-lg border-2 transition-all text-left ${
+                className={`p-4 rounded-lg border-2 transition-all text-left disabled:opacity-50 disabled:cursor-not-allowed ${
                   selectedModel === model.id
                     ? "border-blue-500 bg-blue-50"
                     : "border-slate-200 hover:border-blue-300 bg-white hover:bg-blue-50"
@@ -58,7 +65,7 @@ export function ModelSelector({
                   </div>
                   <div className="flex items-center gap-1 bg-blue-100 text-blue-700 px-2 py-1 rounded text-xs font-semibold">
                     <Zap className="w-3 h-3" />
-                    {model.costPerGeneration}
+                    {model.capabilities.creditCost}
                   </div>
                 </div>
                 <p className="text-sm text-gray-600 mb-2">{model.description}</p>
@@ -74,7 +81,25 @@ export function ModelSelector({
                   >
                     {model.quality.charAt(0).toUpperCase() + model.quality.slice(1)}
                   </span>
+                  {model.capabilities.supportsEditing && (
+                    <span className="text-xs px-2 py-1 rounded bg-green-100 text-green-700">
+                      Image inputs
+                    </span>
+                  )}
+                  {model.capabilities.supportsSeed && (
+                    <span className="text-xs px-2 py-1 rounded bg-amber-100 text-amber-700">
+                      Seeds
+                    </span>
+                  )}
+                  {!model.available && (
+                    <span className="text-xs px-2 py-1 rounded bg-red-100 text-red-700">
+                      Not configured
+                    </span>
+                  )}
                 </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Sizes: {model.capabilities.sizes.join(", ")}
+                </p>
               </button>
             ))}
           </div>
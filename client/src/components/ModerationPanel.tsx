@@ -0,0 +1,314 @@
+import { useEffect, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { X } from "lucide-react";
+import type { inferRouterOutputs } from "@trpc/server";
+import type { AppRouter } from "../../../server/routers";
+
+type ModerationPolicy = inferRouterOutputs<AppRouter>["admin"]["getModerationPolicy"]["policy"];
+type ModerationCategory = ModerationPolicy["categories"][number];
+
+const STATUSES = ["pending", "upheld", "overturned"] as const;
+
+const CATEGORY_LABELS: Record<ModerationCategory, string> = {
+  sexual: "Sexual",
+  minors: "Minors",
+  violence: "Violence",
+  hate: "Hate",
+  harassment: "Harassment",
+  self_harm: "Self-harm",
+  illegal: "Illegal",
+  real_person: "Real person",
+  trademark: "Trademark",
+};
+
+const CATEGORIES = Object.keys(CATEGORY_LABELS) as ModerationCategory[];
+
+/**
+ * Admin review queue for blocked prompts, and the content policy editor
+ */
+export function ModerationPanel() {
+  const utils = trpc.useUtils();
+  const [status, setStatus] = useState<(typeof STATUSES)[number]>("pending");
+  const { data: events, isLoading } = trpc.admin.getModerationQueue.useQuery({ status });
+  const { data: policyData } = trpc.admin.getModerationPolicy.useQuery();
+  const [draft, setDraft] = useState<ModerationPolicy | null>(null);
+  const [newTerm, setNewTerm] = useState({ value: "", category: "sexual" as ModerationCategory });
+  const [newPattern, setNewPattern] = useState({ value: "", category: "sexual" as ModerationCategory });
+
+  useEffect(() => {
+    if (policyData) setDraft(policyData.policy);
+  }, [policyData]);
+
+  const reviewMutation = trpc.admin.reviewModerationEvent.useMutation({
+    onSuccess: () => utils.admin.getModerationQueue.invalidate(),
+    onError: (error) => toast.error(error.message),
+  });
+  const updateMutation = trpc.admin.updateModerationPolicy.useMutation({
+    onSuccess: () => {
+      toast.success("Content policy updated");
+      utils.admin.getModerationPolicy.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const toggleCategory = (category: ModerationCategory) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      categories: draft.categories.includes(category)
+        ? draft.categories.filter((entry) => entry !== category)
+        : [...draft.categories, category],
+    });
+  };
+
+  const categorySelect = (value: ModerationCategory, onChange: (category: ModerationCategory) => void) => (
+    <select
+      className="h-9 rounded-md border border-slate-200 bg-white px-2 text-sm"
+      value={value}
+      onChange={(e) => onChange(e.target.value as ModerationCategory)}
+    >
+      {CATEGORIES.map((category) => (
+        <option key={category} value={category}>
+          {CATEGORY_LABELS[category]}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6 bg-white/50 backdrop-blur-sm border-blue-100/50">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-800">Review Queue</h3>
+          <div className="flex gap-2">
+            {STATUSES.map((value) => (
+              <Button
+                key={value}
+                size="sm"
+                variant={status === value ? "default" : "outline"}
+                onClick={() => setStatus(value)}
+              >
+                {value}
+              </Button>
+            ))}
+          </div>
+        </div>
+        {isLoading ? (
+          <p className="text-sm text-gray-600">Loading queue...</p>
+        ) : !events?.length ? (
+          <p className="text-sm text-gray-600">No {status} blocked requests.</p>
+        ) : (
+          <div className="divide-y divide-slate-100">
+            {events.map((event) => (
+              <div key={event.id} className="py-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm text-gray-800 break-words">{event.content}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {new Date(event.createdAt).toLocaleString()} · {event.source} · user {event.userId}
+                    </p>
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {event.reasons.map((reason, index) => (
+                        <Badge key={index} variant="outline" title={reason.rule}>
+                          {CATEGORY_LABELS[reason.category] ?? reason.category}: {reason.explanation}
+                          {reason.confidence !== undefined && ` (${Math.round(reason.confidence * 100)}%)`}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  {event.status === "pending" ? (
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={reviewMutation.isPending}
+                        onClick={() => reviewMutation.mutate({ id: event.id, status: "overturned" })}
+                      >
+                        False positive
+                      </Button>
+                      <Button
+                        size="sm"
+                        disabled={reviewMutation.isPending}
+                        onClick={() => reviewMutation.mutate({ id: event.id, status: "upheld" })}
+                      >
+                        Uphold
+                      </Button>
+                    </div>
+                  ) : (
+                    <Badge variant={event.status === "upheld" ? "destructive" : "secondary"}>
+                      {event.status}
+                    </Badge>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      {draft && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Card className="p-6 bg-white/50 backdrop-blur-sm border-blue-100/50">
+              <h3 className="text-lg font-semibold text-gray-800 mb-1">Blocked Terms</h3>
+              <p className="text-sm text-gray-600 mb-4">Whole-word, case-insensitive matches.</p>
+              <div className="flex flex-wrap gap-2 mb-4">
+                {draft.blockedTerms.map((entry, index) => (
+                  <Badge key={`${entry.term}-${index}`} variant="secondary" className="gap-1">
+                    {entry.term} · {CATEGORY_LABELS[entry.category]}
+                    <X
+                      className="w-3 h-3 cursor-pointer"
+                      onClick={() =>
+                        setDraft({ ...draft, blockedTerms: draft.blockedTerms.filter((_, i) => i !== index) })
+                      }
+                    />
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Add term"
+                  value={newTerm.value}
+                  onChange={(e) => setNewTerm({ ...newTerm, value: e.target.value })}
+                />
+                {categorySelect(newTerm.category, (category) => setNewTerm({ ...newTerm, category }))}
+                <Button
+                  variant="outline"
+                  disabled={!newTerm.value.trim()}
+                  onClick={() => {
+                    setDraft({
+                      ...draft,
+                      blockedTerms: [...draft.blockedTerms, { term: newTerm.value.trim(), category: newTerm.category }],
+                    });
+                    setNewTerm({ ...newTerm, value: "" });
+                  }}
+                >
+                  Add
+                </Button>
+              </div>
+            </Card>
+
+            <Card className="p-6 bg-white/50 backdrop-blur-sm border-blue-100/50">
+              <h3 className="text-lg font-semibold text-gray-800 mb-1">Patterns</h3>
+              <p className="text-sm text-gray-600 mb-4">Case-insensitive regular expressions.</p>
+              <div className="space-y-2 mb-4">
+                {draft.patterns.map((entry, index) => (
+                  <div key={`${entry.pattern}-${index}`} className="flex items-center gap-2 text-xs">
+                    <code className="flex-1 truncate rounded bg-slate-100 px-2 py-1">{entry.pattern}</code>
+                    <span className="text-gray-600">{CATEGORY_LABELS[entry.category]}</span>
+                    <X
+                      className="w-3 h-3 cursor-pointer"
+                      onClick={() =>
+                        setDraft({ ...draft, patterns: draft.patterns.filter((_, i) => i !== index) })
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Add pattern"
+                  value={newPattern.value}
+                  onChange={(e) => setNewPattern({ ...newPattern, value: e.target.value })}
+                />
+                {categorySelect(newPattern.category, (category) => setNewPattern({ ...newPattern, category }))}
+                <Button
+                  variant="outline"
+                  disabled={!newPattern.value}
+                  onClick={() => {
+                    setDraft({
+                      ...draft,
+                      patterns: [...draft.patterns, { pattern: newPattern.value, category: newPattern.category }],
+                    });
+                    setNewPattern({ ...newPattern, value: "" });
+                  }}
+                >
+                  Add
+                </Button>
+              </div>
+            </Card>
+          </div>
+
+          <Card className="p-6 bg-white/50 backdrop-blur-sm border-purple-100/50">
+            <h3 className="text-lg font-semibold text-gray-800 mb-1">Classifier</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              The LLM classifier blocks requests it scores at or above the threshold in an enabled category.
+            </p>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {CATEGORIES.map((category) => (
+                <Button
+                  key={category}
+                  size="sm"
+                  variant={draft.categories.includes(category) ? "default" : "outline"}
+                  onClick={() => toggleCategory(category)}
+                >
+                  {CATEGORY_LABELS[category]}
+                </Button>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-6 text-sm text-gray-600">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={draft.classifier.enabled}
+                  onChange={(e) =>
+                    setDraft({ ...draft, classifier: { ...draft.classifier, enabled: e.target.checked } })
+                  }
+                />
+                Enabled
+              </label>
+              <label className="flex items-center gap-2">
+                Threshold
+                <Input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step="0.05"
+                  className="w-24"
+                  value={draft.classifier.threshold}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      classifier: {
+                        ...draft.classifier,
+                        threshold: Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)),
+                      },
+                    })
+                  }
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={draft.classifier.failClosed}
+                  onChange={(e) =>
+                    setDraft({ ...draft, classifier: { ...draft.classifier, failClosed: e.target.checked } })
+                  }
+                />
+                Block when the classifier is unavailable
+              </label>
+            </div>
+          </Card>
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              disabled={updateMutation.isPending || !policyData}
+              onClick={() => policyData && setDraft(policyData.defaults)}
+            >
+              Load Defaults
+            </Button>
+            <Button disabled={updateMutation.isPending} onClick={() => updateMutation.mutate(draft)}>
+              Save Policy
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
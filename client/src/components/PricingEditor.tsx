@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import type { inferRouterOutputs } from "@trpc/server";
+import type { AppRouter } from "../../../server/routers";
+
+type PricingTable = inferRouterOutputs<AppRouter>["admin"]["getPricing"]["pricing"];
+
+const OPTION_LABELS: Record<keyof PricingTable["options"], string> = {
+  upscale: "Upscale",
+  postProduction: "Post-production",
+  extraFormat: "Extra format (each)",
+};
+
+const FIXED_LABELS: Record<keyof PricingTable["fixed"], string> = {
+  thumbnail: "Quick thumbnail",
+  chatThumbnail: "Chat thumbnail",
+  regionEdit: "Region edit",
+};
+
+/**
+ * Admin editor for the generation pricing table. Changes apply without a deploy.
+ */
+export function PricingEditor() {
+  const utils = trpc.useUtils();
+  const { data, isLoading } = trpc.admin.getPricing.useQuery();
+  const [draft, setDraft] = useState<PricingTable | null>(null);
+
+  useEffect(() => {
+    if (data) setDraft(data.pricing);
+  }, [data]);
+
+  const onSaved = () => {
+    toast.success("Pricing updated");
+    utils.admin.getPricing.invalidate();
+    utils.generation.quote.invalidate();
+    utils.generation.listModels.invalidate();
+  };
+
+  const updateMutation = trpc.admin.updatePricing.useMutation({
+    onSuccess: onSaved,
+    onError: (error) => toast.error(error.message),
+  });
+  const resetMutation = trpc.admin.resetPricing.useMutation({
+    onSuccess: onSaved,
+    onError: (error) => toast.error(error.message),
+  });
+
+  if (isLoading || !draft) {
+    return <p className="text-sm text-gray-600">Loading pricing...</p>;
+  }
+
+  const toCredits = (value: string) => Math.max(0, parseInt(value, 10) || 0);
+
+  const setModelCredits = (modelId: string, value: string) =>
+    setDraft({
+      ...draft,
+      models: { ...draft.models, [modelId]: { ...draft.models[modelId], credits: toCredits(value) } },
+    });
+
+  const setSizeCredits = (modelId: string, size: string, value: string) => {
+    const sizes = { ...draft.models[modelId].sizes };
+    if (value === "") {
+      delete sizes[size];
+    } else {
+      sizes[size] = toCredits(value);
+    }
+    setDraft({
+      ...draft,
+      models: { ...draft.models, [modelId]: { ...draft.models[modelId], sizes } },
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6 bg-white/50 backdrop-blur-sm border-blue-100/50">
+        <h3 className="text-lg font-semibold text-gray-800 mb-1">Model Prices</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Credits per generated image. Size overrides replace the base price for that resolution;
+          leave them empty to use the base price.
+        </p>
+        <div className="space-y-4">
+          {Object.entries(draft.models).map(([modelId, entry]) => (
+            <div key={modelId} className="border-b border-slate-200 pb-4">
+              <div className="flex items-center justify-between gap-4 mb-2">
+                <span className="font-medium text-gray-800">{modelId}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  className="w-28"
+                  value={entry.credits}
+                  onChange={(e) => setModelCredits(modelId, e.target.value)}
+                />
+              </div>
+              <div className="flex flex-wrap gap-3">
+                {Object.entries(entry.sizes ?? {}).map(([size, credits]) => (
+                  <label key={size} className="flex items-center gap-2 text-xs text-gray-600">
+                    {size}
+                    <Input
+                      type="number"
+                      min={0}
+                      className="w-20 h-8"
+                      value={credits}
+                      onChange={(e) => setSizeCredits(modelId, size, e.target.value)}
+                    />
+                  </label>
+                ))}
+                <Input
+                  placeholder="Add size, e.g. 1024x1024"
+                  className="w-48 h-8 text-xs"
+                  onKeyDown={(e) => {
+                    const size = e.currentTarget.value.trim();
+                    if (e.key === "Enter" && /^\d+x\d+$/.test(size)) {
+                      setSizeCredits(modelId, size, String(entry.credits));
+                      e.currentTarget.value = "";
+                    }
+                  }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Card className="p-6 bg-white/50 backdrop-blur-sm border-blue-100/50">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">Options</h3>
+          <div className="space-y-3">
+            {(Object.keys(OPTION_LABELS) as Array<keyof PricingTable["options"]>).map((key) => (
+              <div key={key} className="flex items-center justify-between">
+                <span className="text-sm text-gray-600">{OPTION_LABELS[key]}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  className="w-28"
+                  value={draft.options[key]}
+                  onChange={(e) =>
+                    setDraft({ ...draft, options: { ...draft.options, [key]: toCredits(e.target.value) } })
+                  }
+                />
+              </div>
+            ))}
+          </div>
+        </Card>
+
+        <Card className="p-6 bg-white/50 backdrop-blur-sm border-purple-100/50">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">Fixed Prices</h3>
+          <div className="space-y-3">
+            {(Object.keys(FIXED_LABELS) as Array<keyof PricingTable["fixed"]>).map((key) => (
+              <div key={key} className="flex items-center justify-between">
+                <span className="text-sm text-gray-600">{FIXED_LABELS[key]}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  className="w-28"
+                  value={draft.fixed[key]}
+                  onChange={(e) =>
+                    setDraft({ ...draft, fixed: { ...draft.fixed, [key]: toCredits(e.target.value) } })
+                  }
+                />
+              </div>
+            ))}
+          </div>
+        </Card>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          disabled={resetMutation.isPending}
+          onClick={() => resetMutation.mutate()}
+        >
+          Reset to Defaults
+        </Button>
+        <Button disabled={updateMutation.isPending} onClick={() => updateMutation.mutate(draft)}>
+          Save Pricing
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import type { inferRouterOutputs } from "@trpc/server";
+import type { AppRouter } from "../../../server/routers";
+
+type QualityReportData = inferRouterOutputs<AppRouter>["admin"]["getQualityReport"];
+type MetricName = keyof NonNullable<QualityReportData["overall"]>;
+
+const PERIODS = [
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+] as const;
+
+const METRICS: Array<{ name: MetricName; label: string; format: (value: number) => string }> = [
+  { name: "meanLuminance", label: "Mean luminance", format: (value) => value.toFixed(0) },
+  { name: "rmsContrast", label: "RMS contrast", format: (value) => value.toFixed(3) },
+  { name: "colorfulness", label: "Colorfulness", format: (value) => value.toFixed(1) },
+  { name: "laplacianVariance", label: "Sharpness (Laplacian var.)", format: (value) => value.toFixed(0) },
+  { name: "edgeDensity", label: "Edge density", format: (value) => `${(value * 100).toFixed(1)}%` },
+];
+
+/**
+ * Admin view of pixel quality metrics of delivered images: the overall
+ * distribution of each metric, its daily median and 10th-90th percentile
+ * band, and the average luminance histogram.
+ */
+export function QualityReport() {
+  const [days, setDays] = useState<number>(30);
+  const [startDate] = useState(() => new Date());
+  const { data: report, isLoading } = trpc.admin.getQualityReport.useQuery({
+    startDate: new Date(startDate.getTime() - days * 24 * 60 * 60 * 1000),
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-2">
+        {PERIODS.map((period) => (
+          <Button
+            key={period.days}
+            size="sm"
+            variant={days === period.days ? "default" : "outline"}
+            onClick={() => setDays(period.days)}
+          >
+            {period.label}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading || !report ? (
+        <p className="text-sm text-gray-600">Loading quality metrics...</p>
+      ) : !report.overall ? (
+        <p className="text-sm text-gray-600">No images were measured in this period.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            {METRICS.map((metric) => (
+              <Card key={metric.name} className="p-6 bg-white/50 backdrop-blur-sm border-blue-100/50">
+                <p className="text-sm text-gray-600">{metric.label}</p>
+                <p className="text-2xl font-bold text-gray-800">
+                  {metric.format(report.overall![metric.name].p50)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  p10 {metric.format(report.overall![metric.name].p10)} · p90{" "}
+                  {metric.format(report.overall![metric.name].p90)}
+                </p>
+              </Card>
+            ))}
+          </div>
+
+          <Card className="p-6 bg-white/50 backdrop-blur-sm border-blue-100/50">
+            <h3 className="text-lg font-semibold text-gray-800 mb-4">
+              Luminance Histogram ({report.count} images)
+            </h3>
+            <div className="flex items-end gap-px h-32">
+              {report.luminanceHistogram.map((share, bin) => (
+                <div
+                  key={bin}
+                  className="flex-1 bg-blue-400"
+                  style={{
+                    height: `${(share / Math.max(...report.luminanceHistogram)) * 100}%`,
+                  }}
+                  title={`${bin * 8}-${bin * 8 + 7}: ${(share * 100).toFixed(1)}%`}
+                />
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-gray-500 mt-1">
+              <span>Black</span>
+              <span>White</span>
+            </div>
+          </Card>
+
+          <Card className="p-6 bg-white/50 backdrop-blur-sm border-blue-100/50">
+            <h3 className="text-lg font-semibold text-gray-800 mb-4">Daily Distribution (median, p10–p90)</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-slate-200">
+                  <th className="py-2">Day</th>
+                  <th className="py-2">Images</th>
+                  {METRICS.map((metric) => (
+                    <th key={metric.name} className="py-2">
+                      {metric.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {report.days.map((day) => (
+                  <tr key={day.day} className="border-b border-slate-100">
+                    <td className="py-2">{day.day}</td>
+                    <td className="py-2">{day.count}</td>
+                    {METRICS.map((metric) => (
+                      <td key={metric.name} className="py-2">
+                        {metric.format(day.metrics[metric.name].p50)}
+                        <span className="text-xs text-gray-500">
+                          {" "}
+                          ({metric.format(day.metrics[metric.name].p10)}–
+                          {metric.format(day.metrics[metric.name].p90)})
+                        </span>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import {
   MoreVertical,
   CheckCircle,
   AlertCircle,
+  AlertTriangle,
   Clock,
 } from "lucide-react";
 
@@ -20,6 +21,8 @@ interface ThumbnailCardProps {
   status: "pending" | "generating" | "completed" | "failed";
   creditsUsed: number;
   createdAt: string;
+  // Feed-size legibility check from the server; a warning shows when it failed
+  legibility?: { passed: boolean; issues: string[]; recommendations: string[] } | null;
   isSelected?: boolean;
   onSelect?: () => void;
   onDownload?: () => void;
@@ -36,6 +39,7 @@ export function ThumbnailCard({
   status,
   creditsUsed,
   createdAt,
+  legibility,
   isSelected = false,
   onSelect,
   onDownload,
@@ -113,6 +117,15 @@ export function ThumbnailCard({
           </div>
         )}
         {getStatusIcon()}
+        {status === "completed" && legibility && !legibility.passed && (
+          <div
+            className="absolute top-2 left-2 flex items-center gap-1 rounded bg-yellow-500/90 px-1.5 py-0.5 text-[10px] font-medium text-black"
+            title={[...legibility.issues, ...legibility.recommendations].join("\n")}
+          >
+            <AlertTriangle className="w-3 h-3" />
+            Hard to read in feed
+          </div>
+        )}
       </div>
 
       {/* Content */}
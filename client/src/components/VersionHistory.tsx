@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { getErrorMessage } from "@/lib/errors";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { toast } from "sonner";
+import { GitCompare, History, RotateCcw } from "lucide-react";
+
+const SOURCE_LABELS: Record<string, string> = {
+  generation: "Generated",
+  regeneration: "Regenerated",
+  edit: "Edited",
+  "post-production": "Effects",
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
+
+/**
+ * Every version of a thumbnail: tick two to compare them side by side, or
+ * make an older one current again
+ */
+export function VersionHistory({ thumbnailId, onRestored }: { thumbnailId: string; onRestored?: () => void }) {
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const utils = trpc.useUtils();
+  const { data } = trpc.thumbnail.listVersions.useQuery({ thumbnailId });
+  const { data: comparison } = trpc.thumbnail.compareVersions.useQuery(
+    { thumbnailId, leftVersionId: compareIds[0] ?? "", rightVersionId: compareIds[1] ?? "" },
+    { enabled: compareIds.length === 2 }
+  );
+
+  const makeCurrentMutation = trpc.thumbnail.makeVersionCurrent.useMutation({
+    onSuccess: () => {
+      toast.success("Version restored");
+      utils.thumbnail.listVersions.invalidate({ thumbnailId });
+      onRestored?.();
+    },
+    onError: (error) => toast.error(getErrorMessage(error)),
+  });
+
+  const toggleCompare = (versionId: string) => {
+    setCompareIds((ids) =>
+      ids.includes(versionId) ? ids.filter((id) => id !== versionId) : [...ids, versionId].slice(-2)
+    );
+  };
+
+  const versions = data?.versions ?? [];
+
+  return (
+    <Card className="p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="flex items-center gap-2 font-semibold">
+          <History className="w-4 h-4" />
+          Version History
+        </h2>
+        {compareIds.length > 0 && (
+          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+            <GitCompare className="w-3 h-3" />
+            {compareIds.length}/2 selected to compare
+          </span>
+        )}
+      </div>
+
+      {versions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No earlier versions yet.</p>
+      ) : (
+        <div className="space-y-2 max-h-80 overflow-auto">
+          {versions.map((version) => {
+            const isCurrent = version.id === data?.currentVersionId;
+            return (
+              <div key={version.id} className="flex items-center gap-3 rounded-md border p-2">
+                <input
+                  type="checkbox"
+                  checked={compareIds.includes(version.id)}
+                  onChange={() => toggleCompare(version.id)}
+                  aria-label="Compare"
+                />
+                <img src={version.imageUrl} alt="" className="h-12 w-20 rounded object-cover" />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    {SOURCE_LABELS[version.source] ?? version.source}
+                    {isCurrent && <Badge>Current</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">{new Date(version.createdAt).toLocaleString()}</p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isCurrent || makeCurrentMutation.isPending}
+                  onClick={() => makeCurrentMutation.mutate({ thumbnailId, versionId: version.id })}
+                >
+                  <RotateCcw className="w-3 h-3 mr-1" />
+                  Use
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {compareIds.length === 2 && comparison && (
+        <div className="mt-4 space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            {[comparison.left, comparison.right].map((version) => (
+              <div key={version.id}>
+                <img src={version.imageUrl} alt="" className="w-full rounded border" />
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {SOURCE_LABELS[version.source] ?? version.source} · {new Date(version.createdAt).toLocaleString()}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">{comparison.differences.length} difference(s)</p>
+            <Button variant="outline" size="sm" onClick={() => setCompareIds([])}>
+              Clear
+            </Button>
+          </div>
+          {comparison.differences.map((difference) => (
+            <div key={difference.path} className="rounded border p-2">
+              <p className="font-mono text-xs">{difference.path}</p>
+              <div className="mt-1 grid grid-cols-2 gap-2">
+                <pre className="overflow-auto rounded bg-red-50 p-2 text-xs whitespace-pre-wrap">
+                  {formatValue(difference.left)}
+                </pre>
+                <pre className="overflow-auto rounded bg-green-50 p-2 text-xs whitespace-pre-wrap">
+                  {formatValue(difference.right)}
+                </pre>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
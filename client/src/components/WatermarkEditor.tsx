@@ -0,0 +1,194 @@
+import { useEffect, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { FONT_LIBRARY, type FontId } from "@shared/typography";
+import {
+  SUBSCRIPTION_PLANS,
+  WATERMARK_POSITIONS,
+  type WatermarkSettings,
+} from "@shared/watermark";
+
+const selectClassName = "h-9 rounded-md border border-slate-200 bg-white px-2 text-sm";
+
+/**
+ * Admin editor for the watermark on images delivered to chosen plans. Stored
+ * images stay clean, so changes apply to past thumbnails too.
+ */
+export function WatermarkEditor() {
+  const utils = trpc.useUtils();
+  const { data, isLoading } = trpc.admin.getWatermarkSettings.useQuery();
+  const [draft, setDraft] = useState<WatermarkSettings | null>(null);
+
+  useEffect(() => {
+    if (data) setDraft(data.settings);
+  }, [data]);
+
+  const updateMutation = trpc.admin.updateWatermarkSettings.useMutation({
+    onSuccess: () => {
+      toast.success("Watermark updated");
+      utils.admin.getWatermarkSettings.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  if (isLoading || !draft) {
+    return <p className="text-sm text-gray-600">Loading watermark...</p>;
+  }
+
+  const update = (changes: Partial<WatermarkSettings>) => setDraft({ ...draft, ...changes });
+
+  const togglePlan = (plan: WatermarkSettings["plans"][number]) =>
+    update({
+      plans: draft.plans.includes(plan) ? draft.plans.filter((entry) => entry !== plan) : [...draft.plans, plan],
+    });
+
+  const handleLogoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => update({ type: "logo", logoUrl: reader.result as string });
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6 bg-white/50 backdrop-blur-sm border-blue-100/50">
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-lg font-semibold text-gray-800">Watermark</h3>
+          <Switch checked={draft.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Added to images when they are delivered to the plans below. Stored images stay clean, so upgrading
+          removes the watermark from past thumbnails.
+        </p>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-4">
+            {SUBSCRIPTION_PLANS.map((plan) => (
+              <label key={plan} className="flex items-center gap-2 text-sm capitalize">
+                <input type="checkbox" checked={draft.plans.includes(plan)} onChange={() => togglePlan(plan)} />
+                {plan}
+              </label>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <select
+              className={selectClassName}
+              value={draft.type}
+              onChange={(e) => update({ type: e.target.value as WatermarkSettings["type"] })}
+            >
+              <option value="text">Text</option>
+              <option value="logo">Logo</option>
+            </select>
+            {draft.type === "text" ? (
+              <>
+                <Input
+                  value={draft.text}
+                  maxLength={60}
+                  onChange={(e) => update({ text: e.target.value })}
+                  className="max-w-xs"
+                />
+                <select
+                  className={selectClassName}
+                  value={draft.font}
+                  onChange={(e) => update({ font: e.target.value as FontId })}
+                >
+                  {(Object.keys(FONT_LIBRARY) as FontId[]).map((id) => (
+                    <option key={id} value={id}>
+                      {FONT_LIBRARY[id].family}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  type="color"
+                  value={draft.color.slice(0, 7)}
+                  onChange={(e) => update({ color: e.target.value })}
+                  className="h-9 w-14 p-1"
+                />
+              </>
+            ) : (
+              <>
+                {draft.logoUrl && <img src={draft.logoUrl} alt="" className="h-9 max-w-32 object-contain" />}
+                <Input type="file" accept="image/*" onChange={handleLogoUpload} className="max-w-xs" />
+              </>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <label className="text-sm text-gray-600">
+              Position
+              <select
+                className={`${selectClassName} mt-1 w-full`}
+                value={draft.position}
+                disabled={draft.tiled}
+                onChange={(e) => update({ position: e.target.value as WatermarkSettings["position"] })}
+              >
+                {WATERMARK_POSITIONS.map((position) => (
+                  <option key={position} value={position}>
+                    {position}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-600">
+              Size (% of width)
+              <Input
+                type="number"
+                min={5}
+                max={60}
+                value={Math.round(draft.size * 100)}
+                onChange={(e) => update({ size: Math.min(60, Math.max(5, Number(e.target.value) || 5)) / 100 })}
+                className="mt-1"
+              />
+            </label>
+            <label className="text-sm text-gray-600">
+              Opacity (%)
+              <Input
+                type="number"
+                min={5}
+                max={100}
+                value={Math.round(draft.opacity * 100)}
+                onChange={(e) =>
+                  update({ opacity: Math.min(100, Math.max(5, Number(e.target.value) || 5)) / 100 })
+                }
+                className="mt-1"
+              />
+            </label>
+            <label className="text-sm text-gray-600">
+              Tile angle (°)
+              <Input
+                type="number"
+                min={-90}
+                max={90}
+                value={draft.angle}
+                disabled={!draft.tiled}
+                onChange={(e) => update({ angle: Math.min(90, Math.max(-90, Number(e.target.value) || 0)) })}
+                className="mt-1"
+              />
+            </label>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <Switch checked={draft.tiled} onCheckedChange={(tiled) => update({ tiled })} />
+            Repeat across the whole image
+          </label>
+        </div>
+      </Card>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={() => data && setDraft(data.defaults)}>
+          Use Defaults
+        </Button>
+        <Button disabled={updateMutation.isPending} onClick={() => updateMutation.mutate(draft)}>
+          Save Watermark
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -104,6 +104,11 @@ export function getErrorMessage(error: unknown): string {
     // Check if it's a tRPC error
     if ("data" in error && typeof error.data === "object") {
       const data = error.data as any;
+      // Content policy blocks carry structured reasons
+      if (data?.moderation?.reasons?.length) {
+        const reasons = data.moderation.reasons.map((reason: any) => reason.explanation);
+        return `${error.message}: ${Array.from(new Set(reasons)).join("; ")}`;
+      }
       if (data.code) {
         return ErrorMessages[data.code] || error.message;
       }
@@ -0,0 +1,47 @@
+import { fontFamilyName, FONT_LIBRARY, type FontId } from "@shared/typography";
+import antonRegular from "@fontsource/anton/files/anton-latin-400-normal.woff2?url";
+import bangersRegular from "@fontsource/bangers/files/bangers-latin-400-normal.woff2?url";
+import bebasNeueRegular from "@fontsource/bebas-neue/files/bebas-neue-latin-400-normal.woff2?url";
+import montserratRegular from "@fontsource/montserrat/files/montserrat-latin-400-normal.woff2?url";
+import montserratBold from "@fontsource/montserrat/files/montserrat-latin-700-normal.woff2?url";
+import montserratExtraBold from "@fontsource/montserrat/files/montserrat-latin-800-normal.woff2?url";
+import montserratBlack from "@fontsource/montserrat/files/montserrat-latin-900-normal.woff2?url";
+import oswaldRegular from "@fontsource/oswald/files/oswald-latin-400-normal.woff2?url";
+import oswaldBold from "@fontsource/oswald/files/oswald-latin-700-normal.woff2?url";
+import robotoRegular from "@fontsource/roboto/files/roboto-latin-400-normal.woff2?url";
+import robotoBold from "@fontsource/roboto/files/roboto-latin-700-normal.woff2?url";
+import robotoBlack from "@fontsource/roboto/files/roboto-latin-900-normal.woff2?url";
+
+/**
+ * Bundled fonts for the editor canvas
+ * The same files the server renders with, under the same family names, so
+ * text on the canvas matches the saved thumbnail.
+ */
+
+const FONT_FILES: Record<FontId, Record<number, string>> = {
+  anton: { 400: antonRegular },
+  bangers: { 400: bangersRegular },
+  "bebas-neue": { 400: bebasNeueRegular },
+  montserrat: { 400: montserratRegular, 700: montserratBold, 800: montserratExtraBold, 900: montserratBlack },
+  oswald: { 400: oswaldRegular, 700: oswaldBold },
+  roboto: { 400: robotoRegular, 700: robotoBold, 900: robotoBlack },
+};
+
+let loading: Promise<void> | null = null;
+
+/**
+ * Load every bundled font into the document once
+ */
+export function loadBundledFonts(): Promise<void> {
+  loading ??= Promise.all(
+    (Object.keys(FONT_LIBRARY) as FontId[]).flatMap((id) =>
+      FONT_LIBRARY[id].weights.map(async (weight) => {
+        const face = new FontFace(fontFamilyName(id), `url(${FONT_FILES[id][weight]})`, {
+          weight: String(weight),
+        });
+        document.fonts.add(await face.load());
+      })
+    )
+  ).then(() => undefined);
+  return loading;
+}
@@ -17,10 +17,16 @@ import {
   Shield,
   Download,
   RefreshCw,
+  Activity,
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
+import { PricingEditor } from "@/components/PricingEditor";
+import { CostReport } from "@/components/CostReport";
+import { QualityReport } from "@/components/QualityReport";
+import { ModerationPanel } from "@/components/ModerationPanel";
+import { WatermarkEditor } from "@/components/WatermarkEditor";
 
 /**
  * Admin Dashboard Page
@@ -105,6 +111,10 @@ export default function AdminDashboard() {
             <h1 className="text-xl font-bold text-slate-900">Admin Dashboard</h1>
           </div>
           <div className="flex items-center gap-4">
+            <Button variant="outline" size="sm" onClick={() => navigate("/admin/traces")}>
+              <Activity className="w-4 h-4 mr-2" />
+              Traces
+            </Button>
             <span className="text-sm text-slate-600">{user?.name || "Admin"}</span>
             <Button
               variant="outline"
@@ -121,10 +131,15 @@ export default function AdminDashboard() {
       {/* Main Content */}
       <main className="container mx-auto px-4 py-8">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-8">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="users">Users</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
+            <TabsTrigger value="pricing">Pricing</TabsTrigger>
+            <TabsTrigger value="costs">Costs</TabsTrigger>
+            <TabsTrigger value="quality">Quality</TabsTrigger>
+            <TabsTrigger value="moderation">Moderation</TabsTrigger>
+            <TabsTrigger value="watermark">Watermark</TabsTrigger>
           </TabsList>
 
           {/* Overview Tab */}
@@ -397,6 +412,31 @@ export default function AdminDashboard() {
               </div>
             </Card>
           </TabsContent>
+
+          {/* Pricing Tab */}
+          <TabsContent value="pricing" className="space-y-6">
+            <PricingEditor />
+          </TabsContent>
+
+          {/* Costs Tab */}
+          <TabsContent value="costs" className="space-y-6">
+            <CostReport />
+          </TabsContent>
+
+          {/* Quality Tab */}
+          <TabsContent value="quality" className="space-y-6">
+            <QualityReport />
+          </TabsContent>
+
+          {/* Moderation Tab */}
+          <TabsContent value="moderation" className="space-y-6">
+            <ModerationPanel />
+          </TabsContent>
+
+          {/* Watermark Tab */}
+          <TabsContent value="watermark" className="space-y-6">
+            <WatermarkEditor />
+          </TabsContent>
         </Tabs>
       </main>
     </div>
@@ -0,0 +1,286 @@
+import { useAuth } from "@/_core/hooks/useAuth";
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, GitCompare, Search } from "lucide-react";
+import type { inferRouterOutputs } from "@trpc/server";
+import type { AppRouter } from "../../../server/routers";
+
+type GenerationTrace = inferRouterOutputs<AppRouter>["generation"]["getTrace"];
+
+const STATUSES = ["pending", "running", "completed", "failed"] as const;
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  completed: "default",
+  running: "secondary",
+  pending: "outline",
+  failed: "destructive",
+};
+
+function formatJson(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
+
+function formatDuration(ms?: number | null): string {
+  if (ms === undefined || ms === null) return "—";
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function JsonBlock({ label, value }: { label: string; value: unknown }) {
+  if (value === undefined || value === null) return null;
+  return (
+    <details className="mt-2">
+      <summary className="cursor-pointer text-xs font-medium text-slate-600">{label}</summary>
+      <pre className="mt-1 max-h-80 overflow-auto rounded bg-slate-900 p-3 text-xs text-slate-100 whitespace-pre-wrap">
+        {formatJson(value)}
+      </pre>
+    </details>
+  );
+}
+
+function TraceView({ trace }: { trace: GenerationTrace }) {
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+        <Badge variant={STATUS_VARIANTS[trace.status]}>{trace.status}</Badge>
+        <span>{trace.pipeline}</span>
+        <span>·</span>
+        <span>{trace.model}</span>
+        <span>·</span>
+        <span>{formatDuration(trace.totalDurationMs)}</span>
+        <span>·</span>
+        <span>{trace.attempts} attempt(s)</span>
+      </div>
+      <p className="text-sm text-slate-900">{trace.prompt}</p>
+      {trace.errorMessage && <p className="text-sm text-red-600">{trace.errorMessage}</p>}
+
+      {trace.steps.map((step) => (
+        <Card key={step.name} className="p-3">
+          <div className="flex items-center justify-between">
+            <span className="font-medium text-slate-900">{step.name}</span>
+            <div className="flex items-center gap-2 text-xs text-slate-600">
+              <span>{formatDuration(step.durationMs)}</span>
+              <Badge variant={STATUS_VARIANTS[step.status] ?? "outline"}>{step.status}</Badge>
+            </div>
+          </div>
+          {step.error && <p className="mt-1 text-xs text-red-600">{step.error}</p>}
+          <JsonBlock label="Input" value={step.input} />
+          {Object.entries(step.trace ?? {}).map(([key, value]) => (
+            <JsonBlock key={key} label={key} value={value} />
+          ))}
+          <JsonBlock label="Output" value={step.output} />
+        </Card>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Admin Trace Inspector
+ * Browse generation runs, inspect every step, and diff two runs
+ */
+export default function AdminTraces() {
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState("");
+  const [model, setModel] = useState("");
+  const [pipeline, setPipeline] = useState("");
+  const [createdFrom, setCreatedFrom] = useState("");
+  const [createdTo, setCreatedTo] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (user && user.role !== "admin") {
+      navigate("/dashboard");
+    }
+  }, [user, navigate]);
+
+  const isAdmin = user?.role === "admin";
+  const { data: models } = trpc.generation.listModels.useQuery(undefined, { enabled: isAdmin });
+  const { data: pipelines } = trpc.admin.getPipelines.useQuery(undefined, { enabled: isAdmin });
+  const { data: traces, isLoading } = trpc.generation.listTraces.useQuery(
+    {
+      search: search || undefined,
+      status: (status || undefined) as (typeof STATUSES)[number] | undefined,
+      model: model || undefined,
+      pipeline: pipeline || undefined,
+      createdFrom: createdFrom ? new Date(createdFrom) : undefined,
+      createdTo: createdTo ? new Date(`${createdTo}T23:59:59`) : undefined,
+    },
+    { enabled: isAdmin }
+  );
+  const { data: selectedTrace } = trpc.generation.getTrace.useQuery(
+    { jobId: selectedId ?? "" },
+    { enabled: isAdmin && !!selectedId }
+  );
+  const { data: diff } = trpc.generation.diffTraces.useQuery(
+    { leftJobId: compareIds[0] ?? "", rightJobId: compareIds[1] ?? "" },
+    { enabled: isAdmin && compareIds.length === 2 }
+  );
+
+  const toggleCompare = (jobId: string) => {
+    setCompareIds((ids) =>
+      ids.includes(jobId) ? ids.filter((id) => id !== jobId) : [...ids, jobId].slice(-2)
+    );
+  };
+
+  if (!user || user.role !== "admin") {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-800 mb-4">Access Denied</h1>
+          <p className="text-gray-600 mb-6">You don't have permission to access this page.</p>
+          <Button onClick={() => navigate("/dashboard")}>Go to Dashboard</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const selectClass = "h-9 rounded-md border border-slate-200 bg-white px-2 text-sm";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+      <header className="sticky top-0 z-50 border-b border-slate-200 bg-white/80 backdrop-blur-md">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-3">
+          <Button variant="ghost" size="sm" onClick={() => navigate("/admin")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Admin
+          </Button>
+          <h1 className="text-xl font-bold text-slate-900">Generation Traces</h1>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        <Card className="p-4">
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-6">
+            <div className="relative md:col-span-2">
+              <Search className="absolute left-3 top-2.5 w-4 h-4 text-slate-400" />
+              <Input
+                placeholder="Search prompts..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <select className={selectClass} value={status} onChange={(e) => setStatus(e.target.value)}>
+              <option value="">All statuses</option>
+              {STATUSES.map((value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+            <select className={selectClass} value={model} onChange={(e) => setModel(e.target.value)}>
+              <option value="">All models</option>
+              {models?.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.name}
+                </option>
+              ))}
+            </select>
+            <select className={selectClass} value={pipeline} onChange={(e) => setPipeline(e.target.value)}>
+              <option value="">All pipelines</option>
+              {pipelines?.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.name}
+                </option>
+              ))}
+            </select>
+            <div className="flex gap-2">
+              <Input type="date" value={createdFrom} onChange={(e) => setCreatedFrom(e.target.value)} />
+              <Input type="date" value={createdTo} onChange={(e) => setCreatedTo(e.target.value)} />
+            </div>
+          </div>
+        </Card>
+
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+          <Card className="p-4">
+            <div className="mb-3 flex items-center justify-between">
+              <h2 className="font-semibold text-slate-900">Runs</h2>
+              <span className="flex items-center gap-1 text-xs text-slate-600">
+                <GitCompare className="w-3 h-3" />
+                {compareIds.length}/2 selected to compare
+              </span>
+            </div>
+            {isLoading ? (
+              <p className="text-sm text-slate-600">Loading traces...</p>
+            ) : !traces?.length ? (
+              <p className="text-sm text-slate-600">No runs match these filters.</p>
+            ) : (
+              <div className="divide-y divide-slate-100">
+                {traces.map((trace) => (
+                  <div
+                    key={trace.id}
+                    className={`flex items-start gap-3 py-2 cursor-pointer ${
+                      selectedId === trace.id ? "bg-blue-50" : ""
+                    }`}
+                    onClick={() => setSelectedId(trace.id)}
+                  >
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={compareIds.includes(trace.id)}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={() => toggleCompare(trace.id)}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm text-slate-900">{trace.prompt}</p>
+                      <p className="text-xs text-slate-500">
+                        {new Date(trace.createdAt).toLocaleString()} · {trace.pipeline} · {trace.model} ·{" "}
+                        {formatDuration(trace.totalDurationMs)}
+                        {trace.failedStep && ` · failed at ${trace.failedStep}`}
+                      </p>
+                    </div>
+                    <Badge variant={STATUS_VARIANTS[trace.status]}>{trace.status}</Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+
+          <Card className="p-4">
+            {compareIds.length === 2 && diff ? (
+              <>
+                <div className="mb-3 flex items-center justify-between">
+                  <h2 className="font-semibold text-slate-900">
+                    {diff.differences.length} difference(s)
+                  </h2>
+                  <Button variant="outline" size="sm" onClick={() => setCompareIds([])}>
+                    Clear
+                  </Button>
+                </div>
+                <div className="space-y-2">
+                  {diff.differences.map((difference) => (
+                    <div key={difference.path} className="rounded border border-slate-200 p-2">
+                      <p className="font-mono text-xs text-slate-700">{difference.path}</p>
+                      <div className="mt-1 grid grid-cols-2 gap-2">
+                        <pre className="overflow-auto rounded bg-red-50 p-2 text-xs whitespace-pre-wrap">
+                          {formatJson(difference.left) ?? "—"}
+                        </pre>
+                        <pre className="overflow-auto rounded bg-green-50 p-2 text-xs whitespace-pre-wrap">
+                          {formatJson(difference.right) ?? "—"}
+                        </pre>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            ) : selectedTrace ? (
+              <TraceView trace={selectedTrace} />
+            ) : (
+              <p className="text-sm text-slate-600">
+                Select a run to inspect it, or tick two runs to compare them.
+              </p>
+            )}
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
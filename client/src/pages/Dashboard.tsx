@@ -24,6 +24,7 @@ import { toast } from "sonner";
 import { ModelSelector } from "@/components/ModelSelector";
 import { AdvancedSettings } from "@/components/AdvancedSettings";
 import { useAuth } from "@/_core/hooks/useAuth";
+import { getErrorMessage } from "@/lib/errors";
 
 interface Message {
   id: string;
@@ -52,41 +53,19 @@ export default function Dashboard() {
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
   const [showModelSelector, setShowModelSelector] = useState(false);
   const [showAdvancedSettings, setShowAdvancedSettings] = useState(false);
-  const [selectedModel, setSelectedModel] = useState("open-routix-v1");
+  const [selectedModel, setSelectedModel] = useState("dall-e-3");
   const [generationSettings, setGenerationSettings] = useState({
     quality: "standard" as "draft" | "standard" | "premium",
     style: "Professional",
     size: "1280x720",
+    brandKitId: null as string | null,
+    overlayText: "",
   });
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const aiModels = [
-    {
-      id: "open-routix-v1",
-      name: "Open Routix v1",
-      description: "Fast thumbnail generation with OpenAI DALL-E",
-      provider: "OpenAI",
-      quality: "standard" as const,
-      costPerGeneration: 1,
-    },
-    {
-      id: "open-routix-v2",
-      name: "Open Routix v2",
-      description: "High-quality face generation with realistic rendering",
-      provider: "OpenAI",
-      quality: "premium" as const,
-      costPerGeneration: 2,
-    },
-    {
-      id: "gemini-vision",
-      name: "Gemini Vision",
-      description: "Advanced vision analysis with Google Gemini",
-      provider: "Google",
-      quality: "standard" as const,
-      costPerGeneration: 1,
-    },
-  ];
+  // Image models come from the server-side provider registry
+  const { data: aiModels = [] } = trpc.generation.listModels.useQuery();
 
   // Fetch conversations
   const { data: conversationsList } = trpc.conversation.list.useQuery();
@@ -111,7 +90,7 @@ export default function Dashboard() {
       setIsLoading(false);
     },
     onError: (error) => {
-      toast.error(error.message);
+      toast.error(getErrorMessage(error));
       setIsLoading(false);
     },
   });
@@ -151,6 +130,12 @@ export default function Dashboard() {
     sendMessageMutation.mutate({
       conversationId: currentConversationId,
       message: inputValue,
+      model: selectedModel,
+      brandKitId: generationSettings.brandKitId ?? undefined,
+      overlayText:
+        generationSettings.brandKitId && generationSettings.overlayText.trim()
+          ? generationSettings.overlayText
+          : undefined,
     });
   };
 
@@ -299,7 +284,7 @@ export default function Dashboard() {
               onClick={() => setShowModelSelector(true)}
               className="text-xs"
             >
-              Model: {aiModels.find((m) => m.id === selectedModel)?.name}
+              Model: {aiModels.find((m) => m.id === selectedModel)?.name ?? selectedModel}
             </Button>
             <Button
               variant="outline"
@@ -493,6 +478,14 @@ export default function Dashboard() {
           onSizeChange={(s) =>
             setGenerationSettings({ ...generationSettings, size: s })
           }
+          brandKitId={generationSettings.brandKitId}
+          overlayText={generationSettings.overlayText}
+          onBrandKitChange={(brandKitId) =>
+            setGenerationSettings({ ...generationSettings, brandKitId })
+          }
+          onOverlayTextChange={(overlayText) =>
+            setGenerationSettings({ ...generationSettings, overlayText })
+          }
           onClose={() => setShowAdvancedSettings(false)}
         />
       )}
@@ -9,6 +9,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
 import { trpc } from "@/lib/trpc";
 import { useAuth } from "@/_core/hooks/useAuth";
+import { BrandKitManager } from "@/components/BrandKitManager";
 
 /**
  * User Settings Page
@@ -123,8 +124,9 @@ export default function Settings() {
       {/* Settings Content */}
       <div className="max-w-4xl mx-auto px-4 py-8">
         <Tabs defaultValue="account" className="w-full">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="account">Account</TabsTrigger>
+            <TabsTrigger value="brand">Brand Kits</TabsTrigger>
             <TabsTrigger value="notifications">Notifications</TabsTrigger>
             <TabsTrigger value="api">API Keys</TabsTrigger>
             <TabsTrigger value="billing">Billing</TabsTrigger>
@@ -242,6 +244,11 @@ export default function Settings() {
             </Card>
           </TabsContent>
 
+          {/* Brand Kits */}
+          <TabsContent value="brand" className="space-y-6">
+            <BrandKitManager />
+          </TabsContent>
+
           {/* API Keys */}
           <TabsContent value="api" className="space-y-6">
             <Card className="p-6">
@@ -5,11 +5,44 @@ import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { trpc } from "@/lib/trpc";
 import { useAuth } from "@/_core/hooks/useAuth";
-import { ArrowLeft, Download, RotateCcw, Save } from "lucide-react";
+import { getErrorMessage } from "@/lib/errors";
+import { loadBundledFonts } from "@/lib/fonts";
+import { VersionHistory } from "@/components/VersionHistory";
+import { toast } from "sonner";
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  Download,
+  Eraser,
+  Eye,
+  EyeOff,
+  ImagePlus,
+  RotateCcw,
+  Save,
+  Shapes,
+  Trash2,
+  Type,
+  Wand2,
+} from "lucide-react";
+import { FONT_LIBRARY, type FontId } from "@shared/typography";
+import {
+  BLEND_MODES,
+  drawThumbnailProject,
+  projectImageSources,
+  projectLayerSchema,
+  type BlendMode,
+  type ProjectLayer,
+  type ProjectLayerInput,
+  type ThumbnailProject,
+} from "@shared/thumbnailProject";
+import { drawWatermark } from "@shared/watermark";
 
 /**
  * Advanced Thumbnail Editor
@@ -22,112 +55,398 @@ interface EditorState {
   saturation: number;
   hue: number;
   blur: number;
-  textOverlay: string;
-  textColor: string;
-  textSize: number;
-  textPosition: "top" | "center" | "bottom";
   backgroundColor: string;
   borderRadius: number;
   scale: number;
 }
 
+type PostProductionOptions = Record<string, boolean | number | undefined>;
+
+// Server-side effects; each toggle re-renders from the original image
+const POST_PRODUCTION_EFFECTS = [
+  { key: "adjustBrightness", label: "Brightness" },
+  { key: "enhanceContrast", label: "Contrast" },
+  { key: "saturateColors", label: "Saturation" },
+  { key: "sharpenImage", label: "Sharpen" },
+  { key: "applyGrain", label: "Film grain" },
+  { key: "applyVignette", label: "Vignette" },
+] as const;
+
+const DEFAULT_EDITOR_STATE: EditorState = {
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  hue: 0,
+  blur: 0,
+  backgroundColor: "transparent",
+  borderRadius: 0,
+  scale: 100,
+};
+
+const DROP_SHADOW = { color: "#000000aa", blur: 12, offsetX: 4, offsetY: 4 };
+
+type Transform = ProjectLayer["transform"];
+
+// Whether a point in project pixels falls inside a layer's rotated box
+function hitsLayer(layer: ProjectLayer, x: number, y: number): boolean {
+  const { x: left, y: top, width, height, rotation } = layer.transform;
+  const radians = (-rotation * Math.PI) / 180;
+  const dx = x - (left + width / 2);
+  const dy = y - (top + height / 2);
+  const localX = dx * Math.cos(radians) - dy * Math.sin(radians);
+  const localY = dx * Math.sin(radians) + dy * Math.cos(radians);
+  return Math.abs(localX) <= width / 2 && Math.abs(localY) <= height / 2;
+}
+
 export default function ThumbnailEditor() {
   const [location, setLocation] = useLocation();
   const thumbnailId = location.split("/").pop() || "";
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [originalImage, setOriginalImage] = useState<HTMLImageElement | null>(null);
-  const [editorState, setEditorState] = useState<EditorState>({
-    brightness: 100,
-    contrast: 100,
-    saturation: 100,
-    hue: 0,
-    blur: 0,
-    textOverlay: "",
-    textColor: "#FFFFFF",
-    textSize: 48,
-    textPosition: "center",
-    backgroundColor: "transparent",
-    borderRadius: 0,
-    scale: 100,
-  });
+  // Brush strokes marking the area to regenerate; painted pixels are edited
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+  const isPaintingRef = useRef(false);
+  const [activeTab, setActiveTab] = useState("filters");
+  const [brushSize, setBrushSize] = useState(40);
+  const [regionInstruction, setRegionInstruction] = useState("");
+  const [hasMask, setHasMask] = useState(false);
+  const [editorState, setEditorState] = useState<EditorState>(DEFAULT_EDITOR_STATE);
+  // The layered project being edited; saved to the server on demand
+  const [project, setProject] = useState<ThumbnailProject | null>(null);
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const [images, setImages] = useState<Map<string, HTMLImageElement>>(new Map());
+  const [fontsReady, setFontsReady] = useState(false);
+  const dragRef = useRef<{ id: string; pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const imageLayerTypeRef = useRef<"subject" | "sticker">("sticker");
 
+  const utils = trpc.useUtils();
   const { data: thumbnail } = trpc.thumbnail.get.useQuery({
     thumbnailId: thumbnailId,
   });
+  const { data: savedProject } = trpc.thumbnail.getProject.useQuery(
+    { thumbnailId },
+    { enabled: thumbnail?.status === "completed" }
+  );
+  // The background already carries the plan's watermark; exports stamp it over the other layers too
+  const { data: watermark } = trpc.user.getWatermark.useQuery();
+
+  // Edits and effect changes re-render the project on the server and add a version
+  const refreshThumbnail = () => {
+    utils.thumbnail.get.invalidate({ thumbnailId });
+    utils.thumbnail.getProject.invalidate({ thumbnailId });
+    utils.thumbnail.listVersions.invalidate({ thumbnailId });
+  };
+
+  const editRegionMutation = trpc.thumbnail.editRegion.useMutation({
+    onSuccess: () => {
+      toast.success("Region updated");
+      clearMask();
+      setRegionInstruction("");
+      refreshThumbnail();
+    },
+    onError: (error) => toast.error(getErrorMessage(error)),
+  });
+
+  const saveProjectMutation = trpc.thumbnail.saveProject.useMutation({
+    onSuccess: () => {
+      toast.success("Layers saved");
+      refreshThumbnail();
+    },
+    onError: (error) => toast.error(getErrorMessage(error)),
+  });
+
+  const postProduction: PostProductionOptions | null = thumbnail?.postProduction
+    ? JSON.parse(thumbnail.postProduction)
+    : null;
+
+  const setPostProductionMutation = trpc.thumbnail.setPostProduction.useMutation({
+    onSuccess: refreshThumbnail,
+    onError: (error) => toast.error(getErrorMessage(error)),
+  });
+
+  const toggleEffect = (key: string, enabled: boolean) => {
+    if (!postProduction) return;
+    setPostProductionMutation.mutate({
+      thumbnailId,
+      options: { ...postProduction, [key]: enabled },
+    });
+  };
 
-  // Load image
   useEffect(() => {
-    if (!thumbnail?.imageUrl) return;
+    if (savedProject) setProject(savedProject.project);
+  }, [savedProject]);
 
-    const img = new Image();
-    img.crossOrigin = "anonymous";
-    img.onload = () => {
-      setOriginalImage(img);
-      redrawCanvas(img, editorState);
-    };
-    img.src = thumbnail.imageUrl;
-  }, [thumbnail?.imageUrl]);
+  useEffect(() => {
+    loadBundledFonts()
+      .then(() => setFontsReady(true))
+      .catch((error) => toast.error(`Could not load fonts: ${getErrorMessage(error)}`));
+  }, []);
+
+  // Load layer images and the watermark logo that are not loaded yet
+  useEffect(() => {
+    if (!project) return;
+    const sources = projectImageSources(project);
+    if (watermark?.type === "logo" && watermark.logoUrl) sources.push(watermark.logoUrl);
+    for (const src of sources) {
+      if (images.has(src)) continue;
+      const img = new Image();
+      img.crossOrigin = "anonymous";
+      img.onload = () => setImages((loaded) => new Map(loaded).set(src, img));
+      img.src = src;
+    }
+  }, [project, watermark]);
+
+  useEffect(() => {
+    redrawCanvas();
+  }, [project, images, fontsReady, editorState]);
 
-  // Redraw canvas with current editor state
-  const redrawCanvas = (img: HTMLImageElement, state: EditorState) => {
+  // Redraw canvas with the project and current editor state
+  const redrawCanvas = () => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (!canvas || !project) return;
 
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
 
     // Set canvas size
-    canvas.width = img.width;
-    canvas.height = img.height;
+    canvas.width = project.width;
+    canvas.height = project.height;
+    const maskCanvas = maskCanvasRef.current;
+    if (maskCanvas && (maskCanvas.width !== project.width || maskCanvas.height !== project.height)) {
+      maskCanvas.width = project.width;
+      maskCanvas.height = project.height;
+      setHasMask(false);
+    }
+
+    // Layers draw exactly as the server renders them; the filters below only
+    // adjust the preview and downloads
+    const layers = document.createElement("canvas");
+    layers.width = project.width;
+    layers.height = project.height;
+    const layersCtx = layers.getContext("2d");
+    if (!layersCtx) return;
+    drawThumbnailProject(layersCtx, project, images);
 
     // Apply filters
     const filterString = `
-      brightness(${state.brightness}%)
-      contrast(${state.contrast}%)
-      saturate(${state.saturation}%)
-      hue-rotate(${state.hue}deg)
-      blur(${state.blur}px)
+      brightness(${editorState.brightness}%)
+      contrast(${editorState.contrast}%)
+      saturate(${editorState.saturation}%)
+      hue-rotate(${editorState.hue}deg)
+      blur(${editorState.blur}px)
     `;
 
     ctx.filter = filterString;
-    ctx.drawImage(img, 0, 0);
-
-    // Reset filter for text
+    ctx.drawImage(layers, 0, 0);
     ctx.filter = "none";
-
-    // Draw text overlay if provided
-    if (state.textOverlay) {
-      const textY =
-        state.textPosition === "top"
-          ? 60
-          : state.textPosition === "bottom"
-            ? canvas.height - 40
-            : canvas.height / 2;
-
-      ctx.font = `bold ${state.textSize}px Arial`;
-      ctx.fillStyle = state.textColor;
-      ctx.textAlign = "center";
-      ctx.shadowColor = "rgba(0, 0, 0, 0.5)";
-      ctx.shadowBlur = 10;
-      ctx.shadowOffsetX = 2;
-      ctx.shadowOffsetY = 2;
-
-      ctx.fillText(state.textOverlay, canvas.width / 2, textY);
-    }
   };
 
   // Handle editor state changes
   const handleStateChange = (newState: Partial<EditorState>) => {
-    const updated = { ...editorState, ...newState };
-    setEditorState(updated);
-    if (originalImage) {
-      redrawCanvas(originalImage, updated);
-    }
+    setEditorState({ ...editorState, ...newState });
+  };
+
+  const selectedLayer = project?.layers.find((layer) => layer.id === selectedLayerId) ?? null;
+
+  const updateLayer = (id: string, changes: Partial<ProjectLayerInput>) => {
+    setProject((current) =>
+      current && {
+        ...current,
+        layers: current.layers.map((layer) =>
+          layer.id === id ? projectLayerSchema.parse({ ...layer, ...changes }) : layer
+        ),
+      }
+    );
+  };
+
+  const updateTransform = (id: string, changes: Partial<Transform>) => {
+    const layer = project?.layers.find((candidate) => candidate.id === id);
+    if (layer) updateLayer(id, { transform: { ...layer.transform, ...changes } });
+  };
+
+  const newLayerId = (type: ProjectLayer["type"]) => `${type}-${crypto.randomUUID().slice(0, 8)}`;
+
+  const addLayer = (layer: ProjectLayerInput) => {
+    const created = projectLayerSchema.parse(layer);
+    setProject((current) => current && { ...current, layers: [...current.layers, created] });
+    setSelectedLayerId(created.id);
+  };
+
+  const addTextLayer = () => {
+    if (!project) return;
+    addLayer({
+      id: newLayerId("text"),
+      type: "text",
+      name: "Text",
+      text: "YOUR TEXT",
+      font: "anton",
+      uppercase: true,
+      stroke: { color: "#000000", width: Math.max(2, Math.round(project.height / 120)) },
+      effects: { shadow: DROP_SHADOW },
+      transform: {
+        x: project.width * 0.08,
+        y: project.height * 0.08,
+        width: project.width * 0.6,
+        height: project.height * 0.3,
+      },
+    });
+  };
+
+  const addShapeLayer = (shape: "rectangle" | "ellipse" | "arrow") => {
+    if (!project) return;
+    const size = Math.round(Math.min(project.width, project.height) * 0.3);
+    addLayer({
+      id: newLayerId("shape"),
+      type: "shape",
+      name: shape[0].toUpperCase() + shape.slice(1),
+      shape,
+      fill: shape === "ellipse" ? undefined : "#ef4444",
+      stroke: shape === "ellipse" ? { color: "#ef4444", width: Math.max(4, Math.round(size / 20)) } : undefined,
+      transform: {
+        x: (project.width - size) / 2,
+        y: (project.height - size / (shape === "arrow" ? 2 : 1)) / 2,
+        width: size,
+        height: shape === "arrow" ? size / 2 : size,
+      },
+    });
+  };
+
+  // Subjects and stickers start at up to 40% of the canvas, centered
+  const handleLayerImageUpload = (e: React.ChangeEvent<HTMLInputElement>, type: "subject" | "sticker") => {
+    const file = e.currentTarget.files?.[0];
+    e.currentTarget.value = "";
+    if (!file || !project) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const src = event.target?.result as string;
+      const img = new Image();
+      img.onload = () => {
+        const scale = Math.min((project.width * 0.4) / img.width, (project.height * 0.4) / img.height, 1);
+        const width = Math.round(img.width * scale);
+        const height = Math.round(img.height * scale);
+        setImages((loaded) => new Map(loaded).set(src, img));
+        addLayer({
+          id: newLayerId(type),
+          type,
+          name: file.name,
+          src,
+          transform: { x: (project.width - width) / 2, y: (project.height - height) / 2, width, height },
+        });
+      };
+      img.src = src;
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const moveLayer = (id: string, direction: 1 | -1) => {
+    setProject((current) => {
+      if (!current) return current;
+      const index = current.layers.findIndex((layer) => layer.id === id);
+      const target = index + direction;
+      if (index === -1 || target < 0 || target >= current.layers.length) return current;
+      const layers = [...current.layers];
+      [layers[index], layers[target]] = [layers[target], layers[index]];
+      return { ...current, layers };
+    });
+  };
+
+  const removeLayer = (id: string) => {
+    setProject((current) => current && { ...current, layers: current.layers.filter((layer) => layer.id !== id) });
+    if (selectedLayerId === id) setSelectedLayerId(null);
+  };
+
+  // Pointer position in project pixels
+  const toProjectPoint = (e: React.PointerEvent) => {
+    const canvas = canvasRef.current;
+    if (!canvas || !project) return null;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * project.width,
+      y: ((e.clientY - rect.top) / rect.height) * project.height,
+    };
+  };
+
+  // Select the topmost layer under the pointer and drag it
+  const handleLayerPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (activeTab !== "layers" || !project) return;
+    const point = toProjectPoint(e);
+    if (!point) return;
+    const layer = [...project.layers]
+      .reverse()
+      .find((candidate) => candidate.visible && candidate.type !== "background" && hitsLayer(candidate, point.x, point.y));
+    setSelectedLayerId(layer?.id ?? null);
+    if (!layer) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      id: layer.id,
+      pointerX: point.x,
+      pointerY: point.y,
+      x: layer.transform.x,
+      y: layer.transform.y,
+    };
+  };
+
+  const handleLayerPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const point = drag && toProjectPoint(e);
+    if (!drag || !point) return;
+    updateTransform(drag.id, {
+      x: Math.round(drag.x + point.x - drag.pointerX),
+      y: Math.round(drag.y + point.y - drag.pointerY),
+    });
+  };
+
+  // Paint the region mask in image coordinates
+  const paintMask = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = maskCanvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const scale = canvas.width / rect.width;
+    ctx.fillStyle = "rgba(239, 68, 68, 0.5)";
+    ctx.beginPath();
+    ctx.arc((e.clientX - rect.left) * scale, (e.clientY - rect.top) * scale, (brushSize / 2) * scale, 0, Math.PI * 2);
+    ctx.fill();
+    setHasMask(true);
+  };
+
+  const clearMask = () => {
+    const canvas = maskCanvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  const handleEditRegion = () => {
+    const canvas = maskCanvasRef.current;
+    if (!canvas || !hasMask) return;
+    editRegionMutation.mutate({
+      thumbnailId,
+      mask: { type: "brush", dataUrl: canvas.toDataURL("image/png") },
+      instruction: regionInstruction,
+    });
+  };
+
+  // The canvas to export: the editor canvas, stamped when the plan carries a watermark
+  const getExportCanvas = (): HTMLCanvasElement | null => {
+    const canvas = canvasRef.current;
+    if (!canvas || !watermark) return canvas;
+
+    const stamped = document.createElement("canvas");
+    stamped.width = canvas.width;
+    stamped.height = canvas.height;
+    const ctx = stamped.getContext("2d");
+    if (!ctx) return null;
+    ctx.drawImage(canvas, 0, 0);
+    const logo = watermark.logoUrl ? images.get(watermark.logoUrl) : undefined;
+    drawWatermark(ctx, watermark, stamped.width, stamped.height, logo);
+    return stamped;
   };
 
   // Download edited image
   const handleDownload = () => {
-    const canvas = canvasRef.current;
+    const canvas = getExportCanvas();
     if (!canvas) return;
 
     const link = document.createElement("a");
@@ -138,7 +457,7 @@ export default function ThumbnailEditor() {
 
   // Export as different formats
   const handleExport = (format: "png" | "jpg" | "webp") => {
-    const canvas = canvasRef.current;
+    const canvas = getExportCanvas();
     if (!canvas) return;
 
     const mimeType = {
@@ -153,25 +472,11 @@ export default function ThumbnailEditor() {
     link.click();
   };
 
-  // Reset to original
+  // Reset to original: default filters and the last saved layers
   const handleReset = () => {
-    setEditorState({
-      brightness: 100,
-      contrast: 100,
-      saturation: 100,
-      hue: 0,
-      blur: 0,
-      textOverlay: "",
-      textColor: "#FFFFFF",
-      textSize: 48,
-      textPosition: "center",
-      backgroundColor: "transparent",
-      borderRadius: 0,
-      scale: 100,
-    });
-    if (originalImage) {
-      redrawCanvas(originalImage, editorState);
-    }
+    setEditorState(DEFAULT_EDITOR_STATE);
+    if (savedProject) setProject(savedProject.project);
+    setSelectedLayerId(null);
   };
 
   if (!thumbnail) {
@@ -202,7 +507,37 @@ export default function ThumbnailEditor() {
           <div className="lg:col-span-2">
             <Card className="p-4">
               <div className="bg-muted rounded-lg overflow-auto flex items-center justify-center" style={{ height: "500px" }}>
-                <canvas ref={canvasRef} className="max-w-full max-h-full" />
+                <div
+                  className={`relative inline-block max-w-full max-h-full ${activeTab === "layers" ? "cursor-move touch-none" : ""}`}
+                  onPointerDown={handleLayerPointerDown}
+                  onPointerMove={handleLayerPointerMove}
+                  onPointerUp={() => (dragRef.current = null)}
+                >
+                  <canvas ref={canvasRef} className="max-w-full max-h-full block" />
+                  {activeTab === "layers" && project && selectedLayer && selectedLayer.type !== "background" && (
+                    <div
+                      className="absolute border-2 border-primary pointer-events-none"
+                      style={{
+                        left: `${(selectedLayer.transform.x / project.width) * 100}%`,
+                        top: `${(selectedLayer.transform.y / project.height) * 100}%`,
+                        width: `${(selectedLayer.transform.width / project.width) * 100}%`,
+                        height: `${(selectedLayer.transform.height / project.height) * 100}%`,
+                        transform: `rotate(${selectedLayer.transform.rotation}deg)`,
+                      }}
+                    />
+                  )}
+                  <canvas
+                    ref={maskCanvasRef}
+                    className={`absolute inset-0 w-full h-full ${activeTab === "region" ? "cursor-crosshair" : "pointer-events-none"}`}
+                    onPointerDown={(e) => {
+                      isPaintingRef.current = true;
+                      paintMask(e);
+                    }}
+                    onPointerMove={(e) => isPaintingRef.current && paintMask(e)}
+                    onPointerUp={() => (isPaintingRef.current = false)}
+                    onPointerLeave={() => (isPaintingRef.current = false)}
+                  />
+                </div>
               </div>
               <div className="mt-4 flex gap-2">
                 <Button onClick={handleDownload} className="flex-1">
@@ -221,11 +556,13 @@ export default function ThumbnailEditor() {
           {/* Editor Controls */}
           <div>
             <Card className="p-4">
-              <Tabs defaultValue="filters" className="w-full">
-                <TabsList className="grid w-full grid-cols-3">
+              <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+                <TabsList className="grid w-full grid-cols-5">
                   <TabsTrigger value="filters">Filters</TabsTrigger>
-                  <TabsTrigger value="text">Text</TabsTrigger>
+                  <TabsTrigger value="effects">Effects</TabsTrigger>
+                  <TabsTrigger value="layers">Layers</TabsTrigger>
                   <TabsTrigger value="style">Style</TabsTrigger>
+                  <TabsTrigger value="region">Fix Area</TabsTrigger>
                 </TabsList>
 
                 {/* Filters Tab */}
@@ -296,54 +633,328 @@ export default function ThumbnailEditor() {
                   </div>
                 </TabsContent>
 
-                {/* Text Tab */}
-                <TabsContent value="text" className="space-y-4">
-                  <div>
-                    <Label>Text Overlay</Label>
-                    <Input
-                      value={editorState.textOverlay}
-                      onChange={(e) => handleStateChange({ textOverlay: e.target.value })}
-                      placeholder="Enter text..."
-                      className="mt-2"
+                {/* Layers Tab */}
+                <TabsContent value="layers" className="space-y-4">
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button variant="outline" size="sm" onClick={addTextLayer} disabled={!project}>
+                      <Type className="w-4 h-4 mr-2" />
+                      Text
+                    </Button>
+                    <Select onValueChange={(value: "rectangle" | "ellipse" | "arrow") => addShapeLayer(value)} value="">
+                      <SelectTrigger className="h-9" disabled={!project}>
+                        <Shapes className="w-4 h-4" />
+                        <SelectValue placeholder="Shape" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="rectangle">Rectangle</SelectItem>
+                        <SelectItem value="ellipse">Circle</SelectItem>
+                        <SelectItem value="arrow">Arrow</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {(["subject", "sticker"] as const).map((type) => (
+                      <Button
+                        key={type}
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          imageLayerTypeRef.current = type;
+                          imageInputRef.current?.click();
+                        }}
+                        disabled={!project}
+                      >
+                        <ImagePlus className="w-4 h-4 mr-2" />
+                        {type === "subject" ? "Subject" : "Sticker"}
+                      </Button>
+                    ))}
+                    <input
+                      ref={imageInputRef}
+                      type="file"
+                      accept="image/png,image/jpeg,image/webp"
+                      className="hidden"
+                      onChange={(e) => handleLayerImageUpload(e, imageLayerTypeRef.current)}
                     />
                   </div>
 
-                  <div>
-                    <Label>Text Color</Label>
-                    <Input
-                      type="color"
-                      value={editorState.textColor}
-                      onChange={(e) => handleStateChange({ textColor: e.target.value })}
-                      className="mt-2 h-10"
-                    />
+                  {/* Top layer first */}
+                  <div className="space-y-1">
+                    {project?.layers
+                      .map((layer, index) => ({ layer, index }))
+                      .reverse()
+                      .map(({ layer, index }) => (
+                        <div
+                          key={layer.id}
+                          className={`flex items-center gap-1 rounded-md border px-2 py-1 text-sm ${
+                            layer.id === selectedLayerId ? "border-primary bg-muted" : ""
+                          }`}
+                        >
+                          <button className="flex-1 truncate text-left" onClick={() => setSelectedLayerId(layer.id)}>
+                            {layer.name || (layer.type === "text" ? layer.text : layer.type)}
+                          </button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => updateLayer(layer.id, { visible: !layer.visible })}
+                          >
+                            {layer.visible ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            disabled={index === project.layers.length - 1}
+                            onClick={() => moveLayer(layer.id, 1)}
+                          >
+                            <ArrowUp className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            disabled={index === 0}
+                            onClick={() => moveLayer(layer.id, -1)}
+                          >
+                            <ArrowDown className="w-4 h-4" />
+                          </Button>
+                          {layer.type !== "background" && (
+                            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => removeLayer(layer.id)}>
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      ))}
                   </div>
 
-                  <div>
-                    <Label>Text Size</Label>
-                    <Slider
-                      value={[editorState.textSize]}
-                      onValueChange={(value) => handleStateChange({ textSize: value[0] })}
-                      min={12}
-                      max={120}
-                      step={1}
-                      className="mt-2"
-                    />
-                    <span className="text-sm text-muted-foreground">{editorState.textSize}px</span>
-                  </div>
+                  {selectedLayer?.type === "text" && (
+                    <>
+                      <div>
+                        <Label>Text</Label>
+                        <Textarea
+                          value={selectedLayer.text}
+                          onChange={(e) => updateLayer(selectedLayer.id, { text: e.target.value })}
+                          className="mt-2"
+                          rows={2}
+                        />
+                      </div>
 
-                  <div>
-                    <Label>Text Position</Label>
-                    <Select value={editorState.textPosition} onValueChange={(value: any) => handleStateChange({ textPosition: value })}>
-                      <SelectTrigger className="mt-2">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="top">Top</SelectItem>
-                        <SelectItem value="center">Center</SelectItem>
-                        <SelectItem value="bottom">Bottom</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+                      <div>
+                        <Label>Font</Label>
+                        <Select
+                          value={selectedLayer.font}
+                          onValueChange={(value: FontId) => updateLayer(selectedLayer.id, { font: value })}
+                        >
+                          <SelectTrigger className="mt-2">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(FONT_LIBRARY) as FontId[]).map((id) => (
+                              <SelectItem key={id} value={id}>
+                                {FONT_LIBRARY[id].family}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <Label>Color</Label>
+                          <Input
+                            type="color"
+                            value={selectedLayer.color}
+                            onChange={(e) => updateLayer(selectedLayer.id, { color: e.target.value })}
+                            className="mt-2 h-10"
+                          />
+                        </div>
+                        <div>
+                          <Label>Outline</Label>
+                          <Input
+                            type="color"
+                            value={selectedLayer.stroke?.color ?? "#000000"}
+                            onChange={(e) =>
+                              updateLayer(selectedLayer.id, {
+                                stroke: { color: e.target.value, width: selectedLayer.stroke?.width ?? 4 },
+                              })
+                            }
+                            className="mt-2 h-10"
+                          />
+                        </div>
+                      </div>
+
+                      <div>
+                        <Label>Outline Width</Label>
+                        <Slider
+                          value={[selectedLayer.stroke?.width ?? 0]}
+                          onValueChange={(value) =>
+                            updateLayer(selectedLayer.id, {
+                              stroke: value[0] > 0 ? { color: selectedLayer.stroke?.color ?? "#000000", width: value[0] } : undefined,
+                            })
+                          }
+                          min={0}
+                          max={30}
+                          step={1}
+                          className="mt-2"
+                        />
+                      </div>
+
+                      <div>
+                        <Label>Highlight Words</Label>
+                        <div className="mt-2 flex gap-2">
+                          <Input
+                            value={selectedLayer.highlights.map((highlight) => highlight.word).join(", ")}
+                            onChange={(e) =>
+                              updateLayer(selectedLayer.id, {
+                                highlights: e.target.value
+                                  .split(",")
+                                  .map((word) => word.trim())
+                                  .filter(Boolean)
+                                  .map((word) => ({ word, color: selectedLayer.highlights[0]?.color ?? "#facc15" })),
+                              })
+                            }
+                            placeholder="e.g. WIN, FREE"
+                          />
+                          <Input
+                            type="color"
+                            value={selectedLayer.highlights[0]?.color ?? "#facc15"}
+                            onChange={(e) =>
+                              updateLayer(selectedLayer.id, {
+                                highlights: selectedLayer.highlights.map((highlight) => ({ ...highlight, color: e.target.value })),
+                              })
+                            }
+                            className="h-10 w-14"
+                          />
+                        </div>
+                      </div>
+
+                      <div className="flex items-center justify-between">
+                        <Label>Uppercase</Label>
+                        <Switch
+                          checked={selectedLayer.uppercase}
+                          onCheckedChange={(checked) => updateLayer(selectedLayer.id, { uppercase: checked })}
+                        />
+                      </div>
+                    </>
+                  )}
+
+                  {selectedLayer?.type === "shape" && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <Label>Fill</Label>
+                        <Input
+                          type="color"
+                          value={selectedLayer.fill ?? "#000000"}
+                          onChange={(e) => updateLayer(selectedLayer.id, { fill: e.target.value })}
+                          className="mt-2 h-10"
+                        />
+                      </div>
+                      <div>
+                        <Label>Outline</Label>
+                        <Input
+                          type="color"
+                          value={selectedLayer.stroke?.color ?? "#000000"}
+                          onChange={(e) =>
+                            updateLayer(selectedLayer.id, {
+                              stroke: { color: e.target.value, width: selectedLayer.stroke?.width ?? 6 },
+                            })
+                          }
+                          className="mt-2 h-10"
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {selectedLayer && selectedLayer.type !== "background" && (
+                    <>
+                      <div>
+                        <Label>Opacity</Label>
+                        <Slider
+                          value={[Math.round(selectedLayer.transform.opacity * 100)]}
+                          onValueChange={(value) => updateTransform(selectedLayer.id, { opacity: value[0] / 100 })}
+                          min={0}
+                          max={100}
+                          step={1}
+                          className="mt-2"
+                        />
+                      </div>
+
+                      <div>
+                        <Label>Rotation</Label>
+                        <Slider
+                          value={[selectedLayer.transform.rotation]}
+                          onValueChange={(value) => updateTransform(selectedLayer.id, { rotation: value[0] })}
+                          min={-180}
+                          max={180}
+                          step={1}
+                          className="mt-2"
+                        />
+                        <span className="text-sm text-muted-foreground">{selectedLayer.transform.rotation}°</span>
+                      </div>
+
+                      <div>
+                        <Label>Blend Mode</Label>
+                        <Select
+                          value={selectedLayer.blendMode}
+                          onValueChange={(value: BlendMode) => updateLayer(selectedLayer.id, { blendMode: value })}
+                        >
+                          <SelectTrigger className="mt-2">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {BLEND_MODES.map((mode) => (
+                              <SelectItem key={mode} value={mode}>
+                                {mode}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <div className="flex items-center justify-between">
+                        <Label>Drop Shadow</Label>
+                        <Switch
+                          checked={!!selectedLayer.effects.shadow}
+                          onCheckedChange={(checked) =>
+                            updateLayer(selectedLayer.id, {
+                              effects: { ...selectedLayer.effects, shadow: checked ? DROP_SHADOW : undefined },
+                            })
+                          }
+                        />
+                      </div>
+                    </>
+                  )}
+
+                  <Button
+                    onClick={() => project && saveProjectMutation.mutate({ thumbnailId, project })}
+                    disabled={!project || saveProjectMutation.isPending}
+                    className="w-full"
+                  >
+                    <Save className="w-4 h-4 mr-2" />
+                    {saveProjectMutation.isPending ? "Saving..." : "Save Layers"}
+                  </Button>
+                </TabsContent>
+
+                {/* Effects Tab */}
+                <TabsContent value="effects" className="space-y-4">
+                  {postProduction ? (
+                    <>
+                      <p className="text-sm text-muted-foreground">
+                        Effects applied after generation. Turning one off re-renders the thumbnail from the original.
+                      </p>
+                      {POST_PRODUCTION_EFFECTS.map((effect) => (
+                        <div key={effect.key} className="flex items-center justify-between">
+                          <Label htmlFor={`effect-${effect.key}`}>{effect.label}</Label>
+                          <Switch
+                            id={`effect-${effect.key}`}
+                            checked={Boolean(postProduction[effect.key])}
+                            onCheckedChange={(checked) => toggleEffect(effect.key, checked)}
+                            disabled={setPostProductionMutation.isPending}
+                          />
+                        </div>
+                      ))}
+                    </>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No effects were applied to this thumbnail.</p>
+                  )}
                 </TabsContent>
 
                 {/* Style Tab */}
@@ -384,12 +995,62 @@ export default function ThumbnailEditor() {
                     <span className="text-sm text-muted-foreground">{editorState.scale}%</span>
                   </div>
                 </TabsContent>
+
+                {/* Region Edit Tab */}
+                <TabsContent value="region" className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    Paint over the area to fix, such as a hand or a misspelled word, then describe the change.
+                    Everything else stays the same.
+                  </p>
+
+                  <div>
+                    <Label>Brush Size</Label>
+                    <Slider
+                      value={[brushSize]}
+                      onValueChange={(value) => setBrushSize(value[0])}
+                      min={5}
+                      max={150}
+                      step={1}
+                      className="mt-2"
+                    />
+                    <span className="text-sm text-muted-foreground">{brushSize}px</span>
+                  </div>
+
+                  <div>
+                    <Label>Instruction</Label>
+                    <Input
+                      value={regionInstruction}
+                      onChange={(e) => setRegionInstruction(e.target.value)}
+                      placeholder='e.g. "a natural hand with five fingers"'
+                      className="mt-2"
+                    />
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Button variant="outline" onClick={clearMask} disabled={!hasMask} className="flex-1">
+                      <Eraser className="w-4 h-4 mr-2" />
+                      Clear
+                    </Button>
+                    <Button
+                      onClick={handleEditRegion}
+                      disabled={!hasMask || regionInstruction.trim().length < 3 || editRegionMutation.isPending}
+                      className="flex-1"
+                    >
+                      <Wand2 className="w-4 h-4 mr-2" />
+                      {editRegionMutation.isPending ? "Editing..." : "Apply"}
+                    </Button>
+                  </div>
+                </TabsContent>
               </Tabs>
 
               <Button variant="outline" onClick={handleReset} className="w-full mt-4">
                 Reset to Original
               </Button>
             </Card>
+
+            <div className="mt-6">
+              <VersionHistory thumbnailId={thumbnailId} onRestored={refreshThumbnail} />
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,14 @@
+CREATE TABLE `generationJobs` (
+	`id` varchar(64) NOT NULL,
+	`userId` varchar(64) NOT NULL,
+	`status` enum('pending','running','completed','failed') NOT NULL DEFAULT 'pending',
+	`currentStep` varchar(64),
+	`request` text NOT NULL,
+	`steps` text,
+	`result` text,
+	`errorMessage` text,
+	`attempts` int NOT NULL DEFAULT 0,
+	`createdAt` timestamp DEFAULT (now()),
+	`updatedAt` timestamp DEFAULT (now()),
+	CONSTRAINT `generationJobs_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,9 @@
+ALTER TABLE `creditTransactions` MODIFY COLUMN `type` enum('purchase','usage','refund','bonus','referral_bonus','adjustment') NOT NULL;--> statement-breakpoint
+ALTER TABLE `creditTransactions` ADD `status` enum('pending','settled','released') DEFAULT 'settled' NOT NULL;--> statement-breakpoint
+ALTER TABLE `creditTransactions` ADD `referenceId` varchar(64);--> statement-breakpoint
+ALTER TABLE `creditTransactions` ADD `updatedAt` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP;--> statement-breakpoint
+INSERT INTO `creditTransactions` (`id`, `userId`, `amount`, `type`, `status`, `description`)
+SELECT CONCAT('opening-', `u`.`id`), `u`.`id`, `u`.`credits` - COALESCE(SUM(`t`.`amount`), 0), 'adjustment', 'settled', 'Opening balance'
+FROM `users` `u` LEFT JOIN `creditTransactions` `t` ON `t`.`userId` = `u`.`id`
+GROUP BY `u`.`id`, `u`.`credits`
+HAVING `u`.`credits` - COALESCE(SUM(`t`.`amount`), 0) <> 0;
@@ -0,0 +1,8 @@
+CREATE TABLE `appSettings` (
+	`key` varchar(64) NOT NULL,
+	`value` text NOT NULL,
+	`updatedBy` varchar(64),
+	`createdAt` timestamp DEFAULT (now()),
+	`updatedAt` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `appSettings_key` PRIMARY KEY(`key`)
+);
@@ -0,0 +1,3 @@
+ALTER TABLE `generationHistory` MODIFY COLUMN `referenceThumbnailId` varchar(64);--> statement-breakpoint
+ALTER TABLE `plans` ADD `pipelineId` varchar(64);--> statement-breakpoint
+ALTER TABLE `templates` ADD `pipelineId` varchar(64);
\ No newline at end of file
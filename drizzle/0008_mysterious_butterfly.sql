@@ -0,0 +1,3 @@
+ALTER TABLE `generationJobs` ADD `model` varchar(64);--> statement-breakpoint
+ALTER TABLE `generationJobs` ADD `pipeline` varchar(64);--> statement-breakpoint
+UPDATE `generationJobs` SET `model` = COALESCE(JSON_UNQUOTE(JSON_EXTRACT(`request`, '$.model')), 'dall-e-3'), `pipeline` = COALESCE(JSON_UNQUOTE(JSON_EXTRACT(`request`, '$.pipeline')), 'standard');
@@ -0,0 +1,6 @@
+ALTER TABLE `generationHistory` ADD `jobId` varchar(64);--> statement-breakpoint
+ALTER TABLE `generationHistory` ADD `sourceGenerationId` varchar(64);--> statement-breakpoint
+ALTER TABLE `generationHistory` ADD `engineeredPrompt` text;--> statement-breakpoint
+ALTER TABLE `generationHistory` ADD `size` varchar(20);--> statement-breakpoint
+ALTER TABLE `generationHistory` ADD `seed` int;--> statement-breakpoint
+ALTER TABLE `generationHistory` ADD `parameters` text;
\ No newline at end of file
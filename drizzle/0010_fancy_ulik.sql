@@ -0,0 +1,14 @@
+CREATE TABLE `providerUsage` (
+	`id` varchar(64) NOT NULL,
+	`userId` varchar(64),
+	`jobId` varchar(64),
+	`capability` enum('llm','vision','image') NOT NULL,
+	`provider` varchar(64) NOT NULL,
+	`model` varchar(64) NOT NULL,
+	`inputTokens` int NOT NULL DEFAULT 0,
+	`outputTokens` int NOT NULL DEFAULT 0,
+	`imageCount` int NOT NULL DEFAULT 0,
+	`costUsd` decimal(12,6) NOT NULL,
+	`createdAt` timestamp DEFAULT (now()),
+	CONSTRAINT `providerUsage_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,15 @@
+CREATE TABLE `moderationEvents` (
+	`id` varchar(64) NOT NULL,
+	`userId` varchar(64) NOT NULL,
+	`source` enum('generation','chat') NOT NULL,
+	`jobId` varchar(64),
+	`content` text NOT NULL,
+	`categories` text NOT NULL,
+	`reasons` text NOT NULL,
+	`status` enum('pending','upheld','overturned') NOT NULL DEFAULT 'pending',
+	`reviewedBy` varchar(64),
+	`reviewNote` text,
+	`reviewedAt` timestamp,
+	`createdAt` timestamp DEFAULT (now()),
+	CONSTRAINT `moderationEvents_id` PRIMARY KEY(`id`)
+);
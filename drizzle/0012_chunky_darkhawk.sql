@@ -0,0 +1,2 @@
+ALTER TABLE `generationHistory` ADD `parentGenerationId` varchar(64);--> statement-breakpoint
+ALTER TABLE `thumbnails` ADD `parentThumbnailId` varchar(64);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `thumbnails` ADD `originalImageUrl` varchar(512);--> statement-breakpoint
+ALTER TABLE `thumbnails` ADD `postProduction` text;
\ No newline at end of file
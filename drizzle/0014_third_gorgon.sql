@@ -0,0 +1,14 @@
+CREATE TABLE `qualityMeasurements` (
+	`id` varchar(64) NOT NULL,
+	`jobId` varchar(64),
+	`userId` varchar(64),
+	`model` varchar(64),
+	`meanLuminance` decimal(8,3) NOT NULL,
+	`rmsContrast` decimal(8,5) NOT NULL,
+	`colorfulness` decimal(8,3) NOT NULL,
+	`laplacianVariance` decimal(12,3) NOT NULL,
+	`edgeDensity` decimal(8,5) NOT NULL,
+	`luminanceHistogram` text NOT NULL,
+	`createdAt` timestamp DEFAULT (now()),
+	CONSTRAINT `qualityMeasurements_id` PRIMARY KEY(`id`)
+);
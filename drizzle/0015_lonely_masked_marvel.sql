@@ -0,0 +1 @@
+ALTER TABLE `thumbnails` ADD `legibility` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `thumbnails` ADD `project` mediumtext;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `thumbnailVersions` (
+	`id` varchar(64) NOT NULL,
+	`thumbnailId` varchar(64) NOT NULL,
+	`userId` varchar(64) NOT NULL,
+	`parentVersionId` varchar(64),
+	`source` enum('generation','regeneration','edit','post-production') NOT NULL,
+	`prompt` text NOT NULL,
+	`settings` text NOT NULL,
+	`imageUrl` varchar(512) NOT NULL,
+	`originalImageUrl` varchar(512),
+	`postProduction` text,
+	`project` mediumtext,
+	`createdAt` timestamp DEFAULT (now()),
+	CONSTRAINT `thumbnailVersions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `thumbnails` ADD `currentVersionId` varchar(64);
\ No newline at end of file
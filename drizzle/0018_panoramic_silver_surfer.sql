@@ -0,0 +1,9 @@
+CREATE TABLE `brandKits` (
+	`id` varchar(64) NOT NULL,
+	`userId` varchar(64) NOT NULL,
+	`name` varchar(60) NOT NULL,
+	`settings` text NOT NULL,
+	`createdAt` timestamp DEFAULT (now()),
+	`updatedAt` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `brandKits_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,6 @@
+CREATE TABLE `watermarkedImages` (
+	`id` varchar(64) NOT NULL,
+	`imageUrl` text NOT NULL,
+	`createdAt` timestamp DEFAULT (now()),
+	CONSTRAINT `watermarkedImages_id` PRIMARY KEY(`id`)
+);
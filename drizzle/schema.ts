@@ -1,4 +1,4 @@
-import { mysqlEnum, mysqlTable, text, timestamp, varchar, int, decimal, boolean } from "drizzle-orm/mysql-core";
+import { mysqlEnum, mysqlTable, text, mediumtext, timestamp, varchar, int, decimal, boolean } from "drizzle-orm/mysql-core";
 
 /**
  * Core user table backing auth flow.
@@ -34,6 +34,7 @@ export const plans = mysqlTable("plans", {
   maxThumbnails: int("maxThumbnails"),
   isPremium: boolean("isPremium").default(false),
   stripeProductId: varchar("stripeProductId", { length: 255 }), // New: Stripe Product ID
+  pipelineId: varchar("pipelineId", { length: 64 }), // Generation pipeline for subscribers (null = default)
   createdAt: timestamp("createdAt").defaultNow(),
 });
 
@@ -115,11 +116,17 @@ export const thumbnails = mysqlTable("thumbnails", {
   conversationId: varchar("conversationId", { length: 64 }),
   prompt: text("prompt").notNull(),
   imageUrl: varchar("imageUrl", { length: 512 }),
+  originalImageUrl: varchar("originalImageUrl", { length: 512 }), // Image before post-production effects
+  postProduction: text("postProduction"), // JSON PostProductionOptions applied to originalImageUrl
+  legibility: text("legibility"), // JSON feed-size legibility check of imageUrl
+  project: mediumtext("project"), // JSON layered ThumbnailProject; imageUrl is its latest render
   templateId: varchar("templateId", { length: 64 }),
   status: mysqlEnum("status", ["pending", "generating", "completed", "failed"]).default("pending").notNull(),
   creditsUsed: int("creditsUsed").default(0),
   aspectRatio: varchar("aspectRatio", { length: 20 }).default("16:9"),
   style: varchar("style", { length: 100 }),
+  parentThumbnailId: varchar("parentThumbnailId", { length: 64 }), // Main thumbnail this extra format was derived from
+  currentVersionId: varchar("currentVersionId", { length: 64 }), // thumbnailVersions row the thumbnail currently shows
   createdAt: timestamp("createdAt").defaultNow(),
   updatedAt: timestamp("updatedAt").defaultNow(),
 });
@@ -127,6 +134,28 @@ export const thumbnails = mysqlTable("thumbnails", {
 export type Thumbnail = typeof thumbnails.$inferSelect;
 export type InsertThumbnail = typeof thumbnails.$inferInsert;
 
+/**
+ * Thumbnail version history: a snapshot of the thumbnail after each
+ * generation, regeneration, edit or post-production change
+ */
+export const thumbnailVersions = mysqlTable("thumbnailVersions", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  thumbnailId: varchar("thumbnailId", { length: 64 }).notNull(),
+  userId: varchar("userId", { length: 64 }).notNull(),
+  parentVersionId: varchar("parentVersionId", { length: 64 }), // Version this one was made from
+  source: mysqlEnum("source", ["generation", "regeneration", "edit", "post-production"]).notNull(),
+  prompt: text("prompt").notNull(),
+  settings: text("settings").notNull(), // JSON of what produced the version (model, instruction, effects...)
+  imageUrl: varchar("imageUrl", { length: 512 }).notNull(),
+  originalImageUrl: varchar("originalImageUrl", { length: 512 }),
+  postProduction: text("postProduction"),
+  project: mediumtext("project"),
+  createdAt: timestamp("createdAt").defaultNow(),
+});
+
+export type ThumbnailVersion = typeof thumbnailVersions.$inferSelect;
+export type InsertThumbnailVersion = typeof thumbnailVersions.$inferInsert;
+
 // Templates
 export const templates = mysqlTable("templates", {
   id: varchar("id", { length: 64 }).primaryKey(),
@@ -137,6 +166,7 @@ export const templates = mysqlTable("templates", {
   isPremium: boolean("isPremium").default(false),
   aspectRatio: varchar("aspectRatio", { length: 20 }).default("16:9"),
   style: varchar("style", { length: 100 }),
+  pipelineId: varchar("pipelineId", { length: 64 }), // Generation pipeline for this template (null = plan default)
   createdAt: timestamp("createdAt").defaultNow(),
 });
 
@@ -144,14 +174,19 @@ export type Template = typeof templates.$inferSelect;
 export type InsertTemplate = typeof templates.$inferInsert;
 
 // Credit transactions
+// Credit ledger - the source of truth for balances. users.credits is a cached
+// projection of SUM(amount) over pending and settled rows.
 export const creditTransactions = mysqlTable("creditTransactions", {
   id: varchar("id", { length: 64 }).primaryKey(),
   userId: varchar("userId", { length: 64 }).notNull(),
-  amount: int("amount").notNull(),
-  type: mysqlEnum("type", ["purchase", "usage", "refund", "bonus", "referral_bonus"]).notNull(), // New: Added referral_bonus type
+  amount: int("amount").notNull(), // Signed: positive grants, negative usage
+  type: mysqlEnum("type", ["purchase", "usage", "refund", "bonus", "referral_bonus", "adjustment"]).notNull(), // New: Added referral_bonus type
+  status: mysqlEnum("status", ["pending", "settled", "released"]).default("settled").notNull(), // pending = credit hold
+  referenceId: varchar("referenceId", { length: 64 }), // Generation job or thumbnail the entry belongs to
   description: varchar("description", { length: 255 }),
   stripeInvoiceId: varchar("stripeInvoiceId", { length: 255 }), // New: Link to Stripe Invoice
   createdAt: timestamp("createdAt").defaultNow(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow(),
 });
 
 export type CreditTransaction = typeof creditTransactions.$inferSelect;
@@ -217,11 +252,19 @@ export type InsertThumbnailMetadata = typeof thumbnailMetadata.$inferInsert;
 export const generationHistory = mysqlTable("generationHistory", {
   id: varchar("id", { length: 64 }).primaryKey(),
   userId: varchar("userId", { length: 64 }).notNull(),
-  referenceThumbnailId: varchar("referenceThumbnailId", { length: 64 }).notNull(),
+  referenceThumbnailId: varchar("referenceThumbnailId", { length: 64 }), // Null when the pipeline skips reference selection
   userPrompt: text("userPrompt").notNull(), // Original user request
   generatedImageUrl: varchar("generatedImageUrl", { length: 512 }), // S3 URL to generated image
   generatedPrompt: text("generatedPrompt"), // Final prompt sent to DALL-E
   model: varchar("model", { length: 50 }).default("dall-e-3"), // Which AI model was used
+  // Replay inputs: everything needed to regenerate this image
+  jobId: varchar("jobId", { length: 64 }), // Orchestrator job that produced it
+  sourceGenerationId: varchar("sourceGenerationId", { length: 64 }), // Set for replays and variations
+  parentGenerationId: varchar("parentGenerationId", { length: 64 }), // Set for extra formats of a generation
+  engineeredPrompt: text("engineeredPrompt"), // Prompt-engineering output before per-candidate variation
+  size: varchar("size", { length: 20 }),
+  seed: int("seed"), // Null for models without seed support
+  parameters: text("parameters"), // JSON: pipeline, provider, style, mood, topic
   creditsUsed: int("creditsUsed").notNull(),
   status: mysqlEnum("status", ["pending", "generating", "completed", "failed"]).default("pending"),
   errorMessage: text("errorMessage"), // If generation failed
@@ -250,3 +293,123 @@ export const topicPreferences = mysqlTable("topicPreferences", {
 export type TopicPreference = typeof topicPreferences.$inferSelect;
 export type InsertTopicPreference = typeof topicPreferences.$inferInsert;
 
+
+// Generation Jobs - Durable record of each orchestrator run so failed runs can resume
+export const generationJobs = mysqlTable("generationJobs", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  userId: varchar("userId", { length: 64 }).notNull(),
+  status: mysqlEnum("status", ["pending", "running", "completed", "failed"]).default("pending").notNull(),
+  currentStep: varchar("currentStep", { length: 64 }), // Step currently running, or the one that failed
+  request: text("request").notNull(), // JSON of the original GenerationRequest
+  model: varchar("model", { length: 64 }), // Copied from the request for filtering
+  pipeline: varchar("pipeline", { length: 64 }), // Copied from the request for filtering
+  steps: text("steps"), // JSON map of step name -> { status, timings, input, output, trace, error }
+  result: text("result"), // JSON of the final GenerationResult
+  errorMessage: text("errorMessage"),
+  attempts: int("attempts").default(0).notNull(), // Number of times the job has been run or resumed
+  createdAt: timestamp("createdAt").defaultNow(),
+  updatedAt: timestamp("updatedAt").defaultNow(),
+});
+
+export type GenerationJob = typeof generationJobs.$inferSelect;
+export type InsertGenerationJob = typeof generationJobs.$inferInsert;
+
+// App Settings - Admin-editable runtime configuration (pricing table, limits), stored as JSON
+export const appSettings = mysqlTable("appSettings", {
+  key: varchar("key", { length: 64 }).primaryKey(), // e.g., "pricing"
+  value: text("value").notNull(), // JSON document
+  updatedBy: varchar("updatedBy", { length: 64 }), // Admin user who last changed it
+  createdAt: timestamp("createdAt").defaultNow(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow(),
+});
+
+export type AppSetting = typeof appSettings.$inferSelect;
+export type InsertAppSetting = typeof appSettings.$inferInsert;
+
+// Provider Usage - One row per external AI call (LLM, vision, image) with its estimated cost
+export const providerUsage = mysqlTable("providerUsage", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  userId: varchar("userId", { length: 64 }), // Null for calls made outside a user request
+  jobId: varchar("jobId", { length: 64 }), // Generation job the call was made for
+  capability: mysqlEnum("capability", ["llm", "vision", "image"]).notNull(),
+  provider: varchar("provider", { length: 64 }).notNull(), // e.g., "forge", "gemini", "local-http"
+  model: varchar("model", { length: 64 }).notNull(),
+  inputTokens: int("inputTokens").default(0).notNull(),
+  outputTokens: int("outputTokens").default(0).notNull(),
+  imageCount: int("imageCount").default(0).notNull(),
+  costUsd: decimal("costUsd", { precision: 12, scale: 6 }).notNull(), // Estimated provider cost
+  createdAt: timestamp("createdAt").defaultNow(),
+});
+
+export type ProviderUsage = typeof providerUsage.$inferSelect;
+export type InsertProviderUsage = typeof providerUsage.$inferInsert;
+
+/**
+ * Moderation review queue: prompts blocked by the safety policy
+ */
+export const moderationEvents = mysqlTable("moderationEvents", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  userId: varchar("userId", { length: 64 }).notNull(),
+  source: mysqlEnum("source", ["generation", "chat"]).notNull(),
+  jobId: varchar("jobId", { length: 64 }), // Generation job that was blocked
+  content: text("content").notNull(), // The text that was moderated
+  categories: text("categories").notNull(), // JSON array of violated categories
+  reasons: text("reasons").notNull(), // JSON array of structured rejection reasons
+  status: mysqlEnum("status", ["pending", "upheld", "overturned"]).default("pending").notNull(),
+  reviewedBy: varchar("reviewedBy", { length: 64 }),
+  reviewNote: text("reviewNote"),
+  reviewedAt: timestamp("reviewedAt"),
+  createdAt: timestamp("createdAt").defaultNow(),
+});
+
+export type ModerationEvent = typeof moderationEvents.$inferSelect;
+export type InsertModerationEvent = typeof moderationEvents.$inferInsert;
+
+/**
+ * Pixel quality measurements of delivered images, for the admin quality report
+ */
+export const qualityMeasurements = mysqlTable("qualityMeasurements", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  jobId: varchar("jobId", { length: 64 }), // Generation job the image came from
+  userId: varchar("userId", { length: 64 }),
+  model: varchar("model", { length: 64 }),
+  meanLuminance: decimal("meanLuminance", { precision: 8, scale: 3 }).notNull(), // 0-255
+  rmsContrast: decimal("rmsContrast", { precision: 8, scale: 5 }).notNull(), // 0-1
+  colorfulness: decimal("colorfulness", { precision: 8, scale: 3 }).notNull(), // Hasler-Suesstrunk
+  laplacianVariance: decimal("laplacianVariance", { precision: 12, scale: 3 }).notNull(), // Sharpness
+  edgeDensity: decimal("edgeDensity", { precision: 8, scale: 5 }).notNull(), // 0-1
+  luminanceHistogram: text("luminanceHistogram").notNull(), // JSON array of 32 bin shares
+  createdAt: timestamp("createdAt").defaultNow(),
+});
+
+export type QualityMeasurement = typeof qualityMeasurements.$inferSelect;
+export type InsertQualityMeasurement = typeof qualityMeasurements.$inferInsert;
+
+/**
+ * Brand kits: a user's palette, fonts, logo and text style, applied to
+ * generations that select the kit
+ */
+export const brandKits = mysqlTable("brandKits", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  userId: varchar("userId", { length: 64 }).notNull(),
+  name: varchar("name", { length: 60 }).notNull(),
+  settings: text("settings").notNull(), // JSON BrandKitSettings (palette, bannedColors, fonts, logo, textStyle)
+  createdAt: timestamp("createdAt").defaultNow(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow(),
+});
+
+export type BrandKitRow = typeof brandKits.$inferSelect;
+export type InsertBrandKitRow = typeof brandKits.$inferInsert;
+
+/**
+ * Watermarked copies of delivered images, keyed by the source image and the
+ * watermark settings. Source images are never changed.
+ */
+export const watermarkedImages = mysqlTable("watermarkedImages", {
+  id: varchar("id", { length: 64 }).primaryKey(), // SHA-256 of the settings and source URL
+  imageUrl: text("imageUrl").notNull(),
+  createdAt: timestamp("createdAt").defaultNow(),
+});
+
+export type WatermarkedImage = typeof watermarkedImages.$inferSelect;
+export type InsertWatermarkedImage = typeof watermarkedImages.$inferInsert;
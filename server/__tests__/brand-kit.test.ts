@@ -0,0 +1,107 @@
+/**
+ * Brand kit tests
+ * Verifies kit storage, prompt guidance, brand layers and the branded render
+ */
+
+process.env.PROVIDER_MODE = 'synthetic';
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createCanvas } from '@napi-rs/canvas';
+
+vi.mock('../db', () => ({
+  getDb: vi.fn(async () => null),
+}));
+
+import {
+  applyBrandKit,
+  buildBrandLayers,
+  createBrandKit,
+  deleteBrandKit,
+  findBannedColors,
+  listBrandKits,
+  resetBrandKits,
+  resolveGenerationBrand,
+} from '../brand-kit.service';
+import { decodeImage } from '../image-assets.service';
+import { applyBrandKitToPrompt, buildOptimizedPrompt } from '../prompt-engineer.service';
+import { brandKitSettingsSchema, describeColor } from '@shared/brandKit';
+
+function solidDataUrl(color: string, width = 320, height = 180): string {
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d');
+  context.fillStyle = color;
+  context.fillRect(0, 0, width, height);
+  return `data:image/png;base64,${canvas.toBuffer('image/png').toString('base64')}`;
+}
+
+async function pixel(imageUrl: string, x: number, y: number): Promise<number[]> {
+  const image = await decodeImage(imageUrl);
+  const canvas = createCanvas(image.width, image.height);
+  const context = canvas.getContext('2d');
+  context.drawImage(image, 0, 0);
+  return Array.from(context.getImageData(x, y, 1, 1).data.slice(0, 3));
+}
+
+const kit = brandKitSettingsSchema.parse({
+  name: 'Main Channel',
+  palette: ['#1e3a8a', '#facc15'],
+  bannedColors: ['#ff0000'],
+  textStyle: { highlightColor: '#facc15', position: 'bottom' },
+});
+
+describe('Brand Kits', () => {
+  beforeEach(() => {
+    resetBrandKits();
+  });
+
+  it('steers the prompt to the palette and away from banned colors', () => {
+    const prompt = buildOptimizedPrompt('Gamer reacting to a boss fight', {}, { colorPalette: ['#00ff00'] } as any, undefined, kit);
+
+    expect(prompt).toContain(describeColor('#1e3a8a'));
+    expect(prompt).toContain(`Avoid these colors: ${describeColor('#ff0000')}`);
+    expect(prompt).not.toContain('#00ff00');
+    expect(applyBrandKitToPrompt('Gamer reacting', undefined)).toBe('Gamer reacting');
+    expect(applyBrandKitToPrompt('Gamer reacting', kit)).toContain('Brand color palette');
+  });
+
+  it('places the logo in its corner and keeps the text clear of it', () => {
+    const [logo, text] = buildBrandLayers(
+      { ...kit, logo: { src: 'https://cdn.example.com/logo.png', position: 'bottom-right', size: 0.2, opacity: 1 } },
+      1280,
+      720,
+      { overlayText: 'Final boss', logo: { width: 200, height: 100 } as any }
+    );
+
+    expect(logo.transform).toMatchObject({ x: 1280 - 51 - 256, y: 720 - 51 - 128, width: 256, height: 128 });
+    expect(text).toMatchObject({ type: 'text', font: 'anton', verticalAlign: 'bottom' });
+    expect(text.transform.x! + text.transform.width!).toBeLessThanOrEqual(logo.transform.x!);
+    expect(text.type === 'text' && text.highlights).toEqual([{ word: 'boss', color: '#facc15' }]);
+  });
+
+  it('renders the logo over the image and reports banned colors', async () => {
+    const branded = await applyBrandKit(
+      solidDataUrl('#ff0000'),
+      { ...kit, logo: { src: solidDataUrl('#00ff00', 100, 50), position: 'top-left', size: 0.25, opacity: 1 } },
+      { overlayText: 'Boss fight' }
+    );
+
+    expect(branded.project.layers.map((layer) => layer.id)).toEqual(['background', 'brand-logo', 'brand-text']);
+    expect(await pixel(branded.imageUrl, 20, 20)).toEqual([0, 255, 0]);
+    expect(await pixel(branded.imageUrl, 300, 20)).toEqual([255, 0, 0]);
+    expect(branded.bannedColors).toEqual([{ color: '#ff0000', share: 1 }]);
+    expect(findBannedColors(await decodeImage(solidDataUrl('#0000ff')), ['#ff0000'])).toEqual([]);
+  });
+
+  it("keeps each user's kits to themselves", async () => {
+    const created = await createBrandKit('user123', kit);
+
+    expect(await listBrandKits('user456')).toEqual([]);
+    await expect(resolveGenerationBrand('user456', created.id)).rejects.toThrow('Brand kit not found');
+    await expect(deleteBrandKit('user456', created.id)).rejects.toThrow('Brand kit not found');
+    await expect(resolveGenerationBrand('user123', undefined, 'Boss fight')).rejects.toThrow('needs a brand kit');
+
+    const brand = await resolveGenerationBrand('user123', created.id, 'Boss fight');
+    expect(brand?.kit).not.toHaveProperty('userId');
+    expect(brand?.kit.palette).toEqual(['#1e3a8a', '#facc15']);
+  });
+});
@@ -0,0 +1,345 @@
+/**
+ * Credit ledger tests
+ * Verifies that generations, resumed jobs and chat thumbnails hold credits up
+ * front and settle or release the hold
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../db', () => ({
+  getDb: vi.fn(async () => ({})),
+  getUser: vi.fn(),
+  getAppSetting: vi.fn(async () => undefined),
+  setAppSetting: vi.fn(async () => undefined),
+  reserveCredits: vi.fn(async () => 'hold-1'),
+  settleCreditReservation: vi.fn(async () => 0),
+  releaseCreditReservation: vi.fn(async () => 0),
+  addChatMessage: vi.fn(async () => undefined),
+  getChatMessages: vi.fn(async () => []),
+  createThumbnail: vi.fn(async () => 'thumb_chat'),
+  updateThumbnailStatus: vi.fn(async () => undefined),
+  getThumbnailById: vi.fn(),
+  replaceThumbnailImage: vi.fn(async () => undefined),
+}));
+
+vi.mock('../llm.service', () => ({
+  invokeLLM: vi.fn(async () => ({ choices: [{ message: { content: 'Here is your thumbnail' } }] })),
+}));
+
+vi.mock('../image-providers.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../image-providers.service')>()),
+  generateWithImageModel: vi.fn(async () => ({ url: 'https://cdn.example.com/chat.png', modelId: 'dall-e-3' })),
+}));
+
+vi.mock('../moderation.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../moderation.service')>()),
+  enforceModerationPolicy: vi.fn(async () => ({ allowed: true, reasons: [], classifier: 'skipped' })),
+}));
+
+vi.mock('../thumbnail-versions.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../thumbnail-versions.service')>()),
+  recordThumbnailVersion: vi.fn(async () => ({ id: 'ver_1' })),
+}));
+
+// The app router loads the Stripe client, which needs a key
+vi.mock('../payment', async () => {
+  const { router } = await import('../_core/trpc');
+  return { paymentRouter: router({}) };
+});
+
+vi.mock('../ai-orchestrator.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../ai-orchestrator.service')>()),
+  executeGenerationOrchestrator: vi.fn(),
+  resumeGenerationJob: vi.fn(),
+  retryGenerationJob: vi.fn(),
+}));
+
+vi.mock('../generation-job.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../generation-job.service')>()),
+  getGenerationJob: vi.fn(),
+  recordDeliveredJobResult: vi.fn(async () => undefined),
+}));
+
+vi.mock('../generation-pipeline.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../generation-pipeline.service')>()),
+  selectGenerationPipeline: vi.fn(async () => 'standard'),
+}));
+
+vi.mock('../provider-usage.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../provider-usage.service')>()),
+  assertWithinSpendCaps: vi.fn(async () => undefined),
+}));
+
+vi.mock('../post-production.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../post-production.service')>()),
+  completePostProductionPipeline: vi.fn(async (imageUrl: string) => ({
+    processedImageUrl: imageUrl,
+    qualityResult: { overallScore: 90 },
+  })),
+}));
+
+import { generationRouter } from '../generation.router';
+import { completePostProductionPipeline } from '../post-production.service';
+import { ModerationError } from '../moderation.service';
+import {
+  executeGenerationOrchestrator,
+  quoteGenerationCredits,
+  resumeGenerationJob,
+  retryGenerationJob,
+} from '../ai-orchestrator.service';
+import { getGenerationJob } from '../generation-job.service';
+import {
+  getThumbnailById,
+  releaseCreditReservation,
+  replaceThumbnailImage,
+  reserveCredits,
+  settleCreditReservation,
+  updateThumbnailStatus,
+} from '../db';
+import { appRouter } from '../routers';
+import { generateWithImageModel } from '../image-providers.service';
+import { getDefaultPricingTable, getFixedPrice, resetPricingTable, updatePricingTable } from '../pricing.service';
+
+const caller = generationRouter.createCaller({
+  user: { id: 'user123', role: 'user' } as any,
+  req: {} as any,
+  res: {} as any,
+});
+
+const input = {
+  userPrompt: 'Create a gaming thumbnail with a shocked face',
+  model: 'dall-e-3',
+  candidates: 3,
+  jobId: 'job_ledger-test',
+};
+
+describe('Credit Ledger', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should reserve the quote and settle only what was generated', async () => {
+    const perCandidate = (await quoteGenerationCredits({ model: 'dall-e-3' })).totalCredits;
+    vi.mocked(executeGenerationOrchestrator).mockResolvedValueOnce({
+      id: 'gen_1',
+      jobId: 'job_ledger-test',
+      status: 'success',
+      generatedImageUrl: 'https://cdn.example.com/generated.png',
+      generatedPrompt: 'prompt',
+      qualityScore: 0.9,
+      creditsUsed: perCandidate * 2,
+      processingTime: 10,
+    } as any);
+
+    await caller.generate(input);
+
+    expect(reserveCredits).toHaveBeenCalledWith(
+      'user123',
+      (await quoteGenerationCredits({ model: 'dall-e-3', candidates: 3, postProduction: true }))
+        .totalCredits,
+      expect.any(String),
+      'job_ledger-test'
+    );
+    expect(settleCreditReservation).toHaveBeenCalledWith('hold-1', perCandidate * 2);
+    expect(releaseCreditReservation).not.toHaveBeenCalled();
+  });
+
+  it('should release the hold when finishing the result fails', async () => {
+    vi.mocked(executeGenerationOrchestrator).mockResolvedValueOnce({
+      id: 'gen_4',
+      jobId: 'job_ledger-test',
+      status: 'success',
+      generatedImageUrl: 'https://cdn.example.com/generated.png',
+      generatedPrompt: 'prompt',
+      qualityScore: 0.9,
+      creditsUsed: 10,
+      processingTime: 10,
+    } as any);
+    vi.mocked(completePostProductionPipeline).mockRejectedValueOnce(new Error('Storage unavailable'));
+
+    await expect(caller.generate(input)).rejects.toThrow('Storage unavailable');
+    expect(settleCreditReservation).not.toHaveBeenCalled();
+    expect(releaseCreditReservation).toHaveBeenCalledWith('hold-1');
+  });
+
+  it('should release the hold when generation fails', async () => {
+    vi.mocked(executeGenerationOrchestrator).mockResolvedValueOnce({
+      id: 'gen_2',
+      status: 'failed',
+      error: 'Image service unavailable',
+      creditsUsed: 0,
+    } as any);
+
+    await expect(caller.generate(input)).rejects.toThrow('Image service unavailable');
+    expect(releaseCreditReservation).toHaveBeenCalledWith('hold-1');
+    expect(settleCreditReservation).not.toHaveBeenCalled();
+  });
+
+  it('should release the hold when the content policy blocks the request', async () => {
+    const moderation = {
+      allowed: false,
+      classifier: 'skipped',
+      reasons: [{ category: 'violence', source: 'term', rule: 'gore', explanation: 'Contains blocked term "gore"' }],
+    };
+    vi.mocked(executeGenerationOrchestrator).mockResolvedValueOnce({
+      id: 'gen_3',
+      status: 'failed',
+      error: 'Request blocked by content policy (violence)',
+      creditsUsed: 0,
+      moderation,
+    } as any);
+
+    const error = await caller.generate(input).catch((caught) => caught);
+
+    expect(error.cause).toBeInstanceOf(ModerationError);
+    expect(error.cause.decision).toEqual(moderation);
+    expect(releaseCreditReservation).toHaveBeenCalledWith('hold-1');
+    expect(settleCreditReservation).not.toHaveBeenCalled();
+  });
+
+  it('should not hold credits for a free generation', async () => {
+    const pricing = getDefaultPricingTable();
+    await updatePricingTable({ ...pricing, models: { ...pricing.models, 'dall-e-3': { credits: 0 } } });
+    vi.mocked(executeGenerationOrchestrator).mockResolvedValueOnce({
+      id: 'gen_5',
+      jobId: 'job_ledger-test',
+      status: 'success',
+      generatedImageUrl: 'https://cdn.example.com/generated.png',
+      generatedPrompt: 'prompt',
+      qualityScore: 0.9,
+      creditsUsed: 0,
+    } as any);
+
+    try {
+      await caller.generate(input);
+    } finally {
+      await resetPricingTable();
+    }
+    expect(reserveCredits).not.toHaveBeenCalled();
+    expect(settleCreditReservation).not.toHaveBeenCalled();
+  });
+
+  it('should not start a generation when the balance cannot cover the quote', async () => {
+    vi.mocked(reserveCredits).mockRejectedValueOnce(new Error('Insufficient credits'));
+
+    await expect(caller.generate(input)).rejects.toThrow('Insufficient credits');
+    expect(executeGenerationOrchestrator).not.toHaveBeenCalled();
+  });
+});
+
+describe('Job Credits', () => {
+  const admin = generationRouter.createCaller({
+    user: { id: 'admin1', role: 'admin' } as any,
+    req: {} as any,
+    res: {} as any,
+  });
+
+  const job = {
+    id: 'job_resume-test',
+    userId: 'user123',
+    status: 'failed',
+    request: { userId: 'user123', userPrompt: 'Create a gaming thumbnail', model: 'dall-e-3' },
+    steps: {},
+    result: null,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should charge the owner for a resumed job', async () => {
+    vi.mocked(getGenerationJob).mockResolvedValueOnce(job as any);
+    vi.mocked(resumeGenerationJob).mockResolvedValueOnce({
+      id: 'gen_5',
+      jobId: job.id,
+      status: 'success',
+      creditsUsed: 10,
+    });
+
+    await admin.resumeJob({ jobId: job.id });
+
+    expect(reserveCredits).toHaveBeenCalledWith(
+      'user123',
+      (await quoteGenerationCredits({ model: 'dall-e-3', postProduction: true })).totalCredits,
+      expect.any(String),
+      job.id
+    );
+    expect(settleCreditReservation).toHaveBeenCalledWith('hold-1', 10);
+  });
+
+  it('should release the hold when a retried job fails', async () => {
+    vi.mocked(getGenerationJob).mockResolvedValueOnce(job as any);
+    vi.mocked(retryGenerationJob).mockResolvedValueOnce({
+      id: job.id,
+      jobId: job.id,
+      status: 'failed',
+      creditsUsed: 0,
+      error: 'Image service unavailable',
+    });
+
+    await admin.retryJob({ jobId: job.id });
+
+    expect(settleCreditReservation).not.toHaveBeenCalled();
+    expect(releaseCreditReservation).toHaveBeenCalledWith('hold-1');
+  });
+
+  it('should not run a completed job again', async () => {
+    vi.mocked(getGenerationJob).mockResolvedValue({ ...job, status: 'completed' } as any);
+
+    await expect(admin.retryJob({ jobId: job.id })).rejects.toThrow('Completed jobs cannot be retried');
+    await admin.resumeJob({ jobId: job.id });
+
+    expect(retryGenerationJob).not.toHaveBeenCalled();
+    expect(reserveCredits).not.toHaveBeenCalled();
+  });
+});
+
+describe('Chat Credits', () => {
+  const chat = appRouter.createCaller({
+    user: { id: 'user123', role: 'user' } as any,
+    req: {} as any,
+    res: {} as any,
+  }).chat;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should charge a chat thumbnail through the ledger', async () => {
+    const price = await getFixedPrice('chatThumbnail');
+
+    const result = await chat.sendMessage({ conversationId: 'conv_1', message: 'A shocked gamer' });
+
+    expect(result.thumbnail?.id).toBe('thumb_chat');
+    expect(reserveCredits).toHaveBeenCalledWith('user123', price, expect.any(String));
+    expect(updateThumbnailStatus).toHaveBeenCalledWith('thumb_chat', 'completed', 'https://cdn.example.com/chat.png', price);
+    expect(settleCreditReservation).toHaveBeenCalledWith('hold-1');
+    expect(releaseCreditReservation).not.toHaveBeenCalled();
+  });
+
+  it('should release the hold when the chat thumbnail fails', async () => {
+    vi.mocked(generateWithImageModel).mockRejectedValueOnce(new Error('Image service unavailable'));
+
+    const result = await chat.sendMessage({ conversationId: 'conv_1', message: 'A shocked gamer' });
+
+    expect(result.thumbnail).toBeNull();
+    expect(settleCreditReservation).not.toHaveBeenCalled();
+    expect(releaseCreditReservation).toHaveBeenCalledWith('hold-1');
+  });
+
+  it('should charge a regeneration and release the hold when it fails', async () => {
+    const price = await getFixedPrice('chatThumbnail');
+    vi.mocked(getThumbnailById).mockResolvedValue({ id: 'thumb_1', userId: 'user123' } as any);
+
+    await chat.regenerateThumbnail({ thumbnailId: 'thumb_1', newPrompt: 'A calmer gamer' });
+    expect(reserveCredits).toHaveBeenCalledWith('user123', price, expect.any(String), 'thumb_1');
+    expect(replaceThumbnailImage).toHaveBeenCalledWith('thumb_1', 'https://cdn.example.com/chat.png', price);
+    expect(settleCreditReservation).toHaveBeenCalledWith('hold-1');
+
+    vi.mocked(generateWithImageModel).mockRejectedValueOnce(new Error('Image service unavailable'));
+    await expect(chat.regenerateThumbnail({ thumbnailId: 'thumb_1', newPrompt: 'A calmer gamer' })).rejects.toThrow(
+      'Failed to regenerate thumbnail'
+    );
+    expect(releaseCreditReservation).toHaveBeenCalledWith('hold-1');
+  });
+});
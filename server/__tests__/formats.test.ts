@@ -0,0 +1,114 @@
+/**
+ * Format tests
+ * Verifies method choice, subject-aware cropping and the outpainting request
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+
+// Cropped formats are returned as data URLs instead of going to storage
+process.env.PROVIDER_MODE = 'synthetic';
+
+// Outpainted images come back at the size the model was asked for
+vi.mock('../image-providers.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../image-providers.service')>()),
+  generateWithImageModel: vi.fn(async (modelId: string, input: { size: string }) => {
+    const { createPlaceholderImageDataUrl } = await import('../_core/providerFixtures');
+    const [width, height] = input.size.split('x').map(Number);
+    return {
+      url: createPlaceholderImageDataUrl('outpainted', width, height),
+      modelId,
+      provider: 'openai-compatible',
+      size: input.size,
+    };
+  }),
+}));
+
+import { chooseFormatMethod, findSubjectCrop, getCropRetention, produceFormat } from '../formats.service';
+import { generateWithImageModel } from '../image-providers.service';
+
+async function pngImage(width: number, height: number, paint?: (context: any) => void) {
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d');
+  context.fillStyle = '#808080';
+  context.fillRect(0, 0, width, height);
+  paint?.(context);
+  return loadImage(canvas.toBuffer('image/png'));
+}
+
+describe('Formats', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should crop when most of the image survives', () => {
+    expect(getCropRetention(1280, 720, '1:1')).toBeCloseTo(0.5625);
+    expect(getCropRetention(1280, 720, '16:9')).toBe(1);
+    expect(chooseFormatMethod(1280, 720, '1:1')).toBe('crop');
+  });
+
+  it('should center the crop on a flat image', async () => {
+    const image = await pngImage(1280, 720);
+
+    expect(findSubjectCrop(image, '1:1')).toEqual({ x: 280, y: 0, width: 720, height: 720 });
+  });
+
+  it('should keep an off-center subject inside the crop', async () => {
+    const image = await pngImage(1280, 720, (context) => {
+      context.fillStyle = '#ff2020';
+      context.fillRect(1050, 300, 150, 150);
+    });
+
+    const crop = findSubjectCrop(image, '9:16');
+    expect(crop.height).toBe(720);
+    expect(crop.width).toBe(405);
+    expect(crop.x).toBeLessThanOrEqual(1050);
+    expect(crop.x + crop.width).toBeGreaterThanOrEqual(1200);
+  });
+
+  it('should outpaint with the source kept and only the new bands masked', async () => {
+    const image = await pngImage(1280, 720);
+
+    const result = await produceFormat('unused', '1:1', { method: 'outpaint', model: 'routix-v1', image });
+
+    const [modelId, input] = vi.mocked(generateWithImageModel).mock.calls[0];
+    // The model's square output already fits the format and is used as is
+    const returned = await vi.mocked(generateWithImageModel).mock.results[0].value;
+    expect(result).toMatchObject({ method: 'outpaint', imageUrl: returned.url, width: 1024, height: 1024 });
+    expect(modelId).toBe('routix-v1');
+    expect(input.prompt).toContain('Extend the scene');
+
+    const mask = await loadImage(Buffer.from(input.mask!.b64Json, 'base64'));
+    const canvas = createCanvas(mask.width, mask.height);
+    const context = canvas.getContext('2d');
+    context.drawImage(mask, 0, 0);
+    expect([mask.width, mask.height]).toEqual([1280, 1280]);
+    // Top band is generated, the middle (source) is kept
+    expect(context.getImageData(640, 100, 1, 1).data[0]).toBe(255);
+    expect(context.getImageData(640, 640, 1, 1).data[0]).toBe(0);
+  });
+
+  it('should fall back to a crop when outpainting fails', async () => {
+    vi.mocked(generateWithImageModel).mockRejectedValueOnce(new Error('Provider offline'));
+    const image = await pngImage(1280, 720);
+
+    const result = await produceFormat('unused', '9:16', { method: 'outpaint', model: 'routix-v1', image });
+
+    expect(result.method).toBe('crop');
+    expect(result.fallbackReason).toBe('Provider offline');
+    expect([result.width, result.height]).toEqual([405, 720]);
+    expect(result.imageUrl).toMatch(/^data:image\/png;base64,/);
+  });
+
+  it('should fit an outpainted image of another ratio to the format', async () => {
+    const image = await pngImage(1280, 720);
+
+    // routix-v2's closest size to 9:16 is 1024x1536 (2:3)
+    const result = await produceFormat('unused', '9:16', { method: 'outpaint', model: 'routix-v2', image });
+
+    expect(vi.mocked(generateWithImageModel).mock.calls[0][1].size).toBe('1024x1536');
+    expect(result).toMatchObject({ aspectRatio: '9:16', method: 'outpaint', width: 864, height: 1536 });
+    const stored = await loadImage(Buffer.from(result.imageUrl.split(',')[1], 'base64'));
+    expect([stored.width, stored.height]).toEqual([864, 1536]);
+  });
+});
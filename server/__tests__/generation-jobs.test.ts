@@ -0,0 +1,584 @@
+/**
+ * Durable generation job tests
+ * Verifies that failed orchestrator runs can resume from the last finished step
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createCanvas } from '@napi-rs/canvas';
+
+vi.mock('../db', () => ({
+  getDb: vi.fn(async () => null),
+  createGenerationHistory: vi.fn(async () => undefined),
+  getAppSetting: vi.fn(async () => undefined),
+}));
+
+vi.mock('../gemini-vision.service', () => ({
+  analyzeThumbnailImage: vi.fn(),
+  compareThumbnails: vi.fn(),
+  analyzeUserPrompt: vi.fn(async () => ({ mood: 'shocked', lighting: 'dramatic' })),
+  assessThumbnailQuality: vi.fn(async () => ({
+    qualityScore: 0.9,
+    strengths: [],
+    improvements: [],
+    viralPotential: 0.8,
+  })),
+}));
+
+vi.mock('../reference-thumbnail.service', () => ({
+  findBestMatchingReferences: vi.fn(async () => [{ id: 'ref_1', title: 'Reference' }]),
+  getMetadata: vi.fn(async () => ({ mood: 'shocked', lighting: 'dramatic' })),
+  getReferenceThumbnail: vi.fn(async (id: string) => ({ id, title: 'Pinned reference' })),
+  calculateSimilarityScore: vi.fn(() => 0.75),
+}));
+
+vi.mock('../_core/imageGeneration', () => ({
+  generateImage: vi.fn(async () => ({ url: 'https://cdn.example.com/generated.png' })),
+}));
+
+vi.mock('../llm.service', () => ({
+  invokeLLM: vi.fn(async () => ({
+    choices: [{ message: { content: 'Optimized thumbnail prompt' } }],
+  })),
+}));
+
+vi.mock('../image-assets.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../image-assets.service')>()),
+  storeImageAsset: vi.fn(async (_buffer: Buffer, prefix: string) => `https://cdn.example.com/${prefix}/stored.png`),
+}));
+
+vi.mock('../moderation.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../moderation.service')>()),
+  enforceModerationPolicy: vi.fn(async () => ({ allowed: true, reasons: [], classifier: 'skipped' })),
+}));
+
+import {
+  executeGenerationOrchestrator,
+  quoteGenerationCredits,
+  resumeGenerationJob,
+  retryGenerationJob,
+} from '../ai-orchestrator.service';
+import { getGenerationJob, listGenerationJobs } from '../generation-job.service';
+import { buildGenerationTrace, diffGenerationTraces } from '../generation-trace.service';
+import {
+  registerGenerationPipeline,
+  registerGenerationStep,
+} from '../generation-pipeline.service';
+import { getGenerationEvents, estimateRemainingMs } from '../generation-events.service';
+import { analyzeUserPrompt, assessThumbnailQuality } from '../gemini-vision.service';
+import { findBestMatchingReferences } from '../reference-thumbnail.service';
+import { createGenerationHistory } from '../db';
+import { generateImage } from '../_core/imageGeneration';
+import { invokeLLM } from '../llm.service';
+import { brandKitSettingsSchema } from '@shared/brandKit';
+
+const request = {
+  userId: 'user123',
+  userPrompt: 'Create a gaming thumbnail with a shocked face',
+  topic: 'gaming',
+};
+
+describe('Generation Jobs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should record per-step state when a run fails', async () => {
+    vi.mocked(generateImage).mockRejectedValueOnce(new Error('Image service unavailable'));
+
+    const result = await executeGenerationOrchestrator(request);
+    expect(result.status).toBe('failed');
+    expect(result.jobId).toBeDefined();
+
+    const job = await getGenerationJob(result.jobId!);
+    expect(job?.status).toBe('failed');
+    expect(job?.currentStep).toBe('generation');
+    expect(job?.steps.analysis.status).toBe('completed');
+    expect(job?.steps.promptEngineering.output).toBe('Optimized thumbnail prompt');
+    expect(job?.steps.generation.status).toBe('failed');
+  });
+
+  it('should resume from the failed step without repeating earlier steps', async () => {
+    vi.mocked(generateImage).mockRejectedValueOnce(new Error('Image service unavailable'));
+    const failed = await executeGenerationOrchestrator(request);
+
+    vi.clearAllMocks();
+    const resumed = await resumeGenerationJob(failed.jobId!);
+
+    expect(resumed.status).toBe('success');
+    expect(resumed.generatedImageUrl).toBe('https://cdn.example.com/generated.png');
+    expect(analyzeUserPrompt).not.toHaveBeenCalled();
+    expect(invokeLLM).not.toHaveBeenCalled();
+    expect(generateImage).toHaveBeenCalledTimes(1);
+
+    const job = await getGenerationJob(failed.jobId!);
+    expect(job?.status).toBe('completed');
+    expect(job?.attempts).toBe(2);
+  });
+
+  it('should return the stored result when resuming a completed job', async () => {
+    const completed = await executeGenerationOrchestrator(request);
+    expect(completed.status).toBe('success');
+
+    vi.clearAllMocks();
+    const resumed = await resumeGenerationJob(completed.jobId!);
+
+    expect(resumed).toEqual(completed);
+    expect(generateImage).not.toHaveBeenCalled();
+  });
+
+  it('should re-run every step on retry', async () => {
+    const completed = await executeGenerationOrchestrator(request);
+
+    vi.clearAllMocks();
+    const retried = await retryGenerationJob(completed.jobId!);
+
+    expect(retried.status).toBe('success');
+    expect(analyzeUserPrompt).toHaveBeenCalledTimes(1);
+    expect(invokeLLM).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject unknown jobs', async () => {
+    await expect(resumeGenerationJob('job_missing')).rejects.toThrow('Generation job not found');
+  });
+});
+
+describe('Generation Progress Events', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should emit step events with progress for a client-chosen job ID', async () => {
+    const result = await executeGenerationOrchestrator(request, { jobId: 'job_events-success' });
+    expect(result.jobId).toBe('job_events-success');
+
+    const events = getGenerationEvents('job_events-success');
+    const types = events.map((event) => event.type);
+
+    expect(types[0]).toBe('job.started');
+    expect(types).toContain('reference.selected');
+    expect(types).toContain('prompt.engineered');
+    expect(types[types.length - 1]).toBe('job.completed');
+    expect(events.filter((event) => event.type === 'step.completed')).toHaveLength(10);
+
+    const last = events[events.length - 1];
+    expect(last.progress).toBe(100);
+    expect(last.etaMs).toBe(0);
+  });
+
+  it('should only return events after the last seen event ID', async () => {
+    await executeGenerationOrchestrator(request, { jobId: 'job_events-catchup' });
+
+    const all = getGenerationEvents('job_events-catchup');
+    const missed = getGenerationEvents('job_events-catchup', all[4].id);
+
+    expect(missed).toHaveLength(all.length - 5);
+    expect(missed[0].id).toBe(all[5].id);
+  });
+
+  it('should emit a failure event and refuse to reuse an existing job ID', async () => {
+    vi.mocked(generateImage).mockRejectedValueOnce(new Error('Image service unavailable'));
+    await executeGenerationOrchestrator(request, { jobId: 'job_events-failure' });
+
+    const events = getGenerationEvents('job_events-failure');
+    const last = events[events.length - 1];
+    expect(last.type).toBe('job.failed');
+    expect(last.step).toBe('generation');
+
+    const duplicate = await executeGenerationOrchestrator(request, { jobId: 'job_events-failure' });
+    expect(duplicate.status).toBe('failed');
+    expect(duplicate.error).toBe('Generation job already exists');
+  });
+
+  it('should estimate remaining time from step durations', () => {
+    expect(estimateRemainingMs([])).toBe(0);
+    // Steps with no observed durations fall back to a static estimate
+    expect(estimateRemainingMs(['watermark'])).toBeGreaterThan(0);
+  });
+});
+
+describe('Multi-Candidate Generation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should generate, score and rank every candidate', async () => {
+    let imageCount = 0;
+    vi.mocked(generateImage).mockImplementation(async () => ({
+      url: `https://cdn.example.com/candidate-${++imageCount}.png`,
+    }));
+    // The second image scores best
+    vi.mocked(assessThumbnailQuality).mockImplementation(async (url: string) => ({
+      qualityScore: url.endsWith('candidate-2.png') ? 0.95 : 0.6,
+      strengths: [],
+      improvements: [],
+      viralPotential: 0.7,
+    }));
+
+    const result = await executeGenerationOrchestrator({ ...request, candidates: 3 });
+
+    expect(result.status).toBe('success');
+    expect(result.candidates).toHaveLength(3);
+    expect(result.candidates![0].isTopPick).toBe(true);
+    expect(result.candidates![0].imageUrl).toBe('https://cdn.example.com/candidate-2.png');
+    expect(result.candidates!.map((candidate) => candidate.rank)).toEqual([1, 2, 3]);
+    expect(result.generatedImageUrl).toBe(result.candidates![0].imageUrl);
+    expect(new Set(result.candidates!.map((candidate) => candidate.prompt)).size).toBe(3);
+    expect(result.creditsUsed).toBe((await quoteGenerationCredits({ candidates: 3 })).totalCredits);
+  });
+
+  it('should drop failed candidates and charge only for generated ones', async () => {
+    vi.mocked(generateImage)
+      .mockRejectedValueOnce(new Error('Image service unavailable'))
+      .mockResolvedValue({ url: 'https://cdn.example.com/generated.png' });
+
+    const result = await executeGenerationOrchestrator({ ...request, candidates: 2 });
+
+    expect(result.status).toBe('success');
+    expect(result.candidates).toHaveLength(1);
+    expect(result.creditsUsed).toBe((await quoteGenerationCredits()).totalCredits);
+  });
+
+  it('should quote the extra cost of additional candidates', async () => {
+    const single = await quoteGenerationCredits({ model: 'dall-e-3', candidates: 1 });
+    const triple = await quoteGenerationCredits({ model: 'dall-e-3', candidates: 3 });
+
+    expect(single.extraCredits).toBe(0);
+    expect(triple.totalCredits).toBe(single.totalCredits * 3);
+    expect(triple.extraCredits).toBe(single.totalCredits * 2);
+    expect((await quoteGenerationCredits({ model: 'dall-e-3', candidates: 99 })).candidates).toBe(4);
+  });
+});
+
+describe('Generation Pipelines', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should skip disabled steps in the raw prompt pipeline', async () => {
+    const result = await executeGenerationOrchestrator(
+      { ...request, pipeline: 'raw-prompt' },
+      { jobId: 'job_pipeline-raw' }
+    );
+
+    expect(result.status).toBe('success');
+    expect(result.generatedPrompt).toBe(request.userPrompt);
+    expect(result.referenceThumbnailId).toBeUndefined();
+    expect(analyzeUserPrompt).not.toHaveBeenCalled();
+    expect(findBestMatchingReferences).not.toHaveBeenCalled();
+    expect(invokeLLM).not.toHaveBeenCalled();
+
+    const job = await getGenerationJob('job_pipeline-raw');
+    expect(Object.keys(job!.steps)).toEqual([
+      'validation',
+      'moderation',
+      'generation',
+      'postProduction',
+      'formats',
+      'delivery',
+      'complete',
+    ]);
+    const completed = getGenerationEvents('job_pipeline-raw').filter(
+      (event) => event.type === 'step.completed'
+    );
+    expect(completed[completed.length - 1].totalSteps).toBe(7);
+  });
+
+  it('should run plugin steps inserted by a custom pipeline', async () => {
+    registerGenerationStep<string>({
+      name: 'test-suffix',
+      description: 'Append a suffix to the prompt',
+      run: async (context, config) => `${context.prompt} ${config.suffix}`,
+      apply: (context, prompt) => {
+        context.prompt = prompt;
+      },
+    });
+    registerGenerationPipeline({
+      id: 'test-suffixed',
+      name: 'Suffixed',
+      steps: [
+        { plugin: 'validation' },
+        { plugin: 'moderation' },
+        { plugin: 'analysis' },
+        { plugin: 'referenceSelection' },
+        { plugin: 'promptEngineering' },
+        { plugin: 'test-suffix', config: { suffix: 'with bold text' } },
+        { plugin: 'generation' },
+        { plugin: 'delivery' },
+      ],
+    });
+
+    const result = await executeGenerationOrchestrator({ ...request, pipeline: 'test-suffixed' });
+
+    expect(result.status).toBe('success');
+    expect(result.generatedPrompt).toBe('Optimized thumbnail prompt with bold text');
+    expect(assessThumbnailQuality).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown pipelines and pipelines without a generation step', async () => {
+    const unknown = await executeGenerationOrchestrator({ ...request, pipeline: 'missing' });
+    expect(unknown.error).toBe('Unknown generation pipeline: missing');
+
+    registerGenerationPipeline({
+      id: 'test-empty',
+      name: 'Empty',
+      steps: [{ plugin: 'validation' }, { plugin: 'moderation' }],
+    });
+    const empty = await executeGenerationOrchestrator({ ...request, pipeline: 'test-empty' });
+    expect(empty.error).toBe('Pipeline test-empty is missing the required generation step');
+  });
+
+  it('should reject pipelines that skip or postpone moderation', async () => {
+    registerGenerationPipeline({
+      id: 'test-unmoderated',
+      name: 'Unmoderated',
+      steps: [{ plugin: 'validation' }, { plugin: 'moderation', enabled: false }, { plugin: 'generation' }],
+    });
+    registerGenerationPipeline({
+      id: 'test-no-moderation',
+      name: 'No Moderation',
+      steps: [{ plugin: 'validation' }, { plugin: 'generation' }],
+    });
+    registerGenerationPipeline({
+      id: 'test-late-moderation',
+      name: 'Late Moderation',
+      steps: [{ plugin: 'validation' }, { plugin: 'generation' }, { plugin: 'moderation' }],
+    });
+
+    for (const pipeline of ['test-unmoderated', 'test-no-moderation']) {
+      const result = await executeGenerationOrchestrator({ ...request, pipeline });
+      expect(result.error).toBe(`Pipeline ${pipeline} is missing the required moderation step`);
+    }
+    const late = await executeGenerationOrchestrator({ ...request, pipeline: 'test-late-moderation' });
+    expect(late.error).toBe('Pipeline test-late-moderation must run the moderation step before the generation step');
+    expect(generateImage).not.toHaveBeenCalled();
+  });
+
+  it('should fail a step that overruns its deadline and abort its signal', async () => {
+    const aborted = vi.fn();
+    registerGenerationStep({
+      name: 'testHang',
+      description: 'Never finishes',
+      run: (_context, _config, _trace, signal) =>
+        new Promise(() => {
+          signal.addEventListener('abort', aborted);
+        }),
+      apply: () => {},
+    });
+    registerGenerationPipeline({
+      id: 'test-timeout',
+      name: 'Timeout',
+      steps: [
+        { plugin: 'validation' },
+        { plugin: 'moderation' },
+        { plugin: 'testHang', config: { timeoutMs: 20 } },
+        { plugin: 'generation' },
+      ],
+    });
+
+    const result = await executeGenerationOrchestrator({ ...request, pipeline: 'test-timeout' });
+
+    expect(result.error).toBe('Step testHang timed out after 20ms');
+    expect(aborted).toHaveBeenCalled();
+    expect((await getGenerationJob(result.jobId!))?.steps.testHang.status).toBe('failed');
+  });
+});
+
+describe('Generation Traces', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should record step diagnostics in order', async () => {
+    const result = await executeGenerationOrchestrator(request);
+    const trace = buildGenerationTrace((await getGenerationJob(result.jobId!))!);
+
+    expect(trace.steps.map((step) => step.name)).toEqual([
+      'validation',
+      'moderation',
+      'analysis',
+      'referenceSelection',
+      'promptEngineering',
+      'generation',
+      'postProduction',
+      'formats',
+      'delivery',
+      'complete',
+    ]);
+
+    const steps = Object.fromEntries(trace.steps.map((step) => [step.name, step]));
+    expect(steps.analysis.trace?.userMetadata).toEqual({ mood: 'shocked', lighting: 'dramatic' });
+    expect(steps.referenceSelection.trace?.candidateReferences).toEqual([
+      { id: 'ref_1', title: 'Reference', score: 0.75 },
+    ]);
+    expect(steps.promptEngineering.trace?.engineeringPrompt).toContain(request.userPrompt);
+    expect(steps.promptEngineering.trace?.llmOutput).toBe('Optimized thumbnail prompt');
+    expect(steps.generation.trace?.providerResponses).toEqual([
+      expect.objectContaining({ imageUrl: 'https://cdn.example.com/generated.png', model: 'dall-e-3' }),
+    ]);
+    expect(steps.postProduction.trace?.assessments).toEqual([
+      expect.objectContaining({ strengths: expect.any(Array), validation: expect.any(Object) }),
+    ]);
+    expect(trace.totalDurationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should keep provider errors in the trace of a failed step', async () => {
+    vi.mocked(generateImage).mockRejectedValueOnce(new Error('Image service unavailable'));
+    const result = await executeGenerationOrchestrator(request);
+    const trace = buildGenerationTrace((await getGenerationJob(result.jobId!))!);
+
+    expect(trace.failedStep).toBe('generation');
+    const generation = trace.steps.find((step) => step.name === 'generation');
+    expect(generation?.trace?.providerResponses).toEqual([
+      expect.objectContaining({ error: expect.any(String) }),
+    ]);
+  });
+
+  it('should filter runs by pipeline and prompt text', async () => {
+    const raw = await executeGenerationOrchestrator({
+      ...request,
+      userPrompt: 'A unique raw prompt for trace filtering',
+      pipeline: 'raw-prompt',
+    });
+
+    const byPipeline = await listGenerationJobs({ pipeline: 'raw-prompt' });
+    expect(byPipeline.map((job) => job.id)).toContain(raw.jobId);
+    expect(byPipeline.every((job) => job.request.pipeline === 'raw-prompt')).toBe(true);
+
+    const bySearch = await listGenerationJobs({ search: 'unique raw prompt' });
+    expect(bySearch.map((job) => job.id)).toEqual([raw.jobId]);
+  });
+
+  it('should diff two runs step by step', async () => {
+    const left = await executeGenerationOrchestrator(request);
+    vi.mocked(invokeLLM).mockResolvedValueOnce({
+      choices: [{ message: { content: 'A different prompt' } }],
+    } as any);
+    const right = await executeGenerationOrchestrator(request);
+
+    const differences = diffGenerationTraces(
+      buildGenerationTrace((await getGenerationJob(left.jobId!))!),
+      buildGenerationTrace((await getGenerationJob(right.jobId!))!)
+    );
+    const paths = differences.map((difference) => difference.path);
+
+    expect(paths).toContain('steps.promptEngineering.output');
+    expect(differences.find((d) => d.path === 'steps.promptEngineering.output')).toMatchObject({
+      left: 'Optimized thumbnail prompt',
+      right: 'A different prompt',
+    });
+    expect(paths.some((path) => path.endsWith('startedAt'))).toBe(false);
+  });
+});
+
+describe('Generation Replay Inputs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should store everything needed to replay a generation', async () => {
+    const result = await executeGenerationOrchestrator({ ...request, preferredStyle: 'bold' });
+
+    expect(createGenerationHistory).toHaveBeenCalledWith(
+      expect.objectContaining({
+        jobId: result.jobId,
+        userPrompt: request.userPrompt,
+        referenceThumbnailId: 'ref_1',
+        engineeredPrompt: 'Optimized thumbnail prompt',
+        generatedPrompt: 'Optimized thumbnail prompt',
+        model: 'dall-e-3',
+        size: '1792x1024',
+      })
+    );
+    const record = vi.mocked(createGenerationHistory).mock.calls[0][0];
+    expect(JSON.parse(record.parameters!)).toMatchObject({
+      pipeline: 'standard',
+      provider: 'forge',
+      preferredStyle: 'bold',
+    });
+  });
+
+  it('should reuse a pinned reference and prompt without analysis or prompt engineering', async () => {
+    const result = await executeGenerationOrchestrator({
+      ...request,
+      referenceThumbnailId: 'ref_9',
+      engineeredPrompt: 'Stored prompt',
+      candidates: 2,
+      sourceGenerationId: 'gen_source',
+    });
+
+    expect(result.status).toBe('success');
+    expect(result.referenceThumbnailId).toBe('ref_9');
+    expect(analyzeUserPrompt).not.toHaveBeenCalled();
+    expect(findBestMatchingReferences).not.toHaveBeenCalled();
+    expect(invokeLLM).not.toHaveBeenCalled();
+    // Pinned prompts are not varied; candidates differ only by seed
+    expect(vi.mocked(generateImage).mock.calls.map(([options]) => options.prompt)).toEqual([
+      'Stored prompt',
+      'Stored prompt',
+    ]);
+    expect(createGenerationHistory).toHaveBeenCalledWith(
+      expect.objectContaining({ sourceGenerationId: 'gen_source' })
+    );
+  });
+
+  it('should not add the brand kit again when replaying a branded prompt', async () => {
+    const brandKit = brandKitSettingsSchema.parse({ name: 'Main Channel', palette: ['#1e3a8a'], bannedColors: ['#ff0000'] });
+    await executeGenerationOrchestrator({ ...request, brandKit, postProduction: false });
+    const branded = vi.mocked(createGenerationHistory).mock.calls[0][0].generatedPrompt!;
+    expect(branded).toContain('Brand color palette');
+
+    // A replay of the replay keeps the same prompt too
+    for (const attempt of [0, 1]) {
+      const source = vi.mocked(createGenerationHistory).mock.calls[attempt][0];
+      await executeGenerationOrchestrator({
+        ...request,
+        brandKit,
+        postProduction: false,
+        engineeredPrompt: source.generatedPrompt!,
+        sourceGenerationId: source.id,
+      });
+    }
+
+    expect(vi.mocked(generateImage).mock.calls.map(([options]) => options.prompt)).toEqual([branded, branded, branded]);
+  });
+});
+
+describe('Extra Formats', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should crop extra formats from the top pick, charge for them and log them as siblings', async () => {
+    const canvas = createCanvas(1280, 720);
+    const image = `data:image/png;base64,${canvas.toBuffer('image/png').toString('base64')}`;
+    vi.mocked(generateImage).mockResolvedValueOnce({ url: image });
+
+    const result = await executeGenerationOrchestrator({
+      ...request,
+      aspectRatio: '16:9',
+      formats: ['16:9', '1:1', '1:1'],
+    });
+
+    expect(result.status).toBe('success');
+    // The main format and duplicates are not produced again
+    expect(result.formats).toEqual([
+      {
+        aspectRatio: '1:1',
+        imageUrl: 'https://cdn.example.com/formats/stored.png',
+        width: 720,
+        height: 720,
+        method: 'crop',
+      },
+    ]);
+    expect(result.creditsUsed).toBe((await quoteGenerationCredits({ aspectRatio: '16:9', formats: ['1:1'] })).totalCredits);
+    expect(createGenerationHistory).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: `${result.id}_1x1`,
+        jobId: null,
+        parentGenerationId: result.id,
+        size: '720x720',
+        creditsUsed: 0,
+      })
+    );
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Generation replay tests
+ * Verifies that replay and vary rebuild a request from stored generation inputs
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../db', () => ({
+  getDb: vi.fn(async () => null),
+  getUser: vi.fn(),
+  getAppSetting: vi.fn(async () => undefined),
+  getGenerationHistoryRecord: vi.fn(),
+  reserveCredits: vi.fn(),
+  settleCreditReservation: vi.fn(),
+  releaseCreditReservation: vi.fn(),
+}));
+
+vi.mock('../ai-orchestrator.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../ai-orchestrator.service')>()),
+  executeGenerationOrchestrator: vi.fn(async (request: any) => ({
+    id: 'gen_new',
+    jobId: 'job_new',
+    status: 'success',
+    generatedImageUrl: 'https://cdn.example.com/replayed.png',
+    generatedPrompt: request.engineeredPrompt,
+    creditsUsed: 8,
+  })),
+}));
+
+import { generationRouter } from '../generation.router';
+import { executeGenerationOrchestrator, MAX_USER_PROMPT_LENGTH } from '../ai-orchestrator.service';
+import { getGenerationHistoryRecord } from '../db';
+
+const caller = generationRouter.createCaller({
+  user: { id: 'user123', role: 'user' } as any,
+  req: {} as any,
+  res: {} as any,
+});
+
+const source = {
+  id: 'gen_source',
+  userId: 'user123',
+  referenceThumbnailId: 'ref_1',
+  userPrompt: 'Create a gaming thumbnail with a shocked face',
+  generatedImageUrl: 'https://cdn.example.com/source.png',
+  generatedPrompt: 'Shocked gamer, neon background',
+  model: 'routix-v1',
+  size: '1024x1024',
+  seed: 1234,
+  parameters: JSON.stringify({ pipeline: 'standard', provider: 'local-http', postProduction: false }),
+  status: 'completed',
+  creditsUsed: 4,
+};
+
+describe('Generation Replay', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getGenerationHistoryRecord).mockResolvedValue(source as any);
+  });
+
+  it('should replay with the stored reference, prompt, model, size and seed', async () => {
+    const result = await caller.replay({ generationId: 'gen_source' });
+
+    expect(executeGenerationOrchestrator).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user123',
+        referenceThumbnailId: 'ref_1',
+        engineeredPrompt: 'Shocked gamer, neon background',
+        model: 'routix-v1',
+        size: '1024x1024',
+        seed: 1234,
+        candidates: 1,
+        pipeline: 'standard',
+        postProduction: false,
+        sourceGenerationId: 'gen_source',
+      }),
+      { jobId: undefined }
+    );
+    expect(result.sourceGenerationId).toBe('gen_source');
+    expect(result.deterministic).toBe(true);
+  });
+
+  it('should vary with a new seed and a prompt change', async () => {
+    await caller.vary({ generationId: 'gen_source', seed: 99, promptChange: 'add a red arrow', candidates: 2 });
+
+    expect(executeGenerationOrchestrator).toHaveBeenCalledWith(
+      expect.objectContaining({
+        engineeredPrompt: 'Shocked gamer, neon background. add a red arrow',
+        seed: 99,
+        candidates: 2,
+        referenceThumbnailId: 'ref_1',
+      }),
+      { jobId: undefined }
+    );
+  });
+
+  it('should pick a fresh seed when varying without one', async () => {
+    await caller.vary({ generationId: 'gen_source' });
+
+    const [request] = vi.mocked(executeGenerationOrchestrator).mock.calls[0];
+    expect(request.seed).toEqual(expect.any(Number));
+    expect(request.engineeredPrompt).toBe('Shocked gamer, neon background');
+  });
+
+  it('should keep the stand-in user prompt of older records within the limit', async () => {
+    const generatedPrompt = 'Shocked gamer, neon background. '.repeat(100);
+    vi.mocked(getGenerationHistoryRecord).mockResolvedValueOnce({ ...source, userPrompt: '', generatedPrompt } as any);
+
+    await caller.replay({ generationId: 'gen_source' });
+
+    const [request] = vi.mocked(executeGenerationOrchestrator).mock.calls[0];
+    expect(request.userPrompt).toBe(generatedPrompt.slice(0, MAX_USER_PROMPT_LENGTH));
+    expect(request.engineeredPrompt).toBe(generatedPrompt);
+  });
+
+  it("should not replay another user's generation", async () => {
+    vi.mocked(getGenerationHistoryRecord).mockResolvedValueOnce({ ...source, userId: 'someone-else' } as any);
+
+    await expect(caller.replay({ generationId: 'gen_source' })).rejects.toThrow('Generation not found');
+    expect(executeGenerationOrchestrator).not.toHaveBeenCalled();
+  });
+
+  it('should refuse generations recorded without a prompt', async () => {
+    vi.mocked(getGenerationHistoryRecord).mockResolvedValueOnce({ ...source, generatedPrompt: null } as any);
+
+    await expect(caller.replay({ generationId: 'gen_source' })).rejects.toThrow(
+      'This generation cannot be replayed'
+    );
+  });
+});
@@ -4,6 +4,9 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
+
+// Run LLM, vision and image calls offline with deterministic synthetic output
+process.env.PROVIDER_MODE = 'synthetic';
 import {
   executeGenerationOrchestrator,
   step1_validateUserRequest,
@@ -30,6 +33,13 @@ import {
   applyPostProductionEffects,
   completePostProductionPipeline,
 } from '../post-production.service';
+import {
+  generateWithImageModel,
+  listImageModels,
+  registerImageModel,
+  registerImageProviderAdapter,
+  resolveImageModel,
+} from '../image-providers.service';
 
 describe('Routix AI Generation System', () => {
   describe('Phase 1: User Request Validation', () => {
@@ -84,7 +94,7 @@ describe('Routix AI Generation System', () => {
   });
 
   describe('Phase 2: AI Analysis', () => {
-    it.skip('should analyze user prompt and extract metadata', async () => {
+    it('should analyze user prompt and extract metadata', async () => {
       const request = {
         userId: 'user123',
         userPrompt: 'Create a shocked gaming thumbnail with bright colors',
@@ -97,7 +107,7 @@ describe('Routix AI Generation System', () => {
       expect(result.extractedElements.length).toBeGreaterThan(0);
     });
 
-    it.skip('should handle requests with uploaded images', async () => {
+    it('should handle requests with uploaded images', async () => {
       const request = {
         userId: 'user123',
         userPrompt: 'Create a thumbnail based on this image',
@@ -268,6 +278,73 @@ describe('Routix AI Generation System', () => {
     });
   });
 
+  describe('Image Provider Registry', () => {
+    it('should expose built-in models with capabilities', () => {
+      const models = listImageModels();
+      const ids = models.map((model) => model.id);
+
+      expect(ids).toEqual(expect.arrayContaining(['dall-e-3', 'routix-v1', 'routix-v2']));
+      for (const model of models) {
+        expect(model.capabilities.sizes).toContain(model.capabilities.defaultSize);
+        expect(model.capabilities.creditCost).toBeGreaterThan(0);
+        expect(model.settings).toBeUndefined();
+      }
+    });
+
+    it('should fall back to the default model for unknown IDs', () => {
+      expect(resolveImageModel('unknown-model').id).toBe('dall-e-3');
+      expect(resolveImageModel().id).toBe('dall-e-3');
+    });
+
+    it('should route generation to the adapter for the selected model', async () => {
+      // Exercise the adapter itself rather than synthetic output
+      process.env.PROVIDER_MODE = 'live';
+      const calls: Array<{ model: string; size: string; seed?: number }> = [];
+      registerImageProviderAdapter('local-http', {
+        isConfigured: () => true,
+        generate: async (config, input) => {
+          calls.push({ model: config.id, size: input.size, seed: input.seed });
+          return { url: `https://cdn.example.com/${config.id}.png`, seed: input.seed };
+        },
+      });
+      registerImageModel({
+        id: 'test-local',
+        name: 'Test Local',
+        description: 'Test model',
+        provider: 'local-http',
+        quality: 'draft',
+        capabilities: {
+          sizes: ['1280x720', '720x1280'],
+          defaultSize: '1280x720',
+          supportsEditing: false,
+          supportsSeed: true,
+          creditCost: 1,
+          estimatedUsdCost: 0,
+        },
+      });
+
+      const result = await generateWithImageModel('test-local', {
+        prompt: 'A test thumbnail',
+        size: '999x999',
+        seed: 42,
+      });
+
+      expect(result.url).toBe('https://cdn.example.com/test-local.png');
+      expect(result.size).toBe('1280x720');
+      expect(result.seed).toBe(42);
+      expect(calls).toEqual([{ model: 'test-local', size: '1280x720', seed: 42 }]);
+
+      await expect(
+        generateWithImageModel('test-local', {
+          prompt: 'A test thumbnail',
+          originalImages: [{ url: 'https://example.com/face.png' }],
+        })
+      ).rejects.toThrow('does not support image inputs');
+
+      process.env.PROVIDER_MODE = 'synthetic';
+    });
+  });
+
   describe('Post-Production Service', () => {
     describe('Quality Validation', () => {
       it('should validate image quality', () => {
@@ -426,7 +503,7 @@ describe('Routix AI Generation System', () => {
   });
 
   describe('Integration Tests', () => {
-      it.skip('should complete full generation pipeline (mock)', async () => {
+    it('should complete full generation pipeline (mock)', async () => {
       const request = {
         userId: 'user123',
         userPrompt: 'Create a gaming thumbnail with shocked face',
@@ -0,0 +1,138 @@
+/**
+ * Image quality tests
+ * Verifies pixel measurements, the effects they drive and the admin report
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createCanvas } from '@napi-rs/canvas';
+
+vi.mock('../db', () => ({
+  getDb: vi.fn(async () => null),
+}));
+
+import {
+  getQualityReport,
+  measureImageQuality,
+  measurePixels,
+  recordQualityMeasurement,
+  resetQualityMeasurements,
+} from '../image-quality.service';
+import { generatePostProductionInstructions, validateImageQuality } from '../post-production.service';
+
+function pixels(width: number, height: number, paint: (context: any) => void) {
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d');
+  paint(context);
+  return context.getImageData(0, 0, width, height).data;
+}
+
+const flat = (color: string) =>
+  pixels(64, 64, (context) => {
+    context.fillStyle = color;
+    context.fillRect(0, 0, 64, 64);
+  });
+
+const checkerboard = (blur: number) =>
+  pixels(64, 64, (context) => {
+    if (blur) context.filter = `blur(${blur}px)`;
+    for (let y = 0; y < 64; y += 8) {
+      for (let x = 0; x < 64; x += 8) {
+        context.fillStyle = (x + y) % 16 === 0 ? '#000000' : '#ffffff';
+        context.fillRect(x, y, 8, 8);
+      }
+    }
+  });
+
+describe('Image Quality', () => {
+  beforeEach(() => {
+    resetQualityMeasurements();
+  });
+
+  it('should measure a flat gray image as having no contrast, color or detail', () => {
+    const measurements = measurePixels(flat('rgb(140, 140, 140)'), 64, 64);
+
+    expect(measurements.meanLuminance).toBeCloseTo(140);
+    expect(measurements.luminanceHistogram[17]).toBe(1);
+    expect(measurements.rmsContrast).toBe(0);
+    expect(measurements.colorfulness).toBe(0);
+    expect(measurements.laplacianVariance).toBe(0);
+    expect(measurements.edgeDensity).toBe(0);
+  });
+
+  it('should measure contrast, sharpness and edges from a checkerboard', () => {
+    const sharp = measurePixels(checkerboard(0), 64, 64);
+    const soft = measurePixels(checkerboard(3), 64, 64);
+
+    expect(sharp.rmsContrast).toBeCloseTo(0.5, 1);
+    expect(sharp.edgeDensity).toBeGreaterThan(0.1);
+    expect(sharp.laplacianVariance).toBeGreaterThan(soft.laplacianVariance * 2);
+    expect(sharp.colorfulness).toBeCloseTo(0);
+  });
+
+  it('should rate saturated colors as more colorful than muted ones', () => {
+    const vivid = measurePixels(flat('rgb(230, 30, 40)'), 64, 64);
+    const muted = measurePixels(flat('rgb(140, 120, 120)'), 64, 64);
+
+    expect(vivid.colorfulness).toBeGreaterThan(60);
+    expect(muted.colorfulness).toBeLessThan(15);
+  });
+
+  it('should size effects to what a measured image lacks', () => {
+    const dull = measurePixels(
+      pixels(64, 64, (context) => {
+        context.fillStyle = 'rgb(60, 60, 70)';
+        context.fillRect(0, 0, 64, 64);
+        context.fillStyle = 'rgb(80, 80, 90)';
+        context.fillRect(16, 16, 32, 32);
+      }),
+      64,
+      64
+    );
+    const crisp = measurePixels(checkerboard(0), 64, 64);
+
+    const dullResult = validateImageQuality('unused', undefined, dull);
+    expect(dullResult.measurements).toBe(dull);
+    // Scores come from the pixels: far too dark and flat
+    expect(dullResult.metrics.brightness).toBe(40);
+    expect(dullResult.metrics.contrast).toBe(40);
+
+    const forDull = generatePostProductionInstructions(dullResult);
+    expect(forDull.adjustBrightness).toBe(true);
+    expect(forDull.brightnessAdjustment).toBeGreaterThan(10);
+    expect(forDull.contrastBoost).toBeGreaterThan(40);
+    expect(forDull.saturationBoost).toBeGreaterThan(20);
+
+    const forCrisp = generatePostProductionInstructions(validateImageQuality('unused', undefined, crisp));
+    expect(forCrisp.sharpenImage).toBe(false);
+    expect(forCrisp.enhanceContrast).toBe(false);
+  });
+
+  it('should measure an image URL at a bounded size', async () => {
+    const canvas = createCanvas(1280, 720);
+    const context = canvas.getContext('2d');
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, 1280, 720);
+
+    const measurements = await measureImageQuality(
+      `data:image/png;base64,${canvas.toBuffer('image/png').toString('base64')}`
+    );
+
+    expect(measurements.meanLuminance).toBeCloseTo(255);
+    expect(measurements.highlightClipping).toBe(1);
+  });
+
+  it('should report metric distributions per day', async () => {
+    await recordQualityMeasurement({ jobId: 'job_1', model: 'dall-e-3' }, measurePixels(flat('#808080'), 64, 64));
+    await recordQualityMeasurement({ jobId: 'job_2', model: 'dall-e-3' }, measurePixels(checkerboard(0), 64, 64));
+
+    const now = new Date();
+    const report = await getQualityReport({ from: new Date(now.getTime() - 60 * 1000), to: new Date(now.getTime() + 1000) });
+
+    expect(report.count).toBe(2);
+    expect(report.days).toHaveLength(1);
+    expect(report.days[0].day).toBe(now.toISOString().slice(0, 10));
+    expect(report.overall!.rmsContrast.p10).toBeCloseTo(0);
+    expect(report.overall!.rmsContrast.p90).toBeCloseTo(0.5, 1);
+    expect(report.luminanceHistogram.reduce((sum, share) => sum + share, 0)).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Legibility tests
+ * Verifies the feed-size check on rendered text and subjects, and that its
+ * findings reach the quality validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { analyzeImageLegibility, FEED_SIZES } from '../legibility.service';
+import { validateImageQuality } from '../post-production.service';
+
+async function scene(paint: (context: any) => void) {
+  const canvas = createCanvas(1280, 720);
+  const context = canvas.getContext('2d');
+  context.fillStyle = '#1e2a3a';
+  context.fillRect(0, 0, 1280, 720);
+  paint(context);
+  return loadImage(canvas.toBuffer('image/png'));
+}
+
+const subject = (context: any) => {
+  context.fillStyle = '#e8a33d';
+  context.beginPath();
+  context.arc(960, 380, 220, 0, Math.PI * 2);
+  context.fill();
+};
+
+const smallFaintText = (context: any) => {
+  subject(context);
+  context.fillStyle = '#8a8a8a';
+  context.font = '22px "DejaVu Sans"';
+  context.fillText('the details you missed in this episode', 60, 200);
+  context.fillText('watch until the very end for the answer', 60, 240);
+};
+
+describe('Legibility', () => {
+  it('passes large bold text at every feed size', async () => {
+    const image = await scene((context) => {
+      subject(context);
+      context.fillStyle = '#ffffff';
+      context.font = 'bold 150px "DejaVu Sans"';
+      context.fillText('BIG WIN', 60, 260);
+    });
+
+    const result = analyzeImageLegibility(image);
+
+    expect(result.hasText).toBe(true);
+    expect(result.passed).toBe(true);
+    expect(result.sizes.map((size) => [size.width, size.height])).toEqual(
+      FEED_SIZES.map((size) => [size.width, size.height])
+    );
+    expect(result.sizes.every((size) => size.textContrast! >= 3)).toBe(true);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('fails small low-contrast text and recommends a fix', async () => {
+    const image = await scene(smallFaintText);
+
+    const result = analyzeImageLegibility(image);
+
+    expect(result.hasText).toBe(true);
+    expect(result.passed).toBe(false);
+    expect(result.score).toBeLessThan(60);
+    expect(result.issues).toContain('Text is hard to read at 168×94 (mobile feed)');
+    expect(result.recommendations[0]).toMatch(/^Text is unreadable at 168×94/);
+  });
+
+  it('reports no text for a picture without lettering', async () => {
+    const image = await scene(subject);
+
+    const result = analyzeImageLegibility(image);
+
+    expect(result.hasText).toBe(false);
+    expect(result.textCoverage).toBe(0);
+    expect(result.sizes.every((size) => size.textContrast === null)).toBe(true);
+  });
+
+  it('replaces the generic text estimate in quality validation', async () => {
+    const legibility = analyzeImageLegibility(await scene(smallFaintText));
+
+    const validation = validateImageQuality('https://example.com/t.png', {}, undefined, legibility);
+
+    expect(validation.legibility).toBe(legibility);
+    expect(validation.metrics.textReadability).toBe(50);
+    expect(validation.issues).not.toContain('Text may be hard to read on small screens');
+    expect(validation.issues).toEqual(expect.arrayContaining(legibility.issues));
+    expect(validation.recommendations).toEqual(expect.arrayContaining(legibility.recommendations));
+  });
+});
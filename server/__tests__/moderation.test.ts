@@ -0,0 +1,146 @@
+/**
+ * Moderation tests
+ * Verifies the rule set, the LLM classifier and blocking in the orchestrator
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../db', () => ({
+  getDb: vi.fn(async () => null),
+  createGenerationHistory: vi.fn(async () => undefined),
+  getAppSetting: vi.fn(async () => undefined),
+  setAppSetting: vi.fn(async () => {
+    throw new Error('Database not available');
+  }),
+}));
+
+vi.mock('../llm.service', () => ({
+  invokeLLM: vi.fn(),
+}));
+
+vi.mock('../_core/imageGeneration', () => ({
+  generateImage: vi.fn(async () => ({ url: 'https://cdn.example.com/generated.png' })),
+}));
+
+import {
+  ModerationError,
+  enforceModerationPolicy,
+  getDefaultModerationPolicy,
+  listModerationEvents,
+  moderateText,
+  resetModeration,
+  reviewModerationEvent,
+  updateModerationPolicy,
+} from '../moderation.service';
+import { executeGenerationOrchestrator } from '../ai-orchestrator.service';
+import { invokeLLM } from '../llm.service';
+import { generateImage } from '../_core/imageGeneration';
+
+const classifierReturns = (violations: Array<{ category: string; confidence: number; reason: string }>) =>
+  vi.mocked(invokeLLM).mockResolvedValue({
+    choices: [{ message: { content: JSON.stringify({ violations }) } }],
+  } as any);
+
+describe('Moderation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetModeration();
+    classifierReturns([]);
+  });
+
+  it('should block a blocked term without calling the classifier', async () => {
+    const decision = await moderateText('A NSFW gaming thumbnail');
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.reasons).toEqual([
+      { category: 'sexual', source: 'term', rule: 'nsfw', explanation: 'Contains blocked term "nsfw"' },
+    ]);
+    expect(invokeLLM).not.toHaveBeenCalled();
+  });
+
+  it('should match terms as whole words only', async () => {
+    const decision = await moderateText('Gorgeous sunset over the mountains');
+
+    expect(decision.allowed).toBe(true);
+    expect(decision.classifier).toBe('passed');
+  });
+
+  it('should apply admin-defined patterns', async () => {
+    await updateModerationPolicy({
+      ...getDefaultModerationPolicy(),
+      patterns: [{ pattern: 'acme\\s+logo', category: 'trademark' }],
+    });
+
+    const decision = await moderateText('Put the ACME  logo in the corner');
+
+    expect(decision.reasons[0]).toMatchObject({ category: 'trademark', source: 'pattern' });
+  });
+
+  it('should block classifier findings at or above the threshold in enabled categories', async () => {
+    classifierReturns([
+      { category: 'real_person', confidence: 0.92, reason: 'Fabricated scandal photo of a named politician' },
+      { category: 'violence', confidence: 0.3, reason: 'Mild action' },
+    ]);
+
+    const decision = await moderateText('Photo of the senator being arrested');
+
+    expect(decision).toEqual({
+      allowed: false,
+      classifier: 'flagged',
+      reasons: [
+        {
+          category: 'real_person',
+          source: 'classifier',
+          confidence: 0.92,
+          explanation: 'Fabricated scandal photo of a named politician',
+        },
+      ],
+    });
+  });
+
+  it('should ignore categories the admin has disabled', async () => {
+    await updateModerationPolicy({ ...getDefaultModerationPolicy(), categories: ['sexual'] });
+    classifierReturns([{ category: 'trademark', confidence: 0.95, reason: 'Uses a brand logo' }]);
+
+    expect((await moderateText('Nike logo on a jersey')).allowed).toBe(true);
+  });
+
+  it('should fail open on classifier errors unless configured to fail closed', async () => {
+    vi.mocked(invokeLLM).mockRejectedValue(new Error('All llm providers failed'));
+
+    expect(await moderateText('A cooking thumbnail')).toMatchObject({ allowed: true, classifier: 'error' });
+
+    const policy = getDefaultModerationPolicy();
+    await updateModerationPolicy({ ...policy, classifier: { ...policy.classifier, failClosed: true } });
+    expect(await moderateText('A cooking thumbnail')).toMatchObject({ allowed: false, classifier: 'error' });
+  });
+
+  it('should queue blocked attempts for review', async () => {
+    await expect(
+      enforceModerationPolicy('naked celebrity', { userId: 'user123', source: 'chat' })
+    ).rejects.toBeInstanceOf(ModerationError);
+
+    const [event] = await listModerationEvents({ status: 'pending' });
+    expect(event).toMatchObject({ userId: 'user123', source: 'chat', categories: ['sexual'] });
+
+    const reviewed = await reviewModerationEvent(event.id, { status: 'overturned', reviewedBy: 'admin1' });
+    expect(reviewed).toMatchObject({ status: 'overturned', reviewedBy: 'admin1' });
+    expect(await listModerationEvents({ status: 'pending' })).toHaveLength(0);
+  });
+
+  it('should stop a generation before any provider call and report the reasons', async () => {
+    const result = await executeGenerationOrchestrator({
+      userId: 'user123',
+      userPrompt: 'Gaming thumbnail with gore everywhere',
+      pipeline: 'raw-prompt',
+    });
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toBe('Request blocked by content policy (violence)');
+    expect(result.moderation?.reasons[0]).toMatchObject({ category: 'violence', rule: 'gore' });
+    expect(generateImage).not.toHaveBeenCalled();
+
+    const [event] = await listModerationEvents();
+    expect(event).toMatchObject({ source: 'generation', jobId: result.jobId });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Post-production effect tests
+ * Verifies the pixel operations and that the same options give the same image
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+
+// Processed images are returned as data URLs instead of going to storage
+process.env.PROVIDER_MODE = 'synthetic';
+
+import {
+  adjustBrightness,
+  applyGrainEffect,
+  applyPostProductionEffects,
+  applyVignetteEffect,
+  enhanceContrast,
+  saturateColors,
+  sharpenImage,
+} from '../post-production.service';
+
+function pngDataUrl(width: number, height: number, paint: (context: any) => void): string {
+  const canvas = createCanvas(width, height);
+  paint(canvas.getContext('2d'));
+  return `data:image/png;base64,${canvas.toBuffer('image/png').toString('base64')}`;
+}
+
+async function pixelAt(url: string, x: number, y: number): Promise<number[]> {
+  const image = await loadImage(Buffer.from(url.slice(url.indexOf(',') + 1), 'base64'));
+  const canvas = createCanvas(image.width, image.height);
+  const context = canvas.getContext('2d');
+  context.drawImage(image, 0, 0);
+  return Array.from(context.getImageData(x, y, 1, 1).data.slice(0, 3));
+}
+
+const gray = (value: number) =>
+  pngDataUrl(32, 32, (context) => {
+    context.fillStyle = `rgb(${value}, ${value}, ${value})`;
+    context.fillRect(0, 0, 32, 32);
+  });
+
+describe('Post-Production Effects', () => {
+  it('should shift brightness through the tone curve', async () => {
+    expect(await pixelAt(await adjustBrightness(gray(100), 20), 5, 5)).toEqual([151, 151, 151]);
+    expect(await pixelAt(await adjustBrightness(gray(100), -20), 5, 5)).toEqual([49, 49, 49]);
+  });
+
+  it('should darken shadows and lift highlights with contrast, keeping mid-gray', async () => {
+    expect((await pixelAt(await enhanceContrast(gray(60), 50), 0, 0))[0]).toBeLessThan(60);
+    expect((await pixelAt(await enhanceContrast(gray(200), 50), 0, 0))[0]).toBeGreaterThan(200);
+    expect((await pixelAt(await enhanceContrast(gray(128), 50), 0, 0))[0]).toBeCloseTo(128, -1);
+  });
+
+  it('should push colors away from gray when saturating', async () => {
+    const muted = pngDataUrl(8, 8, (context) => {
+      context.fillStyle = 'rgb(150, 100, 100)';
+      context.fillRect(0, 0, 8, 8);
+    });
+
+    const [r, g, b] = await pixelAt(await saturateColors(muted, 50), 0, 0);
+    expect(r).toBeGreaterThan(150);
+    expect(g).toBeLessThan(100);
+    expect(b).toBe(g);
+  });
+
+  it('should increase edge contrast when sharpening', async () => {
+    const edge = pngDataUrl(16, 16, (context) => {
+      context.fillStyle = 'rgb(80, 80, 80)';
+      context.fillRect(0, 0, 8, 16);
+      context.fillStyle = 'rgb(160, 160, 160)';
+      context.fillRect(8, 0, 8, 16);
+    });
+
+    const sharpened = await sharpenImage(edge, 50);
+    expect((await pixelAt(sharpened, 7, 8))[0]).toBeLessThan(80);
+    expect((await pixelAt(sharpened, 8, 8))[0]).toBeGreaterThan(160);
+    expect(await pixelAt(sharpened, 2, 8)).toEqual([80, 80, 80]);
+  });
+
+  it('should darken the corners but not the center with a vignette', async () => {
+    const result = await applyVignetteEffect(gray(200), 60);
+
+    expect((await pixelAt(result, 0, 0))[0]).toBeLessThan(120);
+    expect(await pixelAt(result, 16, 16)).toEqual([200, 200, 200]);
+  });
+
+  it('should add the same grain for the same seed', async () => {
+    const first = await applyGrainEffect(gray(128), 40, 7);
+
+    expect(await applyGrainEffect(gray(128), 40, 7)).toBe(first);
+    expect(await applyGrainEffect(gray(128), 40, 8)).not.toBe(first);
+    expect(first).not.toBe(gray(128));
+  });
+
+  it('should give identical output for identical options', async () => {
+    const source = pngDataUrl(48, 27, (context) => {
+      context.fillStyle = '#3a6ea5';
+      context.fillRect(0, 0, 48, 27);
+      context.fillStyle = '#f4d35e';
+      context.fillRect(12, 6, 20, 12);
+    });
+    const options = {
+      applyVignette: true,
+      vignetteIntensity: 30,
+      applyGrain: true,
+      grainAmount: 15,
+      enhanceContrast: true,
+      contrastBoost: 20,
+      saturateColors: true,
+      saturationBoost: 15,
+      sharpenImage: true,
+      sharpenAmount: 10,
+    };
+
+    const first = await applyPostProductionEffects(source, options);
+    expect(first).not.toBe(source);
+    expect(await applyPostProductionEffects(source, options)).toBe(first);
+  });
+
+  it('should return the input unchanged when no effect is enabled or it cannot be read', async () => {
+    const source = gray(90);
+    expect(await applyPostProductionEffects(source, { applyVignette: false, vignetteIntensity: 30 })).toBe(source);
+    expect(await applyPostProductionEffects('data:image/png;base64,AAAA', { applyGrain: true, grainAmount: 15 })).toBe(
+      'data:image/png;base64,AAAA'
+    );
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Pricing table tests
+ * Verifies quotes by model, size, candidates and options, and admin overrides
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../db', () => ({
+  getDb: vi.fn(async () => null),
+  getAppSetting: vi.fn(async () => undefined),
+  setAppSetting: vi.fn(async () => {
+    throw new Error('Database not available');
+  }),
+}));
+
+import {
+  getDefaultPricingTable,
+  getFixedPrice,
+  getPricingTable,
+  priceGeneration,
+  resetPricingTable,
+  updatePricingTable,
+} from '../pricing.service';
+import { quoteGenerationCredits } from '../ai-orchestrator.service';
+
+describe('Pricing', () => {
+  it('should default model prices to the provider registry', () => {
+    const table = getDefaultPricingTable();
+    expect(table.models['dall-e-3'].credits).toBe(10);
+    expect(table.models['routix-v1'].credits).toBe(4);
+  });
+
+  it('should price sizes, candidates and options', () => {
+    const table = getDefaultPricingTable();
+    table.models['dall-e-3'].sizes = { '1024x1792': 14 };
+
+    const price = priceGeneration(table, {
+      model: 'dall-e-3',
+      size: '1024x1792',
+      candidates: 2,
+      upscale: true,
+    });
+
+    expect(price.creditsPerCandidate).toBe(14);
+    expect(price.extraCredits).toBe(14);
+    expect(price.optionCredits).toBe(table.options.upscale);
+    expect(price.totalCredits).toBe(28 + table.options.upscale);
+    expect(price.lineItems).toHaveLength(2);
+  });
+
+  it('should apply admin edits to quotes without a restart', async () => {
+    const table = getDefaultPricingTable();
+    table.models['dall-e-3'].credits = 7;
+    table.fixed.thumbnail = 3;
+    await updatePricingTable(table, 'admin1');
+
+    expect((await quoteGenerationCredits({ model: 'dall-e-3', candidates: 2 })).totalCredits).toBe(14);
+    expect(await getFixedPrice('thumbnail')).toBe(3);
+
+    await resetPricingTable('admin1');
+    expect((await getPricingTable()).models['dall-e-3'].credits).toBe(10);
+  });
+
+  it('should reject invalid prices', async () => {
+    const table = getDefaultPricingTable();
+    table.options.upscale = -1;
+    await expect(updatePricingTable(table)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Provider failover tests
+ * Verifies fallback chains, attempt deadlines, circuit breakers and the
+ * health they report to admins
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  CIRCUIT_COOLDOWN_MS,
+  CIRCUIT_FAILURE_THRESHOLD,
+  getCircuitBreakerStates,
+  resetCircuitBreakers,
+  runWithFailover,
+  withDeadline,
+} from '../provider-failover.service';
+import {
+  generateWithImageModel,
+  registerImageModel,
+  registerImageProviderAdapter,
+} from '../image-providers.service';
+import { adminRouter } from '../admin.router';
+
+const failing = (id: string) => ({
+  id,
+  run: vi.fn(async () => {
+    throw new Error(`${id} unavailable`);
+  }),
+});
+
+const succeeding = (id: string, value = id) => ({ id, run: vi.fn(async () => value) });
+
+// Never settles on its own; resolves only when aborted
+const hanging = (id: string) => {
+  const aborted = vi.fn();
+  return {
+    aborted,
+    provider: {
+      id,
+      run: (signal: AbortSignal) =>
+        new Promise<string>(() => {
+          signal.addEventListener('abort', aborted);
+        }),
+    },
+  };
+};
+
+describe('Provider Failover', () => {
+  beforeEach(() => {
+    resetCircuitBreakers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should fall through to the next provider when one fails', async () => {
+    const result = await runWithFailover('llm', [failing('primary'), succeeding('backup')]);
+
+    expect(result.value).toBe('backup');
+    expect(result.provider).toBe('backup');
+    expect(result.attempts.map((attempt) => attempt.status)).toEqual(['failed', 'succeeded']);
+  });
+
+  it('should abort a hung provider at its deadline and try the next one', async () => {
+    const hung = hanging('slow');
+    const result = await runWithFailover('image', [hung.provider, succeeding('fast')], {
+      timeoutMs: 20,
+    });
+
+    expect(result.provider).toBe('fast');
+    expect(result.attempts[0].error).toBe('Timed out after 20ms');
+    expect(hung.aborted).toHaveBeenCalled();
+  });
+
+  it('should report every failure when the whole chain fails', async () => {
+    await expect(runWithFailover('vision', [failing('a'), failing('b')])).rejects.toThrow(
+      'All vision providers failed (a: a unavailable; b: b unavailable)'
+    );
+  });
+
+  it('should open the breaker after repeated failures and skip the provider', async () => {
+    const primary = failing('primary');
+    const backup = succeeding('backup');
+
+    for (let i = 0; i < CIRCUIT_FAILURE_THRESHOLD; i++) {
+      await runWithFailover('llm', [primary, backup]);
+    }
+    const result = await runWithFailover('llm', [primary, backup]);
+
+    expect(primary.run).toHaveBeenCalledTimes(CIRCUIT_FAILURE_THRESHOLD);
+    expect(result.attempts[0]).toEqual({ provider: 'primary', status: 'skipped', error: 'Circuit open' });
+    expect(getCircuitBreakerStates()).toContainEqual(
+      expect.objectContaining({ capability: 'llm', provider: 'primary', state: 'open' })
+    );
+
+    const health = await adminRouter
+      .createCaller({ user: { id: 'admin1', role: 'admin' } as any, req: {} as any, res: {} as any })
+      .getSystemHealth();
+    expect(health.status).toBe('degraded');
+    expect(health.llm.status).toBe('degraded');
+    expect(health.imageGeneration.status).toBe('operational');
+  });
+
+  it('should let a trial request through after the cooldown and close on success', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const primary = failing('primary');
+    for (let i = 0; i < CIRCUIT_FAILURE_THRESHOLD; i++) {
+      await runWithFailover('image', [primary, succeeding('backup')]);
+    }
+
+    vi.setSystemTime(Date.now() + CIRCUIT_COOLDOWN_MS);
+    expect(getCircuitBreakerStates()[0].state).toBe('half-open');
+
+    primary.run.mockResolvedValueOnce('recovered' as never);
+    const result = await runWithFailover('image', [primary, succeeding('backup')]);
+
+    expect(result.provider).toBe('primary');
+    expect(getCircuitBreakerStates()[0]).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('should stop the chain without blaming the provider when the caller aborts', async () => {
+    const controller = new AbortController();
+    const hung = hanging('slow');
+    const backup = succeeding('backup');
+
+    const pending = runWithFailover('llm', [hung.provider, backup], { signal: controller.signal });
+    controller.abort(new Error('Step deadline passed'));
+
+    await expect(pending).rejects.toThrow('Step deadline passed');
+    expect(backup.run).not.toHaveBeenCalled();
+    expect(getCircuitBreakerStates()[0].consecutiveFailures).toBe(0);
+  });
+
+  it('should reject with a timeout even if the operation ignores the signal', async () => {
+    await expect(withDeadline(10, () => new Promise(() => {}))).rejects.toThrow('Timed out after 10ms');
+  });
+});
+
+describe('Image Model Failover', () => {
+  beforeEach(() => {
+    resetCircuitBreakers();
+  });
+
+  it('should fall back to a configured model and report the attempts', async () => {
+    registerImageProviderAdapter('local-http', {
+      isConfigured: (config) => Boolean(config.settings?.baseUrl),
+      generate: async (config) => {
+        if (config.id === 'test-primary') throw new Error('GPU server down');
+        return { url: `https://cdn.example.com/${config.id}.png` };
+      },
+    });
+    const capabilities = {
+      sizes: ['1024x1024'],
+      defaultSize: '1024x1024',
+      supportsEditing: false,
+      supportsSeed: true,
+      creditCost: 1,
+      estimatedUsdCost: 0,
+    };
+    registerImageModel({
+      id: 'test-primary',
+      name: 'Primary',
+      description: 'Primary test model',
+      provider: 'local-http',
+      quality: 'draft',
+      capabilities,
+      fallbacks: ['test-unconfigured', 'test-fallback'],
+      settings: { baseUrl: 'http://primary.local' },
+    });
+    registerImageModel({
+      id: 'test-unconfigured',
+      name: 'Unconfigured',
+      description: 'No backend configured',
+      provider: 'local-http',
+      quality: 'draft',
+      capabilities,
+    });
+    registerImageModel({
+      id: 'test-fallback',
+      name: 'Fallback',
+      description: 'Fallback test model',
+      provider: 'local-http',
+      quality: 'draft',
+      capabilities,
+      settings: { baseUrl: 'http://fallback.local' },
+    });
+
+    const result = await generateWithImageModel('test-primary', { prompt: 'A thumbnail' });
+
+    expect(result.modelId).toBe('test-fallback');
+    expect(result.url).toBe('https://cdn.example.com/test-fallback.png');
+    expect(result.attempts?.map((attempt) => attempt.provider)).toEqual(['test-primary', 'test-fallback']);
+  });
+});
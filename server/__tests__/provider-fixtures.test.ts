@@ -0,0 +1,226 @@
+/**
+ * Provider mode tests
+ * Verifies record/replay fixtures, synthetic output and an offline orchestrator run
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+vi.mock('../db', () => ({
+  getDb: vi.fn(async () => null),
+  createGenerationHistory: vi.fn(async () => undefined),
+  getAppSetting: vi.fn(async () => undefined),
+}));
+
+vi.mock('../reference-thumbnail.service', () => ({
+  findBestMatchingReferences: vi.fn(async () => [{ id: 'ref_1', title: 'Reference' }]),
+  getMetadata: vi.fn(async () => ({ mood: 'shocked', lighting: 'dramatic', hasText: true })),
+  calculateSimilarityScore: vi.fn(() => 0.75),
+}));
+
+import {
+  createPlaceholderPng,
+  hashRequest,
+  synthesizeFromSchema,
+  withProviderFixture,
+} from '../_core/providerFixtures';
+import { invokeLLM } from '../llm.service';
+import { ENV } from '../_core/env';
+import { executeGenerationOrchestrator } from '../ai-orchestrator.service';
+import { generateWithImageModel } from '../image-providers.service';
+
+describe('Provider Fixtures', () => {
+  let fixturesDir: string;
+
+  beforeEach(() => {
+    fixturesDir = mkdtempSync(path.join(tmpdir(), 'routix-fixtures-'));
+    process.env.PROVIDER_FIXTURES_DIR = fixturesDir;
+  });
+
+  afterEach(() => {
+    rmSync(fixturesDir, { recursive: true, force: true });
+    delete process.env.PROVIDER_MODE;
+    delete process.env.PROVIDER_FIXTURES_DIR;
+    delete process.env.PROVIDER_REPLAY_STRICT;
+  });
+
+  it('should hash requests independently of key order', () => {
+    expect(hashRequest('llm', { a: 1, b: { c: 2, d: 3 } })).toBe(
+      hashRequest('llm', { b: { d: 3, c: 2 }, a: 1 })
+    );
+    expect(hashRequest('llm', { a: 1 })).not.toBe(hashRequest('vision', { a: 1 }));
+  });
+
+  it('should record a live response and replay it without calling the provider', async () => {
+    const live = vi.fn(async () => ({ answer: 42 }));
+    const synthetic = () => ({ answer: 0 });
+
+    process.env.PROVIDER_MODE = 'record';
+    await withProviderFixture('llm', { prompt: 'hello' }, live, synthetic);
+    expect(live).toHaveBeenCalledTimes(1);
+    expect(readdirSync(path.join(fixturesDir, 'llm'))).toHaveLength(1);
+
+    process.env.PROVIDER_MODE = 'replay';
+    const replayed = await withProviderFixture('llm', { prompt: 'hello' }, live, synthetic);
+    expect(replayed).toEqual({ answer: 42 });
+    expect(live).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to synthetic output on a replay miss unless strict', async () => {
+    const live = vi.fn(async () => 'live');
+
+    process.env.PROVIDER_MODE = 'replay';
+    expect(await withProviderFixture('llm', { prompt: 'new' }, live, () => 'synthetic')).toBe(
+      'synthetic'
+    );
+
+    process.env.PROVIDER_REPLAY_STRICT = 'true';
+    await expect(
+      withProviderFixture('llm', { prompt: 'new' }, live, () => 'synthetic')
+    ).rejects.toThrow('No llm fixture recorded');
+    expect(live).not.toHaveBeenCalled();
+  });
+
+  it('should produce schema-valid synthetic LLM output', async () => {
+    process.env.PROVIDER_MODE = 'synthetic';
+
+    const result = await invokeLLM({
+      messages: [{ role: 'user', content: 'Score this prompt' }],
+      outputSchema: {
+        name: 'score',
+        schema: {
+          type: 'object',
+          properties: {
+            score: { type: 'number', minimum: 0, maximum: 1 },
+            verdict: { type: 'string', enum: ['good', 'bad'] },
+            tips: { type: 'array', items: { type: 'string' } },
+          },
+        },
+      },
+    });
+
+    const parsed = JSON.parse(result.choices[0].message.content as string);
+    expect(parsed.score).toBeGreaterThanOrEqual(0);
+    expect(parsed.score).toBeLessThanOrEqual(1);
+    expect(['good', 'bad']).toContain(parsed.verdict);
+    expect(parsed.tips).toHaveLength(1);
+    expect(result.usage?.total_tokens).toBeGreaterThan(0);
+  });
+
+  it('should synthesize deterministic values', () => {
+    const schema = { type: 'object', properties: { value: { type: 'integer' } } };
+    expect(synthesizeFromSchema(schema, 'seed')).toEqual(synthesizeFromSchema(schema, 'seed'));
+  });
+
+  it('should create deterministic placeholder PNGs of the requested size', () => {
+    const png = createPlaceholderPng('seed', 64, 36);
+
+    expect(png.subarray(1, 4).toString('ascii')).toBe('PNG');
+    expect(png.readUInt32BE(16)).toBe(64);
+    expect(png.readUInt32BE(20)).toBe(36);
+    expect(createPlaceholderPng('seed', 64, 36).equals(png)).toBe(true);
+    expect(createPlaceholderPng('other', 64, 36).equals(png)).toBe(false);
+  });
+
+  it('should run the whole orchestrator offline in synthetic mode', async () => {
+    process.env.PROVIDER_MODE = 'synthetic';
+
+    const result = await executeGenerationOrchestrator({
+      userId: 'user123',
+      userPrompt: 'Create a shocked gaming thumbnail with red colors',
+      topic: 'gaming',
+    });
+
+    expect(result.status).toBe('success');
+    expect(result.generatedImageUrl).toMatch(/^data:image\/png;base64,/);
+    expect(result.generatedPrompt).toBeTruthy();
+    expect(result.qualityScore).toBeGreaterThan(0);
+  });
+
+  it('should ask the built-in image service for the chosen size', async () => {
+    process.env.PROVIDER_MODE = 'live';
+    Object.assign(ENV, { forgeApiUrl: 'https://forge.example.com', forgeApiKey: 'key' });
+    // The image service, then the storage upload of its image
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockImplementationOnce(async () =>
+        Response.json({ image: { b64Json: createPlaceholderPng('forge').toString('base64'), mimeType: 'image/png' } })
+      )
+      .mockImplementationOnce(async () => Response.json({ url: 'https://cdn.example.com/generated.png' }));
+
+    try {
+      const result = await generateWithImageModel('dall-e-3', { prompt: 'Portrait thumbnail', size: '1024x1792' });
+
+      expect(result.size).toBe('1024x1792');
+      const [, init] = fetchSpy.mock.calls[0];
+      expect(JSON.parse(init!.body as string)).toMatchObject({ prompt: 'Portrait thumbnail', size: '1024x1792' });
+    } finally {
+      fetchSpy.mockRestore();
+      Object.assign(ENV, { forgeApiUrl: '', forgeApiKey: '' });
+    }
+  });
+
+  it('should store images finished in the same millisecond under different keys', async () => {
+    process.env.PROVIDER_MODE = 'live';
+    Object.assign(ENV, { forgeApiUrl: 'https://forge.example.com', forgeApiKey: 'key' });
+    vi.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+    // Storage uploads answer with their own path, so each stored key is visible
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (url) =>
+      String(url).includes('/v1/storage/upload')
+        ? Response.json({ url: new URL(String(url)).searchParams.get('path') })
+        : Response.json({ image: { b64Json: createPlaceholderPng('forge').toString('base64'), mimeType: 'image/png' } })
+    );
+
+    try {
+      const [first, second] = await Promise.all([
+        generateWithImageModel('dall-e-3', { prompt: 'Thumbnail' }),
+        generateWithImageModel('dall-e-3', { prompt: 'Thumbnail' }),
+      ]);
+
+      expect(first.url).toMatch(/^generated\//);
+      expect(first.url).not.toBe(second.url);
+    } finally {
+      fetchSpy.mockRestore();
+      vi.mocked(Date.now).mockRestore();
+      Object.assign(ENV, { forgeApiUrl: '', forgeApiKey: '' });
+    }
+  });
+
+  it('should size synthetic built-in images like the request', async () => {
+    process.env.PROVIDER_MODE = 'synthetic';
+
+    const result = await generateWithImageModel('dall-e-3', { prompt: 'Portrait thumbnail', size: '1024x1792' });
+    const png = Buffer.from(result.url.split(',')[1], 'base64');
+
+    expect(png.readUInt32BE(16)).toBe(1024);
+    expect(png.readUInt32BE(20)).toBe(1792);
+  });
+
+  it('should abort a built-in image request when the caller gives up', async () => {
+    process.env.PROVIDER_MODE = 'live';
+    Object.assign(ENV, { forgeApiUrl: 'https://forge.example.com', forgeApiKey: 'key' });
+    let requestSignal: AbortSignal | undefined;
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(
+      (_url, init) =>
+        new Promise((_, reject) => {
+          requestSignal = init?.signal ?? undefined;
+          requestSignal?.addEventListener('abort', () => reject(requestSignal!.reason));
+        })
+    );
+    const controller = new AbortController();
+
+    try {
+      const generation = generateWithImageModel('dall-e-3', { prompt: 'Thumbnail' }, { signal: controller.signal });
+      await vi.waitFor(() => expect(requestSignal).toBeDefined());
+      controller.abort();
+
+      await expect(generation).rejects.toThrow();
+      expect(requestSignal!.aborted).toBe(true);
+    } finally {
+      fetchSpy.mockRestore();
+      Object.assign(ENV, { forgeApiUrl: '', forgeApiKey: '' });
+    }
+  });
+});
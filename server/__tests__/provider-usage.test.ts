@@ -0,0 +1,131 @@
+/**
+ * Provider usage tests
+ * Verifies cost recording, attribution, daily spend caps and the cost report
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../db', () => ({
+  getDb: vi.fn(async () => null),
+  getAppSetting: vi.fn(async () => undefined),
+  setAppSetting: vi.fn(async () => {
+    throw new Error('Database not available');
+  }),
+}));
+
+import {
+  assertWithinSpendCaps,
+  estimateTokenCostUsd,
+  getCostReport,
+  getDailySpendUsd,
+  recordProviderUsage,
+  resetProviderUsage,
+  runWithUsageContext,
+  updateCostSettings,
+} from '../provider-usage.service';
+import { getDb } from '../db';
+
+// A database whose queries resolve to the given rows, one result per query in order
+function fakeDb(...results: unknown[][]) {
+  return {
+    select: () => {
+      const rows = results.shift();
+      const query: any = new Proxy(
+        {},
+        {
+          get: (_, key) => (key === 'then' ? (resolve: (value: unknown) => void) => resolve(rows) : () => query),
+        }
+      );
+      return query;
+    },
+  };
+}
+
+const settings = { creditValueUsd: 0.1, userDailyCapUsd: 1, globalDailyCapUsd: 10 };
+
+describe('Provider Usage', () => {
+  beforeEach(() => {
+    resetProviderUsage();
+    delete process.env.PROVIDER_MODE;
+  });
+
+  it('should price tokens per model and fall back to the default rate', () => {
+    expect(estimateTokenCostUsd('gpt-4o-mini', 1_000_000, 1_000_000)).toBeCloseTo(0.75);
+    expect(estimateTokenCostUsd('unknown-model', 1_000_000, 0)).toBeCloseTo(1);
+  });
+
+  it('should attribute calls to the surrounding user and job', async () => {
+    await runWithUsageContext({ userId: 'user123' }, () =>
+      runWithUsageContext({ jobId: 'job_1' }, () =>
+        recordProviderUsage({ capability: 'image', provider: 'forge', model: 'dall-e-3', imageCount: 1, costUsd: 0.08 })
+      )
+    );
+
+    expect(await getDailySpendUsd('user123')).toBeCloseTo(0.08);
+    expect(await getDailySpendUsd('someone-else')).toBe(0);
+
+    const report = await getCostReport({ from: new Date(0), to: new Date(Date.now() + 1000) });
+    expect(report.generations[0]).toMatchObject({ jobId: 'job_1', userId: 'user123', calls: 1 });
+  });
+
+  it('should not record replayed or synthetic calls', async () => {
+    process.env.PROVIDER_MODE = 'synthetic';
+    await recordProviderUsage({ capability: 'llm', provider: 'forge', model: 'gpt-4o-mini', costUsd: 1 });
+
+    expect(await getDailySpendUsd()).toBe(0);
+  });
+
+  it('should block generation once the user reaches the daily cap', async () => {
+    await updateCostSettings(settings);
+    await runWithUsageContext({ userId: 'user123' }, () =>
+      recordProviderUsage({ capability: 'image', provider: 'forge', model: 'dall-e-3', imageCount: 1, costUsd: 1 })
+    );
+
+    await expect(assertWithinSpendCaps('user123')).rejects.toThrow('Daily generation limit reached');
+    await expect(assertWithinSpendCaps('other-user')).resolves.toBeUndefined();
+  });
+
+  it('should block everyone once the global cap is reached', async () => {
+    await updateCostSettings({ ...settings, userDailyCapUsd: null, globalDailyCapUsd: 0.5 });
+    await recordProviderUsage({ capability: 'vision', provider: 'gemini', model: 'gemini-pro-vision', costUsd: 0.5 });
+
+    await expect(assertWithinSpendCaps('user123')).rejects.toThrow('temporarily unavailable');
+  });
+
+  it('should aggregate cost per model', async () => {
+    await updateCostSettings(settings);
+    await recordProviderUsage({ capability: 'llm', provider: 'forge', model: 'gpt-4o-mini', inputTokens: 1000, outputTokens: 500 });
+    await recordProviderUsage({ capability: 'llm', provider: 'forge', model: 'gpt-4o-mini', inputTokens: 1000, outputTokens: 500 });
+    await recordProviderUsage({ capability: 'image', provider: 'forge', model: 'dall-e-3', imageCount: 1, costUsd: 0.08 });
+
+    const report = await getCostReport({ from: new Date(0), to: new Date(Date.now() + 1000) });
+
+    expect(report.byModel[0]).toMatchObject({ model: 'dall-e-3', imageCount: 1, costUsd: 0.08 });
+    expect(report.byModel[1]).toMatchObject({ model: 'gpt-4o-mini', calls: 2, inputTokens: 2000, outputTokens: 1000 });
+    expect(report.totals.calls).toBe(3);
+    expect(report.totals.costUsd).toBeCloseTo(0.08 + estimateTokenCostUsd('gpt-4o-mini', 2000, 1000));
+  });
+
+  it('should charge a job with extra formats to its main generation', async () => {
+    await updateCostSettings(settings);
+    const createdAt = new Date();
+    vi.mocked(getDb).mockResolvedValueOnce(
+      fakeDb(
+        [{ capability: 'image', model: 'gpt-image-1', calls: '2', inputTokens: '0', outputTokens: '0', imageCount: '2', costUsd: '0.1' }],
+        [{ jobId: 'job_formats', userId: 'user123', calls: '2', costUsd: '0.1', createdAt }],
+        // The main record and a format sibling stored with the same job id
+        [
+          { id: 'gen_1', jobId: 'job_formats', model: 'gpt-image-1', creditsUsed: 4, parentGenerationId: null },
+          { id: 'gen_1_9x16', jobId: 'job_formats', model: 'gpt-image-1', creditsUsed: 0, parentGenerationId: 'gen_1' },
+        ],
+        [{ total: '4' }]
+      ) as any
+    );
+
+    const report = await getCostReport({ from: new Date(0), to: new Date(Date.now() + 1000) });
+
+    expect(report.generations).toHaveLength(1);
+    expect(report.generations[0]).toMatchObject({ jobId: 'job_formats', generationId: 'gen_1', creditsCharged: 4 });
+    expect(report.generations[0].marginUsd).toBeCloseTo(0.3);
+  });
+});
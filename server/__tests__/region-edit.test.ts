@@ -0,0 +1,111 @@
+/**
+ * Region edit tests
+ * Verifies mask rendering, model selection and the inpainting request
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+
+vi.mock('../image-providers.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../image-providers.service')>()),
+  generateWithImageModel: vi.fn(async (modelId: string, input: { size: string }) => ({
+    url: 'https://cdn.example.com/edited.png',
+    modelId,
+    provider: 'openai-compatible',
+    size: input.size,
+  })),
+}));
+
+import { editImageRegion, renderInpaintMask, selectMaskingModel } from '../region-edit.service';
+import { generateWithImageModel } from '../image-providers.service';
+
+function pngDataUrl(width: number, height: number, paint?: (context: any) => void): string {
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d');
+  paint?.(context);
+  return `data:image/png;base64,${canvas.toBuffer('image/png').toString('base64')}`;
+}
+
+async function readPixels(png: Buffer) {
+  const image = await loadImage(png);
+  const canvas = createCanvas(image.width, image.height);
+  const context = canvas.getContext('2d');
+  context.drawImage(image, 0, 0);
+  return { width: image.width, height: image.height, data: context.getImageData(0, 0, image.width, image.height).data };
+}
+
+describe('Region Edit', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should render a rectangle as an opaque white-on-black mask at the image size', async () => {
+    const { png, coverage } = await renderInpaintMask(200, 100, {
+      type: 'rect',
+      x: 0.5,
+      y: 0,
+      width: 0.5,
+      height: 0.5,
+    });
+
+    expect(coverage).toBeCloseTo(0.25);
+    const pixels = await readPixels(png);
+    expect([pixels.width, pixels.height]).toEqual([200, 100]);
+    const at = (x: number, y: number) => Array.from(pixels.data.slice((y * 200 + x) * 4, (y * 200 + x) * 4 + 4));
+    expect(at(150, 25)).toEqual([255, 255, 255, 255]);
+    expect(at(50, 75)).toEqual([0, 0, 0, 255]);
+  });
+
+  it('should scale a brush mask to the image and treat any painted pixel as edited', async () => {
+    // Brush canvas at half resolution with a faint stroke on the left half
+    const brush = pngDataUrl(100, 50, (context) => {
+      context.fillStyle = 'rgba(239, 68, 68, 0.5)';
+      context.fillRect(0, 0, 50, 50);
+    });
+
+    const { coverage } = await renderInpaintMask(200, 100, { type: 'brush', dataUrl: brush });
+
+    // Scaling may soften the stroke edge by a pixel
+    expect(coverage).toBeCloseTo(0.5, 1);
+  });
+
+  it('should fall back to a model that supports masking', () => {
+    expect(selectMaskingModel('dall-e-3').capabilities.supportsMasking).toBe(true);
+    expect(selectMaskingModel('routix-v1').id).toBe('routix-v1');
+  });
+
+  it('should send the image and mask to the model at the closest size', async () => {
+    const source = pngDataUrl(1280, 720, (context) => {
+      context.fillStyle = '#336699';
+      context.fillRect(0, 0, 1280, 720);
+    });
+
+    const result = await editImageRegion({
+      imageUrl: source,
+      mask: { type: 'rect', x: 0.1, y: 0.1, width: 0.2, height: 0.3 },
+      instruction: 'a natural hand with five fingers',
+      model: 'routix-v1',
+    });
+
+    expect(result.url).toBe('https://cdn.example.com/edited.png');
+    expect(result.maskCoverage).toBeCloseTo(0.06, 2);
+
+    const [modelId, input] = vi.mocked(generateWithImageModel).mock.calls[0];
+    expect(modelId).toBe('routix-v1');
+    expect(input.size).toBe('1280x720');
+    expect(input.prompt).toContain('Edit only the masked region: a natural hand with five fingers.');
+    expect(input.originalImages?.[0].b64Json).toBe(source.slice(source.indexOf(',') + 1));
+    expect((await readPixels(Buffer.from(input.mask!.b64Json, 'base64'))).width).toBe(1280);
+  });
+
+  it('should reject an empty mask without calling a provider', async () => {
+    await expect(
+      editImageRegion({
+        imageUrl: pngDataUrl(64, 64),
+        mask: { type: 'brush', dataUrl: pngDataUrl(64, 64) },
+        instruction: 'fix the text',
+      })
+    ).rejects.toThrow('The mask is empty');
+    expect(generateWithImageModel).not.toHaveBeenCalled();
+  });
+});
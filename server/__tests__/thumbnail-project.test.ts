@@ -0,0 +1,146 @@
+/**
+ * Thumbnail project tests
+ * Verifies the project document, layer rendering and rebasing onto a new flat image
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import {
+  createThumbnailProject,
+  parseThumbnailProject,
+  projectImageSources,
+  replaceProjectBackground,
+  type ThumbnailProjectInput,
+} from '@shared/thumbnailProject';
+import { getFlatImageUrl, renderThumbnailProject } from '../thumbnail-project.service';
+
+function solidDataUrl(color: string, width = 320, height = 180): string {
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d');
+  context.fillStyle = color;
+  context.fillRect(0, 0, width, height);
+  return `data:image/png;base64,${canvas.toBuffer('image/png').toString('base64')}`;
+}
+
+async function pixel(png: Buffer, x: number, y: number): Promise<number[]> {
+  const image = await loadImage(png);
+  const canvas = createCanvas(image.width, image.height);
+  const context = canvas.getContext('2d');
+  context.drawImage(image, 0, 0);
+  return Array.from(context.getImageData(x, y, 1, 1).data.slice(0, 3));
+}
+
+const background = solidDataUrl('#202020');
+
+function project(layers: ThumbnailProjectInput['layers'] = []): ThumbnailProjectInput {
+  return {
+    version: 1,
+    width: 320,
+    height: 180,
+    layers: [
+      { id: 'background', type: 'background', src: background, transform: { x: 0, y: 0, width: 320, height: 180 } },
+      ...layers,
+    ],
+  };
+}
+
+describe('Thumbnail projects', () => {
+  it('fills in layer defaults and rejects newer documents', () => {
+    const parsed = parseThumbnailProject(
+      project([{ id: 'title', type: 'text', text: 'Hello', transform: { x: 10, y: 10, width: 200, height: 80 } }])
+    );
+    const title = parsed.layers[1];
+
+    expect(title.visible).toBe(true);
+    expect(title.blendMode).toBe('normal');
+    expect(title.transform).toMatchObject({ rotation: 0, opacity: 1, flipX: false });
+    expect(title.type === 'text' && title.font).toBe('anton');
+
+    expect(() => parseThumbnailProject({ ...project(), version: 2 })).toThrow('newer');
+    expect(() =>
+      parseThumbnailProject(project([{ id: 'x', type: 'sticker', src: 'http://example.com/a.png', transform: { x: 0, y: 0, width: 1, height: 1 } }]))
+    ).toThrow();
+  });
+
+  it('renders shapes and text over the background', async () => {
+    const png = await renderThumbnailProject(
+      parseThumbnailProject(
+        project([
+          { id: 'box', type: 'shape', shape: 'rectangle', fill: '#ff0000', transform: { x: 200, y: 100, width: 100, height: 60 } },
+          { id: 'title', type: 'text', text: 'WOW', color: '#ffffff', transform: { x: 10, y: 10, width: 160, height: 80 } },
+        ])
+      )
+    );
+
+    const image = await loadImage(png);
+    expect([image.width, image.height]).toEqual([320, 180]);
+    expect(await pixel(png, 250, 130)).toEqual([255, 0, 0]);
+    expect(await pixel(png, 5, 170)).toEqual([32, 32, 32]);
+
+    // Some of the text box is white ink
+    const canvas = createCanvas(320, 180);
+    canvas.getContext('2d').drawImage(image, 0, 0);
+    const { data } = canvas.getContext('2d').getImageData(10, 10, 160, 80);
+    let white = 0;
+    for (let i = 0; i < data.length; i += 4) if (data[i] > 240 && data[i + 1] > 240 && data[i + 2] > 240) white++;
+    expect(white).toBeGreaterThan(200);
+  });
+
+  it('applies opacity, blend modes and hidden layers', async () => {
+    const shape = { type: 'shape' as const, shape: 'rectangle' as const, fill: '#ffffff' };
+    const png = await renderThumbnailProject(
+      parseThumbnailProject(
+        project([
+          { ...shape, id: 'half', transform: { x: 0, y: 0, width: 100, height: 180, opacity: 0.5 } },
+          { ...shape, id: 'inverted', blendMode: 'difference', transform: { x: 110, y: 0, width: 100, height: 180 } },
+          { ...shape, id: 'hidden', visible: false, transform: { x: 220, y: 0, width: 100, height: 180 } },
+        ])
+      )
+    );
+
+    const [half] = await pixel(png, 50, 90);
+    expect(half).toBeGreaterThan(130);
+    expect(half).toBeLessThan(150);
+    expect(await pixel(png, 160, 90)).toEqual([223, 223, 223]);
+    expect(await pixel(png, 270, 90)).toEqual([32, 32, 32]);
+  });
+
+  it('rebases layers onto a new flat image', () => {
+    const original = createThumbnailProject('https://cdn.example.com/a.png', 320, 180);
+    const withText = parseThumbnailProject({
+      ...original,
+      layers: [...original.layers, { id: 't', type: 'text', text: 'Hi', transform: { x: 0, y: 0, width: 100, height: 50 } }],
+    });
+
+    const rebased = replaceProjectBackground(withText, 'https://cdn.example.com/b.png');
+    expect(projectImageSources(rebased)).toEqual(['https://cdn.example.com/b.png']);
+    expect(rebased.layers.map((layer) => layer.id)).toEqual(['background', 't']);
+    expect(
+      getFlatImageUrl({ imageUrl: 'https://cdn.example.com/render.png', project: JSON.stringify(rebased) })
+    ).toBe('https://cdn.example.com/b.png');
+    expect(getFlatImageUrl({ imageUrl: 'https://cdn.example.com/render.png', project: null })).toBe(
+      'https://cdn.example.com/render.png'
+    );
+  });
+
+  it('renders the same project to the same pixels', async () => {
+    const document = parseThumbnailProject(
+      project([
+        {
+          id: 'title',
+          type: 'text',
+          text: 'Same every time',
+          font: 'bebas-neue',
+          stroke: { color: '#000000', width: 4 },
+          effects: { shadow: { color: '#000000aa', blur: 8, offsetX: 3, offsetY: 3 } },
+          transform: { x: 20, y: 20, width: 280, height: 100, rotation: -6 },
+        },
+        { id: 'arrow', type: 'shape', shape: 'arrow', fill: '#facc15', transform: { x: 200, y: 120, width: 100, height: 50, flipX: true } },
+      ])
+    );
+
+    const first = await renderThumbnailProject(document);
+    const second = await renderThumbnailProject(document);
+    expect(first.equals(second)).toBe(true);
+  });
+});
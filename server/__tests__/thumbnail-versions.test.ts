@@ -0,0 +1,136 @@
+/**
+ * Thumbnail version tests
+ * Verifies version recording, parent links, comparison and restoring
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Thumbnail } from '../../drizzle/schema';
+
+const thumbnails = new Map<string, Thumbnail>();
+
+vi.mock('../db', () => ({
+  getDb: vi.fn(async () => null),
+  getThumbnailById: vi.fn(async (id: string) => thumbnails.get(id)),
+  setThumbnailCurrentVersion: vi.fn(async (id: string, { id: currentVersionId, ...restored }: any) => {
+    Object.assign(thumbnails.get(id)!, { currentVersionId, ...restored });
+  }),
+}));
+
+import {
+  compareThumbnailVersions,
+  listThumbnailVersions,
+  recordThumbnailVersion,
+  resetThumbnailVersions,
+  restoreThumbnailVersion,
+} from '../thumbnail-versions.service';
+import { createThumbnailProject } from '@shared/thumbnailProject';
+
+function thumbnail(changes: Partial<Thumbnail> = {}): Thumbnail {
+  return {
+    id: 'thumb_1',
+    userId: 'user123',
+    conversationId: null,
+    prompt: 'Shocked gamer reacting to a boss fight',
+    imageUrl: 'https://cdn.example.com/v1.png',
+    originalImageUrl: null,
+    postProduction: null,
+    legibility: null,
+    project: null,
+    templateId: null,
+    status: 'completed',
+    creditsUsed: 10,
+    aspectRatio: '16:9',
+    style: null,
+    parentThumbnailId: null,
+    currentVersionId: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...changes,
+  };
+}
+
+// Apply a change to the stored thumbnail, as the routers do before recording
+function update(changes: Partial<Thumbnail>) {
+  Object.assign(thumbnails.get('thumb_1')!, changes);
+}
+
+describe('Thumbnail Versions', () => {
+  beforeEach(() => {
+    resetThumbnailVersions();
+    thumbnails.clear();
+    thumbnails.set('thumb_1', thumbnail());
+  });
+
+  it('records each change with its parent and makes it current', async () => {
+    const generated = await recordThumbnailVersion('thumb_1', { source: 'generation', settings: { aspectRatio: '16:9' } });
+    update({ imageUrl: 'https://cdn.example.com/v2.png' });
+    const edited = await recordThumbnailVersion('thumb_1', {
+      source: 'edit',
+      settings: { instruction: 'fix the left hand' },
+    });
+
+    expect(generated?.parentVersionId).toBeNull();
+    expect(edited?.parentVersionId).toBe(generated?.id);
+    expect(edited?.prompt).toBe('Shocked gamer reacting to a boss fight');
+    expect(thumbnails.get('thumb_1')!.currentVersionId).toBe(edited?.id);
+
+    const versions = await listThumbnailVersions('thumb_1');
+    expect(versions.map((version) => version.imageUrl)).toEqual([
+      'https://cdn.example.com/v2.png',
+      'https://cdn.example.com/v1.png',
+    ]);
+  });
+
+  it('lists what changed between two versions', async () => {
+    const project = createThumbnailProject('https://cdn.example.com/v1.png', 1280, 720);
+    const first = await recordThumbnailVersion('thumb_1', { source: 'generation' });
+    update({
+      postProduction: JSON.stringify({ vignette: { enabled: true, strength: 0.4 } }),
+      project: JSON.stringify({
+        ...project,
+        layers: [
+          ...project.layers,
+          { id: 'title', name: 'Title', type: 'text', text: 'BOSS', transform: { x: 0, y: 0, width: 400, height: 200 } },
+        ],
+      }),
+    });
+    const second = await recordThumbnailVersion('thumb_1', { source: 'post-production', prompt: 'New prompt' });
+
+    const paths = compareThumbnailVersions(first!, second!).map((difference) => difference.path);
+    expect(paths).toEqual(
+      expect.arrayContaining(['source', 'prompt', 'postProduction.vignette', 'layers.Title'])
+    );
+    expect(compareThumbnailVersions(first!, first!)).toEqual([]);
+  });
+
+  it('restores a past version and branches the next change from it', async () => {
+    const original = await recordThumbnailVersion('thumb_1', { source: 'generation' });
+    update({
+      imageUrl: 'https://cdn.example.com/v2.png',
+      originalImageUrl: 'https://cdn.example.com/v2-raw.png',
+      postProduction: JSON.stringify({ grain: { enabled: true } }),
+    });
+    const effects = await recordThumbnailVersion('thumb_1', { source: 'post-production' });
+
+    await restoreThumbnailVersion('thumb_1', original!.id);
+    expect(thumbnails.get('thumb_1')).toMatchObject({
+      currentVersionId: original!.id,
+      imageUrl: 'https://cdn.example.com/v1.png',
+      originalImageUrl: null,
+      postProduction: null,
+    });
+
+    update({ imageUrl: 'https://cdn.example.com/v3.png' });
+    const branch = await recordThumbnailVersion('thumb_1', { source: 'edit' });
+    expect(branch?.parentVersionId).toBe(original!.id);
+    expect((await listThumbnailVersions('thumb_1')).map((version) => version.id)).toContain(effects!.id);
+  });
+
+  it('does not restore versions of another thumbnail', async () => {
+    thumbnails.set('thumb_2', thumbnail({ id: 'thumb_2' }));
+    const other = await recordThumbnailVersion('thumb_2', { source: 'generation' });
+
+    await expect(restoreThumbnailVersion('thumb_1', other!.id)).rejects.toThrow('Version not found');
+    expect(await recordThumbnailVersion('missing', { source: 'edit' })).toBeNull();
+  });
+});
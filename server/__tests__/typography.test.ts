@@ -0,0 +1,123 @@
+/**
+ * Typography tests
+ * Verifies bundled fonts, auto-fit, styling passes and deterministic output
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import {
+  drawTextLayer,
+  listFonts,
+  renderTextLayers,
+  resolveFontId,
+  type TextLayerInput,
+} from '../typography.service';
+
+async function blank(width = 640, height = 360) {
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d');
+  context.fillStyle = '#000000';
+  context.fillRect(0, 0, width, height);
+  return loadImage(canvas.toBuffer('image/png'));
+}
+
+// Bounding box of pixels matching a predicate
+function inkBounds(canvas: ReturnType<typeof createCanvas>, match: (r: number, g: number, b: number) => boolean) {
+  const { data, width, height } = canvas.getContext('2d').getImageData(0, 0, canvas.width, canvas.height);
+  let [left, top, right, bottom] = [width, height, -1, -1];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (!match(data[i], data[i + 1], data[i + 2])) continue;
+      left = Math.min(left, x);
+      top = Math.min(top, y);
+      right = Math.max(right, x);
+      bottom = Math.max(bottom, y);
+    }
+  }
+  return { left, top, right, bottom, found: right >= 0 };
+}
+
+const box = { x: 40, y: 40, width: 560, height: 280 };
+
+describe('Typography', () => {
+  it('lists the bundled fonts and resolves family names', () => {
+    expect(listFonts().map((font) => font.id)).toEqual(
+      expect.arrayContaining(['anton', 'bebas-neue', 'montserrat'])
+    );
+    expect(resolveFontId('Bebas Neue')).toBe('bebas-neue');
+    expect(resolveFontId('Comic Sans', 'roboto')).toBe('roboto');
+  });
+
+  it('fits text to its box, breaking lines as needed', () => {
+    const context = createCanvas(640, 360).getContext('2d');
+    const short = drawTextLayer(context, { text: 'WOW', box });
+    const long = drawTextLayer(context, {
+      text: 'I tried every budget camera so you do not have to',
+      box,
+      stroke: { color: '#000000', width: 6 },
+    });
+
+    expect(short.lines).toHaveLength(1);
+    expect(long.lines.length).toBeGreaterThan(1);
+    expect(long.fontSize).toBeLessThan(short.fontSize);
+    expect(long.overflow).toBe(false);
+    expect(long.height).toBeLessThanOrEqual(box.height - 12);
+    for (const line of long.lines) expect(line.width).toBeLessThanOrEqual(box.width - 12);
+  });
+
+  it('draws highlighted words in their own color', async () => {
+    const canvas = renderTextLayers(await blank(), [
+      { text: 'BIG WIN', box, color: '#ffffff', highlights: [{ word: 'win!', color: '#ff0000' }] },
+    ]);
+
+    const white = inkBounds(canvas, (r, g, b) => r > 200 && g > 200 && b > 200);
+    const red = inkBounds(canvas, (r, g, b) => r > 200 && g < 60 && b < 60);
+    expect(white.found && red.found).toBe(true);
+    expect(red.left).toBeGreaterThan(white.right);
+  });
+
+  it('applies gradients, outlines and rotation', async () => {
+    const layer: TextLayerInput = {
+      text: 'HUGE',
+      box: { x: 220, y: 20, width: 200, height: 320 },
+      gradient: { angle: 0, stops: [{ offset: 0, color: '#ff0000' }, { offset: 1, color: '#0000ff' }] },
+      stroke: { color: '#00ff00', width: 4 },
+      rotation: 90,
+    };
+    const canvas = renderTextLayers(await blank(), [layer]);
+
+    const ink = inkBounds(canvas, (r, g, b) => r + g + b > 150);
+    const red = inkBounds(canvas, (r, g, b) => r > 150 && g < 80 && b < 80);
+    const blue = inkBounds(canvas, (r, g, b) => b > 150 && r < 80 && g < 80);
+    const outline = inkBounds(canvas, (r, g, b) => g > 200 && r < 80 && b < 80);
+
+    // Rotated a quarter turn, the word runs top to bottom and so does the gradient
+    expect(ink.bottom - ink.top).toBeGreaterThan(ink.right - ink.left);
+    expect(red.top).toBeLessThan(blue.top);
+    expect(outline.found).toBe(true);
+  });
+
+  it('renders the same spec to the same pixels', async () => {
+    const image = await blank();
+    const layers: TextLayerInput[] = [
+      {
+        text: 'Same text, same pixels',
+        font: 'montserrat',
+        box,
+        uppercase: true,
+        stroke: { color: '#000000', width: 5 },
+        shadow: { color: '#00000080', blur: 8, offsetX: 3, offsetY: 3 },
+        highlights: [{ word: 'pixels', color: '#ffd400' }],
+        rotation: -4,
+      },
+    ];
+
+    const first = renderTextLayers(image, layers).toBuffer('image/png');
+    const second = renderTextLayers(image, layers).toBuffer('image/png');
+    const changed = renderTextLayers(image, [{ ...layers[0], rotation: -3 }]).toBuffer('image/png');
+
+    expect(first.equals(second)).toBe(true);
+    expect(first.equals(changed)).toBe(false);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Uploaded image tests
+ * Verifies role parsing, that only data URLs and stored uploads are accepted,
+ * and that uploads reach the image model as image inputs
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../db', () => ({
+  getDb: vi.fn(async () => null),
+  createGenerationHistory: vi.fn(async () => undefined),
+  getAppSetting: vi.fn(async () => undefined),
+}));
+
+vi.mock('../gemini-vision.service', () => ({
+  analyzeUserPrompt: vi.fn(async () => ({ mood: 'excited', hasFace: true })),
+  assessThumbnailQuality: vi.fn(async () => ({
+    qualityScore: 0.9,
+    strengths: [],
+    improvements: [],
+    viralPotential: 0.8,
+  })),
+}));
+
+vi.mock('../reference-thumbnail.service', () => ({
+  findBestMatchingReferences: vi.fn(async () => [{ id: 'ref_1718000000000', title: 'Reference' }]),
+  getMetadata: vi.fn(async () => ({ mood: 'excited', lighting: 'dramatic' })),
+  getReferenceThumbnail: vi.fn(),
+  calculateSimilarityScore: vi.fn(() => 0.75),
+}));
+
+vi.mock('../_core/imageGeneration', () => ({
+  generateImage: vi.fn(async () => ({ url: 'https://cdn.example.com/generated.png' })),
+}));
+
+vi.mock('../llm.service', () => ({
+  invokeLLM: vi.fn(async () => ({
+    choices: [{ message: { content: 'Excited creator holding the product, bold yellow text' } }],
+  })),
+}));
+
+vi.mock('../moderation.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../moderation.service')>()),
+  enforceModerationPolicy: vi.fn(async () => ({ allowed: true, reasons: [], classifier: 'skipped' })),
+}));
+
+import {
+  describeUploadedImageRoles,
+  toOriginalImages,
+  uploadedImagesSchema,
+} from '../uploaded-images.service';
+import { executeGenerationOrchestrator } from '../ai-orchestrator.service';
+import { analyzeUserPrompt } from '../gemini-vision.service';
+import { generateImage } from '../_core/imageGeneration';
+import { invokeLLM } from '../llm.service';
+import { createGenerationHistory } from '../db';
+import { ENV } from '../_core/env';
+
+const FACE = 'https://cdn.example.com/uploads/face.png';
+const PRODUCT = 'data:image/jpeg;base64,/9j/4AAQ';
+
+describe('Uploaded Images', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should treat bare URLs as the subject and reject non-image data URLs', () => {
+    Object.assign(ENV, { storageHosts: 'cdn.example.com' });
+    try {
+      expect(uploadedImagesSchema.parse([FACE, { url: PRODUCT, role: 'product' }])).toEqual([
+        { url: FACE, role: 'subject' },
+        { url: PRODUCT, role: 'product' },
+      ]);
+      expect(uploadedImagesSchema.safeParse(['data:text/html;base64,PHA+']).success).toBe(false);
+      expect(uploadedImagesSchema.safeParse([{ url: FACE, role: 'logo' }]).success).toBe(false);
+      expect(uploadedImagesSchema.safeParse([FACE, FACE, FACE, FACE, FACE]).success).toBe(false);
+    } finally {
+      Object.assign(ENV, { storageHosts: '' });
+    }
+  });
+
+  it('should only accept URLs on the app storage hosts', () => {
+    Object.assign(ENV, { forgeApiUrl: 'https://forge.example.com/api', storageHosts: 'cdn.example.com' });
+    try {
+      expect(uploadedImagesSchema.safeParse(['https://forge.example.com/v1/storage/face.png']).success).toBe(true);
+      expect(uploadedImagesSchema.safeParse([FACE]).success).toBe(true);
+      for (const url of [
+        'http://169.254.169.254/latest/meta-data/',
+        'http://localhost:3000/api/trpc',
+        'https://cdn.example.com.attacker.net/face.png',
+        'https://cdn.example.com@10.0.0.1/face.png',
+        'file:///etc/passwd',
+      ]) {
+        expect(uploadedImagesSchema.safeParse([url]).success, url).toBe(false);
+      }
+    } finally {
+      Object.assign(ENV, { forgeApiUrl: '', storageHosts: '' });
+    }
+  });
+
+  it('should put identity inputs first and describe each by position', () => {
+    const images = [
+      { url: 'https://cdn.example.com/style.png', role: 'style' as const },
+      { url: PRODUCT, role: 'product' as const },
+      { url: FACE, role: 'subject' as const },
+    ];
+
+    expect(toOriginalImages(images)).toEqual([
+      { url: FACE, mimeType: undefined },
+      { url: PRODUCT, mimeType: 'image/jpeg' },
+      { url: 'https://cdn.example.com/style.png', mimeType: undefined },
+    ]);
+
+    const directives = describeUploadedImageRoles(images).split('\n');
+    expect(directives[0]).toMatch(/^Input image 1 shows the subject\. Keep this person's face/);
+    expect(directives[1]).toMatch(/^Input image 2 shows the product\./);
+    expect(directives[2]).toMatch(/^Input image 3 is a style reference\./);
+  });
+
+  it('should send uploads to the image model as image inputs with role directives', async () => {
+    const result = await executeGenerationOrchestrator({
+      userId: 'user123',
+      userPrompt: 'Me reviewing my new energy drink',
+      model: 'dall-e-3',
+      uploadedImages: [
+        { url: PRODUCT, role: 'product' },
+        { url: FACE, role: 'subject' },
+      ],
+    });
+
+    expect(result.status).toBe('success');
+    expect(analyzeUserPrompt).toHaveBeenCalledWith(
+      'Me reviewing my new energy drink',
+      [PRODUCT, FACE],
+      expect.anything()
+    );
+
+    const [{ prompt, originalImages }] = vi.mocked(generateImage).mock.calls[0];
+    expect(originalImages).toEqual([
+      { url: FACE, mimeType: undefined },
+      { url: PRODUCT, mimeType: 'image/jpeg' },
+    ]);
+    expect(prompt).toMatch(/^Excited creator holding the product, bold yellow text\n\nInput image 1 shows the subject/);
+    expect(result.generatedPrompt).toBe('Excited creator holding the product, bold yellow text');
+
+    // The prompt engineer is told which uploads exist, never given their URLs
+    const [{ messages }] = vi.mocked(invokeLLM).mock.calls[0];
+    expect(messages[0].content).toContain('in this order: subject, product');
+    expect(JSON.stringify(messages)).not.toContain(FACE);
+
+    // Stored so replays and variations reuse the same inputs
+    const [record] = vi.mocked(createGenerationHistory).mock.calls[0] as any[];
+    expect(JSON.parse(record.parameters).uploadedImages).toEqual([
+      { url: PRODUCT, role: 'product' },
+      { url: FACE, role: 'subject' },
+    ]);
+  });
+
+  it('should generate text-to-image when nothing is uploaded', async () => {
+    await executeGenerationOrchestrator({ userId: 'user123', userPrompt: 'Gaming thumbnail' });
+
+    const [{ prompt, originalImages }] = vi.mocked(generateImage).mock.calls[0];
+    expect(originalImages).toBeUndefined();
+    expect(prompt).not.toContain('Input image');
+  });
+});
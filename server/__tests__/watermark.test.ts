@@ -0,0 +1,175 @@
+/**
+ * Watermark tests
+ * Verifies watermark drawing, plan-aware delivery, reuse of watermarked copies
+ * and that thumbnail and job routes never hand a free user the clean image
+ */
+
+process.env.PROVIDER_MODE = 'synthetic';
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createCanvas } from '@napi-rs/canvas';
+
+vi.mock('../db', () => ({
+  getDb: vi.fn(async () => null),
+  getThumbnailById: vi.fn(),
+  getAppSetting: vi.fn(async () => undefined),
+  setAppSetting: vi.fn(async () => {
+    throw new Error('Database not available');
+  }),
+}));
+
+// The app router loads the Stripe client, which needs a key
+vi.mock('../payment', async () => {
+  const { router } = await import('../_core/trpc');
+  return { paymentRouter: router({}) };
+});
+
+import {
+  deliverImageUrl,
+  deliverProject,
+  deliverThumbnail,
+  getDefaultWatermarkSettings,
+  resetWatermarks,
+  restoreProjectBackground,
+  updateWatermarkSettings,
+} from '../watermark.service';
+import { decodeImage } from '../image-assets.service';
+import { appRouter } from '../routers';
+import { getThumbnailById } from '../db';
+import { createGenerationJob, recordDeliveredJobResult, saveGenerationJob } from '../generation-job.service';
+import { createThumbnailProject } from '@shared/thumbnailProject';
+
+function solidDataUrl(color: string, width = 320, height = 180): string {
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d');
+  context.fillStyle = color;
+  context.fillRect(0, 0, width, height);
+  return `data:image/png;base64,${canvas.toBuffer('image/png').toString('base64')}`;
+}
+
+// Brightest channel value in a region of an image
+async function brightest(imageUrl: string, x: number, y: number, width: number, height: number): Promise<number> {
+  const image = await decodeImage(imageUrl);
+  const canvas = createCanvas(image.width, image.height);
+  const context = canvas.getContext('2d');
+  context.drawImage(image, 0, 0);
+  return Math.max(...context.getImageData(x, y, width, height).data.filter((_, i) => i % 4 !== 3));
+}
+
+const image = solidDataUrl('#202020');
+const free = { subscriptionStatus: 'free' as const };
+const pro = { subscriptionStatus: 'pro' as const };
+
+describe('Watermarks', () => {
+  beforeEach(() => {
+    resetWatermarks();
+  });
+
+  it('watermarks deliveries to free plans and leaves paid plans clean', async () => {
+    const watermarked = await deliverImageUrl(free, image);
+
+    expect(await deliverImageUrl(pro, image)).toBe(image);
+    expect(watermarked).not.toBe(image);
+    // The default text sits in the bottom-right corner
+    expect(await brightest(watermarked, 200, 140, 120, 40)).toBeGreaterThan(120);
+    expect(await brightest(watermarked, 0, 0, 120, 60)).toBe(32);
+    expect(await deliverImageUrl(free, null)).toBeNull();
+  });
+
+  it('reuses the watermarked copy until the settings change', async () => {
+    const first = await deliverImageUrl(free, image);
+    expect(await deliverImageUrl(free, image)).toBe(first);
+
+    await updateWatermarkSettings({ ...getDefaultWatermarkSettings(), tiled: true, plans: ['free', 'pro'] });
+    const tiled = await deliverImageUrl(pro, image);
+    expect(tiled).not.toBe(first);
+    // Tiled marks cover every part of the image
+    expect(await brightest(tiled, 0, 0, 160, 90)).toBeGreaterThan(60);
+    expect(await brightest(tiled, 160, 90, 160, 90)).toBeGreaterThan(60);
+  });
+
+  it('stamps a logo in its position', async () => {
+    await updateWatermarkSettings({
+      ...getDefaultWatermarkSettings(),
+      type: 'logo',
+      logoUrl: solidDataUrl('#00ff00', 100, 50),
+      position: 'top-left',
+      opacity: 1,
+    });
+
+    const watermarked = await deliverImageUrl(free, image);
+    expect(await brightest(watermarked, 20, 15, 4, 4)).toBe(255);
+    expect(await brightest(watermarked, 280, 150, 4, 4)).toBe(32);
+  });
+
+  it('withholds the clean pre-effects image from watermarked plans', async () => {
+    const thumbnail = { id: 'thumb_1', imageUrl: image, originalImageUrl: 'https://cdn.example.com/raw.png' };
+
+    expect(await deliverThumbnail(pro, thumbnail)).toEqual(thumbnail);
+    const delivered = await deliverThumbnail(free, thumbnail);
+    expect(delivered.imageUrl).not.toBe(image);
+    expect(delivered.originalImageUrl).toBeNull();
+
+    // An image that cannot be watermarked is left out rather than delivered clean
+    const broken = await deliverThumbnail(free, { imageUrl: 'data:image/png;base64,AAAA' });
+    expect(broken.imageUrl).toBeNull();
+  });
+
+  it('gives free users projects whose background is the watermarked copy', async () => {
+    const project = createThumbnailProject(image, 320, 180);
+    const caller = appRouter.createCaller({
+      user: { id: 'user123', role: 'user', subscriptionStatus: 'free' } as any,
+      req: {} as any,
+      res: {} as any,
+    });
+    const thumbnail = {
+      id: 'thumb_1',
+      userId: 'user123',
+      status: 'completed',
+      imageUrl: image,
+      originalImageUrl: image,
+      project: JSON.stringify(project),
+    };
+
+    vi.mocked(getThumbnailById).mockResolvedValue(thumbnail as any);
+    expect(JSON.stringify(await caller.thumbnail.get({ thumbnailId: 'thumb_1' }))).not.toContain(image);
+    expect(JSON.stringify(await caller.thumbnail.getProject({ thumbnailId: 'thumb_1' }))).not.toContain(image);
+
+    // Thumbnails never edited as layers get a project built from their image
+    vi.mocked(getThumbnailById).mockResolvedValue({ ...thumbnail, project: null } as any);
+    expect(JSON.stringify(await caller.thumbnail.getProject({ thumbnailId: 'thumb_1' }))).not.toContain(image);
+
+    // Saving swaps the clean background back in so the watermark is not stored
+    const delivered = await deliverProject(free, project);
+    expect(await restoreProjectBackground(free, delivered, image)).toEqual(project);
+  });
+
+  it('gives free users job records without clean images', async () => {
+    const raw = solidDataUrl('#303030');
+    const job = await createGenerationJob({ userId: 'user123', userPrompt: 'A test prompt' });
+    job.status = 'completed';
+    job.steps = {
+      generation: {
+        status: 'completed',
+        output: { candidates: [{ imageUrl: raw }] },
+        trace: { providerResponses: [raw] },
+      },
+    };
+    job.result = { id: 'gen_1', jobId: job.id, status: 'success', generatedImageUrl: raw, creditsUsed: 5 };
+    await saveGenerationJob(job);
+    await recordDeliveredJobResult(job.id, { generatedImageUrl: image });
+
+    const caller = appRouter.createCaller({
+      user: { id: 'user123', role: 'user', subscriptionStatus: 'free' } as any,
+      req: {} as any,
+      res: {} as any,
+    });
+    const delivered = await caller.generation.getJob({ jobId: job.id });
+
+    expect(delivered.steps).toBeUndefined();
+    // The finished image the user received, watermarked
+    expect(delivered.result?.generatedImageUrl).toBe(await deliverImageUrl(free, image));
+    expect(JSON.stringify(delivered)).not.toContain(raw);
+    expect(JSON.stringify(delivered)).not.toContain(image);
+  });
+});
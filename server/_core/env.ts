@@ -7,4 +7,8 @@ export const ENV = {
   isProduction: process.env.NODE_ENV === "production",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  // Comma-separated hosts that serve stored files (e.g. a CDN), besides the storage proxy
+  storageHosts: process.env.STORAGE_HOSTS ?? "",
+  // Comma-separated LLM models in failover order
+  llmModels: process.env.LLM_MODELS ?? "gemini-2.5-flash,gpt-4o-mini",
 };
@@ -17,9 +17,17 @@
  */
 import { storagePut } from "server/storage";
 import { ENV } from "./env";
+import {
+  createPlaceholderImageDataUrl,
+  inlineImageUrl,
+  stableStringify,
+  withProviderFixture,
+} from "./providerFixtures";
 
 export type GenerateImageOptions = {
   prompt: string;
+  // WIDTHxHEIGHT, e.g. "1792x1024"; the service picks its default when omitted
+  size?: string;
   originalImages?: Array<{
     url?: string;
     b64Json?: string;
@@ -32,7 +40,26 @@ export type GenerateImageResponse = {
 };
 
 export async function generateImage(
-  options: GenerateImageOptions
+  options: GenerateImageOptions,
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<GenerateImageResponse> {
+  return withProviderFixture(
+    "image",
+    { service: "forge", ...options },
+    () => generateImageLive(options, signal),
+    () => {
+      const [width, height] = options.size?.split("x").map(Number) ?? [];
+      return { url: createPlaceholderImageDataUrl(stableStringify(options), width, height) };
+    },
+    async response => ({
+      url: response.url ? await inlineImageUrl(response.url) : undefined,
+    })
+  );
+}
+
+async function generateImageLive(
+  options: GenerateImageOptions,
+  signal?: AbortSignal
 ): Promise<GenerateImageResponse> {
   if (!ENV.forgeApiUrl) {
     throw new Error("BUILT_IN_FORGE_API_URL is not configured");
@@ -60,8 +87,10 @@ export async function generateImage(
     },
     body: JSON.stringify({
       prompt: options.prompt,
+      size: options.size,
       original_images: options.originalImages || [],
     }),
+    signal,
   });
 
   if (!response.ok) {
@@ -80,9 +109,10 @@ export async function generateImage(
   const base64Data = result.image.b64Json;
   const buffer = Buffer.from(base64Data, "base64");
 
-  // Save to S3
+  // Save to S3; images generated in parallel can finish in the same millisecond
+  const random = Math.random().toString(36).slice(2, 10);
   const { url } = await storagePut(
-    `generated/${Date.now()}.png`,
+    `generated/${Date.now()}-${random}.png`,
     buffer,
     result.image.mimeType
   );
@@ -1,4 +1,5 @@
 import { ENV } from "./env";
+import { seededFraction, stableStringify, synthesizeFromSchema } from "./providerFixtures";
 
 export type Role = "system" | "user" | "assistant" | "tool" | "function";
 
@@ -265,7 +266,71 @@ const normalizeResponseFormat = ({
   };
 };
 
-export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
+const messageText = (message: Message): string =>
+  ensureArray(message.content)
+    .map(part => (typeof part === "string" ? part : part.type === "text" ? part.text : ""))
+    .join("\n");
+
+/**
+ * Deterministic offline response: schema-valid JSON when a schema is requested,
+ * otherwise a short text derived from the last user message
+ */
+export const synthesizeLLMResult = (params: InvokeParams): InvokeResult => {
+  const seed = stableStringify(params.messages);
+  const format = normalizeResponseFormat(params);
+
+  let content: string;
+  if (format?.type === "json_schema") {
+    content = JSON.stringify(synthesizeFromSchema(format.json_schema.schema, seed));
+  } else if (format?.type === "json_object") {
+    content = "{}";
+  } else {
+    const lastUser = [...params.messages].reverse().find(message => message.role === "user");
+    const excerpt = lastUser ? messageText(lastUser).replace(/\s+/g, " ").trim().slice(0, 300) : "";
+    content = `Synthetic response ${Math.floor(seededFraction(seed) * 1e6)}: ${excerpt}`;
+  }
+
+  const promptTokens = Math.ceil(seed.length / 4);
+  const completionTokens = Math.ceil(content.length / 4);
+
+  return {
+    id: `synthetic-${Math.floor(seededFraction(seed, "id") * 1e9)}`,
+    created: 0,
+    model: "synthetic",
+    choices: [
+      {
+        index: 0,
+        message: { role: "assistant", content },
+        finish_reason: "stop",
+      },
+    ],
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    },
+  };
+};
+
+/**
+ * Models tried in order for every LLM call; later entries are fallbacks used
+ * when earlier ones fail, time out or have an open circuit breaker
+ */
+export const getLLMModelChain = (): string[] =>
+  ENV.llmModels
+    .split(",")
+    .map(model => model.trim())
+    .filter(Boolean);
+
+/**
+ * One call to one model. Failover across the model chain, usage recording and
+ * provider fixtures are added by invokeLLM in llm.service.ts.
+ */
+export async function invokeLLMModel(
+  params: InvokeParams,
+  model: string,
+  signal?: AbortSignal
+): Promise<InvokeResult> {
   assertApiKey();
 
   const {
@@ -280,7 +345,7 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
   } = params;
 
   const payload: Record<string, unknown> = {
-    model: "gemini-2.5-flash",
+    model,
     messages: messages.map(normalizeMessage),
   };
 
@@ -319,6 +384,7 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
       authorization: `Bearer ${ENV.forgeApiKey}`,
     },
     body: JSON.stringify(payload),
+    signal,
   });
 
   if (!response.ok) {
@@ -0,0 +1,292 @@
+/**
+ * Provider mode for external AI calls (LLM, vision, image)
+ *
+ * PROVIDER_MODE controls how wrapped calls behave:
+ *   live      - call the real provider (default)
+ *   record    - call the real provider and save the response as a fixture
+ *   replay    - return the saved fixture for an identical request; misses fall
+ *               back to synthetic output unless PROVIDER_REPLAY_STRICT=true
+ *   synthetic - never touch the network; return deterministic placeholder output
+ *
+ * Fixtures are JSON files under PROVIDER_FIXTURES_DIR (default fixtures/providers),
+ * keyed by a SHA-256 hash of the normalized request.
+ *
+ * Example usage:
+ *   const text = await withProviderFixture(
+ *     "vision",
+ *     { operation: "analyzeUserPrompt", prompt },
+ *     () => callGemini(prompt),
+ *     () => '{"mood":"excited"}'
+ *   );
+ */
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { deflateSync } from "zlib";
+
+export type ProviderMode = "live" | "record" | "replay" | "synthetic";
+
+export type ProviderKind = "llm" | "vision" | "image";
+
+type FixtureFile<T> = {
+  kind: ProviderKind;
+  key: string;
+  request: unknown;
+  response: T;
+  recordedAt: string;
+};
+
+const PROVIDER_MODES: ProviderMode[] = ["live", "record", "replay", "synthetic"];
+
+// Long strings (base64 images, data URLs) are replaced by their hash in stored requests
+const MAX_STORED_STRING_LENGTH = 500;
+
+export function getProviderMode(): ProviderMode {
+  const mode = (process.env.PROVIDER_MODE ?? "live").toLowerCase() as ProviderMode;
+  return PROVIDER_MODES.includes(mode) ? mode : "live";
+}
+
+export function getFixturesDir(): string {
+  return path.resolve(process.env.PROVIDER_FIXTURES_DIR ?? "fixtures/providers");
+}
+
+/**
+ * JSON serialization with sorted object keys, so equal requests hash equally
+ */
+export function stableStringify(value: unknown): string {
+  if (value === undefined) return "null";
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, entry]) => entry !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`;
+}
+
+export function hashRequest(kind: ProviderKind, request: unknown): string {
+  return createHash("sha256").update(`${kind}:${stableStringify(request)}`).digest("hex");
+}
+
+function summarizeForStorage(value: unknown): unknown {
+  if (typeof value === "string" && value.length > MAX_STORED_STRING_LENGTH) {
+    return `<sha256:${createHash("sha256").update(value).digest("hex")}>`;
+  }
+  if (Array.isArray(value)) return value.map(summarizeForStorage);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, summarizeForStorage(entry)])
+    );
+  }
+  return value;
+}
+
+function fixturePath(kind: ProviderKind, key: string): string {
+  return path.join(getFixturesDir(), kind, `${key}.json`);
+}
+
+async function readFixture<T>(kind: ProviderKind, key: string): Promise<FixtureFile<T> | null> {
+  try {
+    const raw = await fs.readFile(fixturePath(kind, key), "utf8");
+    return JSON.parse(raw) as FixtureFile<T>;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+async function writeFixture<T>(fixture: FixtureFile<T>): Promise<void> {
+  const file = fixturePath(fixture.kind, fixture.key);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`, "utf8");
+}
+
+/**
+ * Run a provider call according to the current provider mode.
+ * `prepareFixture` can make a live response self-contained before it is saved
+ * (for example, inlining a remote image URL as a data URL).
+ */
+export async function withProviderFixture<T>(
+  kind: ProviderKind,
+  request: unknown,
+  live: () => Promise<T>,
+  synthetic: () => T | Promise<T>,
+  prepareFixture?: (response: T) => Promise<T>
+): Promise<T> {
+  const mode = getProviderMode();
+
+  if (mode === "live") {
+    return live();
+  }
+
+  if (mode === "synthetic") {
+    return synthetic();
+  }
+
+  const key = hashRequest(kind, request);
+
+  if (mode === "replay") {
+    const fixture = await readFixture<T>(kind, key);
+    if (fixture) {
+      return fixture.response;
+    }
+    if (process.env.PROVIDER_REPLAY_STRICT === "true") {
+      throw new Error(`No ${kind} fixture recorded for request ${key}`);
+    }
+    console.warn(`[ProviderFixtures] No ${kind} fixture for ${key}, using synthetic output`);
+    return synthetic();
+  }
+
+  // record
+  const response = await live();
+  const stored = prepareFixture ? await prepareFixture(response) : response;
+  await writeFixture({
+    kind,
+    key,
+    request: summarizeForStorage(request),
+    response: stored,
+    recordedAt: new Date().toISOString(),
+  });
+  return response;
+}
+
+/**
+ * Deterministic number in [0, 1) derived from a string
+ */
+export function seededFraction(seed: string, salt = ""): number {
+  const digest = createHash("sha256").update(`${salt}:${seed}`).digest();
+  return digest.readUInt32BE(0) / 0x100000000;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Deterministic placeholder PNG: a diagonal two-color gradient picked from the seed
+ */
+export function createPlaceholderPng(seed: string, width = 1280, height = 720): Buffer {
+  const colorA = [0, 1, 2].map((i) => Math.floor(seededFraction(seed, `a${i}`) * 256));
+  const colorB = [0, 1, 2].map((i) => Math.floor(seededFraction(seed, `b${i}`) * 256));
+
+  const rowLength = width * 3 + 1;
+  const raw = Buffer.alloc(rowLength * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * rowLength] = 0; // filter: none
+    for (let x = 0; x < width; x++) {
+      const t = (x / width + y / height) / 2;
+      const offset = y * rowLength + 1 + x * 3;
+      for (let c = 0; c < 3; c++) {
+        raw[offset + c] = Math.round(colorA[c] + (colorB[c] - colorA[c]) * t);
+      }
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // color type: RGB
+  header[10] = 0;
+  header[11] = 0;
+  header[12] = 0;
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+export function createPlaceholderImageDataUrl(seed: string, width?: number, height?: number): string {
+  return `data:image/png;base64,${createPlaceholderPng(seed, width, height).toString("base64")}`;
+}
+
+/**
+ * Download an image and return it as a data URL so fixtures work offline
+ */
+export async function inlineImageUrl(url: string): Promise<string> {
+  if (url.startsWith("data:")) return url;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download image for fixture (${response.status})`);
+  }
+  const mimeType = response.headers.get("content-type") ?? "image/png";
+  const data = Buffer.from(await response.arrayBuffer()).toString("base64");
+  return `data:${mimeType};base64,${data}`;
+}
+
+/**
+ * Build a minimal value that satisfies a JSON schema (used for synthetic LLM output)
+ */
+export function synthesizeFromSchema(schema: Record<string, any>, seed: string, pathKey = ""): unknown {
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum[Math.floor(seededFraction(seed, pathKey) * schema.enum.length)];
+  }
+  if (schema.const !== undefined) return schema.const;
+
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== "null") : schema.type;
+
+  switch (type) {
+    case "object": {
+      const properties: Record<string, any> = schema.properties ?? {};
+      return Object.fromEntries(
+        Object.entries(properties).map(([key, propertySchema]) => [
+          key,
+          synthesizeFromSchema(propertySchema, seed, `${pathKey}.${key}`),
+        ])
+      );
+    }
+    case "array": {
+      const count = Math.max(schema.minItems ?? 1, 1);
+      return Array.from({ length: count }, (_, index) =>
+        synthesizeFromSchema(schema.items ?? { type: "string" }, seed, `${pathKey}[${index}]`)
+      );
+    }
+    case "integer": {
+      const min = schema.minimum ?? 0;
+      const max = schema.maximum ?? min + 100;
+      return Math.floor(min + seededFraction(seed, pathKey) * (max - min));
+    }
+    case "number": {
+      const min = schema.minimum ?? 0;
+      const max = schema.maximum ?? 1;
+      return Number((min + seededFraction(seed, pathKey) * (max - min)).toFixed(2));
+    }
+    case "boolean":
+      return seededFraction(seed, pathKey) >= 0.5;
+    case "null":
+      return null;
+    default:
+      return `synthetic ${pathKey.replace(/^\./, "") || "value"}`;
+  }
+}
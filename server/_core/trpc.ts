@@ -2,9 +2,21 @@ import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import type { TrpcContext } from "./context";
+import { runWithUsageContext } from "../provider-usage.service";
+import { ModerationError } from "../moderation.service";
 
 const t = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        // Structured rejection reasons when the content policy blocked the request
+        moderation: error.cause instanceof ModerationError ? error.cause.decision : null,
+      },
+    };
+  },
 });
 
 export const router = t.router;
@@ -17,12 +29,16 @@ const requireUser = t.middleware(async opts => {
     throw new TRPCError({ code: "UNAUTHORIZED", message: UNAUTHED_ERR_MSG });
   }
 
-  return next({
-    ctx: {
-      ...ctx,
-      user: ctx.user,
-    },
-  });
+  // Provider calls made while handling the request are billed to this user
+  const user = ctx.user;
+  return runWithUsageContext({ userId: user.id }, () =>
+    next({
+      ctx: {
+        ...ctx,
+        user,
+      },
+    })
+  );
 });
 
 export const protectedProcedure = t.procedure.use(requireUser);
@@ -1,9 +1,40 @@
 import { z } from "zod";
 import { protectedProcedure, router } from "./_core/trpc";
-import { getDb } from "./db";
+import { getDb, recordCreditTransaction } from "./db";
 import { plans, coupons, creditTransactions, subscriptions, users } from "../drizzle/schema";
 import { eq, desc, gte, lte } from "drizzle-orm";
 import { createCoupon, getCouponStats } from "./coupon.service";
+import {
+  getDefaultPricingTable,
+  getPricingTable,
+  pricingTableSchema,
+  resetPricingTable,
+  updatePricingTable,
+} from "./pricing.service";
+import { isGenerationPipelineId, listGenerationPipelines } from "./generation-pipeline.service";
+import {
+  costSettingsSchema,
+  getCostReport,
+  getCostSettings,
+  getDailySpendUsd,
+  updateCostSettings,
+} from "./provider-usage.service";
+import {
+  getDefaultModerationPolicy,
+  getModerationPolicy,
+  listModerationEvents,
+  moderationPolicySchema,
+  reviewModerationEvent,
+  updateModerationPolicy,
+} from "./moderation.service";
+import { getQualityReport } from "./image-quality.service";
+import { getCircuitBreakerStates, type ProviderCapability } from "./provider-failover.service";
+import {
+  getDefaultWatermarkSettings,
+  getWatermarkSettings,
+  updateWatermarkSettings,
+} from "./watermark.service";
+import { watermarkSettingsSchema } from "@shared/watermark";
 
 /**
  * Admin Router for managing billing and monetization features
@@ -33,6 +64,7 @@ export const adminRouter = router({
         maxThumbnails: z.number().positive().optional(),
         isPremium: z.boolean().default(false),
         stripeProductId: z.string().optional(),
+        pipelineId: z.string().refine(isGenerationPipelineId, "Unknown generation pipeline").optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -54,6 +86,7 @@ export const adminRouter = router({
           maxThumbnails: input.maxThumbnails,
           isPremium: input.isPremium,
           stripeProductId: input.stripeProductId,
+          pipelineId: input.pipelineId,
         };
 
         await (db as any).insert(plans).values(plan);
@@ -76,6 +109,8 @@ export const adminRouter = router({
         creditsPerMonth: z.number().positive().optional(),
         maxThumbnails: z.number().positive().optional(),
         isPremium: z.boolean().optional(),
+        // null restores the default pipeline
+        pipelineId: z.string().refine(isGenerationPipelineId, "Unknown generation pipeline").nullable().optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -95,6 +130,7 @@ export const adminRouter = router({
         if (input.creditsPerMonth) updateData.creditsPerMonth = input.creditsPerMonth;
         if (input.maxThumbnails) updateData.maxThumbnails = input.maxThumbnails;
         if (input.isPremium !== undefined) updateData.isPremium = input.isPremium;
+        if (input.pipelineId !== undefined) updateData.pipelineId = input.pipelineId;
 
         await (db as any).update(plans).set(updateData).where(eq(plans.id, input.id));
         return { success: true };
@@ -199,7 +235,7 @@ export const adminRouter = router({
       z.object({
         limit: z.number().default(50),
         offset: z.number().default(0),
-        type: z.enum(["purchase", "usage", "refund", "bonus", "referral_bonus"]).optional(),
+        type: z.enum(["purchase", "usage", "refund", "bonus", "referral_bonus", "adjustment"]).optional(),
         startDate: z.date().optional(),
         endDate: z.date().optional(),
       })
@@ -412,21 +448,12 @@ export const adminRouter = router({
           throw new Error("User not found");
         }
 
-        const newBalance = user.credits + input.amount;
-
-        await (db as any)
-          .update(users)
-          .set({ credits: newBalance })
-          .where(eq(users.id, input.userId));
-
-        // Record transaction
-        await (db as any).insert(creditTransactions).values({
-          id: `txn_${Date.now()}`,
-          userId: input.userId,
-          type: input.amount > 0 ? "bonus" : "usage",
-          amount: Math.abs(input.amount),
-          description: `Admin adjustment: ${input.reason}`,
-        });
+        const newBalance = await recordCreditTransaction(
+          input.userId,
+          input.amount,
+          "adjustment",
+          `Admin adjustment: ${input.reason}`
+        );
 
         return { success: true, newBalance };
       } catch (error) {
@@ -533,6 +560,256 @@ export const adminRouter = router({
         throw new Error("Failed to delete user");
       }
     }),
+
+  // List every generation pipeline, including ones only assignable to plans and templates
+  getPipelines: protectedProcedure.query(async ({ ctx }) => {
+    if (ctx.user.role !== "admin") {
+      throw new Error("Unauthorized");
+    }
+
+    return listGenerationPipelines();
+  }),
+
+  // Get the generation pricing table (current and built-in defaults)
+  getPricing: protectedProcedure.query(async ({ ctx }) => {
+    if (ctx.user.role !== "admin") {
+      throw new Error("Unauthorized");
+    }
+
+    return {
+      pricing: await getPricingTable(),
+      defaults: getDefaultPricingTable(),
+    };
+  }),
+
+  // Replace the generation pricing table; applies without a deploy
+  updatePricing: protectedProcedure
+    .input(pricingTableSchema)
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new Error("Unauthorized");
+      }
+
+      try {
+        return { pricing: await updatePricingTable(input, ctx.user.id) };
+      } catch (error) {
+        console.error("Error updating pricing:", error);
+        throw new Error("Failed to update pricing");
+      }
+    }),
+
+  // Restore the built-in prices
+  resetPricing: protectedProcedure.mutation(async ({ ctx }) => {
+    if (ctx.user.role !== "admin") {
+      throw new Error("Unauthorized");
+    }
+
+    try {
+      return { pricing: await resetPricingTable(ctx.user.id) };
+    } catch (error) {
+      console.error("Error resetting pricing:", error);
+      throw new Error("Failed to reset pricing");
+    }
+  }),
+
+  // Provider cost per generation and per model, with margin against credits charged
+  getCostReport: protectedProcedure
+    .input(
+      z
+        .object({
+          startDate: z.date().optional(),
+          endDate: z.date().optional(),
+          limit: z.number().int().min(1).max(200).default(50),
+        })
+        .optional()
+    )
+    .query(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new Error("Unauthorized");
+      }
+
+      const to = input?.endDate ?? new Date();
+      const from = input?.startDate ?? new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+      try {
+        return {
+          ...(await getCostReport({ from, to, limit: input?.limit })),
+          spentToday: await getDailySpendUsd(),
+        };
+      } catch (error) {
+        console.error("Error fetching cost report:", error);
+        throw new Error("Failed to fetch cost report");
+      }
+    }),
+
+  // Distribution of pixel quality metrics of delivered images, per day
+  getQualityReport: protectedProcedure
+    .input(
+      z
+        .object({
+          startDate: z.date().optional(),
+          endDate: z.date().optional(),
+        })
+        .optional()
+    )
+    .query(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new Error("Unauthorized");
+      }
+
+      const to = input?.endDate ?? new Date();
+      const from = input?.startDate ?? new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+      try {
+        return await getQualityReport({ from, to });
+      } catch (error) {
+        console.error("Error fetching quality report:", error);
+        throw new Error("Failed to fetch quality report");
+      }
+    }),
+
+  // Get the credit value and daily spend caps
+  getCostSettings: protectedProcedure.query(async ({ ctx }) => {
+    if (ctx.user.role !== "admin") {
+      throw new Error("Unauthorized");
+    }
+
+    return await getCostSettings();
+  }),
+
+  // Update the credit value and daily spend caps
+  updateCostSettings: protectedProcedure
+    .input(costSettingsSchema)
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new Error("Unauthorized");
+      }
+
+      try {
+        return { settings: await updateCostSettings(input, ctx.user.id) };
+      } catch (error) {
+        console.error("Error updating cost settings:", error);
+        throw new Error("Failed to update cost settings");
+      }
+    }),
+
+  // Provider status from the circuit breakers. A capability is degraded while
+  // any of its providers is skipped by an open or half-open breaker.
+  getSystemHealth: protectedProcedure.query(async ({ ctx }) => {
+    if (ctx.user.role !== "admin") {
+      throw new Error("Unauthorized");
+    }
+
+    const circuitBreakers = getCircuitBreakerStates();
+    const capabilityStatus = (capability: ProviderCapability) =>
+      circuitBreakers.some((breaker) => breaker.capability === capability && breaker.state !== "closed")
+        ? "degraded"
+        : "operational";
+
+    return {
+      status: circuitBreakers.some((breaker) => breaker.state !== "closed") ? "degraded" : "healthy",
+      database: { status: (await getDb()) ? "connected" : "unavailable" },
+      imageGeneration: { status: capabilityStatus("image") },
+      llm: { status: capabilityStatus("llm") },
+      vision: { status: capabilityStatus("vision") },
+      circuitBreakers,
+    };
+  }),
+
+  // Get the content policy (current and built-in defaults)
+  getModerationPolicy: protectedProcedure.query(async ({ ctx }) => {
+    if (ctx.user.role !== "admin") {
+      throw new Error("Unauthorized");
+    }
+
+    return {
+      policy: await getModerationPolicy(),
+      defaults: getDefaultModerationPolicy(),
+    };
+  }),
+
+  // Replace the content policy rules and classifier settings
+  updateModerationPolicy: protectedProcedure
+    .input(moderationPolicySchema)
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new Error("Unauthorized");
+      }
+
+      try {
+        return { policy: await updateModerationPolicy(input, ctx.user.id) };
+      } catch (error) {
+        console.error("Error updating moderation policy:", error);
+        throw new Error("Failed to update moderation policy");
+      }
+    }),
+
+  // Blocked requests awaiting (or past) review
+  getModerationQueue: protectedProcedure
+    .input(
+      z
+        .object({
+          status: z.enum(["pending", "upheld", "overturned"]).optional(),
+          limit: z.number().int().min(1).max(200).default(50),
+        })
+        .optional()
+    )
+    .query(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new Error("Unauthorized");
+      }
+
+      return await listModerationEvents({ status: input?.status ?? "pending", limit: input?.limit });
+    }),
+
+  // Uphold a block or mark it a false positive
+  reviewModerationEvent: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        status: z.enum(["upheld", "overturned"]),
+        note: z.string().max(1000).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new Error("Unauthorized");
+      }
+
+      return await reviewModerationEvent(input.id, {
+        status: input.status,
+        reviewedBy: ctx.user.id,
+        note: input.note,
+      });
+    }),
+
+  // Get the watermark for delivered images (current and built-in defaults)
+  getWatermarkSettings: protectedProcedure.query(async ({ ctx }) => {
+    if (ctx.user.role !== "admin") {
+      throw new Error("Unauthorized");
+    }
+
+    return {
+      settings: await getWatermarkSettings(),
+      defaults: getDefaultWatermarkSettings(),
+    };
+  }),
+
+  // Replace the watermark settings; past thumbnails get the new watermark on their next delivery
+  updateWatermarkSettings: protectedProcedure
+    .input(watermarkSettingsSchema)
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new Error("Unauthorized");
+      }
+
+      try {
+        return { settings: await updateWatermarkSettings(input, ctx.user.id) };
+      } catch (error) {
+        console.error("Error updating watermark settings:", error);
+        throw new Error("Failed to update watermark settings");
+      }
+    }),
 });
 
 export type AdminRouter = typeof adminRouter;
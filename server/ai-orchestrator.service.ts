@@ -1,6 +1,17 @@
-import { getDb } from './db';
-import { generationHistory } from '../drizzle/schema';
-import { v4 as uuidv4 } from 'uuid';
+import { createGenerationHistory } from './db';
+import {
+  createGenerationJob,
+  getGenerationJob,
+  saveGenerationJob,
+  resetGenerationJobSteps,
+  type GenerationJobRecord,
+} from './generation-job.service';
+import {
+  publishGenerationEvent,
+  recordStepDuration,
+  estimateRemainingMs,
+  type GenerationEventType,
+} from './generation-events.service';
 import {
   analyzeThumbnailImage,
   analyzeUserPrompt,
@@ -10,32 +21,138 @@ import {
 import {
   findBestMatchingReferences,
   getMetadata,
+  getReferenceThumbnail,
   calculateSimilarityScore,
 } from './reference-thumbnail.service';
-import { generateImage } from './_core/imageGeneration';
-import { invokeLLM } from './_core/llm';
+import {
+  generateWithImageModel,
+  getClosestImageSize,
+  isImageModelId,
+  MAX_IMAGE_MODEL_CHAIN,
+  resolveImageModel,
+  type ImageGenerationOutput,
+} from './image-providers.service';
+import { invokeLLM } from './llm.service';
+import { applyBrandKitToPrompt, generatePromptVariations } from './prompt-engineer.service';
+import type { BrandKitSettings } from '@shared/brandKit';
+import { getPricingTable, priceGeneration, type GenerationPrice } from './pricing.service';
+import {
+  DEFAULT_PIPELINE_ID,
+  registerGenerationStep,
+  resolveGenerationPipeline,
+  type GenerationPipelineContext,
+  type GenerationStepConfig,
+  type GenerationStepTrace,
+} from './generation-pipeline.service';
+import { validateImageQuality } from './post-production.service';
+import { analyzeImageLegibility } from './legibility.service';
+import { decodeImage } from './image-assets.service';
+import {
+  measureImage,
+  recordQualityMeasurement,
+  type ImageMeasurements,
+} from './image-quality.service';
+import { PROVIDER_ATTEMPT_TIMEOUTS, ProviderTimeoutError, withDeadline } from './provider-failover.service';
+import { runWithUsageContext } from './provider-usage.service';
+import {
+  assemblePrompt,
+  describeFields,
+  toReferenceStructure,
+  validatePromptOutput,
+} from './prompt-assembly.service';
+import { ModerationError, enforceModerationPolicy, type ModerationDecision } from './moderation.service';
+import {
+  MAX_UPLOADED_IMAGES,
+  describeUploadedImageRoles,
+  sortUploadedImages,
+  toOriginalImages,
+  type UploadedImage,
+} from './uploaded-images.service';
+import {
+  THUMBNAIL_FORMATS,
+  produceFormats,
+  type FormatOutput,
+  type ThumbnailAspectRatio,
+} from './formats.service';
 
 export interface GenerationRequest {
   userId: string;
   userPrompt: string;
-  uploadedImages?: string[];
+  // Image-to-image inputs, each with the role it plays in the thumbnail
+  uploadedImages?: UploadedImage[];
   preferredStyle?: string;
   preferredMood?: string;
   topic?: string;
-  model?: 'dall-e-3' | 'routix-v1' | 'routix-v2';
+  model?: string;
+  size?: string;
+  // Main format; picks the model size closest to it when size is not set
+  aspectRatio?: ThumbnailAspectRatio;
+  // Extra formats produced from the top pick and stored as siblings
+  formats?: ThumbnailAspectRatio[];
+  candidates?: number;
+  postProduction?: boolean;
+  pipeline?: string;
+  // Replay inputs: pin the reference and prompt instead of selecting and
+  // engineering them, and seed the first candidate (later ones use seed + index)
+  referenceThumbnailId?: string;
+  engineeredPrompt?: string;
+  seed?: number;
+  sourceGenerationId?: string;
+  // The selected brand kit as it was when the generation was requested, so
+  // replays look the same after the kit changes
+  brandKit?: BrandKitSettings;
+  // Text added in the brand kit's style after post-production
+  overlayText?: string;
+}
+
+export interface GenerationCandidate {
+  rank: number;
+  prompt: string;
+  imageUrl: string;
+  seed?: number;
+  qualityScore: number;
+  viralPotential: number;
+  validationScore: number;
+  combinedScore: number;
+  isTopPick: boolean;
 }
 
 export interface GenerationResult {
   id: string;
+  jobId?: string;
   status: 'success' | 'failed';
   generatedImageUrl?: string;
   generatedPrompt?: string;
   referenceThumbnailId?: string;
   qualityScore?: number;
   creditsUsed: number;
+  candidates?: GenerationCandidate[];
+  formats?: FormatOutput[];
   error?: string;
+  // Set when the content policy blocked the request
+  moderation?: ModerationDecision;
 }
 
+export const MAX_GENERATION_CANDIDATES = 4;
+
+export const MAX_USER_PROMPT_LENGTH = 2000;
+
+// Step deadlines; long enough for a provider attempt and one fallback
+const DEFAULT_STEP_TIMEOUT_MS = 60 * 1000;
+// Image steps outlast every attempt of a full model chain, plus time to load
+// inputs and store the result, so the step deadline never cuts off the last fallback
+const IMAGE_STEP_TIMEOUT_MS = PROVIDER_ATTEMPT_TIMEOUTS.image * MAX_IMAGE_MODEL_CHAIN + 30 * 1000;
+const STEP_TIMEOUTS_MS: Record<string, number> = {
+  analysis: 75 * 1000,
+  promptEngineering: 75 * 1000,
+  generation: IMAGE_STEP_TIMEOUT_MS,
+  postProduction: 90 * 1000,
+  formats: IMAGE_STEP_TIMEOUT_MS,
+};
+
+// Jobs currently executing in this process, to avoid running one job twice
+const activeJobs = new Set<string>();
+
 /**
  * STEP 1: User Request
  * Validate and normalize the user request
@@ -56,18 +173,57 @@ async function step1_validateUserRequest(request: GenerationRequest): Promise<{
     }
 
     // Validate prompt length
-    if (request.userPrompt.length < 5 || request.userPrompt.length > 2000) {
+    if (request.userPrompt.length < 5 || request.userPrompt.length > MAX_USER_PROMPT_LENGTH) {
       return {
         isValid: false,
-        error: 'Prompt must be between 5 and 2000 characters',
+        error: `Prompt must be between 5 and ${MAX_USER_PROMPT_LENGTH} characters`,
         normalizedRequest: request,
       };
     }
 
-    // Normalize model selection
-    const validModels = ['dall-e-3', 'routix-v1', 'routix-v2'];
-    if (request.model && !validModels.includes(request.model)) {
-      request.model = 'dall-e-3';
+    // Normalize model selection against the provider registry
+    if (request.model && !isImageModelId(request.model)) {
+      request.model = resolveImageModel().id;
+    }
+
+    // The output size must be one the model supports
+    if (request.size && !resolveImageModel(request.model).capabilities.sizes.includes(request.size)) {
+      return {
+        isValid: false,
+        error: `Size ${request.size} is not supported by ${resolveImageModel(request.model).name}`,
+        normalizedRequest: request,
+      };
+    }
+
+    // Uploaded images are sent as image inputs, so the model must accept them
+    if (request.uploadedImages?.length) {
+      if (request.uploadedImages.length > MAX_UPLOADED_IMAGES) {
+        return {
+          isValid: false,
+          error: `At most ${MAX_UPLOADED_IMAGES} images can be uploaded`,
+          normalizedRequest: request,
+        };
+      }
+      const model = resolveImageModel(request.model);
+      if (!model.capabilities.supportsEditing) {
+        return {
+          isValid: false,
+          error: `${model.name} does not support uploaded images`,
+          normalizedRequest: request,
+        };
+      }
+    }
+
+    // The aspect ratio picks the size, and the main format is not produced again
+    request.size = resolveRequestSize(request);
+    if (request.formats) {
+      const main = request.aspectRatio ?? '16:9';
+      request.formats = Array.from(new Set(request.formats)).filter((format) => format !== main);
+    }
+
+    // Clamp candidate count
+    if (request.candidates !== undefined) {
+      request.candidates = clampCandidateCount(request.candidates);
     }
 
     console.log(`[STEP 1] User request validated for user: ${request.userId}`);
@@ -90,12 +246,21 @@ async function step1_validateUserRequest(request: GenerationRequest): Promise<{
  * STEP 2: AI Analysis (Gemini Vision)
  * Analyze the user's prompt and images to extract metadata
  */
-async function step2_aiAnalysis(request: GenerationRequest): Promise<{
+async function step2_aiAnalysis(
+  request: GenerationRequest,
+  trace?: GenerationStepTrace,
+  signal?: AbortSignal
+): Promise<{
   userMetadata: any;
   extractedElements: string[];
 }> {
   try {
-    const userMetadata = await analyzeUserPrompt(request.userPrompt, request.uploadedImages);
+    const userMetadata = await analyzeUserPrompt(
+      request.userPrompt,
+      request.uploadedImages?.map((image) => image.url),
+      signal
+    );
+    trace?.('userMetadata', userMetadata);
 
     const extractedElements = [];
     if (userMetadata.hasFace) extractedElements.push('face');
@@ -122,19 +287,38 @@ async function step2_aiAnalysis(request: GenerationRequest): Promise<{
  */
 async function step3_referenceSelection(
   request: GenerationRequest,
-  userMetadata: any
+  userMetadata: any,
+  maxReferences: number = 5,
+  trace?: GenerationStepTrace
 ): Promise<{
   referenceThumbnail: any;
   referenceMetadata: any;
   matchScore: number;
 }> {
   try {
+    // Replays reuse the stored reference
+    if (request.referenceThumbnailId) {
+      const pinned = await getReferenceThumbnail(request.referenceThumbnailId);
+      if (!pinned) {
+        throw new Error(`Reference thumbnail not found: ${request.referenceThumbnailId}`);
+      }
+      trace?.('pinnedReference', pinned.id);
+
+      console.log(`[STEP 3] Reusing reference: ${pinned.title}`);
+      return {
+        referenceThumbnail: pinned,
+        referenceMetadata: await getMetadata(pinned.id),
+        matchScore: 1,
+      };
+    }
+
     // Find best matching references
     const topic = request.topic || extractTopicFromPrompt(request.userPrompt);
+    trace?.('topic', topic);
     const matchingReferences = await findBestMatchingReferences(
       topic,
       request.preferredStyle,
-      5
+      maxReferences
     );
 
     if (!matchingReferences || matchingReferences.length === 0) {
@@ -144,10 +328,12 @@ async function step3_referenceSelection(
     // Score each reference and pick the best one
     let bestReference = matchingReferences[0];
     let bestScore = 0;
+    const scoredReferences: Array<{ id: string; title?: string; score: number }> = [];
 
     for (const ref of matchingReferences) {
       const refMetadata = await getMetadata(ref.id);
       const score = calculateSimilarityScore(userMetadata, refMetadata);
+      scoredReferences.push({ id: ref.id, title: ref.title, score });
 
       if (score > bestScore) {
         bestScore = score;
@@ -155,6 +341,8 @@ async function step3_referenceSelection(
       }
     }
 
+    trace?.('candidateReferences', scoredReferences);
+
     const referenceMetadata = await getMetadata(bestReference.id);
 
     console.log(
@@ -179,19 +367,24 @@ async function step3_referenceSelection(
 async function step4_promptEngineering(
   request: GenerationRequest,
   userMetadata: any,
-  referenceMetadata: any
+  referenceMetadata: any,
+  referenceThumbnailId: string | null,
+  maxTokens: number = 500,
+  trace?: GenerationStepTrace,
+  signal?: AbortSignal
 ): Promise<string> {
   try {
-    // Use GPT-4 to create an optimized prompt
-    const engineeringPrompt = `You are an expert YouTube thumbnail designer and DALL-E 3 prompt engineer.
-
-User's request: "${request.userPrompt}"
+    // The image model receives the uploads itself; the prompt only needs to
+    // point at them by role rather than describe them
+    const uploadedRoles = sortUploadedImages(request.uploadedImages).map((image) => image.role);
+    const uploadsNote = uploadedRoles.length
+      ? `\n\nThe image model also receives the user's uploaded images, in this order: ${uploadedRoles.join(', ')}. Refer to them by role (for example "the person from the subject photo") instead of inventing their appearance.`
+      : '';
 
-User's desired elements:
-${JSON.stringify(userMetadata, null, 2)}
-
-Reference thumbnail structure to replicate:
-${JSON.stringify(referenceMetadata, null, 2)}
+    // User text, and the elements analysis extracted from it, are delimited
+    // data; the reference is passed as design fields only
+    const { messages, canary } = assemblePrompt({
+      instructions: `You are an expert YouTube thumbnail designer and DALL-E 3 prompt engineer.
 
 Create a highly detailed, optimized DALL-E 3 prompt that:
 1. Incorporates the user's content and ideas
@@ -200,61 +393,100 @@ Create a highly detailed, optimized DALL-E 3 prompt that:
 4. Includes specific visual instructions for color, lighting, and mood
 5. Ensures the output will be a viral-quality YouTube thumbnail
 
-Return ONLY the optimized prompt, nothing else.`;
-
-    const response = await invokeLLM({
-      messages: [
-        {
-          role: 'user',
-          content: engineeringPrompt,
-        },
-      ],
-      maxTokens: 500,
+The reference thumbnail's structure is in <reference_data>.${uploadsNote}`,
+      referenceData: toReferenceStructure(referenceMetadata),
+      userInputs: {
+        request: request.userPrompt,
+        desiredElements: describeFields(userMetadata),
+      },
+      task: 'Write the optimized prompt for the request above. Return ONLY the optimized prompt, nothing else.',
     });
+    trace?.('engineeringPrompt', messages.map((message) => `[${message.role}]\n${message.content}`).join('\n\n'));
 
-    const optimizedPrompt = response.choices[0]?.message.content || '';
-    if (typeof optimizedPrompt !== 'string') {
+    const response = await invokeLLM(
+      {
+        messages,
+        maxTokens,
+      },
+      { signal }
+    );
+
+    const output = response.choices[0]?.message.content;
+    trace?.('llmOutput', output ?? null);
+    trace?.('usage', response.usage ?? null);
+    if (typeof output !== 'string') {
       throw new Error('Invalid response from LLM');
     }
 
+    const optimizedPrompt = validatePromptOutput(output, {
+      canary,
+      secrets: [
+        referenceThumbnailId,
+        referenceMetadata?.id,
+        referenceMetadata?.referenceThumbnailId,
+        referenceMetadata?.extractedPrompt,
+      ],
+    });
+
     console.log(`[STEP 4] Prompt engineering complete. Generated prompt length: ${optimizedPrompt.length}`);
 
     return optimizedPrompt;
   } catch (error) {
     console.error('[STEP 4] Error in prompt engineering:', error);
-    throw new Error('Failed to engineer prompt');
+    throw new Error(`Failed to engineer prompt: ${error instanceof Error ? error.message : error}`);
   }
 }
 
 /**
- * STEP 5: Final Generation (DALL-E)
- * Execute the image generation using the optimized prompt
+ * STEP 5: Final Generation
+ * Execute the image generation with the selected model's provider
  */
 async function step5_finalGeneration(
   optimizedPrompt: string,
-  model: string = 'dall-e-3'
+  model?: string,
+  size?: string,
+  seed?: number,
+  uploadedImages?: UploadedImage[],
+  signal?: AbortSignal
 ): Promise<{
   imageUrl: string;
   revisedPrompt?: string;
+  model: string;
+  size: string;
+  seed?: number;
+  attempts?: ImageGenerationOutput['attempts'];
 }> {
   try {
-    const result = await generateImage({
-      prompt: optimizedPrompt,
-    });
+    // Uploads become image inputs, with a directive per image saying how to use it
+    const roleDirectives = describeUploadedImageRoles(uploadedImages);
+    const result = await generateWithImageModel(
+      model,
+      {
+        prompt: roleDirectives ? `${optimizedPrompt}\n\n${roleDirectives}` : optimizedPrompt,
+        size,
+        seed,
+        originalImages: uploadedImages?.length ? toOriginalImages(uploadedImages) : undefined,
+      },
+      { signal }
+    );
 
     if (!result.url) {
       throw new Error('No image URL returned from generation');
     }
 
-    console.log(`[STEP 5] Image generation complete using ${model}`);
+    console.log(`[STEP 5] Image generation complete using ${result.modelId}`);
 
     return {
       imageUrl: result.url,
       revisedPrompt: optimizedPrompt,
+      model: result.modelId,
+      size: result.size,
+      seed: result.seed,
+      attempts: result.attempts,
     };
   } catch (error) {
     console.error('[STEP 5] Error in image generation:', error);
-    throw new Error('Failed to generate image');
+    throw new Error(`Failed to generate image: ${error instanceof Error ? error.message : error}`);
   }
 }
 
@@ -264,17 +496,21 @@ async function step5_finalGeneration(
  */
 async function step6_postProductionValidation(
   generatedImageUrl: string,
-  referenceMetadata: any
+  referenceMetadata: any,
+  signal?: AbortSignal
 ): Promise<{
   processedImageUrl: string;
   qualityScore: number;
   viralPotential: number;
+  strengths?: string[];
+  improvements?: string[];
 }> {
   try {
     // Assess quality
     const qualityAssessment = await assessThumbnailQuality(
       generatedImageUrl,
-      referenceMetadata
+      referenceMetadata,
+      signal
     );
 
     // In a production environment, apply post-production effects here
@@ -289,6 +525,8 @@ async function step6_postProductionValidation(
       processedImageUrl,
       qualityScore: qualityAssessment.qualityScore,
       viralPotential: qualityAssessment.viralPotential,
+      strengths: qualityAssessment.strengths,
+      improvements: qualityAssessment.improvements,
     };
   } catch (error) {
     console.error('[STEP 6] Error in post-production:', error);
@@ -301,37 +539,232 @@ async function step6_postProductionValidation(
   }
 }
 
+/**
+ * STEP 5 (multi-candidate): Generate one image per prompt variation.
+ * Candidates that fail are dropped; the step fails only if all of them do.
+ */
+async function step5_generateCandidates(
+  prompts: string[],
+  model?: string,
+  size?: string,
+  trace?: GenerationStepTrace,
+  seed?: number,
+  uploadedImages?: UploadedImage[],
+  signal?: AbortSignal
+): Promise<Array<{ prompt: string; imageUrl: string; seed?: number }>> {
+  const results = await Promise.allSettled(
+    prompts.map((prompt, index) =>
+      step5_finalGeneration(
+        prompt,
+        model,
+        size,
+        seed === undefined ? undefined : seed + index,
+        uploadedImages,
+        signal
+      )
+    )
+  );
+
+  trace?.(
+    'providerResponses',
+    results.map((result, index) =>
+      result.status === 'fulfilled'
+        ? {
+            prompt: prompts[index],
+            imageUrl: result.value.imageUrl,
+            revisedPrompt: result.value.revisedPrompt,
+            model: result.value.model,
+            size: result.value.size,
+            seed: result.value.seed,
+            attempts: result.value.attempts,
+          }
+        : {
+            prompt: prompts[index],
+            error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+          }
+    )
+  );
+
+  const candidates = results.flatMap((result, index) =>
+    result.status === 'fulfilled'
+      ? [{ prompt: prompts[index], imageUrl: result.value.imageUrl, seed: result.value.seed }]
+      : []
+  );
+
+  if (candidates.length === 0) {
+    const [firstFailure] = results as PromiseRejectedResult[];
+    throw firstFailure.reason instanceof Error
+      ? firstFailure.reason
+      : new Error('Failed to generate image');
+  }
+
+  console.log(`[STEP 5] Generated ${candidates.length} of ${prompts.length} candidates`);
+  return candidates;
+}
+
+/**
+ * STEP 6 (multi-candidate): Score every candidate and rank them.
+ * Combines the vision quality assessment with the post-production validation score.
+ */
+async function step6_rankCandidates(
+  candidates: Array<{ prompt: string; imageUrl: string; seed?: number }>,
+  referenceMetadata: any,
+  trace?: GenerationStepTrace,
+  signal?: AbortSignal,
+  source?: { jobId?: string; userId?: string; model?: string }
+): Promise<GenerationCandidate[]> {
+  const assessments: Array<Record<string, unknown>> = [];
+  const measured = new Map<string, ImageMeasurements>();
+  const scored = await Promise.all(
+    candidates.map(async (candidate, index) => {
+      const assessment = await step6_postProductionValidation(
+        candidate.imageUrl,
+        referenceMetadata,
+        signal
+      );
+      // Unreadable images fall back to the metadata estimates
+      const image = await decodeImage(assessment.processedImageUrl, signal).catch((error) => {
+        console.warn('[STEP 6] Could not measure candidate:', error instanceof Error ? error.message : error);
+        return undefined;
+      });
+      const measurements = image ? measureImage(image) : undefined;
+      if (measurements) measured.set(assessment.processedImageUrl, measurements);
+      const legibility = image ? analyzeImageLegibility(image) : undefined;
+      const validation = validateImageQuality(
+        assessment.processedImageUrl,
+        referenceMetadata,
+        measurements,
+        legibility
+      );
+      assessments[index] = {
+        imageUrl: candidate.imageUrl,
+        qualityScore: assessment.qualityScore,
+        viralPotential: assessment.viralPotential,
+        strengths: assessment.strengths ?? [],
+        improvements: assessment.improvements ?? [],
+        validation,
+      };
+
+      const combinedScore =
+        assessment.qualityScore * 0.5 +
+        assessment.viralPotential * 0.2 +
+        (validation.overallScore / 100) * 0.3;
+
+      return {
+        rank: 0,
+        prompt: candidate.prompt,
+        imageUrl: assessment.processedImageUrl,
+        seed: candidate.seed,
+        qualityScore: assessment.qualityScore,
+        viralPotential: assessment.viralPotential,
+        validationScore: validation.overallScore,
+        combinedScore: Number(combinedScore.toFixed(4)),
+        isTopPick: false,
+      };
+    })
+  );
+
+  trace?.('assessments', assessments);
+
+  scored.sort((a, b) => b.combinedScore - a.combinedScore);
+  scored.forEach((candidate, index) => {
+    candidate.rank = index + 1;
+    candidate.isTopPick = index === 0;
+  });
+
+  console.log(
+    `[STEP 6] Ranked ${scored.length} candidates. Top score: ${scored[0].combinedScore.toFixed(2)}`
+  );
+
+  // Only the delivered image goes into the quality report
+  const topMeasurements = measured.get(scored[0].imageUrl);
+  if (source && topMeasurements) {
+    await recordQualityMeasurement(source, topMeasurements);
+  }
+
+  return scored;
+}
+
+/**
+ * Inputs stored with a generation so it can be replayed or varied
+ */
+export interface GenerationReplayData {
+  jobId: string;
+  sourceGenerationId?: string;
+  engineeredPrompt?: string;
+  size: string;
+  seed?: number;
+  parameters: {
+    pipeline: string;
+    provider: string;
+    postProduction: boolean;
+    preferredStyle?: string;
+    preferredMood?: string;
+    topic?: string;
+    uploadedImages?: UploadedImage[];
+    aspectRatio?: ThumbnailAspectRatio;
+    brandKit?: BrandKitSettings;
+    overlayText?: string;
+  };
+}
+
 /**
  * STEP 7: Delivery & Log
  * Deliver the image to user and log the transaction
  */
 async function step7_deliveryAndLog(
   userId: string,
-  referenceThumbnailId: string,
+  userPrompt: string,
+  referenceThumbnailId: string | null,
   generatedImageUrl: string,
   generatedPrompt: string,
   qualityScore: number,
   creditsUsed: number,
-  model: string
+  model: string,
+  replay: GenerationReplayData,
+  formats: FormatOutput[] = []
 ): Promise<string> {
   try {
-    const db = await getDb();
-    if (!db) throw new Error('Database not available');
-
     const historyRecord = {
       id: `gen_${Date.now()}`,
       userId,
       referenceThumbnailId,
-      userPrompt: '', // Will be filled from request
+      userPrompt,
       generatedImageUrl,
       generatedPrompt,
       model,
+      jobId: replay.jobId,
+      sourceGenerationId: replay.sourceGenerationId ?? null,
+      engineeredPrompt: replay.engineeredPrompt ?? null,
+      size: replay.size,
+      seed: replay.seed ?? null,
+      parameters: JSON.stringify(replay.parameters),
       creditsUsed,
       status: 'completed' as const,
       qualityScore: qualityScore.toString(),
     };
 
-    await (db as any).insert(generationHistory).values(historyRecord);
+    await createGenerationHistory(historyRecord);
+
+    // Extra formats are siblings of the main record; their cost is on the main
+    // one, which alone carries the job id the cost report matches on
+    for (const format of formats) {
+      await createGenerationHistory({
+        ...historyRecord,
+        id: `${historyRecord.id}_${format.aspectRatio.replace(':', 'x')}`,
+        jobId: null,
+        parentGenerationId: historyRecord.id,
+        generatedImageUrl: format.imageUrl,
+        size: `${format.width}x${format.height}`,
+        seed: null,
+        parameters: JSON.stringify({
+          ...replay.parameters,
+          aspectRatio: format.aspectRatio,
+          formatMethod: format.method,
+        }),
+        creditsUsed: 0,
+      });
+    }
 
     console.log(`[STEP 7] Generation logged and delivered to user: ${userId}`);
 
@@ -361,92 +794,658 @@ function step8_orchestrationComplete(result: GenerationResult): void {
 }
 
 /**
- * Main Orchestrator Function
- * Executes all 8 steps in sequence
+ * Candidates in ranked order. Pipelines without a ranking step keep generation order.
  */
-export async function executeGenerationOrchestrator(
-  request: GenerationRequest
-): Promise<GenerationResult> {
-  const generationId = `gen_${uuidv4()}`;
-  let creditsUsed = 10; // Default credit cost
+function getRankedCandidates(context: GenerationPipelineContext): GenerationCandidate[] {
+  if (context.rankedCandidates) return context.rankedCandidates;
+  if (!context.candidates || context.candidates.length === 0) {
+    throw new Error('Pipeline produced no images');
+  }
 
-  try {
-    // STEP 1: Validate User Request
-    const validation = await step1_validateUserRequest(request);
+  return context.candidates.map((candidate, index) => ({
+    rank: index + 1,
+    prompt: candidate.prompt,
+    imageUrl: candidate.imageUrl,
+    seed: candidate.seed,
+    qualityScore: 0,
+    viralPotential: 0,
+    validationScore: 0,
+    combinedScore: 0,
+    isTopPick: index === 0,
+  }));
+}
+
+function buildGenerationResult(context: GenerationPipelineContext): GenerationResult {
+  const candidates = getRankedCandidates(context);
+  const topPick = candidates[0];
+
+  return {
+    id: context.generationId ?? context.job.id,
+    jobId: context.job.id,
+    status: 'success',
+    generatedImageUrl: topPick.imageUrl,
+    generatedPrompt: topPick.prompt,
+    referenceThumbnailId: context.referenceThumbnail?.id,
+    qualityScore: topPick.qualityScore,
+    creditsUsed: context.creditsUsed ?? 0,
+    candidates,
+    formats: context.formats,
+  };
+}
+
+/**
+ * Prompts for each candidate: style variations of the engineered prompt, or
+ * the same prompt repeated when the step config turns variations off or the
+ * prompt is pinned (candidates then differ only by seed). A pinned prompt is a
+ * stored generated prompt that already carries the brand kit, so the kit is
+ * not added again.
+ */
+function buildCandidatePrompts(
+  context: GenerationPipelineContext,
+  config: GenerationStepConfig
+): string[] {
+  const basePrompt = context.prompt ?? context.request.userPrompt;
+  const count = context.request.candidates ?? 1;
+  const brandKit = context.request.brandKit;
+
+  if (context.request.engineeredPrompt) {
+    return Array.from({ length: count }, () => basePrompt);
+  }
+  if (count > 1 && config.variations !== false) {
+    return generatePromptVariations(
+      basePrompt,
+      context.userMetadata ?? {},
+      context.referenceMetadata ?? {},
+      count,
+      brandKit
+    );
+  }
+  return Array.from({ length: count }, () => applyBrandKitToPrompt(basePrompt, brandKit));
+}
+
+// Built-in step plugins, wrapping the step functions above
+
+registerGenerationStep<GenerationRequest>({
+  name: 'validation',
+  description: 'Validate and normalize the request',
+  input: (context) => context.request,
+  run: async (context) => {
+    const validation = await step1_validateUserRequest(context.request);
     if (!validation.isValid) {
-      return {
-        id: generationId,
-        status: 'failed',
-        creditsUsed: 0,
-        error: validation.error,
-      };
+      throw new Error(validation.error);
     }
+    return validation.normalizedRequest;
+  },
+  apply: (context, request) => {
+    context.request = request;
+  },
+});
 
-    // STEP 2: AI Analysis
-    const { userMetadata, extractedElements } = await step2_aiAnalysis(validation.normalizedRequest);
+registerGenerationStep<ModerationDecision>({
+  name: 'moderation',
+  description: 'Check the prompt against the content policy',
+  input: ({ request }) => ({
+    userPrompt: request.userPrompt,
+    engineeredPrompt: request.engineeredPrompt,
+    overlayText: request.overlayText,
+  }),
+  run: async ({ job, request }, _config, trace, signal) => {
+    const text = [request.userPrompt, request.engineeredPrompt, request.overlayText].filter(Boolean).join('\n');
+    try {
+      const decision = await enforceModerationPolicy(text, {
+        userId: request.userId,
+        source: 'generation',
+        jobId: job.id,
+        signal,
+      });
+      trace('decision', decision);
+      return decision;
+    } catch (error) {
+      if (error instanceof ModerationError) trace('decision', error.decision);
+      throw error;
+    }
+  },
+  apply: () => {},
+});
 
-    // STEP 3: Reference Selection
-    const { referenceThumbnail, referenceMetadata, matchScore } = await step3_referenceSelection(
-      validation.normalizedRequest,
-      userMetadata
+registerGenerationStep<Awaited<ReturnType<typeof step2_aiAnalysis>>>({
+  name: 'analysis',
+  description: 'Extract mood, lighting and elements from the prompt and uploads',
+  input: ({ request }) => ({ userPrompt: request.userPrompt, uploadedImages: request.uploadedImages }),
+  run: async ({ request }, _config, trace, signal) => {
+    // A pinned prompt and reference leave nothing for the analysis to inform
+    if (request.engineeredPrompt && request.referenceThumbnailId) {
+      trace('skipped', 'Prompt and reference pinned');
+      return { userMetadata: {}, extractedElements: [] };
+    }
+    return step2_aiAnalysis(request, trace, signal);
+  },
+  apply: (context, output) => {
+    context.userMetadata = output.userMetadata;
+  },
+});
+
+registerGenerationStep<Awaited<ReturnType<typeof step3_referenceSelection>>>({
+  name: 'referenceSelection',
+  description: 'Pick the best-matching reference thumbnail',
+  input: ({ request }) => ({ topic: request.topic, preferredStyle: request.preferredStyle }),
+  run: (context, config, trace) =>
+    step3_referenceSelection(
+      context.request,
+      context.userMetadata ?? {},
+      Number(config.maxReferences ?? 5),
+      trace
+    ),
+  apply: (context, output) => {
+    context.referenceThumbnail = output.referenceThumbnail;
+    context.referenceMetadata = output.referenceMetadata;
+    context.matchScore = output.matchScore;
+  },
+  events: (_context, output) => [
+    {
+      type: 'reference.selected',
+      data: {
+        referenceThumbnailId: output.referenceThumbnail.id,
+        title: output.referenceThumbnail.title,
+        matchScore: output.matchScore,
+      },
+    },
+  ],
+});
+
+registerGenerationStep<string>({
+  name: 'promptEngineering',
+  description: 'Combine the request with the reference into an optimized image prompt',
+  input: (context) => ({ referenceThumbnailId: context.referenceThumbnail?.id ?? null }),
+  run: async (context, config, trace, signal) => {
+    if (context.request.engineeredPrompt) {
+      trace('pinnedPrompt', true);
+      return context.request.engineeredPrompt;
+    }
+    return step4_promptEngineering(
+      context.request,
+      context.userMetadata ?? {},
+      context.referenceMetadata ?? {},
+      context.referenceThumbnail?.id ?? null,
+      Number(config.maxTokens ?? 500),
+      trace,
+      signal
     );
+  },
+  apply: (context, prompt) => {
+    context.prompt = prompt;
+  },
+  events: (_context, prompt) => [{ type: 'prompt.engineered', data: { prompt } }],
+});
 
-    // STEP 4: Advanced Prompt Engineering
-    const optimizedPrompt = await step4_promptEngineering(
-      validation.normalizedRequest,
-      userMetadata,
-      referenceMetadata
+registerGenerationStep<{
+  candidates: Array<{ prompt: string; imageUrl: string; seed?: number }>;
+  creditsUsed: number;
+}>({
+  name: 'generation',
+  description: 'Generate every candidate with the selected image model',
+  input: (context, config) => ({
+    prompts: buildCandidatePrompts(context, config),
+    model: context.request.model,
+    size: context.request.size,
+    seed: context.request.seed,
+    uploadedImages: context.request.uploadedImages,
+  }),
+  run: async (context, config, trace, signal) => {
+    const candidates = await step5_generateCandidates(
+      buildCandidatePrompts(context, config),
+      context.request.model,
+      context.request.size,
+      trace,
+      context.request.seed,
+      context.request.uploadedImages,
+      signal
     );
 
-    // STEP 5: Final Generation
-    const { imageUrl: generatedImageUrl, revisedPrompt } = await step5_finalGeneration(
-      optimizedPrompt,
-      validation.normalizedRequest.model
+    // Only successfully generated candidates are charged; extra formats are
+    // charged by their own step
+    const { totalCredits } = await quoteGenerationCredits({
+      ...context.request,
+      candidates: candidates.length,
+      formats: [],
+    });
+    return { candidates, creditsUsed: totalCredits };
+  },
+  apply: (context, output) => {
+    context.candidates = output.candidates;
+    context.creditsUsed = output.creditsUsed;
+  },
+});
+
+registerGenerationStep<GenerationCandidate[]>({
+  name: 'postProduction',
+  description: 'Score and rank the generated candidates',
+  input: (context) => ({ imageUrls: context.candidates?.map((candidate) => candidate.imageUrl) }),
+  run: (context, _config, trace, signal) =>
+    step6_rankCandidates(context.candidates ?? [], context.referenceMetadata, trace, signal, {
+      jobId: context.job.id,
+      userId: context.request.userId,
+      model: resolveImageModel(context.request.model).id,
+    }),
+  apply: (context, ranked) => {
+    context.rankedCandidates = ranked;
+  },
+});
+
+registerGenerationStep<{ formats: FormatOutput[]; creditsUsed: number }>({
+  name: 'formats',
+  description: 'Produce the extra aspect ratios from the top pick',
+  input: (context) => ({
+    imageUrl: getRankedCandidates(context)[0].imageUrl,
+    formats: context.request.formats ?? [],
+  }),
+  run: async (context, config, trace, signal) => {
+    const requested = context.request.formats ?? [];
+    if (requested.length === 0) {
+      trace('skipped', 'No extra formats requested');
+      return { formats: [], creditsUsed: 0 };
+    }
+
+    // Extra formats never fail the generation itself
+    let formats: FormatOutput[];
+    try {
+      formats = await produceFormats(getRankedCandidates(context)[0].imageUrl, requested, {
+        method: (config.method as 'crop' | 'outpaint' | 'auto' | undefined) ?? 'auto',
+        model: context.request.model,
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('[Formats] Could not read the generated image:', error);
+      trace('failed', error instanceof Error ? error.message : String(error));
+      return { formats: [], creditsUsed: 0 };
+    }
+    trace(
+      'formats',
+      formats.map(({ imageUrl: _imageUrl, ...format }) => format)
     );
 
-    // STEP 6: Post-Production & Validation
-    const { processedImageUrl, qualityScore, viralPotential } = await step6_postProductionValidation(
-      generatedImageUrl,
-      referenceMetadata
+    // Only delivered formats are charged
+    const pricing = await getPricingTable();
+    return { formats, creditsUsed: formats.length * pricing.options.extraFormat };
+  },
+  apply: (context, output) => {
+    context.formats = output.formats;
+    context.creditsUsed = (context.creditsUsed ?? 0) + output.creditsUsed;
+  },
+});
+
+registerGenerationStep<string>({
+  name: 'delivery',
+  description: 'Log the generation to the user history',
+  input: (context) => ({ imageUrl: getRankedCandidates(context)[0].imageUrl }),
+  run: async (context) => {
+    const topPick = getRankedCandidates(context)[0];
+    const model = resolveImageModel(context.request.model);
+    return step7_deliveryAndLog(
+      context.request.userId,
+      context.request.userPrompt,
+      context.referenceThumbnail?.id ?? null,
+      topPick.imageUrl,
+      topPick.prompt,
+      topPick.qualityScore,
+      context.creditsUsed ?? 0,
+      model.id,
+      {
+        jobId: context.job.id,
+        sourceGenerationId: context.request.sourceGenerationId,
+        engineeredPrompt: context.prompt,
+        size: context.request.size ?? model.capabilities.defaultSize,
+        seed: topPick.seed,
+        parameters: {
+          pipeline: context.request.pipeline ?? DEFAULT_PIPELINE_ID,
+          provider: model.provider,
+          postProduction: context.request.postProduction ?? true,
+          preferredStyle: context.request.preferredStyle,
+          preferredMood: context.request.preferredMood,
+          topic: context.request.topic,
+          uploadedImages: context.request.uploadedImages,
+          aspectRatio: context.request.aspectRatio,
+          brandKit: context.request.brandKit,
+          overlayText: context.request.overlayText,
+        },
+      },
+      context.formats
     );
+  },
+  apply: (context, generationId) => {
+    context.generationId = generationId;
+  },
+});
 
-    // STEP 7: Delivery & Log
-    const generationLogId = await step7_deliveryAndLog(
-      request.userId,
-      referenceThumbnail.id,
-      processedImageUrl,
-      optimizedPrompt,
-      qualityScore,
-      creditsUsed,
-      validation.normalizedRequest.model || 'dall-e-3'
+registerGenerationStep<null>({
+  name: 'complete',
+  description: 'Summarize the run',
+  run: async (context) => {
+    step8_orchestrationComplete(buildGenerationResult(context));
+    return null;
+  },
+  apply: () => {},
+});
+
+/**
+ * Names of the enabled steps of a pipeline, in execution order
+ */
+export function getPipelineStepNames(pipelineId?: string): string[] {
+  return resolveGenerationPipeline(pipelineId).steps.map((step) => step.name);
+}
+
+/**
+ * Publish a progress event for a job, deriving progress and ETA from its step state
+ */
+function emitJobEvent(
+  job: GenerationJobRecord,
+  type: GenerationEventType,
+  details: { step?: string; durationMs?: number; data?: Record<string, unknown> } = {}
+): void {
+  const stepNames = getPipelineStepNames(job.request.pipeline);
+  const remainingSteps = stepNames.filter((step) => job.steps[step]?.status !== 'completed');
+  const completedCount = stepNames.length - remainingSteps.length;
+
+  publishGenerationEvent(job.id, {
+    userId: job.userId,
+    type,
+    step: details.step,
+    stepIndex: details.step ? stepNames.indexOf(details.step) + 1 : completedCount,
+    totalSteps: stepNames.length,
+    progress: Math.round((completedCount / stepNames.length) * 100),
+    durationMs: details.durationMs,
+    etaMs: type === 'job.completed' ? 0 : estimateRemainingMs(remainingSteps),
+    data: details.data,
+  });
+}
+
+/**
+ * Run a single job step, reusing its stored output if it already finished.
+ * Step state is persisted before and after execution so a failed run can
+ * resume from the last completed step.
+ */
+async function runJobStep<T>(
+  job: GenerationJobRecord,
+  step: string,
+  input: unknown,
+  timeoutMs: number,
+  execute: (trace: GenerationStepTrace, signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const existing = job.steps[step];
+  if (existing?.status === 'completed') {
+    console.log(`[JOB ${job.id}] Reusing completed step: ${step}`);
+    emitJobEvent(job, 'step.completed', { step, data: { reused: true } });
+    return existing.output as T;
+  }
+
+  const startedAt = new Date();
+  job.currentStep = step;
+  job.steps[step] = { status: 'running', startedAt: startedAt.toISOString(), input };
+  await saveGenerationJob(job);
+  emitJobEvent(job, 'step.started', { step });
+
+  const trace: Record<string, unknown> = {};
+  const record: GenerationStepTrace = (key, value) => {
+    trace[key] = value;
+  };
+  const traceOrUndefined = () => (Object.keys(trace).length > 0 ? trace : undefined);
+
+  try {
+    const output = await withDeadline(timeoutMs, (signal) => execute(record, signal)).catch(
+      (error) => {
+        throw error instanceof ProviderTimeoutError
+          ? new Error(`Step ${step} timed out after ${timeoutMs}ms`)
+          : error;
+      }
     );
+    const finishedAt = new Date();
 
-    // STEP 8: Orchestration Complete
-    const result: GenerationResult = {
-      id: generationLogId,
-      status: 'success',
-      generatedImageUrl: processedImageUrl,
-      generatedPrompt: optimizedPrompt,
-      referenceThumbnailId: referenceThumbnail.id,
-      qualityScore,
-      creditsUsed,
+    job.steps[step] = {
+      status: 'completed',
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      input,
+      output,
+      trace: traceOrUndefined(),
     };
+    await saveGenerationJob(job);
+
+    recordStepDuration(step, job.steps[step].durationMs!);
+    emitJobEvent(job, 'step.completed', { step, durationMs: job.steps[step].durationMs });
+
+    return output;
+  } catch (error) {
+    const finishedAt = new Date();
 
-    step8_orchestrationComplete(result);
+    job.steps[step] = {
+      status: 'failed',
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      input,
+      trace: traceOrUndefined(),
+      error: error instanceof Error ? error.message : String(error),
+    };
+    await saveGenerationJob(job);
+
+    emitJobEvent(job, 'step.failed', {
+      step,
+      durationMs: job.steps[step].durationMs,
+      data: { error: job.steps[step].error },
+    });
+
+    throw error;
+  }
+}
+
+/**
+ * Execute (or continue) a generation job through the steps of its pipeline.
+ * Provider usage during the run is attributed to the job and its owner.
+ */
+function runGenerationJob(job: GenerationJobRecord): Promise<GenerationResult> {
+  return runWithUsageContext({ userId: job.userId, jobId: job.id }, () => runJobPipeline(job));
+}
+
+async function runJobPipeline(job: GenerationJobRecord): Promise<GenerationResult> {
+  if (activeJobs.has(job.id)) {
+    throw new Error('Generation job is already running');
+  }
+  activeJobs.add(job.id);
+
+  try {
+    job.status = 'running';
+    job.attempts += 1;
+    job.errorMessage = null;
+    await saveGenerationJob(job);
+    emitJobEvent(job, 'job.started', { data: { attempt: job.attempts } });
+
+    const pipeline = resolveGenerationPipeline(job.request.pipeline);
+    const context: GenerationPipelineContext = { job, request: job.request, state: {} };
+
+    for (const step of pipeline.steps) {
+      const output = await runJobStep(
+        job,
+        step.name,
+        step.plugin.input?.(context, step.config) ?? null,
+        Number(step.config.timeoutMs ?? STEP_TIMEOUTS_MS[step.plugin.name] ?? DEFAULT_STEP_TIMEOUT_MS),
+        (trace, signal) => step.plugin.run(context, step.config, trace, signal)
+      );
+      step.plugin.apply(context, output);
+
+      for (const event of step.plugin.events?.(context, output) ?? []) {
+        emitJobEvent(job, event.type, { step: step.name, data: event.data });
+      }
+    }
+
+    const result = buildGenerationResult(context);
+
+    job.status = 'completed';
+    job.currentStep = null;
+    job.result = result;
+    await saveGenerationJob(job);
+    emitJobEvent(job, 'job.completed', {
+      data: { generationId: result.id, generatedImageUrl: result.generatedImageUrl },
+    });
 
     return result;
   } catch (error) {
-    console.error('[ORCHESTRATOR] Generation failed:', error);
+    console.error(`[ORCHESTRATOR] Generation job ${job.id} failed:`, error);
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
 
+    job.status = 'failed';
+    job.errorMessage = errorMessage;
+    await saveGenerationJob(job).catch((saveError) =>
+      console.error('[ORCHESTRATOR] Failed to record job failure:', saveError)
+    );
+    emitJobEvent(job, 'job.failed', {
+      step: job.currentStep ?? undefined,
+      data: { error: errorMessage },
+    });
+
     return {
-      id: generationId,
+      id: job.id,
+      jobId: job.id,
       status: 'failed',
       creditsUsed: 0,
       error: errorMessage,
+      moderation: error instanceof ModerationError ? error.decision : undefined,
+    };
+  } finally {
+    activeJobs.delete(job.id);
+  }
+}
+
+/**
+ * Main Orchestrator Function
+ * Creates a durable job for the request and executes its pipeline's steps in
+ * sequence. Callers may pass their own job ID so they can subscribe to
+ * progress first.
+ */
+export async function executeGenerationOrchestrator(
+  request: GenerationRequest,
+  options: { jobId?: string } = {}
+): Promise<GenerationResult> {
+  // The pipeline is fixed at creation so a resumed job runs the same steps
+  const pipelineId = request.pipeline ?? DEFAULT_PIPELINE_ID;
+  try {
+    resolveGenerationPipeline(pipelineId);
+  } catch (error) {
+    return {
+      id: options.jobId ?? `gen_${Date.now()}`,
+      jobId: options.jobId,
+      status: 'failed',
+      creditsUsed: 0,
+      error: error instanceof Error ? error.message : 'Invalid generation pipeline',
     };
   }
+
+  let job: GenerationJobRecord;
+  try {
+    if (options.jobId && (await getGenerationJob(options.jobId))) {
+      return {
+        id: options.jobId,
+        jobId: options.jobId,
+        status: 'failed',
+        creditsUsed: 0,
+        error: 'Generation job already exists',
+      };
+    }
+    job = await createGenerationJob({ ...request, pipeline: pipelineId }, options.jobId);
+  } catch (error) {
+    console.error('[ORCHESTRATOR] Failed to create generation job:', error);
+    return {
+      id: `gen_${Date.now()}`,
+      status: 'failed',
+      creditsUsed: 0,
+      error: 'Failed to create generation job',
+    };
+  }
+
+  return runGenerationJob(job);
+}
+
+/**
+ * Resume a job from its last completed step.
+ * Completed jobs return their stored result without re-running anything.
+ */
+export async function resumeGenerationJob(jobId: string): Promise<GenerationResult> {
+  const job = await getGenerationJob(jobId);
+  if (!job) {
+    throw new Error('Generation job not found');
+  }
+
+  if (job.status === 'completed' && job.result) {
+    return job.result;
+  }
+
+  return runGenerationJob(job);
+}
+
+/**
+ * Re-run a job from the first step, discarding all stored step outputs
+ */
+export async function retryGenerationJob(jobId: string): Promise<GenerationResult> {
+  const job = await getGenerationJob(jobId);
+  if (!job) {
+    throw new Error('Generation job not found');
+  }
+
+  resetGenerationJobSteps(job);
+  return runGenerationJob(job);
+}
+
+/**
+ * Quote the credit cost of a generation before it runs, using the current
+ * pricing table
+ */
+export async function quoteGenerationCredits(
+  options: Pick<
+    GenerationRequest,
+    'model' | 'size' | 'aspectRatio' | 'formats' | 'candidates' | 'postProduction'
+  > & {
+    upscale?: boolean;
+  } = {}
+): Promise<
+  GenerationPrice & {
+    model: string;
+    size: string;
+    candidates: number;
+  }
+> {
+  const config = resolveImageModel(options.model);
+  const size = resolveRequestSize(options);
+  const candidates = clampCandidateCount(options.candidates ?? 1);
+  const main = options.aspectRatio ?? '16:9';
+  const extraFormats = new Set(options.formats?.filter((format) => format !== main)).size;
+
+  const price = priceGeneration(await getPricingTable(), {
+    model: config.id,
+    size,
+    candidates,
+    upscale: options.upscale,
+    postProduction: options.postProduction,
+    extraFormats,
+  });
+
+  return { ...price, model: config.id, size, candidates };
+}
+
+/**
+ * The requested size, else the model size closest to the aspect ratio, else the model default
+ */
+function resolveRequestSize(request: Pick<GenerationRequest, 'model' | 'size' | 'aspectRatio'>): string {
+  const config = resolveImageModel(request.model);
+  if (request.size) return request.size;
+  if (!request.aspectRatio) return config.capabilities.defaultSize;
+  const { width, height } = THUMBNAIL_FORMATS[request.aspectRatio];
+  return getClosestImageSize(config, width, height);
+}
+
+function clampCandidateCount(candidates: number): number {
+  return Math.min(Math.max(Math.floor(candidates) || 1, 1), MAX_GENERATION_CANDIDATES);
 }
 
 /**
@@ -483,7 +1482,9 @@ export {
   step3_referenceSelection,
   step4_promptEngineering,
   step5_finalGeneration,
+  step5_generateCandidates,
   step6_postProductionValidation,
+  step6_rankCandidates,
   step7_deliveryAndLog,
   step8_orchestrationComplete,
 };
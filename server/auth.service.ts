@@ -1,5 +1,5 @@
 // Authentication Service for Routix
-import { invokeLLM } from "./_core/llm";
+import { invokeLLM } from "./llm.service";
 
 export interface EmailVerificationToken {
   token: string;
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { protectedProcedure, router } from './_core/trpc';
+import { brandKitSettingsSchema } from '@shared/brandKit';
+import { createBrandKit, deleteBrandKit, listBrandKits, updateBrandKit } from './brand-kit.service';
+
+/**
+ * Brand kits: each user's saved palettes, fonts, logos and text styles
+ */
+export const brandKitRouter = router({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return listBrandKits(ctx.user.id);
+  }),
+
+  create: protectedProcedure.input(brandKitSettingsSchema).mutation(async ({ ctx, input }) => {
+    return createBrandKit(ctx.user.id, input);
+  }),
+
+  update: protectedProcedure
+    .input(z.object({ id: z.string(), settings: brandKitSettingsSchema }))
+    .mutation(async ({ ctx, input }) => {
+      return updateBrandKit(ctx.user.id, input.id, input.settings);
+    }),
+
+  delete: protectedProcedure.input(z.object({ id: z.string() })).mutation(async ({ ctx, input }) => {
+    await deleteBrandKit(ctx.user.id, input.id);
+    return { success: true };
+  }),
+});
@@ -0,0 +1,354 @@
+import { and, desc, eq } from 'drizzle-orm';
+import { createCanvas, type Image } from '@napi-rs/canvas';
+import { v4 as uuidv4 } from 'uuid';
+import { getDb } from './db';
+import { brandKits, type BrandKitRow } from '../drizzle/schema';
+import {
+  brandKitSettingsSchema,
+  type BrandKit,
+  type BrandKitSettings,
+  type BrandKitSettingsInput,
+} from '@shared/brandKit';
+import {
+  createThumbnailProject,
+  parseThumbnailProject,
+  type ProjectImage,
+  type ProjectLayerInput,
+  type ThumbnailProject,
+} from '@shared/thumbnailProject';
+import { decodeImage, storeImageAsset } from './image-assets.service';
+import { storeProjectRender } from './thumbnail-project.service';
+
+/**
+ * Brand Kit Service
+ * Stores each user's brand kits and applies a kit to a finished image: the
+ * logo and overlay text are added as layers of the thumbnail project, so
+ * they stay editable and survive later region edits and effect changes.
+ */
+
+const MAX_BRAND_KITS_PER_USER = 20;
+
+// Banned colors covering at least this share of the image are reported
+const BANNED_COLOR_MIN_SHARE = 0.05;
+// RGB distance within which a pixel counts as the banned color
+const BANNED_COLOR_DISTANCE = 60;
+// Banned colors are measured on a downscaled copy
+const BANNED_COLOR_SAMPLE_WIDTH = 160;
+
+const LOGO_TIMEOUT_MS = 15 * 1000;
+
+export interface BrandedImage {
+  project: ThumbnailProject;
+  // The project rendered and stored
+  imageUrl: string;
+  bannedColors: Array<{ color: string; share: number }>;
+}
+
+// In-memory store used when no database is configured (local tooling and tests)
+const memoryKits = new Map<string, BrandKit>();
+
+function toBrandKit(row: BrandKitRow): BrandKit {
+  return {
+    ...brandKitSettingsSchema.parse(JSON.parse(row.settings)),
+    id: row.id,
+    userId: row.userId,
+    createdAt: row.createdAt ?? new Date(),
+    updatedAt: row.updatedAt ?? new Date(),
+  };
+}
+
+/**
+ * A kit's settings without its record fields, as carried by generation requests
+ */
+function toBrandKitSettings({ id, userId, createdAt, updatedAt, ...settings }: BrandKit): BrandKitSettings {
+  return settings;
+}
+
+/**
+ * Validate kit settings and move an inline logo to storage as a PNG
+ */
+async function prepareSettings(input: BrandKitSettingsInput): Promise<BrandKitSettings> {
+  const settings = brandKitSettingsSchema.parse(input);
+  if (!settings.logo?.src.startsWith('data:')) return settings;
+
+  let logo: Image;
+  try {
+    logo = await decodeImage(settings.logo.src);
+  } catch {
+    throw new Error('The logo is not a readable image');
+  }
+  const canvas = createCanvas(logo.width, logo.height);
+  canvas.getContext('2d').drawImage(logo, 0, 0);
+  const src = await storeImageAsset(canvas.toBuffer('image/png'), 'brand-logos');
+  return { ...settings, logo: { ...settings.logo, src } };
+}
+
+export async function listBrandKits(userId: string): Promise<BrandKit[]> {
+  const db = await getDb();
+  if (!db) {
+    return Array.from(memoryKits.values())
+      .filter((kit) => kit.userId === userId)
+      .reverse()
+      .map((kit) => structuredClone(kit));
+  }
+
+  const rows = await db
+    .select()
+    .from(brandKits)
+    .where(eq(brandKits.userId, userId))
+    .orderBy(desc(brandKits.createdAt));
+  return rows.map(toBrandKit);
+}
+
+/**
+ * One of the user's kits; other users' kits are not found
+ */
+export async function getBrandKit(userId: string, kitId: string): Promise<BrandKit> {
+  const db = await getDb();
+  if (!db) {
+    const kit = memoryKits.get(kitId);
+    if (!kit || kit.userId !== userId) throw new Error('Brand kit not found');
+    return structuredClone(kit);
+  }
+
+  const [row] = await db
+    .select()
+    .from(brandKits)
+    .where(and(eq(brandKits.id, kitId), eq(brandKits.userId, userId)))
+    .limit(1);
+  if (!row) throw new Error('Brand kit not found');
+  return toBrandKit(row);
+}
+
+export async function createBrandKit(userId: string, input: BrandKitSettingsInput): Promise<BrandKit> {
+  const existing = await listBrandKits(userId);
+  if (existing.length >= MAX_BRAND_KITS_PER_USER) {
+    throw new Error(`You can have up to ${MAX_BRAND_KITS_PER_USER} brand kits`);
+  }
+
+  const settings = await prepareSettings(input);
+  const now = new Date();
+  const kit: BrandKit = { ...settings, id: `brand_${uuidv4()}`, userId, createdAt: now, updatedAt: now };
+
+  const db = await getDb();
+  if (!db) {
+    memoryKits.set(kit.id, structuredClone(kit));
+    return kit;
+  }
+
+  await db.insert(brandKits).values({ id: kit.id, userId, name: settings.name, settings: JSON.stringify(settings) });
+  return kit;
+}
+
+export async function updateBrandKit(
+  userId: string,
+  kitId: string,
+  input: BrandKitSettingsInput
+): Promise<BrandKit> {
+  const current = await getBrandKit(userId, kitId);
+  const settings = await prepareSettings(input);
+  const kit: BrandKit = { ...settings, id: kitId, userId, createdAt: current.createdAt, updatedAt: new Date() };
+
+  const db = await getDb();
+  if (!db) {
+    memoryKits.set(kitId, structuredClone(kit));
+    return kit;
+  }
+
+  await db
+    .update(brandKits)
+    .set({ name: settings.name, settings: JSON.stringify(settings) })
+    .where(and(eq(brandKits.id, kitId), eq(brandKits.userId, userId)));
+  return kit;
+}
+
+export async function deleteBrandKit(userId: string, kitId: string): Promise<void> {
+  await getBrandKit(userId, kitId);
+
+  const db = await getDb();
+  if (!db) {
+    memoryKits.delete(kitId);
+    return;
+  }
+
+  await db.delete(brandKits).where(and(eq(brandKits.id, kitId), eq(brandKits.userId, userId)));
+}
+
+/**
+ * The kit and overlay text chosen for a generation, or undefined when no kit
+ * was chosen. The kit's settings are copied so replays keep the kit as it was.
+ */
+export async function resolveGenerationBrand(
+  userId: string,
+  brandKitId?: string,
+  overlayText?: string
+): Promise<{ kit: BrandKitSettings; overlayText?: string } | undefined> {
+  if (!brandKitId) {
+    if (overlayText) throw new Error('Overlay text needs a brand kit for its style');
+    return undefined;
+  }
+  return { kit: toBrandKitSettings(await getBrandKit(userId, brandKitId)), overlayText };
+}
+
+/**
+ * Project layers for a kit on an image of the given size: the logo in its
+ * corner, and the overlay text in the kit's heading font and text style. The
+ * text box leaves room for a logo on the same edge, and a highlight color
+ * goes to the last word.
+ */
+export function buildBrandLayers(
+  kit: BrandKitSettings,
+  width: number,
+  height: number,
+  options: { overlayText?: string; logo?: ProjectImage } = {}
+): ProjectLayerInput[] {
+  const layers: ProjectLayerInput[] = [];
+  const margin = Math.round(width * 0.04);
+
+  let logoBox: { x: number; y: number; width: number; height: number } | undefined;
+  if (kit.logo && options.logo) {
+    const logoWidth = Math.round(width * kit.logo.size);
+    const logoHeight = Math.round((logoWidth * options.logo.height) / options.logo.width);
+    const [vertical, horizontal] = kit.logo.position.split('-');
+    logoBox = {
+      x: horizontal === 'left' ? margin : width - margin - logoWidth,
+      y: vertical === 'top' ? margin : height - margin - logoHeight,
+      width: logoWidth,
+      height: logoHeight,
+    };
+    layers.push({
+      id: 'brand-logo',
+      name: 'Logo',
+      type: 'sticker',
+      src: kit.logo.src,
+      transform: { ...logoBox, opacity: kit.logo.opacity },
+    });
+  }
+
+  const text = options.overlayText?.trim();
+  if (text) {
+    const { textStyle } = kit;
+    const boxHeight = Math.round(height * 0.3);
+    let box = {
+      x: margin,
+      y:
+        textStyle.position === 'top'
+          ? margin
+          : textStyle.position === 'bottom'
+            ? height - margin - boxHeight
+            : Math.round((height - boxHeight) / 2),
+      width: width - margin * 2,
+      height: boxHeight,
+    };
+    const sharesEdge =
+      logoBox && kit.logo && textStyle.position !== 'center' && kit.logo.position.startsWith(textStyle.position);
+    if (logoBox && sharesEdge) {
+      const narrowed = box.width - logoBox.width - margin;
+      box = { ...box, width: narrowed, x: kit.logo!.position.endsWith('left') ? width - margin - narrowed : margin };
+    }
+
+    const lastWord = text.split(/\s+/).pop()!;
+    layers.push({
+      id: 'brand-text',
+      name: 'Title',
+      type: 'text',
+      text,
+      font: kit.fonts.heading,
+      color: textStyle.color,
+      uppercase: textStyle.uppercase,
+      verticalAlign: textStyle.position === 'top' ? 'top' : textStyle.position === 'bottom' ? 'bottom' : 'middle',
+      stroke: textStyle.outlineColor
+        ? { color: textStyle.outlineColor, width: Math.max(2, Math.round(height / 120)) }
+        : undefined,
+      highlights: textStyle.highlightColor ? [{ word: lastWord, color: textStyle.highlightColor }] : [],
+      effects: textStyle.shadow
+        ? {
+            shadow: {
+              color: '#000000aa',
+              blur: Math.round(height / 60),
+              offsetX: Math.round(height / 240),
+              offsetY: Math.round(height / 240),
+            },
+          }
+        : {},
+      transform: box,
+    });
+  }
+
+  return layers;
+}
+
+/**
+ * Share of the image close to each banned color, for colors that cover a
+ * noticeable part of it
+ */
+export function findBannedColors(image: Image, bannedColors: string[]): Array<{ color: string; share: number }> {
+  if (bannedColors.length === 0) return [];
+
+  const scale = Math.min(1, BANNED_COLOR_SAMPLE_WIDTH / image.width);
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d');
+  context.drawImage(image, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+
+  const targets = bannedColors.map((color) => {
+    const value = parseInt(color.slice(1, 7), 16);
+    return { color, rgb: [(value >> 16) & 255, (value >> 8) & 255, value & 255], count: 0 };
+  });
+  const maxDistance = BANNED_COLOR_DISTANCE ** 2;
+  for (let i = 0; i < data.length; i += 4) {
+    for (const target of targets) {
+      const dr = data[i] - target.rgb[0];
+      const dg = data[i + 1] - target.rgb[1];
+      const db = data[i + 2] - target.rgb[2];
+      if (dr * dr + dg * dg + db * db <= maxDistance) target.count++;
+    }
+  }
+
+  const pixels = width * height;
+  return targets
+    .map(({ color, count }) => ({ color, share: Number((count / pixels).toFixed(3)) }))
+    .filter(({ share }) => share >= BANNED_COLOR_MIN_SHARE);
+}
+
+/**
+ * Apply a kit to a finished image: a project with the image as background
+ * and the kit's logo and overlay text on top, rendered and stored. A logo
+ * that cannot be loaded is left out rather than failing the image.
+ */
+export async function applyBrandKit(
+  imageUrl: string,
+  kit: BrandKitSettings,
+  options: { overlayText?: string; signal?: AbortSignal } = {}
+): Promise<BrandedImage> {
+  const image = await decodeImage(imageUrl, options.signal);
+
+  let logo: ProjectImage | undefined;
+  if (kit.logo) {
+    logo = await decodeImage(kit.logo.src, options.signal ?? AbortSignal.timeout(LOGO_TIMEOUT_MS)).catch((error) => {
+      console.warn(`[BrandKit] Could not load logo, skipping it: ${error instanceof Error ? error.message : error}`);
+      return undefined;
+    });
+  }
+
+  const base = createThumbnailProject(imageUrl, image.width, image.height);
+  const project = parseThumbnailProject({
+    ...base,
+    layers: [...base.layers, ...buildBrandLayers(kit, image.width, image.height, { overlayText: options.overlayText, logo })],
+  });
+  const bannedColors = findBannedColors(image, kit.bannedColors);
+  if (bannedColors.length > 0) {
+    console.warn(`[BrandKit] Image uses banned colors: ${bannedColors.map(({ color }) => color).join(', ')}`);
+  }
+
+  return { project, imageUrl: await storeProjectRender(project, options.signal), bannedColors };
+}
+
+/**
+ * Drop in-memory kits (tests)
+ */
+export function resetBrandKits(): void {
+  memoryKits.clear();
+}
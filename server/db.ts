@@ -1,5 +1,5 @@
 import { drizzle } from "drizzle-orm/mysql2";
-import { eq, desc, and, like } from "drizzle-orm";
+import { eq, desc, and, like, inArray, sql } from "drizzle-orm";
 import {
   InsertUser,
   users,
@@ -8,15 +8,25 @@ import {
   thumbnails,
   templates,
   creditTransactions,
+  generationHistory,
+  appSettings,
   type InsertConversation,
   type InsertChatMessage,
   type InsertThumbnail,
   type InsertCreditTransaction,
+  type GenerationHistory,
+  type InsertGenerationHistory,
 } from "../drizzle/schema";
 import { ENV } from "./_core/env";
 
 let _db: ReturnType<typeof drizzle> | null = null;
 
+type Database = ReturnType<typeof drizzle>;
+type DatabaseTransaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// Matches the users.credits column default
+const WELCOME_CREDITS = 50;
+
 // Lazily create the drizzle instance so local tooling can run without a DB.
 export async function getDb() {
   if (!_db && process.env.DATABASE_URL) {
@@ -76,9 +86,22 @@ export async function upsertUser(user: InsertUser): Promise<void> {
       updateSet.lastSignedIn = new Date();
     }
 
+    const existing = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.id, user.id))
+      .limit(1);
+
     await db.insert(users).values(values).onDuplicateKeyUpdate({
       set: updateSet,
     });
+
+    // New accounts start with their welcome credits on the ledger
+    if (existing.length === 0) {
+      await recordCreditTransaction(user.id, WELCOME_CREDITS, "bonus", "Welcome credits", {
+        id: `welcome-${user.id}`,
+      });
+    }
   } catch (error) {
     console.error("[Database] Failed to upsert user:", error);
     throw error;
@@ -101,27 +124,6 @@ export async function getUser(id: string) {
   return result.length > 0 ? result[0] : undefined;
 }
 
-export async function updateUserCredits(
-  userId: string,
-  newBalance: number
-): Promise<void> {
-  const db = await getDb();
-  if (!db) {
-    console.warn("[Database] Cannot update credits: database not available");
-    return;
-  }
-
-  try {
-    await db
-      .update(users)
-      .set({ credits: newBalance })
-      .where(eq(users.id, userId));
-  } catch (error) {
-    console.error("[Database] Failed to update user credits:", error);
-    throw error;
-  }
-}
-
 // Conversation queries
 export async function createConversation(
   userId: string,
@@ -173,7 +175,8 @@ export async function createThumbnail(
   userId: string,
   conversationId: string | undefined,
   prompt: string,
-  templateId?: string
+  templateId?: string,
+  options: { aspectRatio?: string; parentThumbnailId?: string } = {}
 ): Promise<string> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
@@ -185,6 +188,8 @@ export async function createThumbnail(
     conversationId,
     prompt,
     templateId,
+    aspectRatio: options.aspectRatio,
+    parentThumbnailId: options.parentThumbnailId,
   });
   return id;
 }
@@ -208,6 +213,106 @@ export async function updateThumbnailStatus(
     .where(eq(thumbnails.id, thumbnailId));
 }
 
+/**
+ * Save a thumbnail's post-production: the untouched image, the effects
+ * applied to it, and the resulting image
+ */
+export async function saveThumbnailPostProduction(
+  thumbnailId: string,
+  data: { originalImageUrl: string; imageUrl: string; postProduction: object }
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(thumbnails)
+    .set({
+      originalImageUrl: data.originalImageUrl,
+      imageUrl: data.imageUrl,
+      postProduction: JSON.stringify(data.postProduction),
+      updatedAt: new Date(),
+    })
+    .where(eq(thumbnails.id, thumbnailId));
+}
+
+export async function saveThumbnailLegibility(thumbnailId: string, legibility: object): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(thumbnails)
+    .set({ legibility: JSON.stringify(legibility) })
+    .where(eq(thumbnails.id, thumbnailId));
+}
+
+export async function saveThumbnailProject(
+  thumbnailId: string,
+  data: { project: object; imageUrl: string }
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(thumbnails)
+    .set({
+      project: JSON.stringify(data.project),
+      imageUrl: data.imageUrl,
+      updatedAt: new Date(),
+    })
+    .where(eq(thumbnails.id, thumbnailId));
+}
+
+/**
+ * Replace a thumbnail's image with a newly generated one. Effects and layers
+ * belonged to the old image, so they are dropped.
+ */
+export async function replaceThumbnailImage(
+  thumbnailId: string,
+  imageUrl: string,
+  creditsUsed: number
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(thumbnails)
+    .set({
+      status: "completed",
+      imageUrl,
+      creditsUsed,
+      originalImageUrl: null,
+      postProduction: null,
+      project: null,
+      legibility: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(thumbnails.id, thumbnailId));
+}
+
+/**
+ * Point a thumbnail at a version. When restoring an older version, its
+ * image, effects and layers are copied back onto the thumbnail.
+ */
+export async function setThumbnailCurrentVersion(
+  thumbnailId: string,
+  version: {
+    id: string;
+    imageUrl?: string;
+    originalImageUrl?: string | null;
+    postProduction?: string | null;
+    project?: string | null;
+  }
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { id, ...restored } = version;
+  await db
+    .update(thumbnails)
+    .set({ currentVersionId: id, ...restored, updatedAt: new Date() })
+    .where(eq(thumbnails.id, thumbnailId));
+}
+
 export async function getUserThumbnails(userId: string) {
   const db = await getDb();
   if (!db) return [];
@@ -237,25 +342,249 @@ export async function getTemplatesByCategory(category: string) {
 }
 
 // Credit transaction queries
+//
+// creditTransactions is an append-only ledger and the source of truth for
+// balances. Every write locks the user row, so concurrent debits cannot
+// overdraw, and then refreshes the users.credits projection.
+export type CreditTransactionType = InsertCreditTransaction["type"];
+
+// Holds count against the balance until they are settled or released
+const BALANCE_STATUSES = ["pending", "settled"] as const;
+
+function newCreditTransactionId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+async function lockUserCredits(tx: DatabaseTransaction, userId: string): Promise<void> {
+  const locked = await tx
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.id, userId))
+    .for("update");
+  if (locked.length === 0) throw new Error("User not found");
+}
+
+async function sumLedgerBalance(
+  tx: Database | DatabaseTransaction,
+  userId: string
+): Promise<number> {
+  const [row] = await tx
+    .select({ balance: sql<string>`COALESCE(SUM(${creditTransactions.amount}), 0)` })
+    .from(creditTransactions)
+    .where(
+      and(
+        eq(creditTransactions.userId, userId),
+        inArray(creditTransactions.status, [...BALANCE_STATUSES])
+      )
+    );
+  return Number(row?.balance ?? 0);
+}
+
+async function refreshCreditBalance(tx: DatabaseTransaction, userId: string): Promise<number> {
+  const balance = await sumLedgerBalance(tx, userId);
+  await tx.update(users).set({ credits: balance }).where(eq(users.id, userId));
+  return balance;
+}
+
+/**
+ * Append a settled ledger entry and return the new balance. Amounts are
+ * signed. Passing an explicit `id` makes the write idempotent (webhook
+ * retries, welcome credits).
+ */
 export async function recordCreditTransaction(
   userId: string,
   amount: number,
-  type: "purchase" | "usage" | "refund" | "bonus",
-  description?: string
-): Promise<void> {
+  type: CreditTransactionType,
+  description?: string,
+  options: { id?: string; referenceId?: string; stripeInvoiceId?: string } = {}
+): Promise<number> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  const id = `trans-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-  await db.insert(creditTransactions).values({
-    id,
-    userId,
-    amount,
-    type,
-    description,
+  return db.transaction(async (tx) => {
+    await lockUserCredits(tx, userId);
+
+    if (options.id) {
+      const duplicate = await tx
+        .select({ id: creditTransactions.id })
+        .from(creditTransactions)
+        .where(eq(creditTransactions.id, options.id))
+        .limit(1);
+      if (duplicate.length > 0) return sumLedgerBalance(tx, userId);
+    }
+
+    await tx.insert(creditTransactions).values({
+      id: options.id ?? newCreditTransactionId("trans"),
+      userId,
+      amount,
+      type,
+      status: "settled",
+      referenceId: options.referenceId,
+      stripeInvoiceId: options.stripeInvoiceId,
+      description,
+    });
+    return refreshCreditBalance(tx, userId);
+  });
+}
+
+/**
+ * Current balance computed from the ledger (pending holds included)
+ */
+export async function getCreditBalance(userId: string): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  return sumLedgerBalance(db, userId);
+}
+
+/**
+ * Place a pending hold for `amount` credits. Throws "Insufficient credits"
+ * when the balance cannot cover it. Returns the reservation ID to settle or
+ * release once the work finishes.
+ */
+export async function reserveCredits(
+  userId: string,
+  amount: number,
+  description: string,
+  referenceId?: string
+): Promise<string> {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new Error("Reservation amount must be a positive integer");
+  }
+
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.transaction(async (tx) => {
+    await lockUserCredits(tx, userId);
+
+    const balance = await sumLedgerBalance(tx, userId);
+    if (balance < amount) throw new Error("Insufficient credits");
+
+    const id = newCreditTransactionId("hold");
+    await tx.insert(creditTransactions).values({
+      id,
+      userId,
+      amount: -amount,
+      type: "usage",
+      status: "pending",
+      referenceId,
+      description,
+    });
+    await refreshCreditBalance(tx, userId);
+    return id;
   });
 }
 
+async function finalizeCreditReservation(
+  reservationId: string,
+  finalize: (reserved: number) => { status: "settled" | "released"; amount: number }
+): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [reservation] = await db
+    .select({ userId: creditTransactions.userId })
+    .from(creditTransactions)
+    .where(eq(creditTransactions.id, reservationId))
+    .limit(1);
+  if (!reservation) throw new Error("Credit reservation not found");
+
+  return db.transaction(async (tx) => {
+    await lockUserCredits(tx, reservation.userId);
+
+    const [current] = await tx
+      .select()
+      .from(creditTransactions)
+      .where(eq(creditTransactions.id, reservationId))
+      .limit(1);
+    if (current.status !== "pending") {
+      throw new Error(`Credit reservation already ${current.status}`);
+    }
+
+    const { status, amount } = finalize(-current.amount);
+    await tx
+      .update(creditTransactions)
+      .set({ status, amount: status === "released" ? current.amount : -amount })
+      .where(eq(creditTransactions.id, reservationId));
+    return refreshCreditBalance(tx, reservation.userId);
+  });
+}
+
+/**
+ * Turn a hold into a charge. `finalAmount` may be lower than the hold (for
+ * example when some candidates failed); it is capped at the reserved amount.
+ */
+export async function settleCreditReservation(
+  reservationId: string,
+  finalAmount?: number
+): Promise<number> {
+  return finalizeCreditReservation(reservationId, (reserved) => {
+    const amount = Math.min(Math.max(finalAmount ?? reserved, 0), reserved);
+    return { status: amount === 0 ? "released" : "settled", amount };
+  });
+}
+
+/**
+ * Drop a hold without charging, e.g. when generation failed
+ */
+export async function releaseCreditReservation(reservationId: string): Promise<number> {
+  return finalizeCreditReservation(reservationId, () => ({ status: "released", amount: 0 }));
+}
+
+// App settings queries
+export async function getAppSetting<T>(key: string): Promise<T | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db
+    .select()
+    .from(appSettings)
+    .where(eq(appSettings.key, key))
+    .limit(1);
+
+  return result.length > 0 ? (JSON.parse(result[0].value) as T) : undefined;
+}
+
+export async function setAppSetting(
+  key: string,
+  value: unknown,
+  updatedBy?: string
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const json = JSON.stringify(value);
+  await db
+    .insert(appSettings)
+    .values({ key, value: json, updatedBy })
+    .onDuplicateKeyUpdate({ set: { value: json, updatedBy } });
+}
+
+// Generation history queries
+export async function createGenerationHistory(
+  record: InsertGenerationHistory
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.insert(generationHistory).values(record);
+}
+
+export async function getGenerationHistoryRecord(
+  id: string
+): Promise<GenerationHistory | undefined> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [record] = await db
+    .select()
+    .from(generationHistory)
+    .where(eq(generationHistory.id, id))
+    .limit(1);
+  return record;
+}
+
 // Additional user queries
 export async function updateUserProfile(
   userId: string,
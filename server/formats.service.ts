@@ -0,0 +1,317 @@
+import { createCanvas, type Image } from '@napi-rs/canvas';
+import { z } from 'zod';
+import {
+  generateWithImageModel,
+  getClosestImageSize,
+  listImageModels,
+} from './image-providers.service';
+import { decodeImage, storeImageAsset } from './image-assets.service';
+import { selectMaskingModel } from './region-edit.service';
+
+/**
+ * Formats Service
+ * Turns one thumbnail into the other aspect ratios it is published in
+ * (YouTube 16:9, Shorts 9:16, Instagram 1:1). A format close to the source
+ * ratio is smart-cropped around the subject; one that would lose most of the
+ * image is outpainted by an inpainting-capable model.
+ */
+
+export const THUMBNAIL_FORMATS = {
+  '16:9': { label: 'YouTube', width: 1280, height: 720 },
+  '9:16': { label: 'Shorts', width: 1080, height: 1920 },
+  '1:1': { label: 'Square', width: 1080, height: 1080 },
+} as const;
+
+export type ThumbnailAspectRatio = keyof typeof THUMBNAIL_FORMATS;
+
+export const THUMBNAIL_ASPECT_RATIOS = Object.keys(THUMBNAIL_FORMATS) as ThumbnailAspectRatio[];
+
+export const aspectRatioSchema = z.enum(['16:9', '9:16', '1:1']);
+
+export type FormatMethod = 'crop' | 'outpaint';
+
+export interface FormatOutput {
+  aspectRatio: ThumbnailAspectRatio;
+  imageUrl: string;
+  width: number;
+  height: number;
+  method: FormatMethod;
+  // Set when outpainting failed and the format was cropped instead
+  fallbackReason?: string;
+}
+
+export interface CropWindow {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Crop when at least this share of the source survives; otherwise outpaint
+const MIN_CROP_RETENTION = 0.5;
+
+// Longest side of the saliency map
+const SALIENCY_MAP_SIZE = 128;
+
+export function getAspectRatioValue(aspectRatio: ThumbnailAspectRatio): number {
+  const { width, height } = THUMBNAIL_FORMATS[aspectRatio];
+  return width / height;
+}
+
+/**
+ * Output size for an aspect ratio: the format's standard size, or smaller when
+ * the source has fewer pixels (never upscales)
+ */
+function outputSize(aspectRatio: ThumbnailAspectRatio, maxWidth: number): { width: number; height: number } {
+  const ratio = getAspectRatioValue(aspectRatio);
+  const width = Math.round(Math.min(THUMBNAIL_FORMATS[aspectRatio].width, maxWidth));
+  return { width, height: Math.round(width / ratio) };
+}
+
+/**
+ * Share of the source a crop to this ratio keeps
+ */
+export function getCropRetention(sourceWidth: number, sourceHeight: number, aspectRatio: ThumbnailAspectRatio): number {
+  const source = sourceWidth / sourceHeight;
+  const target = getAspectRatioValue(aspectRatio);
+  return Math.min(source, target) / Math.max(source, target);
+}
+
+/**
+ * Crop when it keeps most of the image, otherwise outpaint if a model can
+ */
+export function chooseFormatMethod(
+  sourceWidth: number,
+  sourceHeight: number,
+  aspectRatio: ThumbnailAspectRatio
+): FormatMethod {
+  if (getCropRetention(sourceWidth, sourceHeight, aspectRatio) >= MIN_CROP_RETENTION) return 'crop';
+  const canOutpaint = listImageModels().some((model) => model.available && model.capabilities.supportsMasking);
+  return canOutpaint ? 'outpaint' : 'crop';
+}
+
+/**
+ * Per-pixel interest on a downscaled copy: luminance edges plus saturation,
+ * which pick out faces, products and text over flat backgrounds
+ */
+function buildSaliencyMap(image: Image): { map: Float32Array; width: number; height: number } {
+  const scale = SALIENCY_MAP_SIZE / Math.max(image.width, image.height);
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d');
+  context.drawImage(image, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+
+  const luminance = new Float32Array(width * height);
+  const saturation = new Float32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const [r, g, b] = [data[i * 4], data[i * 4 + 1], data[i * 4 + 2]];
+    luminance[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+    saturation[i] = Math.max(r, g, b) - Math.min(r, g, b);
+  }
+
+  const map = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const dx = luminance[y * width + Math.min(x + 1, width - 1)] - luminance[y * width + Math.max(x - 1, 0)];
+      const dy = luminance[Math.min(y + 1, height - 1) * width + x] - luminance[Math.max(y - 1, 0) * width + x];
+      map[i] = Math.abs(dx) + Math.abs(dy) + 0.5 * saturation[i];
+    }
+  }
+
+  return { map, width, height };
+}
+
+/**
+ * The largest window of the target ratio that holds the most salient content.
+ * Ties go to the window nearest the center.
+ */
+export function findSubjectCrop(image: Image, aspectRatio: ThumbnailAspectRatio): CropWindow {
+  const target = getAspectRatioValue(aspectRatio);
+  const { map, width, height } = buildSaliencyMap(image);
+  const horizontal = image.width / image.height > target;
+
+  // Collapse the map to one axis, then slide the window along it
+  const length = horizontal ? width : height;
+  const profile = new Float32Array(length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      profile[horizontal ? x : y] += map[y * width + x];
+    }
+  }
+
+  const window = Math.min(
+    length,
+    Math.max(1, Math.round(horizontal ? height * target : width / target))
+  );
+  const center = (length - window) / 2;
+  let sum = profile.slice(0, window).reduce((total, value) => total + value, 0);
+  let best = { offset: 0, sum };
+  for (let offset = 1; offset <= length - window; offset++) {
+    sum += profile[offset + window - 1] - profile[offset - 1];
+    const better = sum > best.sum * 1.0001;
+    const tied = !better && sum >= best.sum * 0.9999;
+    if (better || (tied && Math.abs(offset - center) < Math.abs(best.offset - center))) {
+      best = { offset, sum };
+    }
+  }
+
+  // Map back to source pixels with the exact ratio
+  const scale = (horizontal ? image.width : image.height) / length;
+  if (horizontal) {
+    const cropWidth = Math.round(image.height * target);
+    const x = Math.min(Math.round(best.offset * scale), image.width - cropWidth);
+    return { x, y: 0, width: cropWidth, height: image.height };
+  }
+  const cropHeight = Math.round(image.width / target);
+  const y = Math.min(Math.round(best.offset * scale), image.height - cropHeight);
+  return { x: 0, y, width: image.width, height: cropHeight };
+}
+
+async function cropToFormat(image: Image, aspectRatio: ThumbnailAspectRatio): Promise<FormatOutput> {
+  const crop = findSubjectCrop(image, aspectRatio);
+  const { width, height } = outputSize(aspectRatio, crop.width);
+
+  const canvas = createCanvas(width, height);
+  canvas.getContext('2d').drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+
+  return {
+    aspectRatio,
+    imageUrl: await storeImageAsset(canvas.toBuffer('image/png'), 'formats'),
+    width,
+    height,
+    method: 'crop',
+  };
+}
+
+async function outpaintToFormat(
+  image: Image,
+  aspectRatio: ThumbnailAspectRatio,
+  options: { model?: string; signal?: AbortSignal }
+): Promise<FormatOutput> {
+  // Fit the whole source inside a canvas of the target ratio
+  const target = getAspectRatioValue(aspectRatio);
+  const wider = target > image.width / image.height;
+  const width = wider ? Math.round(image.height * target) : image.width;
+  const height = wider ? image.height : Math.round(image.width / target);
+  const left = Math.round((width - image.width) / 2);
+  const top = Math.round((height - image.height) / 2);
+
+  // Seed the empty bands with a stretched copy so inpainting starts from matching colors
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d');
+  context.drawImage(image, 0, 0, width, height);
+  context.drawImage(image, left, top);
+
+  // Only the bands change; a small overlap lets the model blend the seams
+  const overlap = 8;
+  const mask = createCanvas(width, height);
+  const maskContext = mask.getContext('2d');
+  maskContext.fillStyle = '#ffffff';
+  maskContext.fillRect(0, 0, width, height);
+  maskContext.fillStyle = '#000000';
+  maskContext.fillRect(
+    left + (wider ? overlap : 0),
+    top + (wider ? 0 : overlap),
+    image.width - (wider ? overlap * 2 : 0),
+    image.height - (wider ? 0 : overlap * 2)
+  );
+
+  const model = selectMaskingModel(options.model);
+  const result = await generateWithImageModel(
+    model.id,
+    {
+      prompt:
+        'Extend the scene beyond its original borders to fill the frame. Continue the background, lighting and perspective naturally. Do not add text, people or new objects, and keep the original image unchanged.',
+      size: getClosestImageSize(model, width, height),
+      originalImages: [{ b64Json: canvas.toBuffer('image/png').toString('base64') }],
+      mask: { b64Json: mask.toBuffer('image/png').toString('base64') },
+    },
+    { signal: options.signal }
+  );
+
+  // Models return their closest supported size, which may not be the target
+  // ratio (e.g. 1024x1536 for 9:16), so the result is center-cropped to it
+  const outpainted = await decodeImage(result.url, options.signal);
+  const crop =
+    outpainted.width / outpainted.height > target
+      ? { width: Math.round(outpainted.height * target), height: outpainted.height }
+      : { width: outpainted.width, height: Math.round(outpainted.width / target) };
+  const size = outputSize(aspectRatio, crop.width);
+  if (outpainted.width === size.width && outpainted.height === size.height) {
+    return { aspectRatio, imageUrl: result.url, ...size, method: 'outpaint' };
+  }
+
+  const fitted = createCanvas(size.width, size.height);
+  fitted
+    .getContext('2d')
+    .drawImage(
+      outpainted,
+      Math.round((outpainted.width - crop.width) / 2),
+      Math.round((outpainted.height - crop.height) / 2),
+      crop.width,
+      crop.height,
+      0,
+      0,
+      size.width,
+      size.height
+    );
+  return {
+    aspectRatio,
+    imageUrl: await storeImageAsset(fitted.toBuffer('image/png'), 'formats'),
+    ...size,
+    method: 'outpaint',
+  };
+}
+
+/**
+ * Produce one aspect ratio of an image. Outpainting falls back to a crop when
+ * it fails, so the format is still delivered.
+ */
+export async function produceFormat(
+  imageUrl: string,
+  aspectRatio: ThumbnailAspectRatio,
+  options: { method?: FormatMethod | 'auto'; model?: string; signal?: AbortSignal; image?: Image } = {}
+): Promise<FormatOutput> {
+  const image = options.image ?? (await decodeImage(imageUrl, options.signal));
+  const method =
+    !options.method || options.method === 'auto'
+      ? chooseFormatMethod(image.width, image.height, aspectRatio)
+      : options.method;
+
+  if (method === 'crop') return cropToFormat(image, aspectRatio);
+
+  try {
+    return await outpaintToFormat(image, aspectRatio, options);
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    const reason = error instanceof Error ? error.message : String(error);
+    console.warn(`[Formats] Outpainting ${aspectRatio} failed, cropping instead: ${reason}`);
+    return { ...(await cropToFormat(image, aspectRatio)), fallbackReason: reason };
+  }
+}
+
+/**
+ * Produce several aspect ratios of one image. Formats that fail are dropped.
+ */
+export async function produceFormats(
+  imageUrl: string,
+  aspectRatios: ThumbnailAspectRatio[],
+  options: { method?: FormatMethod | 'auto'; model?: string; signal?: AbortSignal } = {}
+): Promise<FormatOutput[]> {
+  if (aspectRatios.length === 0) return [];
+
+  const image = await decodeImage(imageUrl, options.signal);
+  const results = await Promise.allSettled(
+    aspectRatios.map((aspectRatio) => produceFormat(imageUrl, aspectRatio, { ...options, image }))
+  );
+
+  return results.flatMap((result, index) => {
+    if (result.status === 'fulfilled') return [result.value];
+    console.error(`[Formats] Failed to produce ${aspectRatios[index]}:`, result.reason);
+    return [];
+  });
+}
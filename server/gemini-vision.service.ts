@@ -1,8 +1,95 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { ThumbnailMetadataExtracted } from './reference-thumbnail.service';
+import { seededFraction, stableStringify, withProviderFixture } from './_core/providerFixtures';
+import type { MessageContent } from './_core/llm';
+import { invokeLLM } from './llm.service';
+import { runWithFailover } from './provider-failover.service';
+import { recordProviderUsage } from './provider-usage.service';
 
 const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI_KEY || '');
 
+const VISION_MODEL = 'gemini-pro-vision';
+
+type VisionPart = { text: string } | { imageUrl: string };
+
+async function generateWithGemini(parts: VisionPart[], signal: AbortSignal): Promise<string> {
+  const model = genAI.getGenerativeModel({ model: VISION_MODEL });
+  const contentParts = await Promise.all(
+    parts.map(async (part) =>
+      'text' in part
+        ? { text: part.text }
+        : {
+            inlineData: {
+              mimeType: 'image/jpeg',
+              data: await fetchImageAsBase64(part.imageUrl, signal),
+            },
+          }
+    )
+  );
+
+  const response = await model.generateContent(
+    { contents: [{ role: 'user', parts: contentParts }] },
+    { signal }
+  );
+  await recordProviderUsage({
+    capability: 'vision',
+    provider: 'gemini',
+    model: VISION_MODEL,
+    inputTokens: response.response.usageMetadata?.promptTokenCount,
+    outputTokens: response.response.usageMetadata?.candidatesTokenCount,
+  });
+  return response.response.text();
+}
+
+/**
+ * Fallback: the multimodal LLM chain, which takes image URLs directly
+ */
+async function generateWithLLM(parts: VisionPart[], signal: AbortSignal): Promise<string> {
+  const content: MessageContent[] = parts.map((part) =>
+    'text' in part
+      ? { type: 'text', text: part.text }
+      : { type: 'image_url', image_url: { url: part.imageUrl } }
+  );
+
+  const response = await invokeLLM({ messages: [{ role: 'user', content }] }, { signal });
+  const text = response.choices[0]?.message.content;
+  if (typeof text !== 'string') {
+    throw new Error('Invalid response from LLM');
+  }
+  return text;
+}
+
+/**
+ * Send a multimodal request to Gemini, falling back to the LLM chain, and
+ * return the raw response text. Goes through the provider fixture layer so it
+ * can be recorded, replayed or synthesized offline.
+ */
+async function generateVisionContent(
+  operation: string,
+  parts: VisionPart[],
+  synthetic: (seed: string) => unknown,
+  signal?: AbortSignal
+): Promise<string> {
+  const request = { model: VISION_MODEL, operation, parts };
+
+  return withProviderFixture(
+    'vision',
+    request,
+    async () => {
+      const { value } = await runWithFailover(
+        'vision',
+        [
+          { id: VISION_MODEL, run: (attemptSignal) => generateWithGemini(parts, attemptSignal) },
+          { id: 'llm', run: (attemptSignal) => generateWithLLM(parts, attemptSignal) },
+        ],
+        { signal }
+      );
+      return value;
+    },
+    () => JSON.stringify(synthetic(stableStringify(request)))
+  );
+}
+
 /**
  * Analyze a thumbnail image using Gemini Vision to extract metadata
  */
@@ -10,8 +97,6 @@ export async function analyzeThumbnailImage(
   imageUrl: string
 ): Promise<ThumbnailMetadataExtracted> {
   try {
-    const model = genAI.getGenerativeModel({ model: 'gemini-pro-vision' });
-
     const prompt = `Analyze this YouTube thumbnail image and extract the following metadata in JSON format:
 
 {
@@ -37,26 +122,11 @@ export async function analyzeThumbnailImage(
 
 Be precise and return ONLY valid JSON.`;
 
-    const response = await model.generateContent({
-      contents: [
-        {
-          role: 'user',
-          parts: [
-            {
-              inlineData: {
-                mimeType: 'image/jpeg',
-                data: await fetchImageAsBase64(imageUrl),
-              },
-            },
-            {
-              text: prompt,
-            },
-          ],
-        },
-      ],
-    });
-
-    const responseText = response.response.text();
+    const responseText = await generateVisionContent(
+      'analyzeThumbnailImage',
+      [{ imageUrl }, { text: prompt }],
+      syntheticThumbnailMetadata
+    );
     const jsonMatch = responseText.match(/\{[\s\S]*\}/);
 
     if (!jsonMatch) {
@@ -76,11 +146,10 @@ Be precise and return ONLY valid JSON.`;
  */
 export async function analyzeUserPrompt(
   userPrompt: string,
-  uploadedImages?: string[]
+  uploadedImages?: string[],
+  signal?: AbortSignal
 ): Promise<Partial<ThumbnailMetadataExtracted>> {
   try {
-    const model = genAI.getGenerativeModel({ model: 'gemini-pro-vision' });
-
     let prompt = `Analyze this YouTube thumbnail generation request and extract the following metadata:
 
 User Request: "${userPrompt}"
@@ -101,30 +170,21 @@ Extract and return as JSON:
 
 Return ONLY valid JSON.`;
 
-    const contents: any[] = [
-      {
-        role: 'user',
-        parts: [{ text: prompt }],
-      },
-    ];
+    const parts: VisionPart[] = [{ text: prompt }];
 
     // Add uploaded images if available
     if (uploadedImages && uploadedImages.length > 0) {
       for (const imageUrl of uploadedImages) {
-        contents[0].parts.push({
-          inlineData: {
-            mimeType: 'image/jpeg',
-            data: await fetchImageAsBase64(imageUrl),
-          },
-        });
+        parts.push({ imageUrl });
       }
     }
 
-    const response = await model.generateContent({
-      contents,
-    });
-
-    const responseText = response.response.text();
+    const responseText = await generateVisionContent(
+      'analyzeUserPrompt',
+      parts,
+      () => syntheticPromptMetadata(userPrompt),
+      signal
+    );
     const jsonMatch = responseText.match(/\{[\s\S]*\}/);
 
     if (!jsonMatch) {
@@ -151,8 +211,6 @@ export async function compareThumbnails(
   differences: string[];
 }> {
   try {
-    const model = genAI.getGenerativeModel({ model: 'gemini-pro-vision' });
-
     const prompt = `Compare these two YouTube thumbnails and identify:
 1. Similarity score (0-1)
 2. Matching visual elements
@@ -165,32 +223,15 @@ Return as JSON:
   "differences": ["difference1", "difference2"]
 }`;
 
-    const response = await model.generateContent({
-      contents: [
-        {
-          role: 'user',
-          parts: [
-            {
-              inlineData: {
-                mimeType: 'image/jpeg',
-                data: await fetchImageAsBase64(referenceImageUrl),
-              },
-            },
-            {
-              inlineData: {
-                mimeType: 'image/jpeg',
-                data: await fetchImageAsBase64(generatedImageUrl),
-              },
-            },
-            {
-              text: prompt,
-            },
-          ],
-        },
-      ],
-    });
-
-    const responseText = response.response.text();
+    const responseText = await generateVisionContent(
+      'compareThumbnails',
+      [{ imageUrl: referenceImageUrl }, { imageUrl: generatedImageUrl }, { text: prompt }],
+      (seed) => ({
+        similarityScore: Number((0.5 + seededFraction(seed) * 0.4).toFixed(2)),
+        matchingElements: ['composition', 'lighting'],
+        differences: ['color palette'],
+      })
+    );
     const jsonMatch = responseText.match(/\{[\s\S]*\}/);
 
     if (!jsonMatch) {
@@ -209,7 +250,8 @@ Return as JSON:
  */
 export async function assessThumbnailQuality(
   generatedImageUrl: string,
-  referenceMetadata?: ThumbnailMetadataExtracted
+  referenceMetadata?: ThumbnailMetadataExtracted,
+  signal?: AbortSignal
 ): Promise<{
   qualityScore: number;
   strengths: string[];
@@ -217,8 +259,6 @@ export async function assessThumbnailQuality(
   viralPotential: number;
 }> {
   try {
-    const model = genAI.getGenerativeModel({ model: 'gemini-pro-vision' });
-
     let prompt = `Assess the quality of this YouTube thumbnail for viral potential.
 
 Evaluate:
@@ -242,26 +282,17 @@ Return as JSON:
 ${JSON.stringify(referenceMetadata, null, 2)}`;
     }
 
-    const response = await model.generateContent({
-      contents: [
-        {
-          role: 'user',
-          parts: [
-            {
-              inlineData: {
-                mimeType: 'image/jpeg',
-                data: await fetchImageAsBase64(generatedImageUrl),
-              },
-            },
-            {
-              text: prompt,
-            },
-          ],
-        },
-      ],
-    });
-
-    const responseText = response.response.text();
+    const responseText = await generateVisionContent(
+      'assessThumbnailQuality',
+      [{ imageUrl: generatedImageUrl }, { text: prompt }],
+      (seed) => ({
+        qualityScore: Number((0.7 + seededFraction(seed, 'quality') * 0.25).toFixed(2)),
+        strengths: ['strong focal point', 'high contrast'],
+        improvements: ['increase text size'],
+        viralPotential: Number((0.6 + seededFraction(seed, 'viral') * 0.3).toFixed(2)),
+      }),
+      signal
+    );
     const jsonMatch = responseText.match(/\{[\s\S]*\}/);
 
     if (!jsonMatch) {
@@ -278,9 +309,9 @@ ${JSON.stringify(referenceMetadata, null, 2)}`;
 /**
  * Fetch image from URL and convert to base64
  */
-async function fetchImageAsBase64(imageUrl: string): Promise<string> {
+async function fetchImageAsBase64(imageUrl: string, signal?: AbortSignal): Promise<string> {
   try {
-    const response = await fetch(imageUrl);
+    const response = await fetch(imageUrl, { signal });
     const buffer = await response.arrayBuffer();
     return Buffer.from(buffer).toString('base64');
   } catch (error) {
@@ -289,5 +320,61 @@ async function fetchImageAsBase64(imageUrl: string): Promise<string> {
   }
 }
 
+const MOODS = ['shocked', 'excited', 'curious', 'angry', 'happy', 'sad', 'confused'];
+const COLORS = ['red', 'orange', 'yellow', 'green', 'blue', 'purple', 'pink', 'black', 'white'];
 
+function pick<T>(options: T[], seed: string, salt: string): T {
+  return options[Math.floor(seededFraction(seed, salt) * options.length)];
+}
 
+/**
+ * Offline stand-in for prompt analysis: keyword matching with deterministic defaults
+ */
+function syntheticPromptMetadata(userPrompt: string): Partial<ThumbnailMetadataExtracted> & {
+  colorPreferences: string[];
+  stylePreferences: string;
+} {
+  const text = userPrompt.toLowerCase();
+  const mood = MOODS.find((candidate) => text.includes(candidate)) ?? pick(MOODS, text, 'mood');
+  const colors = COLORS.filter((color) => text.includes(color));
+
+  return {
+    mood,
+    emotionalExpression: mood === 'angry' || mood === 'sad' ? 'skeptical' : mood,
+    subjectPosition: pick(['left', 'center', 'right'], text, 'subject'),
+    textPosition: pick(['top', 'bottom'], text, 'text'),
+    lighting: /dramatic|dark|epic|night/.test(text) ? 'dramatic' : 'bright',
+    contrast: /bright|bold|vibrant|dramatic/.test(text) ? 'high' : 'medium',
+    hasFace: /face|person|reaction|selfie|me\b|man|woman/.test(text),
+    hasProduct: /product|review|unbox|gadget|phone/.test(text),
+    colorPreferences: colors.length > 0 ? colors : [pick(COLORS, text, 'color')],
+    stylePreferences: /minimal/.test(text) ? 'minimalist' : /colou?rful|bright/.test(text) ? 'colorful' : 'dramatic',
+  };
+}
+
+/**
+ * Offline stand-in for full thumbnail analysis
+ */
+function syntheticThumbnailMetadata(seed: string): ThumbnailMetadataExtracted {
+  const mood = pick(MOODS, seed, 'mood');
+  return {
+    subjectPosition: pick(['left', 'center', 'right'], seed, 'subject'),
+    textPosition: pick(['top', 'bottom', 'overlay', 'side'], seed, 'text'),
+    textAlignment: pick(['left', 'center', 'right'], seed, 'align'),
+    colorPalette: [pick(COLORS, seed, 'c1'), pick(COLORS, seed, 'c2'), pick(COLORS, seed, 'c3')],
+    lighting: pick(['dramatic', 'soft', 'bright', 'natural'], seed, 'lighting'),
+    contrast: pick(['high', 'medium'], seed, 'contrast'),
+    mood,
+    emotionalExpression: mood,
+    hasText: true,
+    textStyle: pick(['bold', 'outline', 'shadow'], seed, 'textStyle'),
+    hasFace: seededFraction(seed, 'face') > 0.3,
+    faceExpression: mood,
+    hasProduct: seededFraction(seed, 'product') > 0.7,
+    layerCount: 2 + Math.floor(seededFraction(seed, 'layers') * 3),
+    symmetry: pick(['symmetric', 'asymmetric', 'balanced'], seed, 'symmetry'),
+    depthOfField: pick(['shallow', 'deep', 'medium'], seed, 'depth'),
+    extractedPrompt: `Synthetic ${mood} YouTube thumbnail`,
+    confidence: 0.5,
+  };
+}
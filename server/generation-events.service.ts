@@ -0,0 +1,170 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Generation Events Service
+ * In-process event bus for live orchestrator progress. Events are buffered per
+ * job so clients that reconnect can catch up from their last seen event ID.
+ */
+
+export type GenerationEventType =
+  | 'job.started'
+  | 'step.started'
+  | 'step.completed'
+  | 'step.failed'
+  | 'reference.selected'
+  | 'prompt.engineered'
+  | 'job.completed'
+  | 'job.failed';
+
+export interface GenerationProgressEvent {
+  id: string;
+  jobId: string;
+  userId: string;
+  type: GenerationEventType;
+  step?: string;
+  stepIndex: number;
+  totalSteps: number;
+  progress: number;
+  durationMs?: number;
+  etaMs: number;
+  data?: Record<string, unknown>;
+  timestamp: string;
+}
+
+export type GenerationEventInput = Omit<GenerationProgressEvent, 'id' | 'jobId' | 'timestamp'>;
+
+interface EventChannel {
+  sequence: number;
+  events: GenerationProgressEvent[];
+  expiresAt?: number;
+}
+
+// Keep finished job channels around long enough for reconnecting clients
+const CHANNEL_RETENTION_MS = 10 * 60 * 1000;
+const MAX_BUFFERED_EVENTS = 200;
+
+// Rolling window of recent step durations used for ETA estimates
+const DURATION_SAMPLE_SIZE = 20;
+
+// Fallback estimates (ms) before any durations have been observed
+const DEFAULT_STEP_DURATIONS: Record<string, number> = {
+  validation: 50,
+  analysis: 4000,
+  referenceSelection: 1500,
+  promptEngineering: 5000,
+  generation: 15000,
+  postProduction: 4000,
+  delivery: 300,
+  complete: 50,
+};
+const DEFAULT_UNKNOWN_STEP_DURATION = 2000;
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+const channels = new Map<string, EventChannel>();
+const stepDurations = new Map<string, number[]>();
+
+export const TERMINAL_EVENT_TYPES: GenerationEventType[] = ['job.completed', 'job.failed'];
+
+function getChannel(jobId: string): EventChannel {
+  let channel = channels.get(jobId);
+  if (!channel) {
+    channel = { sequence: 0, events: [] };
+    channels.set(jobId, channel);
+  }
+  return channel;
+}
+
+function pruneExpiredChannels(): void {
+  const now = Date.now();
+  channels.forEach((channel, jobId) => {
+    if (channel.expiresAt && channel.expiresAt <= now) {
+      channels.delete(jobId);
+    }
+  });
+}
+
+/**
+ * Publish a progress event for a job and notify live subscribers
+ */
+export function publishGenerationEvent(
+  jobId: string,
+  input: GenerationEventInput
+): GenerationProgressEvent {
+  pruneExpiredChannels();
+
+  const channel = getChannel(jobId);
+  channel.sequence += 1;
+
+  const event: GenerationProgressEvent = {
+    ...input,
+    id: String(channel.sequence),
+    jobId,
+    timestamp: new Date().toISOString(),
+  };
+
+  channel.events.push(event);
+  if (channel.events.length > MAX_BUFFERED_EVENTS) {
+    channel.events.shift();
+  }
+
+  // A later retry reuses the channel, so only expire on terminal events
+  channel.expiresAt = TERMINAL_EVENT_TYPES.includes(event.type)
+    ? Date.now() + CHANNEL_RETENTION_MS
+    : undefined;
+
+  emitter.emit(jobId, event);
+  return event;
+}
+
+/**
+ * Get buffered events for a job, optionally only those after a given event ID
+ */
+export function getGenerationEvents(
+  jobId: string,
+  afterEventId?: string | null
+): GenerationProgressEvent[] {
+  const channel = channels.get(jobId);
+  if (!channel) return [];
+
+  const after = afterEventId ? Number(afterEventId) : 0;
+  return channel.events.filter((event) => Number(event.id) > after);
+}
+
+/**
+ * The emitter that live subscriptions listen on; events are emitted under the job ID
+ */
+export function getGenerationEventEmitter(): EventEmitter {
+  return emitter;
+}
+
+/**
+ * Record an observed step duration for future ETA estimates
+ */
+export function recordStepDuration(step: string, durationMs: number): void {
+  const samples = stepDurations.get(step) ?? [];
+  samples.push(durationMs);
+  if (samples.length > DURATION_SAMPLE_SIZE) {
+    samples.shift();
+  }
+  stepDurations.set(step, samples);
+}
+
+/**
+ * Average duration for a step, falling back to a static estimate
+ */
+export function getAverageStepDuration(step: string): number {
+  const samples = stepDurations.get(step);
+  if (!samples || samples.length === 0) {
+    return DEFAULT_STEP_DURATIONS[step] ?? DEFAULT_UNKNOWN_STEP_DURATION;
+  }
+  return Math.round(samples.reduce((sum, value) => sum + value, 0) / samples.length);
+}
+
+/**
+ * Estimate the remaining time for a list of not-yet-finished steps
+ */
+export function estimateRemainingMs(remainingSteps: readonly string[]): number {
+  return remainingSteps.reduce((sum, step) => sum + getAverageStepDuration(step), 0);
+}
@@ -0,0 +1,234 @@
+import { eq, desc, and, gte, lte, like } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { getDb } from './db';
+import { generationJobs, type GenerationJob } from '../drizzle/schema';
+import type { GenerationRequest, GenerationResult } from './ai-orchestrator.service';
+import { resolveImageModel } from './image-providers.service';
+
+/**
+ * Generation Job Service
+ * Persists every orchestrator run with per-step state so a failed run can
+ * resume from the last finished step instead of starting over.
+ */
+
+export type GenerationJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export type GenerationStepStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface GenerationStepRecord {
+  status: GenerationStepStatus;
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+  input?: unknown;
+  output?: unknown;
+  // Diagnostic details recorded while the step ran (metadata, prompts, provider responses, scores)
+  trace?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface GenerationJobRecord {
+  id: string;
+  userId: string;
+  status: GenerationJobStatus;
+  currentStep: string | null;
+  request: GenerationRequest;
+  steps: Record<string, GenerationStepRecord>;
+  result: GenerationResult | null;
+  errorMessage: string | null;
+  attempts: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// In-memory store used when no database is configured (local tooling and tests)
+const memoryJobs = new Map<string, GenerationJobRecord>();
+
+function toRecord(row: GenerationJob): GenerationJobRecord {
+  return {
+    id: row.id,
+    userId: row.userId,
+    status: row.status,
+    currentStep: row.currentStep,
+    request: JSON.parse(row.request),
+    steps: JSON.parse(row.steps || '{}'),
+    result: row.result ? JSON.parse(row.result) : null,
+    errorMessage: row.errorMessage,
+    attempts: row.attempts,
+    createdAt: row.createdAt ?? new Date(),
+    updatedAt: row.updatedAt ?? new Date(),
+  };
+}
+
+function toRow(job: GenerationJobRecord) {
+  return {
+    id: job.id,
+    userId: job.userId,
+    status: job.status,
+    currentStep: job.currentStep,
+    request: JSON.stringify(job.request),
+    model: resolveImageModel(job.request.model).id,
+    pipeline: job.request.pipeline ?? null,
+    steps: JSON.stringify(job.steps),
+    result: job.result ? JSON.stringify(job.result) : null,
+    errorMessage: job.errorMessage,
+    attempts: job.attempts,
+    updatedAt: job.updatedAt,
+  };
+}
+
+/**
+ * Create a new job for a generation request
+ */
+export async function createGenerationJob(
+  request: GenerationRequest,
+  jobId: string = `job_${uuidv4()}`
+): Promise<GenerationJobRecord> {
+  const now = new Date();
+  const job: GenerationJobRecord = {
+    id: jobId,
+    userId: request.userId,
+    status: 'pending',
+    currentStep: null,
+    request,
+    steps: {},
+    result: null,
+    errorMessage: null,
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await saveGenerationJob(job);
+  return job;
+}
+
+/**
+ * Persist the current state of a job
+ */
+export async function saveGenerationJob(job: GenerationJobRecord): Promise<void> {
+  job.updatedAt = new Date();
+
+  const db = await getDb();
+  if (!db) {
+    memoryJobs.set(job.id, structuredClone(job));
+    return;
+  }
+
+  try {
+    const row = toRow(job);
+    await db
+      .insert(generationJobs)
+      .values({ ...row, createdAt: job.createdAt })
+      .onDuplicateKeyUpdate({ set: row });
+  } catch (error) {
+    console.error('[Jobs] Failed to save generation job:', error);
+    throw new Error('Failed to save generation job');
+  }
+}
+
+/**
+ * Load a job by ID
+ */
+export async function getGenerationJob(jobId: string): Promise<GenerationJobRecord | undefined> {
+  const db = await getDb();
+  if (!db) {
+    const job = memoryJobs.get(jobId);
+    return job ? structuredClone(job) : undefined;
+  }
+
+  const result = await db
+    .select()
+    .from(generationJobs)
+    .where(eq(generationJobs.id, jobId))
+    .limit(1);
+
+  return result.length > 0 ? toRecord(result[0]) : undefined;
+}
+
+export interface GenerationJobFilters {
+  userId?: string;
+  status?: GenerationJobStatus;
+  model?: string;
+  pipeline?: string;
+  // Substring of the request (prompt, topic, style)
+  search?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * List jobs, newest first, optionally filtered
+ */
+export async function listGenerationJobs(
+  filters: GenerationJobFilters
+): Promise<GenerationJobRecord[]> {
+  const limit = filters.limit ?? 50;
+  const offset = filters.offset ?? 0;
+
+  const db = await getDb();
+  if (!db) {
+    return Array.from(memoryJobs.values())
+      .filter((job) => !filters.userId || job.userId === filters.userId)
+      .filter((job) => !filters.status || job.status === filters.status)
+      .filter((job) => !filters.model || resolveImageModel(job.request.model).id === filters.model)
+      .filter((job) => !filters.pipeline || job.request.pipeline === filters.pipeline)
+      .filter(
+        (job) =>
+          !filters.search ||
+          JSON.stringify(job.request).toLowerCase().includes(filters.search.toLowerCase())
+      )
+      .filter((job) => !filters.createdFrom || job.createdAt >= filters.createdFrom)
+      .filter((job) => !filters.createdTo || job.createdAt <= filters.createdTo)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(offset, offset + limit)
+      .map((job) => structuredClone(job));
+  }
+
+  const conditions = [];
+  if (filters.userId) conditions.push(eq(generationJobs.userId, filters.userId));
+  if (filters.status) conditions.push(eq(generationJobs.status, filters.status));
+  if (filters.model) conditions.push(eq(generationJobs.model, filters.model));
+  if (filters.pipeline) conditions.push(eq(generationJobs.pipeline, filters.pipeline));
+  if (filters.search) conditions.push(like(generationJobs.request, `%${filters.search}%`));
+  if (filters.createdFrom) conditions.push(gte(generationJobs.createdAt, filters.createdFrom));
+  if (filters.createdTo) conditions.push(lte(generationJobs.createdAt, filters.createdTo));
+
+  const rows = await db
+    .select()
+    .from(generationJobs)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(generationJobs.createdAt))
+    .limit(limit)
+    .offset(offset);
+
+  return rows.map(toRecord);
+}
+
+/**
+ * Clear step state so the next run starts from the first step
+ */
+export function resetGenerationJobSteps(job: GenerationJobRecord): void {
+  job.steps = {};
+  job.currentStep = null;
+  job.result = null;
+  job.errorMessage = null;
+  job.status = 'pending';
+}
+
+/**
+ * Replace a completed job's result images with the ones delivered to the
+ * user, after the effects and brand kit applied outside the pipeline
+ */
+export async function recordDeliveredJobResult(
+  jobId: string,
+  delivered: Pick<GenerationResult, 'generatedImageUrl' | 'qualityScore' | 'formats'>
+): Promise<void> {
+  const job = await getGenerationJob(jobId);
+  if (!job?.result) return;
+
+  job.result = { ...job.result, ...delivered };
+  await saveGenerationJob(job);
+}
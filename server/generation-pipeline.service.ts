@@ -0,0 +1,280 @@
+import { z } from 'zod';
+import { and, eq } from 'drizzle-orm';
+import { getDb } from './db';
+import { plans, subscriptions, templates } from '../drizzle/schema';
+import type { GenerationCandidate, GenerationRequest } from './ai-orchestrator.service';
+import type { GenerationJobRecord } from './generation-job.service';
+import type { FormatOutput } from './formats.service';
+import type { ThumbnailMetadataExtracted } from './reference-thumbnail.service';
+import type { GenerationEventType } from './generation-events.service';
+
+/**
+ * Generation Pipeline Service
+ * Declarative pipelines for the orchestrator. A pipeline is an ordered list of
+ * named steps, each backed by a registered step plugin with its own config.
+ * Steps can be disabled or added per pipeline, and plans and templates choose
+ * which pipeline their generations use.
+ */
+
+/**
+ * Shared state passed from step to step during a run
+ */
+export interface GenerationPipelineContext {
+  job: GenerationJobRecord;
+  request: GenerationRequest;
+  userMetadata?: Partial<ThumbnailMetadataExtracted>;
+  referenceThumbnail?: { id: string; title?: string } | null;
+  referenceMetadata?: ThumbnailMetadataExtracted;
+  matchScore?: number;
+  prompt?: string;
+  candidates?: Array<{ prompt: string; imageUrl: string; seed?: number }>;
+  rankedCandidates?: GenerationCandidate[];
+  formats?: FormatOutput[];
+  creditsUsed?: number;
+  generationId?: string;
+  // Data owned by custom plugins, keyed by plugin name
+  state: Record<string, unknown>;
+}
+
+export type GenerationStepConfig = Record<string, unknown>;
+
+// Records a diagnostic value on the running step's trace
+export type GenerationStepTrace = (key: string, value: unknown) => void;
+
+export interface GenerationStepPlugin<TOutput = any> {
+  name: string;
+  description: string;
+  // Recorded as the persisted step input
+  input?(context: GenerationPipelineContext, config: GenerationStepConfig): unknown;
+  // The signal aborts when the step's deadline passes (config.timeoutMs overrides the default)
+  run(
+    context: GenerationPipelineContext,
+    config: GenerationStepConfig,
+    trace: GenerationStepTrace,
+    signal: AbortSignal
+  ): Promise<TOutput>;
+  // Copy the step output onto the context; also called when a resumed job reuses a stored output
+  apply(context: GenerationPipelineContext, output: TOutput): void;
+  // Progress events to publish once the step output is applied
+  events?(
+    context: GenerationPipelineContext,
+    output: TOutput
+  ): Array<{ type: GenerationEventType; data: Record<string, unknown> }>;
+}
+
+export const pipelineDefinitionSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  // Users may pick selectable pipelines themselves; others are assigned by plans or templates
+  selectable: z.boolean().default(false),
+  steps: z
+    .array(
+      z.object({
+        plugin: z.string().min(1),
+        // Persisted step key, defaults to the plugin name
+        name: z
+          .string()
+          .regex(/^[A-Za-z0-9_-]+$/)
+          .optional(),
+        enabled: z.boolean().default(true),
+        config: z.record(z.string(), z.unknown()).default({}),
+      })
+    )
+    .min(1),
+});
+
+export type GenerationPipelineDefinition = z.input<typeof pipelineDefinitionSchema>;
+
+export interface ResolvedPipelineStep {
+  name: string;
+  plugin: GenerationStepPlugin;
+  config: GenerationStepConfig;
+}
+
+export interface ResolvedGenerationPipeline {
+  id: string;
+  name: string;
+  // Enabled steps only, in execution order
+  steps: ResolvedPipelineStep[];
+}
+
+export const DEFAULT_PIPELINE_ID = 'standard';
+
+// Every pipeline must screen the request against the content policy, then
+// produce images; required steps must run in this order
+const REQUIRED_PLUGINS = ['moderation', 'generation'];
+
+const BUILT_IN_PIPELINES: GenerationPipelineDefinition[] = [
+  {
+    id: 'standard',
+    name: 'Standard',
+    description: 'Reference-guided prompt engineering, generation and candidate ranking',
+    selectable: true,
+    steps: [
+      { plugin: 'validation' },
+      { plugin: 'moderation' },
+      { plugin: 'analysis' },
+      { plugin: 'referenceSelection' },
+      { plugin: 'promptEngineering' },
+      { plugin: 'generation' },
+      { plugin: 'postProduction' },
+      { plugin: 'formats' },
+      { plugin: 'delivery' },
+      { plugin: 'complete' },
+    ],
+  },
+  {
+    id: 'raw-prompt',
+    name: 'Raw Prompt',
+    description: 'Send the prompt to the image model exactly as written',
+    selectable: true,
+    steps: [
+      { plugin: 'validation' },
+      { plugin: 'moderation' },
+      { plugin: 'analysis', enabled: false },
+      { plugin: 'referenceSelection', enabled: false },
+      { plugin: 'promptEngineering', enabled: false },
+      { plugin: 'generation', config: { variations: false } },
+      { plugin: 'postProduction' },
+      { plugin: 'formats' },
+      { plugin: 'delivery' },
+      { plugin: 'complete' },
+    ],
+  },
+];
+
+const stepPlugins = new Map<string, GenerationStepPlugin>();
+const pipelines = new Map<string, z.infer<typeof pipelineDefinitionSchema>>();
+
+/**
+ * Register (or replace) a step plugin
+ */
+export function registerGenerationStep<TOutput>(plugin: GenerationStepPlugin<TOutput>): void {
+  stepPlugins.set(plugin.name, plugin as GenerationStepPlugin);
+}
+
+export function getGenerationStep(name: string): GenerationStepPlugin | undefined {
+  return stepPlugins.get(name);
+}
+
+export function listGenerationSteps(): Array<{ name: string; description: string }> {
+  return Array.from(stepPlugins.values()).map(({ name, description }) => ({ name, description }));
+}
+
+/**
+ * Register (or replace) a pipeline definition. Plugins are checked when the
+ * pipeline is resolved, so definitions may be registered before their plugins.
+ */
+export function registerGenerationPipeline(definition: GenerationPipelineDefinition): void {
+  const parsed = pipelineDefinitionSchema.parse(definition);
+
+  const names = parsed.steps.map((step) => step.name ?? step.plugin);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new Error(`Pipeline ${parsed.id} has more than one step named ${duplicate}`);
+  }
+
+  pipelines.set(parsed.id, parsed);
+}
+
+BUILT_IN_PIPELINES.forEach(registerGenerationPipeline);
+
+export function isGenerationPipelineId(id: string): boolean {
+  return pipelines.has(id);
+}
+
+export function listGenerationPipelines(options: { selectableOnly?: boolean } = {}) {
+  return Array.from(pipelines.values())
+    .filter((pipeline) => !options.selectableOnly || pipeline.selectable)
+    .map((pipeline) => ({
+      id: pipeline.id,
+      name: pipeline.name,
+      description: pipeline.description,
+      selectable: pipeline.selectable,
+      steps: pipeline.steps.map((step) => ({
+        name: step.name ?? step.plugin,
+        plugin: step.plugin,
+        enabled: step.enabled,
+      })),
+    }));
+}
+
+/**
+ * Resolve a pipeline to its enabled steps and their plugins
+ */
+export function resolveGenerationPipeline(id: string = DEFAULT_PIPELINE_ID): ResolvedGenerationPipeline {
+  const definition = pipelines.get(id);
+  if (!definition) {
+    throw new Error(`Unknown generation pipeline: ${id}`);
+  }
+
+  const steps = definition.steps
+    .filter((step) => step.enabled)
+    .map((step) => {
+      const plugin = stepPlugins.get(step.plugin);
+      if (!plugin) {
+        throw new Error(`Unknown generation step plugin: ${step.plugin}`);
+      }
+      return { name: step.name ?? step.plugin, plugin, config: step.config };
+    });
+
+  let previous = -1;
+  for (const [index, required] of REQUIRED_PLUGINS.entries()) {
+    const position = steps.findIndex((step) => step.plugin.name === required);
+    if (position === -1) {
+      throw new Error(`Pipeline ${id} is missing the required ${required} step`);
+    }
+    if (position < previous) {
+      throw new Error(`Pipeline ${id} must run the ${REQUIRED_PLUGINS[index - 1]} step before the ${required} step`);
+    }
+    previous = position;
+  }
+
+  return { id: definition.id, name: definition.name, steps };
+}
+
+/**
+ * Pick the pipeline for a generation. A selectable pipeline the user asked
+ * for wins, then the template's pipeline, then the user's active plan's,
+ * then the default.
+ */
+export async function selectGenerationPipeline(options: {
+  userId: string;
+  requested?: string;
+  templateId?: string;
+}): Promise<string> {
+  if (options.requested) {
+    const pipeline = pipelines.get(options.requested);
+    if (!pipeline || !pipeline.selectable) {
+      throw new Error(`Pipeline not available: ${options.requested}`);
+    }
+    return pipeline.id;
+  }
+
+  const db = await getDb();
+  if (!db) return DEFAULT_PIPELINE_ID;
+
+  if (options.templateId) {
+    const [template] = await db
+      .select({ pipelineId: templates.pipelineId })
+      .from(templates)
+      .where(eq(templates.id, options.templateId))
+      .limit(1);
+    if (template?.pipelineId && pipelines.has(template.pipelineId)) {
+      return template.pipelineId;
+    }
+  }
+
+  const [active] = await db
+    .select({ pipelineId: plans.pipelineId })
+    .from(subscriptions)
+    .innerJoin(plans, eq(subscriptions.planId, plans.id))
+    .where(and(eq(subscriptions.userId, options.userId), eq(subscriptions.status, 'active')))
+    .limit(1);
+  if (active?.pipelineId && pipelines.has(active.pipelineId)) {
+    return active.pipelineId;
+  }
+
+  return DEFAULT_PIPELINE_ID;
+}
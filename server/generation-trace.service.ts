@@ -0,0 +1,161 @@
+import { listGenerationPipelines, DEFAULT_PIPELINE_ID } from './generation-pipeline.service';
+import { resolveImageModel } from './image-providers.service';
+import type {
+  GenerationJobRecord,
+  GenerationJobStatus,
+  GenerationStepStatus,
+} from './generation-job.service';
+
+/**
+ * Generation Trace Service
+ * Turns persisted generation jobs into traces admins can inspect: every step
+ * with its timing, input, output and the diagnostics recorded while it ran.
+ */
+
+export interface GenerationTraceStep {
+  name: string;
+  status: GenerationStepStatus;
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+  input?: unknown;
+  output?: unknown;
+  trace?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface GenerationTraceSummary {
+  id: string;
+  userId: string;
+  status: GenerationJobStatus;
+  pipeline: string;
+  model: string;
+  prompt: string;
+  attempts: number;
+  createdAt: Date;
+  totalDurationMs: number;
+  failedStep: string | null;
+  qualityScore: number | null;
+  errorMessage: string | null;
+}
+
+export interface GenerationTrace extends GenerationTraceSummary {
+  request: GenerationJobRecord['request'];
+  result: GenerationJobRecord['result'];
+  steps: GenerationTraceStep[];
+}
+
+export interface GenerationTraceDifference {
+  path: string;
+  left: unknown;
+  right: unknown;
+}
+
+/**
+ * Step names in execution order: the pipeline's order first, then any
+ * recorded steps the pipeline no longer defines
+ */
+function orderStepNames(job: GenerationJobRecord): string[] {
+  const pipelineId = job.request.pipeline ?? DEFAULT_PIPELINE_ID;
+  const pipeline = listGenerationPipelines().find((candidate) => candidate.id === pipelineId);
+  const declared = pipeline?.steps.map((step) => step.name) ?? [];
+  const recorded = Object.keys(job.steps);
+
+  return [
+    ...declared.filter((name) => recorded.includes(name)),
+    ...recorded.filter((name) => !declared.includes(name)),
+  ];
+}
+
+export function summarizeGenerationTrace(job: GenerationJobRecord): GenerationTraceSummary {
+  const steps = Object.entries(job.steps);
+  const failed = steps.find(([, step]) => step.status === 'failed');
+
+  return {
+    id: job.id,
+    userId: job.userId,
+    status: job.status,
+    pipeline: job.request.pipeline ?? DEFAULT_PIPELINE_ID,
+    model: resolveImageModel(job.request.model).id,
+    prompt: job.request.userPrompt,
+    attempts: job.attempts,
+    createdAt: job.createdAt,
+    totalDurationMs: steps.reduce((sum, [, step]) => sum + (step.durationMs ?? 0), 0),
+    failedStep: failed ? failed[0] : null,
+    qualityScore: job.result?.qualityScore ?? null,
+    errorMessage: job.errorMessage,
+  };
+}
+
+/**
+ * Full trace of a job, steps in execution order
+ */
+export function buildGenerationTrace(job: GenerationJobRecord): GenerationTrace {
+  return {
+    ...summarizeGenerationTrace(job),
+    request: job.request,
+    result: job.result,
+    steps: orderStepNames(job).map((name) => ({ name, ...job.steps[name] })),
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function collectDifferences(
+  left: unknown,
+  right: unknown,
+  path: string,
+  differences: GenerationTraceDifference[]
+): void {
+  if (Array.isArray(left) && Array.isArray(right)) {
+    const length = Math.max(left.length, right.length);
+    for (let index = 0; index < length; index++) {
+      collectDifferences(left[index], right[index], `${path}[${index}]`, differences);
+    }
+    return;
+  }
+
+  if (isPlainObject(left) && isPlainObject(right)) {
+    const keys = Array.from(new Set([...Object.keys(left), ...Object.keys(right)]));
+    for (const key of keys) {
+      collectDifferences(left[key], right[key], path ? `${path}.${key}` : key, differences);
+    }
+    return;
+  }
+
+  const leftValue = left instanceof Date ? left.toISOString() : left;
+  const rightValue = right instanceof Date ? right.toISOString() : right;
+  if (JSON.stringify(leftValue) !== JSON.stringify(rightValue)) {
+    differences.push({ path, left: leftValue, right: rightValue });
+  }
+}
+
+/**
+ * Compare two traces leaf by leaf. Steps are matched by name, and fields that
+ * always differ between runs (ids, timestamps) are left out.
+ */
+export function diffGenerationTraces(
+  left: GenerationTrace,
+  right: GenerationTrace
+): GenerationTraceDifference[] {
+  const comparable = (trace: GenerationTrace) => ({
+    status: trace.status,
+    pipeline: trace.pipeline,
+    model: trace.model,
+    request: { ...trace.request, userId: undefined },
+    steps: Object.fromEntries(
+      trace.steps.map(({ name, startedAt: _startedAt, finishedAt: _finishedAt, ...step }) => [
+        name,
+        step,
+      ])
+    ),
+    qualityScore: trace.qualityScore,
+    errorMessage: trace.errorMessage,
+  });
+
+  const differences: GenerationTraceDifference[] = [];
+  collectDifferences(comparable(left), comparable(right), '', differences);
+  return differences;
+}
@@ -1,64 +1,641 @@
+import { on } from 'events';
 import { z } from 'zod';
-import { protectedProcedure, router } from './_core/trpc';
-import { executeGenerationOrchestrator } from './ai-orchestrator.service';
-import { completePostProductionPipeline } from './post-production.service';
-import { getDb, recordCreditTransaction } from './db';
+import { tracked } from '@trpc/server';
+import { adminProcedure, protectedProcedure, router } from './_core/trpc';
+import {
+  MAX_GENERATION_CANDIDATES,
+  MAX_USER_PROMPT_LENGTH,
+  executeGenerationOrchestrator,
+  type GenerationRequest,
+  type GenerationResult,
+  getPipelineStepNames,
+  quoteGenerationCredits,
+  resumeGenerationJob,
+  retryGenerationJob,
+} from './ai-orchestrator.service';
+import {
+  getGenerationJob,
+  listGenerationJobs,
+  recordDeliveredJobResult,
+  type GenerationJobRecord,
+} from './generation-job.service';
+import {
+  getGenerationEventEmitter,
+  getGenerationEvents,
+  TERMINAL_EVENT_TYPES,
+  type GenerationProgressEvent,
+} from './generation-events.service';
+import {
+  buildGenerationTrace,
+  diffGenerationTraces,
+  summarizeGenerationTrace,
+} from './generation-trace.service';
+import { applyBrandStage, completePostProductionPipeline } from './post-production.service';
+import { resolveGenerationBrand } from './brand-kit.service';
+import { isImageModelId, listImageModels, resolveImageModel } from './image-providers.service';
+import { getImagePrice, getPricingTable } from './pricing.service';
+import { assertWithinSpendCaps } from './provider-usage.service';
+import { ModerationError } from './moderation.service';
+import { persistUploadedImages, uploadedImagesSchema } from './uploaded-images.service';
+import { aspectRatioSchema, THUMBNAIL_ASPECT_RATIOS, type FormatOutput } from './formats.service';
+import type { ThumbnailProject } from '@shared/thumbnailProject';
+import {
+  isGenerationPipelineId,
+  listGenerationPipelines,
+  selectGenerationPipeline,
+} from './generation-pipeline.service';
+import type { GenerationHistory, User } from '../drizzle/schema';
+import { deliverImageUrl, getPlanWatermark } from './watermark.service';
+import {
+  getDb,
+  getGenerationHistoryRecord,
+  getUser,
+  releaseCreditReservation,
+  reserveCredits,
+  settleCreditReservation,
+} from './db';
+
+/**
+ * Hold the quoted credits of a run from its owner. Nothing is held when no
+ * database is configured or the run is free.
+ */
+async function holdGenerationCredits(request: GenerationRequest, jobId?: string): Promise<string | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const quote = await quoteGenerationCredits({ ...request, postProduction: request.postProduction ?? true });
+  if (quote.totalCredits === 0) return undefined;
+  return reserveCredits(
+    request.userId,
+    quote.totalCredits,
+    `Generation: ${request.userPrompt.substring(0, 50)}`,
+    jobId
+  );
+}
+
+/**
+ * Continue a stored job, charging its owner as for a new run. The hold of the
+ * job's earlier run was released when it failed.
+ */
+async function runChargedJob(
+  job: GenerationJobRecord,
+  run: (jobId: string) => Promise<GenerationResult>
+): Promise<GenerationResult> {
+  await assertWithinSpendCaps(job.userId);
+  let reservationId = await holdGenerationCredits(job.request, job.id);
+
+  try {
+    const result = await run(job.id);
+    if (reservationId && result.status === 'success') {
+      await settleCreditReservation(reservationId, result.creditsUsed);
+      reservationId = undefined;
+    }
+    return result;
+  } finally {
+    if (reservationId) {
+      await releaseCreditReservation(reservationId).catch((releaseError) =>
+        console.error('[Generation] Failed to release credit hold:', releaseError)
+      );
+    }
+  }
+}
+
+/**
+ * Run a generation, holding the quoted credits up front. The hold is settled
+ * for what was actually generated, or released if the run fails.
+ */
+async function runChargedGeneration(request: GenerationRequest, jobId?: string) {
+  const postProduction = request.postProduction ?? true;
+  await assertWithinSpendCaps(request.userId);
+
+  let reservationId = await holdGenerationCredits(request, jobId);
+
+  try {
+    const result = await executeGenerationOrchestrator(request, { jobId });
+
+    if (result.moderation) {
+      throw new ModerationError(result.moderation);
+    }
+    if (result.status === 'failed') {
+      throw new Error(result.error || 'Generation failed');
+    }
+
+    const postProdResult = postProduction
+      ? await completePostProductionPipeline(result.generatedImageUrl!, {
+          brightness: 65,
+          contrast: 75,
+        })
+      : null;
+    const finishedImageUrl = postProdResult?.processedImageUrl ?? result.generatedImageUrl!;
+
+    // The brand kit's logo and overlay text go over the finished images as project layers
+    const brand = request.brandKit ? { kit: request.brandKit, overlayText: request.overlayText } : undefined;
+    const branded = brand ? await applyBrandStage(finishedImageUrl, brand) : null;
+    let formats: Array<FormatOutput & { project?: ThumbnailProject }> | undefined = result.formats;
+    if (brand && formats) {
+      formats = [];
+      for (const format of result.formats!) {
+        const brandedFormat = await applyBrandStage(format.imageUrl, brand);
+        formats.push(
+          brandedFormat ? { ...format, imageUrl: brandedFormat.imageUrl, project: brandedFormat.project } : format
+        );
+      }
+    }
+
+    const finished = {
+      id: result.id,
+      jobId: result.jobId,
+      status: result.status,
+      generatedImageUrl: branded?.imageUrl ?? finishedImageUrl,
+      generatedPrompt: result.generatedPrompt,
+      referenceThumbnailId: result.referenceThumbnailId,
+      qualityScore: postProdResult
+        ? postProdResult.qualityResult.overallScore / 100
+        : result.qualityScore,
+      creditsUsed: result.creditsUsed,
+      model: resolveImageModel(request.model).id,
+      // The image before effects and the effects applied, so they can be changed later
+      originalImageUrl: result.generatedImageUrl,
+      postProduction: postProdResult?.appliedEffects,
+      // Layers of the branded image and any banned colors it shows
+      project: branded?.project,
+      bannedColors: branded?.bannedColors,
+      candidates: result.candidates,
+      formats,
+    };
+
+    // The job keeps the images the user received, not the pipeline's unfinished ones
+    if (result.jobId) {
+      await recordDeliveredJobResult(result.jobId, {
+        generatedImageUrl: finished.generatedImageUrl,
+        qualityScore: finished.qualityScore,
+        formats: formats?.map(({ project, ...format }) => format),
+      }).catch((recordError) => console.error('[Generation] Failed to record delivered result:', recordError));
+    }
+
+    // Settled only once the result is complete, so a failure above releases the hold
+    if (reservationId) {
+      await settleCreditReservation(reservationId, result.creditsUsed);
+      reservationId = undefined;
+    }
+    return finished;
+  } catch (error) {
+    console.error('Generation error:', error);
+    if (reservationId) {
+      await releaseCreditReservation(reservationId).catch((releaseError) =>
+        console.error('[Generation] Failed to release credit hold:', releaseError)
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * A generation result with its images as the user should see them. On plans
+ * with a watermark, images are replaced by watermarked copies and the clean
+ * pre-effects image and layers are left out.
+ */
+async function deliverGeneration<
+  T extends {
+    generatedImageUrl?: string;
+    originalImageUrl?: string;
+    project?: unknown;
+    candidates?: Array<{ imageUrl: string }>;
+    formats?: Array<{ imageUrl: string; project?: unknown }>;
+  },
+>(user: User, result: T): Promise<T> {
+  if (!(await getPlanWatermark(user.subscriptionStatus))) return result;
+
+  // One at a time; each copy is rendered and stored on first delivery
+  const deliverAll = async <Item extends { imageUrl: string }>(items?: Item[]) => {
+    if (!items) return items;
+    const delivered: Item[] = [];
+    for (const item of items) {
+      delivered.push({ ...item, imageUrl: await deliverImageUrl(user, item.imageUrl), project: undefined });
+    }
+    return delivered;
+  };
+
+  return {
+    ...result,
+    generatedImageUrl: await deliverImageUrl(user, result.generatedImageUrl),
+    originalImageUrl: undefined,
+    project: undefined,
+    candidates: await deliverAll(result.candidates),
+    formats: await deliverAll(result.formats),
+  };
+}
+
+/**
+ * Completion events carry the generated image; plans with a watermark get
+ * its watermarked copy, or no image when the copy cannot be made
+ */
+async function deliverProgressEvent(user: User, event: GenerationProgressEvent): Promise<GenerationProgressEvent> {
+  const imageUrl = event.data?.generatedImageUrl;
+  if (typeof imageUrl !== 'string') return event;
+  return {
+    ...event,
+    data: { ...event.data, generatedImageUrl: await deliverImageUrl(user, imageUrl).catch(() => undefined) },
+  };
+}
+
+/**
+ * Load a generation the user may replay. Records created before replay inputs
+ * were stored have no prompt to reuse.
+ */
+async function getReplayableGeneration(
+  generationId: string,
+  user: { id: string; role: string }
+): Promise<GenerationHistory> {
+  const record = await getGenerationHistoryRecord(generationId);
+  if (!record || (record.userId !== user.id && user.role !== 'admin')) {
+    throw new Error('Generation not found');
+  }
+  if (!record.generatedPrompt || record.status !== 'completed') {
+    throw new Error('This generation cannot be replayed');
+  }
+  return record;
+}
+
+function buildReplayRequest(
+  userId: string,
+  source: GenerationHistory,
+  options: { candidates: number; seed?: number; promptChange?: string }
+): GenerationRequest {
+  const parameters = source.parameters ? JSON.parse(source.parameters) : {};
+  const prompt = options.promptChange
+    ? `${source.generatedPrompt}. ${options.promptChange}`
+    : source.generatedPrompt!;
+
+  return {
+    userId,
+    // Older records stored an empty user prompt. The generated prompt stands in,
+    // cut to the request limit; the pinned engineered prompt is still used in full.
+    userPrompt: (source.userPrompt || source.generatedPrompt!).slice(0, MAX_USER_PROMPT_LENGTH),
+    preferredStyle: parameters.preferredStyle,
+    preferredMood: parameters.preferredMood,
+    topic: parameters.topic,
+    uploadedImages: parameters.uploadedImages,
+    aspectRatio: parameters.aspectRatio,
+    brandKit: parameters.brandKit,
+    overlayText: parameters.overlayText,
+    model: source.model ?? undefined,
+    size: source.size ?? undefined,
+    candidates: options.candidates,
+    postProduction: parameters.postProduction ?? true,
+    pipeline:
+      parameters.pipeline && isGenerationPipelineId(parameters.pipeline)
+        ? parameters.pipeline
+        : undefined,
+    referenceThumbnailId: source.referenceThumbnailId ?? undefined,
+    engineeredPrompt: prompt,
+    seed: options.seed ?? source.seed ?? undefined,
+    sourceGenerationId: source.id,
+  };
+}
 
 export const generationRouter = router({
   generate: protectedProcedure
     .input(
       z.object({
-        userPrompt: z.string().min(5).max(2000),
-        uploadedImages: z.array(z.string()).optional(),
+        userPrompt: z.string().min(5).max(MAX_USER_PROMPT_LENGTH),
+        // Bare URLs are treated as the subject
+        uploadedImages: uploadedImagesSchema.optional(),
         preferredStyle: z.string().optional(),
         preferredMood: z.string().optional(),
         topic: z.string().optional(),
-        model: z.enum(['dall-e-3', 'routix-v1', 'routix-v2']).optional(),
+        model: z.string().refine(isImageModelId, 'Unknown image model').optional(),
+        size: z.string().regex(/^\d+x\d+$/).optional(),
+        aspectRatio: aspectRatioSchema.optional(),
+        // Extra aspect ratios delivered alongside the main image
+        formats: z.array(aspectRatioSchema).max(THUMBNAIL_ASPECT_RATIOS.length).optional(),
+        candidates: z.number().int().min(1).max(MAX_GENERATION_CANDIDATES).optional(),
+        postProduction: z.boolean().default(true),
+        // A selectable pipeline; otherwise the template's or plan's pipeline is used
+        pipeline: z.string().optional(),
+        templateId: z.string().optional(),
+        brandKitId: z.string().optional(),
+        // Drawn in the brand kit's text style
+        overlayText: z.string().trim().min(1).max(100).optional(),
+        // Client-chosen job ID so progress can be subscribed to before the run starts
+        jobId: z
+          .string()
+          .regex(/^job_[A-Za-z0-9-]{8,64}$/)
+          .optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      try {
-        const result = await executeGenerationOrchestrator({
+      const pipeline = await selectGenerationPipeline({
+        userId: ctx.user.id,
+        requested: input.pipeline,
+        templateId: input.templateId,
+      });
+      const brand = await resolveGenerationBrand(ctx.user.id, input.brandKitId, input.overlayText);
+
+      const result = await runChargedGeneration(
+        {
           userId: ctx.user.id,
           userPrompt: input.userPrompt,
-          uploadedImages: input.uploadedImages,
+          uploadedImages: await persistUploadedImages(input.uploadedImages),
           preferredStyle: input.preferredStyle,
           preferredMood: input.preferredMood,
           topic: input.topic,
           model: input.model,
-        });
+          size: input.size,
+          aspectRatio: input.aspectRatio,
+          formats: input.formats,
+          candidates: input.candidates,
+          postProduction: input.postProduction,
+          pipeline,
+          brandKit: brand?.kit,
+          overlayText: brand?.overlayText,
+        },
+        input.jobId
+      );
+      return deliverGeneration(ctx.user, result);
+    }),
+
+  // Regenerate a stored generation with the same reference, prompt, model,
+  // size and seed. Exact only for models that support seeds.
+  replay: protectedProcedure
+    .input(
+      z.object({
+        generationId: z.string(),
+        jobId: z
+          .string()
+          .regex(/^job_[A-Za-z0-9-]{8,64}$/)
+          .optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const source = await getReplayableGeneration(input.generationId, ctx.user);
+      const request = buildReplayRequest(ctx.user.id, source, { candidates: 1 });
+
+      const result = await deliverGeneration(ctx.user, await runChargedGeneration(request, input.jobId));
+      return {
+        ...result,
+        sourceGenerationId: source.id,
+        deterministic:
+          request.seed !== undefined && resolveImageModel(request.model).capabilities.supportsSeed,
+      };
+    }),
+
+  // "More like this": reuse a stored generation's reference and prompt with a
+  // new seed and, optionally, a small prompt change
+  vary: protectedProcedure
+    .input(
+      z.object({
+        generationId: z.string(),
+        seed: z.number().int().min(0).max(2 ** 31 - 1).optional(),
+        promptChange: z.string().min(1).max(300).optional(),
+        candidates: z.number().int().min(1).max(MAX_GENERATION_CANDIDATES).default(1),
+        jobId: z
+          .string()
+          .regex(/^job_[A-Za-z0-9-]{8,64}$/)
+          .optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const source = await getReplayableGeneration(input.generationId, ctx.user);
+      const request = buildReplayRequest(ctx.user.id, source, {
+        candidates: input.candidates,
+        seed: input.seed ?? Math.floor(Math.random() * 2 ** 31),
+        promptChange: input.promptChange,
+      });
+
+      const result = await deliverGeneration(ctx.user, await runChargedGeneration(request, input.jobId));
+      return { ...result, sourceGenerationId: source.id };
+    }),
+
+  // Credit cost of a generation, shown to the user before it starts
+  quote: protectedProcedure
+    .input(
+      z.object({
+        model: z.string().refine(isImageModelId, 'Unknown image model').optional(),
+        size: z.string().regex(/^\d+x\d+$/).optional(),
+        aspectRatio: aspectRatioSchema.optional(),
+        formats: z.array(aspectRatioSchema).max(THUMBNAIL_ASPECT_RATIOS.length).optional(),
+        candidates: z.number().int().min(1).max(MAX_GENERATION_CANDIDATES).default(1),
+        upscale: z.boolean().default(false),
+        postProduction: z.boolean().default(true),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const quote = await quoteGenerationCredits(input);
+      const user = await getUser(ctx.user.id);
+      const balance = user?.credits ?? 0;
+
+      return {
+        ...quote,
+        balance,
+        sufficient: balance >= quote.totalCredits,
+      };
+    }),
 
-        if (result.status === 'failed') {
-          throw new Error(result.error || 'Generation failed');
+  // Image models from the provider registry, with capabilities, availability
+  // and the current per-image price at the default size
+  listModels: protectedProcedure.query(async () => {
+    const pricing = await getPricingTable();
+    return listImageModels().map((model) => ({
+      ...model,
+      capabilities: {
+        ...model.capabilities,
+        creditCost: getImagePrice(pricing, model.id, model.capabilities.defaultSize),
+      },
+    }));
+  }),
+
+  // Pipelines users can choose between (others are assigned by plans and templates)
+  listPipelines: protectedProcedure.query(() => {
+    return listGenerationPipelines({ selectableOnly: true });
+  }),
+
+  getJob: protectedProcedure
+    .input(z.object({ jobId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const job = await getGenerationJob(input.jobId);
+      if (!job || (job.userId !== ctx.user.id && ctx.user.role !== 'admin')) {
+        throw new Error('Generation job not found');
+      }
+      const result = job.result && (await deliverGeneration(ctx.user, job.result));
+      // Step outputs and traces hold every clean image of the run, so only admins see them
+      return { ...job, steps: ctx.user.role === 'admin' ? job.steps : undefined, result };
+    }),
+
+  // Live step progress for a job. Reconnecting clients send their last event ID
+  // and receive every buffered event they missed before new ones.
+  onProgress: protectedProcedure
+    .input(
+      z.object({
+        jobId: z.string(),
+        lastEventId: z.string().nullish(),
+      })
+    )
+    .subscription(async function* ({ ctx, input, signal }) {
+      const canSee = (event: GenerationProgressEvent) =>
+        event.userId === ctx.user.id || ctx.user.role === 'admin';
+
+      // Start listening before draining the buffer so nothing slips in between
+      const live = on(getGenerationEventEmitter(), input.jobId, { signal });
+
+      let lastSeen = input.lastEventId ? Number(input.lastEventId) : 0;
+      const buffered = getGenerationEvents(input.jobId, input.lastEventId);
+
+      if (buffered.length === 0 && !input.lastEventId) {
+        // The job may have finished before this process buffered it (e.g. after a restart)
+        const job = await getGenerationJob(input.jobId);
+        if (job && job.userId !== ctx.user.id && ctx.user.role !== 'admin') {
+          throw new Error('Generation job not found');
         }
+        if (job && (job.status === 'completed' || job.status === 'failed')) {
+          const totalSteps = getPipelineStepNames(job.request.pipeline).length;
+          const event: GenerationProgressEvent = {
+            id: '0',
+            jobId: job.id,
+            userId: job.userId,
+            type: job.status === 'completed' ? 'job.completed' : 'job.failed',
+            stepIndex: job.status === 'completed' ? totalSteps : 0,
+            totalSteps,
+            progress: job.status === 'completed' ? 100 : 0,
+            etaMs: 0,
+            data:
+              job.status === 'completed'
+                ? {
+                    generationId: job.result?.id,
+                    generatedImageUrl: job.result?.generatedImageUrl,
+                  }
+                : { error: job.errorMessage },
+            timestamp: job.updatedAt.toISOString(),
+          };
+          yield tracked(event.id, await deliverProgressEvent(ctx.user, event));
+          return;
+        }
+      }
 
-        const postProdResult = await completePostProductionPipeline(
-          result.generatedImageUrl!,
-          { brightness: 65, contrast: 75 }
-        );
+      for (const [index, event] of buffered.entries()) {
+        if (!canSee(event)) {
+          throw new Error('Generation job not found');
+        }
+        lastSeen = Number(event.id);
+        yield tracked(event.id, await deliverProgressEvent(ctx.user, event));
+        // An earlier failure may be followed by a resumed run in the same buffer
+        if (TERMINAL_EVENT_TYPES.includes(event.type) && index === buffered.length - 1) return;
+      }
 
-        const db = await getDb();
-        if (db) {
-          await recordCreditTransaction(
-            ctx.user.id,
-            -result.creditsUsed,
-            'usage',
-            result.id
-          );
+      for await (const [event] of live) {
+        const progressEvent = event as GenerationProgressEvent;
+        if (Number(progressEvent.id) <= lastSeen) continue;
+        if (!canSee(progressEvent)) {
+          throw new Error('Generation job not found');
         }
+        lastSeen = Number(progressEvent.id);
+        yield tracked(progressEvent.id, await deliverProgressEvent(ctx.user, progressEvent));
+        if (TERMINAL_EVENT_TYPES.includes(progressEvent.type)) return;
+      }
+    }),
 
-        return {
-          id: result.id,
-          status: result.status,
-          generatedImageUrl: postProdResult.processedImageUrl,
-          generatedPrompt: result.generatedPrompt,
-          referenceThumbnailId: result.referenceThumbnailId,
-          qualityScore: postProdResult.qualityResult.overallScore / 100,
-          creditsUsed: result.creditsUsed,
-          model: input.model || 'dall-e-3',
-        };
+  // ===== ADMIN JOB MANAGEMENT =====
+
+  listJobs: adminProcedure
+    .input(
+      z.object({
+        userId: z.string().optional(),
+        status: z.enum(['pending', 'running', 'completed', 'failed']).optional(),
+        limit: z.number().default(50),
+        offset: z.number().default(0),
+      })
+    )
+    .query(async ({ input }) => {
+      return await listGenerationJobs(input);
+    }),
+
+  // Continue a failed job from its last completed step, charged to its owner.
+  // Completed jobs return their stored result.
+  resumeJob: adminProcedure
+    .input(z.object({ jobId: z.string() }))
+    .mutation(async ({ input }) => {
+      try {
+        const job = await getGenerationJob(input.jobId);
+        if (!job) {
+          throw new Error('Generation job not found');
+        }
+        if (job.status === 'completed') {
+          return await resumeGenerationJob(job.id);
+        }
+        return await runChargedJob(job, resumeGenerationJob);
+      } catch (error) {
+        console.error('Error resuming generation job:', error);
+        throw error;
+      }
+    }),
+
+  // Browse run traces, newest first
+  listTraces: adminProcedure
+    .input(
+      z.object({
+        userId: z.string().optional(),
+        status: z.enum(['pending', 'running', 'completed', 'failed']).optional(),
+        model: z.string().optional(),
+        pipeline: z.string().optional(),
+        search: z.string().max(200).optional(),
+        createdFrom: z.date().optional(),
+        createdTo: z.date().optional(),
+        limit: z.number().min(1).max(200).default(50),
+        offset: z.number().default(0),
+      })
+    )
+    .query(async ({ input }) => {
+      const jobs = await listGenerationJobs(input);
+      return jobs.map(summarizeGenerationTrace);
+    }),
+
+  getTrace: adminProcedure
+    .input(z.object({ jobId: z.string() }))
+    .query(async ({ input }) => {
+      const job = await getGenerationJob(input.jobId);
+      if (!job) {
+        throw new Error('Generation job not found');
+      }
+      return buildGenerationTrace(job);
+    }),
+
+  // Field-by-field differences between two runs
+  diffTraces: adminProcedure
+    .input(z.object({ leftJobId: z.string(), rightJobId: z.string() }))
+    .query(async ({ input }) => {
+      const [left, right] = await Promise.all([
+        getGenerationJob(input.leftJobId),
+        getGenerationJob(input.rightJobId),
+      ]);
+      if (!left || !right) {
+        throw new Error('Generation job not found');
+      }
+
+      const leftTrace = buildGenerationTrace(left);
+      const rightTrace = buildGenerationTrace(right);
+      return {
+        left: leftTrace,
+        right: rightTrace,
+        differences: diffGenerationTraces(leftTrace, rightTrace),
+      };
+    }),
+
+  // Re-run an unfinished job from the first step, charged to its owner. A
+  // completed job was already delivered and paid for, so it is not run again.
+  retryJob: adminProcedure
+    .input(z.object({ jobId: z.string() }))
+    .mutation(async ({ input }) => {
+      try {
+        const job = await getGenerationJob(input.jobId);
+        if (!job) {
+          throw new Error('Generation job not found');
+        }
+        if (job.status === 'completed') {
+          throw new Error('Completed jobs cannot be retried');
+        }
+        return await runChargedJob(job, retryGenerationJob);
       } catch (error) {
-        console.error('Generation error:', error);
+        console.error('Error retrying generation job:', error);
         throw error;
       }
     }),
@@ -0,0 +1,49 @@
+import { loadImage, type Image } from '@napi-rs/canvas';
+import { getProviderMode } from './_core/providerFixtures';
+import { storagePut } from './storage';
+
+/**
+ * Image Assets Service
+ * Reads source images for server-side processing and stores the results.
+ */
+
+/**
+ * Read an image from a URL or data URL
+ */
+export async function loadImageBuffer(url: string, signal?: AbortSignal): Promise<Buffer> {
+  if (url.startsWith('data:')) {
+    return Buffer.from(url.slice(url.indexOf(',') + 1), 'base64');
+  }
+
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image (${response.status})`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Fetch and decode an image
+ */
+export async function decodeImage(url: string, signal?: AbortSignal): Promise<Image> {
+  return loadImage(await loadImageBuffer(url, signal));
+}
+
+/**
+ * Store a processed image and return its URL. Offline provider modes return a
+ * data URL so runs never depend on the storage proxy.
+ */
+export async function storeImageAsset(
+  buffer: Buffer,
+  prefix: string,
+  mimeType: 'image/png' | 'image/jpeg' = 'image/png'
+): Promise<string> {
+  if (getProviderMode() === 'synthetic' || getProviderMode() === 'replay') {
+    return `data:${mimeType};base64,${buffer.toString('base64')}`;
+  }
+
+  const extension = mimeType === 'image/jpeg' ? 'jpg' : 'png';
+  const random = Math.random().toString(36).slice(2, 10);
+  const { url } = await storagePut(`${prefix}/${Date.now()}-${random}.${extension}`, buffer, mimeType);
+  return url;
+}
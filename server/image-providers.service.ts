@@ -0,0 +1,581 @@
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { generateImage } from './_core/imageGeneration';
+import { ENV } from './_core/env';
+import {
+  createPlaceholderImageDataUrl,
+  inlineImageUrl,
+  stableStringify,
+  withProviderFixture,
+} from './_core/providerFixtures';
+import { storeImageAsset } from './image-assets.service';
+import { runWithFailover, type ProviderAttemptRecord } from './provider-failover.service';
+import { recordProviderUsage } from './provider-usage.service';
+
+/**
+ * Image Provider Registry
+ * Maps each selectable model ID to a backend adapter and its capabilities.
+ * Built-in models can be overridden, and new ones added, through the
+ * IMAGE_PROVIDERS environment variable (a JSON array of model configs).
+ */
+
+export type ImageProviderType = 'forge' | 'openai-compatible' | 'local-http';
+
+export interface ImageModelCapabilities {
+  sizes: string[];
+  defaultSize: string;
+  supportsEditing: boolean;
+  // Accepts an inpainting mask with its image input
+  supportsMasking?: boolean;
+  supportsSeed: boolean;
+  creditCost: number;
+  estimatedUsdCost: number;
+}
+
+export interface ImageModelConfig {
+  id: string;
+  name: string;
+  description: string;
+  provider: ImageProviderType;
+  quality: 'draft' | 'standard' | 'premium';
+  capabilities: ImageModelCapabilities;
+  // Models tried in order when this one fails; unconfigured ones are skipped
+  fallbacks?: string[];
+  // Adapter-specific settings; apiKeyEnv names the env var holding the key
+  settings?: {
+    baseUrl?: string;
+    apiKeyEnv?: string;
+    model?: string;
+    extraParams?: Record<string, unknown>;
+  };
+}
+
+export interface ImageGenerationInput {
+  prompt: string;
+  size?: string;
+  seed?: number;
+  originalImages?: Array<{ url?: string; b64Json?: string; mimeType?: string }>;
+  // Inpainting mask for the first input image: an opaque grayscale PNG of the
+  // same size, white where the image may change and black where it is kept
+  mask?: { b64Json: string };
+}
+
+export interface ImageGenerationOutput {
+  url: string;
+  modelId: string;
+  provider: ImageProviderType;
+  size: string;
+  seed?: number;
+  // Every model tried, including skipped and failed fallbacks
+  attempts?: ProviderAttemptRecord[];
+}
+
+export interface ImageProviderAdapter {
+  isConfigured(config: ImageModelConfig): boolean;
+  generate(
+    config: ImageModelConfig,
+    input: ImageGenerationInput & { size: string },
+    signal?: AbortSignal
+  ): Promise<{ url: string; seed?: number }>;
+}
+
+export const DEFAULT_IMAGE_MODEL_ID = 'dall-e-3';
+
+// Models tried for one image, the requested one included; bounds how long a
+// generation can spend failing over
+export const MAX_IMAGE_MODEL_CHAIN = 3;
+
+const BUILT_IN_MODELS: ImageModelConfig[] = [
+  {
+    id: 'dall-e-3',
+    name: 'DALL-E 3',
+    description: 'Reliable thumbnail generation through the built-in image service',
+    provider: 'forge',
+    quality: 'standard',
+    capabilities: {
+      sizes: ['1792x1024', '1024x1024', '1024x1792'],
+      defaultSize: '1792x1024',
+      supportsEditing: true,
+      supportsSeed: false,
+      creditCost: 10,
+      estimatedUsdCost: 0.08,
+    },
+    fallbacks: ['routix-v2'],
+  },
+  {
+    id: 'routix-v1',
+    name: 'Routix v1',
+    description: 'Fast, seed-reproducible drafts from a self-hosted Stable Diffusion server',
+    provider: 'local-http',
+    quality: 'draft',
+    capabilities: {
+      sizes: ['1280x720', '768x432', '1024x1024', '720x1280'],
+      defaultSize: '1280x720',
+      supportsEditing: true,
+      supportsMasking: true,
+      supportsSeed: true,
+      creditCost: 4,
+      estimatedUsdCost: 0.01,
+    },
+    fallbacks: ['dall-e-3'],
+    settings: {
+      baseUrl: process.env.LOCAL_IMAGE_API_URL,
+    },
+  },
+  {
+    id: 'routix-v2',
+    name: 'Routix v2',
+    description: 'High-detail rendering with realistic faces via an OpenAI-compatible API',
+    provider: 'openai-compatible',
+    quality: 'premium',
+    capabilities: {
+      sizes: ['1536x1024', '1024x1024', '1024x1536'],
+      defaultSize: '1536x1024',
+      supportsEditing: true,
+      supportsMasking: true,
+      supportsSeed: false,
+      creditCost: 12,
+      estimatedUsdCost: 0.17,
+    },
+    fallbacks: ['dall-e-3'],
+    settings: {
+      baseUrl: process.env.OPENAI_IMAGES_BASE_URL || 'https://api.openai.com/v1',
+      apiKeyEnv: 'OPENAI_API_KEY',
+      model: 'gpt-image-1',
+    },
+  },
+];
+
+function parseSize(size: string): { width: number; height: number } {
+  const [width, height] = size.split('x').map((value) => parseInt(value, 10));
+  return { width, height };
+}
+
+function resolveApiKey(config: ImageModelConfig): string {
+  return config.settings?.apiKeyEnv ? process.env[config.settings.apiKeyEnv] ?? '' : '';
+}
+
+// Candidates finish in parallel, so the stored key must be unique per image, not per millisecond
+function storeGeneratedImage(b64Json: string, mimeType: 'image/png' | 'image/jpeg' = 'image/png'): Promise<string> {
+  return storeImageAsset(Buffer.from(b64Json, 'base64'), 'generated', mimeType);
+}
+
+async function loadImageBase64(
+  image: { url?: string; b64Json?: string },
+  signal?: AbortSignal
+): Promise<string> {
+  if (image.b64Json) return image.b64Json;
+  if (!image.url) throw new Error('Image input has neither url nor b64Json');
+
+  if (image.url.startsWith('data:')) {
+    return image.url.slice(image.url.indexOf(',') + 1);
+  }
+
+  const response = await fetch(image.url, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch input image (${response.status})`);
+  }
+  return Buffer.from(await response.arrayBuffer()).toString('base64');
+}
+
+/**
+ * Convert a grayscale mask to the OpenAI convention, where transparent pixels
+ * are the ones to edit
+ */
+async function toAlphaMask(b64Json: string): Promise<Buffer> {
+  const image = await loadImage(Buffer.from(b64Json, 'base64'));
+  const canvas = createCanvas(image.width, image.height);
+  const context = canvas.getContext('2d');
+  context.drawImage(image, 0, 0);
+
+  const pixels = context.getImageData(0, 0, image.width, image.height);
+  for (let index = 0; index < pixels.data.length; index += 4) {
+    pixels.data[index + 3] = 255 - pixels.data[index];
+    pixels.data[index] = pixels.data[index + 1] = pixels.data[index + 2] = 0;
+  }
+  context.putImageData(pixels, 0, 0);
+  return canvas.toBuffer('image/png');
+}
+
+/**
+ * Built-in image service (the original generateImage helper)
+ */
+const forgeAdapter: ImageProviderAdapter = {
+  isConfigured: () => Boolean(ENV.forgeApiUrl && ENV.forgeApiKey),
+
+  async generate(_config, input, signal) {
+    const result = await generateImage(
+      {
+        prompt: input.prompt,
+        size: input.size,
+        originalImages: input.originalImages,
+      },
+      { signal }
+    );
+    if (!result.url) {
+      throw new Error('No image URL returned from generation');
+    }
+    return { url: result.url };
+  },
+};
+
+/**
+ * Any service implementing the OpenAI images API (generations and edits)
+ */
+const openAICompatibleAdapter: ImageProviderAdapter = {
+  isConfigured: (config) => Boolean(config.settings?.baseUrl && resolveApiKey(config)),
+
+  async generate(config, input, signal) {
+    const baseUrl = config.settings?.baseUrl?.replace(/\/+$/, '');
+    const apiKey = resolveApiKey(config);
+    if (!baseUrl || !apiKey) {
+      throw new Error(`Image model ${config.id} is not configured`);
+    }
+
+    const model = config.settings?.model || config.id;
+    let response: Response;
+
+    if (input.originalImages && input.originalImages.length > 0) {
+      const form = new FormData();
+      form.append('model', model);
+      form.append('prompt', input.prompt);
+      form.append('size', input.size);
+      for (const [index, image] of input.originalImages.entries()) {
+        const data = Buffer.from(await loadImageBase64(image, signal), 'base64');
+        form.append(
+          'image[]',
+          new Blob([data], { type: image.mimeType || 'image/png' }),
+          `input-${index}.png`
+        );
+      }
+      if (input.mask) {
+        form.append(
+          'mask',
+          new Blob([new Uint8Array(await toAlphaMask(input.mask.b64Json))], { type: 'image/png' }),
+          'mask.png'
+        );
+      }
+      response = await fetch(`${baseUrl}/images/edits`, {
+        method: 'POST',
+        headers: { authorization: `Bearer ${apiKey}` },
+        body: form,
+        signal,
+      });
+    } else {
+      response = await fetch(`${baseUrl}/images/generations`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model,
+          prompt: input.prompt,
+          size: input.size,
+          n: 1,
+          ...config.settings?.extraParams,
+        }),
+        signal,
+      });
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(
+        `Image generation request failed (${response.status} ${response.statusText})${detail ? `: ${detail}` : ''}`
+      );
+    }
+
+    const result = (await response.json()) as {
+      data?: Array<{ url?: string; b64_json?: string }>;
+    };
+    const image = result.data?.[0];
+    if (image?.b64_json) {
+      return { url: await storeGeneratedImage(image.b64_json) };
+    }
+    if (image?.url) {
+      return { url: image.url };
+    }
+    throw new Error('No image returned from provider');
+  },
+};
+
+/**
+ * Self-hosted Stable Diffusion server exposing the AUTOMATIC1111 web API
+ */
+const localHttpAdapter: ImageProviderAdapter = {
+  isConfigured: (config) => Boolean(config.settings?.baseUrl),
+
+  async generate(config, input, signal) {
+    const baseUrl = config.settings?.baseUrl?.replace(/\/+$/, '');
+    if (!baseUrl) {
+      throw new Error(`Image model ${config.id} is not configured`);
+    }
+
+    const { width, height } = parseSize(input.size);
+    const seed = input.seed ?? Math.floor(Math.random() * 2 ** 31);
+    const isImg2Img = Boolean(input.originalImages && input.originalImages.length > 0);
+
+    const body: Record<string, unknown> = {
+      prompt: input.prompt,
+      width,
+      height,
+      seed,
+      steps: 30,
+      ...config.settings?.extraParams,
+    };
+    if (isImg2Img) {
+      body.init_images = await Promise.all(
+        input.originalImages!.map((image) => loadImageBase64(image, signal))
+      );
+    }
+    if (input.mask) {
+      // Inpaint only the white area, starting from the original pixels
+      Object.assign(body, {
+        mask: input.mask.b64Json,
+        mask_blur: 4,
+        inpainting_fill: 1,
+        inpaint_full_res: false,
+        denoising_strength: 0.75,
+      });
+    }
+
+    const response = await fetch(`${baseUrl}/sdapi/v1/${isImg2Img ? 'img2img' : 'txt2img'}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(
+        `Local image request failed (${response.status} ${response.statusText})${detail ? `: ${detail}` : ''}`
+      );
+    }
+
+    const result = (await response.json()) as { images?: string[] };
+    if (!result.images?.[0]) {
+      throw new Error('No image returned from local provider');
+    }
+
+    return { url: await storeGeneratedImage(result.images[0]), seed };
+  },
+};
+
+const adapters = new Map<ImageProviderType, ImageProviderAdapter>([
+  ['forge', forgeAdapter],
+  ['openai-compatible', openAICompatibleAdapter],
+  ['local-http', localHttpAdapter],
+]);
+
+let modelRegistry: Map<string, ImageModelConfig> | null = null;
+
+function loadConfiguredModels(): ImageModelConfig[] {
+  const raw = process.env.IMAGE_PROVIDERS;
+  if (!raw) return [];
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      throw new Error('IMAGE_PROVIDERS must be a JSON array');
+    }
+    return parsed.filter((config: ImageModelConfig) => {
+      if (!config.id || !adapters.has(config.provider)) {
+        console.warn(`[ImageProviders] Ignoring invalid model config: ${JSON.stringify(config)}`);
+        return false;
+      }
+      return true;
+    });
+  } catch (error) {
+    console.error('[ImageProviders] Failed to parse IMAGE_PROVIDERS:', error);
+    return [];
+  }
+}
+
+function getRegistry(): Map<string, ImageModelConfig> {
+  if (!modelRegistry) {
+    modelRegistry = new Map();
+    for (const config of BUILT_IN_MODELS) {
+      modelRegistry.set(config.id, config);
+    }
+    // Configured entries replace built-ins with the same ID
+    for (const config of loadConfiguredModels()) {
+      const base = modelRegistry.get(config.id);
+      modelRegistry.set(config.id, {
+        ...base,
+        ...config,
+        capabilities: { ...base?.capabilities, ...config.capabilities } as ImageModelCapabilities,
+        settings: { ...base?.settings, ...config.settings },
+      });
+    }
+  }
+  return modelRegistry;
+}
+
+/**
+ * Register a model at runtime (used by plugins and tests)
+ */
+export function registerImageModel(config: ImageModelConfig): void {
+  if (!adapters.has(config.provider)) {
+    throw new Error(`Unknown image provider: ${config.provider}`);
+  }
+  getRegistry().set(config.id, config);
+}
+
+/**
+ * Register or replace the adapter for a provider type
+ */
+export function registerImageProviderAdapter(
+  type: ImageProviderType,
+  adapter: ImageProviderAdapter
+): void {
+  adapters.set(type, adapter);
+}
+
+export function getImageModel(modelId: string): ImageModelConfig | undefined {
+  return getRegistry().get(modelId);
+}
+
+export function isImageModelId(modelId: string): boolean {
+  return getRegistry().has(modelId);
+}
+
+/**
+ * Resolve a requested model ID, falling back to the default model
+ */
+export function resolveImageModel(modelId?: string): ImageModelConfig {
+  return (
+    (modelId && getRegistry().get(modelId)) || getRegistry().get(DEFAULT_IMAGE_MODEL_ID)!
+  );
+}
+
+/**
+ * The model's supported size closest to an aspect ratio
+ */
+export function getClosestImageSize(config: ImageModelConfig, width: number, height: number): string {
+  const ratio = width / height;
+  const distance = (size: string) => {
+    const { width: w, height: h } = parseSize(size);
+    return Math.abs(Math.log(w / h / ratio));
+  };
+  return config.capabilities.sizes.reduce(
+    (best, size) => (distance(size) < distance(best) ? size : best),
+    config.capabilities.defaultSize
+  );
+}
+
+/**
+ * List all registered models with whether their backend is configured
+ */
+export function listImageModels(): Array<ImageModelConfig & { available: boolean }> {
+  return Array.from(getRegistry().values()).map((config) => ({
+    ...config,
+    settings: undefined,
+    available: adapters.get(config.provider)!.isConfigured(config),
+  }));
+}
+
+/**
+ * Models to try for a request: the requested model, then its configured
+ * fallbacks that can serve the request, up to MAX_IMAGE_MODEL_CHAIN
+ */
+export function getImageModelChain(modelId: string | undefined, input: ImageGenerationInput): ImageModelConfig[] {
+  const primary = resolveImageModel(modelId);
+  const fallbacks = (primary.fallbacks ?? [])
+    .map((id) => getImageModel(id))
+    .filter((config): config is ImageModelConfig => Boolean(config))
+    .filter((config) => config.id !== primary.id)
+    .filter((config) => adapters.get(config.provider)?.isConfigured(config))
+    .filter((config) => !input.originalImages?.length || config.capabilities.supportsEditing)
+    .filter((config) => !input.mask || config.capabilities.supportsMasking);
+
+  return [primary, ...fallbacks].slice(0, MAX_IMAGE_MODEL_CHAIN);
+}
+
+/**
+ * Generate an image with the given model, failing over to its fallbacks when
+ * it errors, times out or its circuit breaker is open
+ */
+export async function generateWithImageModel(
+  modelId: string | undefined,
+  input: ImageGenerationInput,
+  options: { signal?: AbortSignal } = {}
+): Promise<ImageGenerationOutput> {
+  const { value, attempts } = await runWithFailover(
+    'image',
+    getImageModelChain(modelId, input).map((config) => ({
+      id: config.id,
+      run: (signal) => generateWithSingleModel(config, input, signal),
+    })),
+    { signal: options.signal }
+  );
+  return { ...value, attempts };
+}
+
+async function generateWithSingleModel(
+  config: ImageModelConfig,
+  input: ImageGenerationInput,
+  signal: AbortSignal
+): Promise<ImageGenerationOutput> {
+  const adapter = adapters.get(config.provider);
+  if (!adapter) {
+    throw new Error(`No adapter registered for provider: ${config.provider}`);
+  }
+
+  const size =
+    input.size && config.capabilities.sizes.includes(input.size)
+      ? input.size
+      : config.capabilities.defaultSize;
+
+  if (input.originalImages?.length && !config.capabilities.supportsEditing) {
+    throw new Error(`Image model ${config.id} does not support image inputs`);
+  }
+  if (input.mask && !config.capabilities.supportsMasking) {
+    throw new Error(`Image model ${config.id} does not support region editing`);
+  }
+
+  const request = {
+    ...input,
+    size,
+    seed: config.capabilities.supportsSeed ? input.seed : undefined,
+  };
+
+  // The forge adapter goes through generateImage, which handles provider mode itself
+  const result =
+    config.provider === 'forge'
+      ? await adapter.generate(config, request, signal)
+      : await withProviderFixture(
+          'image',
+          { modelId: config.id, ...request },
+          () => adapter.generate(config, request, signal),
+          () => {
+            const { width, height } = parseSize(size);
+            return {
+              url: createPlaceholderImageDataUrl(
+                stableStringify({ modelId: config.id, ...request }),
+                width,
+                height
+              ),
+              seed: request.seed,
+            };
+          },
+          async (response) => ({ ...response, url: await inlineImageUrl(response.url) })
+        );
+
+  console.log(`[ImageProviders] Generated image with ${config.id} (${config.provider}, ${size})`);
+  await recordProviderUsage({
+    capability: 'image',
+    provider: config.provider,
+    model: config.id,
+    imageCount: 1,
+    costUsd: config.capabilities.estimatedUsdCost,
+  });
+
+  return {
+    url: result.url,
+    modelId: config.id,
+    provider: config.provider,
+    size,
+    seed: result.seed,
+  };
+}
@@ -0,0 +1,328 @@
+import { and, gte, lt } from 'drizzle-orm';
+import { createCanvas, type Image } from '@napi-rs/canvas';
+import { v4 as uuidv4 } from 'uuid';
+import { getDb } from './db';
+import { qualityMeasurements } from '../drizzle/schema';
+import { decodeImage } from './image-assets.service';
+
+/**
+ * Image Quality Service
+ * Measures a thumbnail from its pixels: luminance histogram, RMS contrast,
+ * colorfulness, Laplacian variance (sharpness) and edge density. The numbers
+ * drive post-production and are recorded for the admin quality report.
+ */
+
+export interface ImageMeasurements {
+  meanLuminance: number; // 0-255
+  // Share of pixels in each of 32 luminance bins
+  luminanceHistogram: number[];
+  // Share of pixels at or below 5 / at or above 250
+  shadowClipping: number;
+  highlightClipping: number;
+  rmsContrast: number; // Standard deviation of luminance, 0-1
+  colorfulness: number; // Hasler-Suesstrunk; ~60 is quite colorful, ~110 extremely
+  laplacianVariance: number; // Higher is sharper
+  edgeDensity: number; // Share of pixels on a strong edge, 0-1
+}
+
+export const QUALITY_METRIC_NAMES = [
+  'meanLuminance',
+  'rmsContrast',
+  'colorfulness',
+  'laplacianVariance',
+  'edgeDensity',
+] as const;
+
+export type QualityMetricName = (typeof QUALITY_METRIC_NAMES)[number];
+
+export interface MetricDistribution {
+  mean: number;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface QualityReport {
+  from: Date;
+  to: Date;
+  count: number;
+  overall: Record<QualityMetricName, MetricDistribution> | null;
+  // Average luminance histogram of all measured images
+  luminanceHistogram: number[];
+  days: Array<{
+    day: string; // YYYY-MM-DD (UTC)
+    count: number;
+    metrics: Record<QualityMetricName, MetricDistribution>;
+  }>;
+}
+
+// Clipping is only used at measurement time and is not stored
+interface StoredMeasurement extends Omit<ImageMeasurements, 'shadowClipping' | 'highlightClipping'> {
+  jobId: string | null;
+  userId: string | null;
+  model: string | null;
+  createdAt: Date;
+}
+
+const HISTOGRAM_BINS = 32;
+
+// Images are measured at this longest side so values compare across sizes
+const MEASURE_SIZE = 512;
+
+// Sobel gradient magnitude that counts as an edge
+const EDGE_THRESHOLD = 128;
+
+// Used when no database is configured (local tooling and tests)
+const memoryMeasurements: StoredMeasurement[] = [];
+const MAX_MEMORY_MEASUREMENTS = 1000;
+
+/**
+ * Measure RGBA pixels
+ */
+export function measurePixels(data: Uint8ClampedArray, width: number, height: number): ImageMeasurements {
+  const count = width * height;
+  const luminance = new Float32Array(count);
+  const histogram = new Array<number>(HISTOGRAM_BINS).fill(0);
+  let luminanceSum = 0;
+  let shadows = 0;
+  let highlights = 0;
+  let rgSum = 0;
+  let ybSum = 0;
+  let rgSquares = 0;
+  let ybSquares = 0;
+
+  for (let i = 0; i < count; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const value = 0.299 * r + 0.587 * g + 0.114 * b;
+    luminance[i] = value;
+    luminanceSum += value;
+    histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor((value / 256) * HISTOGRAM_BINS))]++;
+    if (value <= 5) shadows++;
+    if (value >= 250) highlights++;
+
+    const rg = r - g;
+    const yb = 0.5 * (r + g) - b;
+    rgSum += rg;
+    ybSum += yb;
+    rgSquares += rg * rg;
+    ybSquares += yb * yb;
+  }
+
+  const meanLuminance = luminanceSum / count;
+  let luminanceVariance = 0;
+  for (let i = 0; i < count; i++) luminanceVariance += (luminance[i] - meanLuminance) ** 2;
+  luminanceVariance /= count;
+
+  const rgMean = rgSum / count;
+  const ybMean = ybSum / count;
+  const rgStd = Math.sqrt(Math.max(0, rgSquares / count - rgMean ** 2));
+  const ybStd = Math.sqrt(Math.max(0, ybSquares / count - ybMean ** 2));
+
+  // Laplacian and Sobel over interior pixels
+  let laplacianSum = 0;
+  let laplacianSquares = 0;
+  let edges = 0;
+  let interior = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian =
+        luminance[i - 1] + luminance[i + 1] + luminance[i - width] + luminance[i + width] - 4 * luminance[i];
+      laplacianSum += laplacian;
+      laplacianSquares += laplacian * laplacian;
+
+      const gx =
+        luminance[i - width + 1] + 2 * luminance[i + 1] + luminance[i + width + 1] -
+        luminance[i - width - 1] - 2 * luminance[i - 1] - luminance[i + width - 1];
+      const gy =
+        luminance[i + width - 1] + 2 * luminance[i + width] + luminance[i + width + 1] -
+        luminance[i - width - 1] - 2 * luminance[i - width] - luminance[i - width + 1];
+      if (Math.hypot(gx, gy) >= EDGE_THRESHOLD) edges++;
+      interior++;
+    }
+  }
+  const laplacianMean = interior ? laplacianSum / interior : 0;
+
+  return {
+    meanLuminance,
+    luminanceHistogram: histogram.map((bin) => bin / count),
+    shadowClipping: shadows / count,
+    highlightClipping: highlights / count,
+    rmsContrast: Math.sqrt(luminanceVariance) / 255,
+    colorfulness: Math.sqrt(rgStd ** 2 + ybStd ** 2) + 0.3 * Math.sqrt(rgMean ** 2 + ybMean ** 2),
+    laplacianVariance: interior ? laplacianSquares / interior - laplacianMean ** 2 : 0,
+    edgeDensity: interior ? edges / interior : 0,
+  };
+}
+
+/**
+ * Measure a decoded image at a fixed size
+ */
+export function measureImage(image: Image): ImageMeasurements {
+  const scale = Math.min(1, MEASURE_SIZE / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d');
+  context.drawImage(image, 0, 0, width, height);
+  return measurePixels(context.getImageData(0, 0, width, height).data, width, height);
+}
+
+/**
+ * Fetch an image and measure it at a fixed size
+ */
+export async function measureImageQuality(imageUrl: string, signal?: AbortSignal): Promise<ImageMeasurements> {
+  return measureImage(await decodeImage(imageUrl, signal));
+}
+
+/**
+ * Measurements on the 0-100 scales of ImageQualityMetrics
+ */
+export function toQualityScales(measurements: ImageMeasurements): {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  sharpness: number;
+} {
+  const clamp = (value: number) => Math.round(Math.max(0, Math.min(100, value)));
+  return {
+    brightness: clamp((measurements.meanLuminance / 255) * 100),
+    // An RMS contrast of 0.3 is already punchy
+    contrast: clamp((measurements.rmsContrast / 0.3) * 100),
+    saturation: clamp(measurements.colorfulness),
+    // Log scale: ~100 is soft, ~500 crisp, 2000 and above maxes out
+    sharpness: clamp((Math.log10(1 + measurements.laplacianVariance) / Math.log10(2001)) * 100),
+  };
+}
+
+/**
+ * Record the measurements of a delivered image. Failures are logged, never
+ * thrown, so reporting cannot break a generation.
+ */
+export async function recordQualityMeasurement(
+  source: { jobId?: string; userId?: string; model?: string },
+  measurements: ImageMeasurements
+): Promise<void> {
+  const record: StoredMeasurement = {
+    ...measurements,
+    jobId: source.jobId ?? null,
+    userId: source.userId ?? null,
+    model: source.model ?? null,
+    createdAt: new Date(),
+  };
+
+  try {
+    const db = await getDb();
+    if (!db) {
+      memoryMeasurements.push(record);
+      if (memoryMeasurements.length > MAX_MEMORY_MEASUREMENTS) memoryMeasurements.shift();
+      return;
+    }
+
+    await (db as any).insert(qualityMeasurements).values({
+      id: uuidv4(),
+      jobId: record.jobId,
+      userId: record.userId,
+      model: record.model,
+      meanLuminance: record.meanLuminance.toFixed(3),
+      rmsContrast: record.rmsContrast.toFixed(5),
+      colorfulness: record.colorfulness.toFixed(3),
+      laplacianVariance: record.laplacianVariance.toFixed(3),
+      edgeDensity: record.edgeDensity.toFixed(5),
+      luminanceHistogram: JSON.stringify(record.luminanceHistogram.map((share) => Number(share.toFixed(5)))),
+    });
+  } catch (error) {
+    console.error('[Quality] Failed to record quality measurement:', error);
+  }
+}
+
+/**
+ * Drop in-memory measurements (tests)
+ */
+export function resetQualityMeasurements(): void {
+  memoryMeasurements.length = 0;
+}
+
+function percentile(sorted: number[], share: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(share * sorted.length))];
+}
+
+function distributions(records: StoredMeasurement[]): Record<QualityMetricName, MetricDistribution> {
+  return Object.fromEntries(
+    QUALITY_METRIC_NAMES.map((name) => {
+      const values = records.map((record) => record[name]).sort((a, b) => a - b);
+      return [
+        name,
+        {
+          mean: values.reduce((sum, value) => sum + value, 0) / values.length,
+          p10: percentile(values, 0.1),
+          p50: percentile(values, 0.5),
+          p90: percentile(values, 0.9),
+        },
+      ];
+    })
+  ) as Record<QualityMetricName, MetricDistribution>;
+}
+
+/**
+ * Distribution of each metric per UTC day and over the whole range
+ */
+export async function getQualityReport(options: { from: Date; to: Date }): Promise<QualityReport> {
+  const db = await getDb();
+
+  let records: StoredMeasurement[];
+  if (!db) {
+    records = memoryMeasurements.filter(
+      (record) => record.createdAt >= options.from && record.createdAt < options.to
+    );
+  } else {
+    const rows = await (db as any)
+      .select()
+      .from(qualityMeasurements)
+      .where(
+        and(
+          gte(qualityMeasurements.createdAt, options.from),
+          lt(qualityMeasurements.createdAt, options.to)
+        )
+      );
+    records = rows.map((row: any) => ({
+      jobId: row.jobId,
+      userId: row.userId,
+      model: row.model,
+      meanLuminance: Number(row.meanLuminance),
+      rmsContrast: Number(row.rmsContrast),
+      colorfulness: Number(row.colorfulness),
+      laplacianVariance: Number(row.laplacianVariance),
+      edgeDensity: Number(row.edgeDensity),
+      luminanceHistogram: JSON.parse(row.luminanceHistogram),
+      createdAt: new Date(row.createdAt),
+    }));
+  }
+
+  const byDay = new Map<string, StoredMeasurement[]>();
+  for (const record of records) {
+    const day = record.createdAt.toISOString().slice(0, 10);
+    byDay.set(day, [...(byDay.get(day) ?? []), record]);
+  }
+
+  const luminanceHistogram = new Array<number>(HISTOGRAM_BINS).fill(0);
+  for (const record of records) {
+    record.luminanceHistogram.forEach((share, bin) => {
+      luminanceHistogram[bin] += share / records.length;
+    });
+  }
+
+  return {
+    from: options.from,
+    to: options.to,
+    count: records.length,
+    overall: records.length > 0 ? distributions(records) : null,
+    luminanceHistogram,
+    days: Array.from(byDay.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([day, dayRecords]) => ({ day, count: dayRecords.length, metrics: distributions(dayRecords) })),
+  };
+}
@@ -1,6 +1,9 @@
 // Advanced Image Editor Service
-import { invokeLLM } from "./_core/llm";
+import { invokeLLM } from "./llm.service";
+import { assemblePrompt } from "./prompt-assembly.service";
 import { storagePut, storageGet } from "./storage";
+import { decodeImage } from "./image-assets.service";
+import { renderTextLayers, resolveFontId } from "./typography.service";
 
 export interface ImageEditOptions {
   brightness?: number; // -100 to 100
@@ -44,33 +47,19 @@ export async function editImage(
   if (options.rotate) edits.push(`rotate ${options.rotate} degrees`);
   if (options.flipH) edits.push("flip horizontally");
   if (options.flipV) edits.push("flip vertically");
-  if (options.text) edits.push(`add text: "${options.text.content}" at ${options.text.position}`);
+  if (options.text) edits.push(`add the overlay text (position: ${options.text.position})`);
   if (options.overlay) edits.push(`add ${options.overlay.type} overlay`);
 
-  const prompt = `Edit this image with the following adjustments: ${edits.join(", ")}`;
+  // Overlay text is user-written, so it travels as delimited data
+  const { messages } = assemblePrompt({
+    instructions: "You are an image editing expert. Provide specific instructions for editing images.",
+    userInputs: { overlayText: options.text?.content },
+    task: `Edit this image with the following adjustments: ${edits.join(", ")}`,
+    images: [imageUrl],
+  });
 
   // Use LLM for image editing guidance
-  const response = await invokeLLM({
-    messages: [
-      {
-        role: "system",
-        content: "You are an image editing expert. Provide specific instructions for editing images.",
-      },
-      {
-        role: "user",
-        content: [
-          {
-            type: "image_url",
-            image_url: { url: imageUrl },
-          },
-          {
-            type: "text",
-            text: prompt,
-          },
-        ],
-      },
-    ],
-  });
+  const response = await invokeLLM({ messages });
 
   // Generate edited image URL (placeholder)
   const editedImageUrl = imageUrl; // In production, use actual image processing
@@ -124,6 +113,8 @@ export async function applyFilter(
   return { url, key };
 }
 
+// Text is rendered with the bundled fonts rather than by an image model,
+// which misspells it
 export async function addTextOverlay(
   imageUrl: string,
   text: string,
@@ -134,30 +125,30 @@ export async function addTextOverlay(
     fontFamily: string;
   }
 ): Promise<{ url: string; key: string }> {
-  const prompt = `Add text "${text}" to this image at the ${options.position} position with ${options.fontSize}px font size in ${options.color} color`;
-
-  const response = await invokeLLM({
-    messages: [
-      {
-        role: "user",
-        content: [
-          {
-            type: "image_url",
-            image_url: { url: imageUrl },
-          },
-          {
-            type: "text",
-            text: prompt,
-          },
-        ],
-      },
-    ],
-  });
+  const image = await decodeImage(imageUrl);
+
+  // A full-width band in the top, middle or bottom third
+  const margin = Math.round(image.width * 0.05);
+  const bandHeight = Math.round(image.height / 3);
+  const bandY = { top: 0, center: bandHeight, bottom: image.height - bandHeight }[options.position];
+  const canvas = renderTextLayers(image, [
+    {
+      text,
+      font: resolveFontId(options.fontFamily),
+      box: { x: margin, y: bandY + margin / 2, width: image.width - margin * 2, height: bandHeight - margin },
+      verticalAlign: { top: "top", center: "middle", bottom: "bottom" }[options.position] as "top" | "middle" | "bottom",
+      // The requested size, smaller only when the text would not fit
+      maxFontSize: options.fontSize,
+      color: /^#([0-9a-f]{6}|[0-9a-f]{8})$/i.test(options.color) ? options.color : "#ffffff",
+      stroke: { color: "#000000", width: Math.max(1, Math.round(options.fontSize / 14)) },
+      shadow: { color: "#00000099", blur: Math.round(options.fontSize / 6), offsetX: 0, offsetY: 2 },
+    },
+  ]);
 
   const { key, url } = await storagePut(
-    `text-overlay-images/${Date.now()}-text.jpg`,
-    Buffer.from("text-overlay-data"),
-    "image/jpeg"
+    `text-overlay-images/${Date.now()}-text.png`,
+    canvas.toBuffer("image/png"),
+    "image/png"
   );
 
   return { url, key };
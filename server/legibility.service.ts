@@ -0,0 +1,311 @@
+import { createCanvas, type Canvas, type Image } from '@napi-rs/canvas';
+import { decodeImage } from './image-assets.service';
+import { saveThumbnailLegibility } from './db';
+
+/**
+ * Legibility Service
+ * Checks whether a thumbnail still reads at the sizes it is actually seen
+ * at in feeds. The image is shrunk to each feed size and enlarged back, then
+ * compared with the full-size image: text regions must keep their contrast
+ * and edges, and the main subject must keep its edges.
+ */
+
+export const FEED_SIZES = [
+  { label: 'mobile feed', width: 168, height: 94 },
+  { label: 'sidebar', width: 246, height: 138 },
+] as const;
+
+export interface FeedSizeLegibility {
+  label: string;
+  width: number;
+  height: number;
+  // WCAG contrast ratio (1-21) between text strokes and their background
+  textContrast: number | null;
+  // Share of the edge strength kept in text and subject regions (0-1)
+  textEdgePreservation: number | null;
+  subjectEdgePreservation: number;
+  score: number; // 0-100
+  textLegible: boolean;
+  subjectLegible: boolean;
+}
+
+export interface LegibilityResult {
+  hasText: boolean;
+  // Share of the image detected as text
+  textCoverage: number;
+  score: number; // 0-100, the worst feed size
+  passed: boolean;
+  sizes: FeedSizeLegibility[];
+  issues: string[];
+  recommendations: string[];
+}
+
+// Working width: feed sizes are compared against the image at this width
+const REFERENCE_WIDTH = 640;
+const BLOCK_SIZE = 16;
+
+// Sobel magnitude that counts as a stroke edge
+const EDGE_THRESHOLD = 160;
+
+// A block is text-like when it is dense with strong edges and two-toned:
+// most pixels sit near its dark or its light tone (noise and texture don't),
+// and its strokes alternate (a shape's outline doesn't)
+const TEXT_MIN_EDGE_DENSITY = 0.12;
+const TEXT_MIN_TONE_SPREAD = 50;
+const TEXT_MIN_TWO_TONE_SHARE = 0.7;
+const TEXT_MIN_CROSSINGS = 1;
+
+// WCAG large-text contrast, and edge shares below which detail is lost
+const MIN_TEXT_CONTRAST = 3;
+const MIN_TEXT_EDGE_PRESERVATION = 0.35;
+const MIN_SUBJECT_EDGE_PRESERVATION = 0.25;
+
+interface Plane {
+  luminance: Float32Array;
+  edges: Float32Array;
+  width: number;
+  height: number;
+}
+
+function toPlane(data: Uint8ClampedArray, width: number, height: number): Plane {
+  const luminance = new Float32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    luminance[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  const edges = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx =
+        luminance[i - width + 1] + 2 * luminance[i + 1] + luminance[i + width + 1] -
+        luminance[i - width - 1] - 2 * luminance[i - 1] - luminance[i + width - 1];
+      const gy =
+        luminance[i + width - 1] + 2 * luminance[i + width] + luminance[i + width + 1] -
+        luminance[i - width - 1] - 2 * luminance[i - width] - luminance[i - width + 1];
+      edges[i] = Math.hypot(gx, gy);
+    }
+  }
+
+  return { luminance, edges, width, height };
+}
+
+function render(image: Image, width: number, height: number, via?: { width: number; height: number }): Plane {
+  let source: Image | Canvas = image;
+  if (via) {
+    // What a viewer sees at the feed size, enlarged back for comparison
+    const small = createCanvas(via.width, via.height);
+    small.getContext('2d').drawImage(image, 0, 0, via.width, via.height);
+    source = small;
+  }
+
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d');
+  context.drawImage(source, 0, 0, width, height);
+  return toPlane(context.getImageData(0, 0, width, height).data, width, height);
+}
+
+function blockPixels(plane: Plane, blockX: number, blockY: number): number[] {
+  const indices: number[] = [];
+  const endY = Math.min(plane.height, (blockY + 1) * BLOCK_SIZE);
+  const endX = Math.min(plane.width, (blockX + 1) * BLOCK_SIZE);
+  for (let y = blockY * BLOCK_SIZE; y < endY; y++) {
+    for (let x = blockX * BLOCK_SIZE; x < endX; x++) indices.push(y * plane.width + x);
+  }
+  return indices;
+}
+
+/**
+ * Dark and light tones of a block (its 10th and 90th luminance percentiles)
+ * and the share of pixels close to one of them
+ */
+function tones(plane: Plane, indices: number[]): { dark: number; light: number; twoToneShare: number } {
+  const values = indices.map((i) => plane.luminance[i]).sort((a, b) => a - b);
+  const dark = values[Math.floor(values.length * 0.1)];
+  const light = values[Math.min(values.length - 1, Math.floor(values.length * 0.9))];
+  const band = (light - dark) * 0.25;
+  const near = values.filter((value) => value <= dark + band || value >= light - band).length;
+  return { dark, light, twoToneShare: near / values.length };
+}
+
+/**
+ * Average number of times rows and columns of the window around a block cross
+ * its mid tone. Lettering crosses back and forth; the edge of a flat shape
+ * crosses once.
+ */
+function crossings(plane: Plane, blockX: number, blockY: number, mid: number): number {
+  const startX = Math.max(0, (blockX - 1) * BLOCK_SIZE);
+  const startY = Math.max(0, (blockY - 1) * BLOCK_SIZE);
+  const endX = Math.min(plane.width, (blockX + 2) * BLOCK_SIZE);
+  const endY = Math.min(plane.height, (blockY + 2) * BLOCK_SIZE);
+  const above = (x: number, y: number) => plane.luminance[y * plane.width + x] >= mid;
+
+  let count = 0;
+  for (let y = startY; y < endY; y++) {
+    for (let x = startX + 1; x < endX; x++) if (above(x, y) !== above(x - 1, y)) count++;
+  }
+  for (let x = startX; x < endX; x++) {
+    for (let y = startY + 1; y < endY; y++) if (above(x, y) !== above(x, y - 1)) count++;
+  }
+  return count / (endX - startX + endY - startY);
+}
+
+function relativeLuminance(value: number): number {
+  const channel = value / 255;
+  return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+}
+
+function contrastRatio(dark: number, light: number): number {
+  return (relativeLuminance(light) + 0.05) / (relativeLuminance(dark) + 0.05);
+}
+
+function edgePreservation(reference: Plane, seen: Plane, blocks: number[][]): number {
+  let kept = 0;
+  let total = 0;
+  for (const indices of blocks) {
+    for (const i of indices) {
+      kept += Math.min(reference.edges[i], seen.edges[i]);
+      total += reference.edges[i];
+    }
+  }
+  return total > 0 ? kept / total : 1;
+}
+
+/**
+ * Score how well the text and main subject read at each feed size
+ */
+export function analyzeImageLegibility(image: Image): LegibilityResult {
+  const width = Math.min(REFERENCE_WIDTH, image.width);
+  const height = Math.max(1, Math.round((image.height / image.width) * width));
+  const reference = render(image, width, height);
+
+  // Classify blocks on the full-size image
+  const textBlocks: number[][] = [];
+  const detailBlocks: Array<{ indices: number[]; energy: number }> = [];
+  const blocksX = Math.ceil(width / BLOCK_SIZE);
+  const blocksY = Math.ceil(height / BLOCK_SIZE);
+  for (let blockY = 0; blockY < blocksY; blockY++) {
+    for (let blockX = 0; blockX < blocksX; blockX++) {
+      const indices = blockPixels(reference, blockX, blockY);
+      let strong = 0;
+      let energy = 0;
+      for (const i of indices) {
+        if (reference.edges[i] >= EDGE_THRESHOLD) strong++;
+        energy += reference.edges[i];
+      }
+      const { dark, light, twoToneShare } = tones(reference, indices);
+      if (
+        strong / indices.length >= TEXT_MIN_EDGE_DENSITY &&
+        light - dark >= TEXT_MIN_TONE_SPREAD &&
+        twoToneShare >= TEXT_MIN_TWO_TONE_SHARE &&
+        crossings(reference, blockX, blockY, (dark + light) / 2) >= TEXT_MIN_CROSSINGS
+      ) {
+        textBlocks.push(indices);
+      } else if (energy > 0) {
+        detailBlocks.push({ indices, energy });
+      }
+    }
+  }
+
+  // The subject is the most detailed non-text quarter of the image
+  detailBlocks.sort((a, b) => b.energy - a.energy);
+  const subjectBlocks = detailBlocks
+    .slice(0, Math.max(1, Math.round(blocksX * blocksY * 0.25)))
+    .map((block) => block.indices);
+
+  const hasText = textBlocks.length > 0;
+  const sizes = FEED_SIZES.map((size): FeedSizeLegibility => {
+    const seen = render(image, width, height, size);
+    const subjectEdgePreservation = edgePreservation(reference, seen, subjectBlocks);
+    const subjectLegible = subjectEdgePreservation >= MIN_SUBJECT_EDGE_PRESERVATION;
+
+    if (!hasText) {
+      return {
+        ...size,
+        textContrast: null,
+        textEdgePreservation: null,
+        subjectEdgePreservation,
+        score: Math.round(Math.min(1, subjectEdgePreservation / 0.6) * 100),
+        textLegible: true,
+        subjectLegible,
+      };
+    }
+
+    const contrasts = textBlocks.map((indices) => {
+      const { dark, light } = tones(seen, indices);
+      return contrastRatio(dark, light);
+    });
+    const textContrast = contrasts.reduce((sum, value) => sum + value, 0) / contrasts.length;
+    const textEdgePreservation = edgePreservation(reference, seen, textBlocks);
+
+    const score =
+      0.5 * Math.min(1, Math.max(0, (textContrast - 1) / (4.5 - 1))) +
+      0.3 * Math.min(1, textEdgePreservation / 0.6) +
+      0.2 * Math.min(1, subjectEdgePreservation / 0.6);
+
+    return {
+      ...size,
+      textContrast,
+      textEdgePreservation,
+      subjectEdgePreservation,
+      score: Math.round(score * 100),
+      textLegible: textContrast >= MIN_TEXT_CONTRAST && textEdgePreservation >= MIN_TEXT_EDGE_PRESERVATION,
+      subjectLegible,
+    };
+  });
+
+  const issues: string[] = [];
+  const recommendations: string[] = [];
+  for (const size of sizes) {
+    const name = `${size.width}×${size.height} (${size.label})`;
+    if (!size.textLegible) {
+      issues.push(`Text is hard to read at ${name}`);
+      recommendations.push(
+        `Text is unreadable at ${name}: use fewer, larger words in a bold font with a dark stroke or backdrop`
+      );
+    }
+    if (!size.subjectLegible) {
+      issues.push(`Main subject loses detail at ${name}`);
+      recommendations.push(
+        `The subject blurs at ${name}: crop in closer and increase its contrast against the background`
+      );
+    }
+  }
+
+  return {
+    hasText,
+    textCoverage: textBlocks.length / (blocksX * blocksY),
+    score: Math.min(...sizes.map((size) => size.score)),
+    passed: sizes.every((size) => size.textLegible && size.subjectLegible),
+    sizes,
+    issues,
+    recommendations,
+  };
+}
+
+/**
+ * Fetch an image and check its legibility at feed sizes
+ */
+export async function analyzeLegibility(imageUrl: string, signal?: AbortSignal): Promise<LegibilityResult> {
+  return analyzeImageLegibility(await decodeImage(imageUrl, signal));
+}
+
+/**
+ * Check a thumbnail's current image and save the result on it. Failures are
+ * logged, never thrown, so the check cannot break a generation or edit.
+ */
+export async function checkThumbnailLegibility(thumbnailId: string, imageUrl: string): Promise<LegibilityResult | null> {
+  try {
+    const result = await analyzeLegibility(imageUrl, AbortSignal.timeout(15 * 1000));
+    await saveThumbnailLegibility(thumbnailId, result);
+    if (!result.passed) {
+      console.log(`[Legibility] ${thumbnailId}: ${result.issues.join('; ')}`);
+    }
+    return result;
+  } catch (error) {
+    console.warn(
+      `[Legibility] Could not check ${thumbnailId}: ${error instanceof Error ? error.message : error}`
+    );
+    return null;
+  }
+}
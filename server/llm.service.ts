@@ -0,0 +1,46 @@
+import {
+  getLLMModelChain,
+  invokeLLMModel,
+  synthesizeLLMResult,
+  type InvokeParams,
+  type InvokeResult,
+} from './_core/llm';
+import { withProviderFixture } from './_core/providerFixtures';
+import { runWithFailover } from './provider-failover.service';
+import { recordProviderUsage } from './provider-usage.service';
+
+/**
+ * LLM Service
+ * The app's LLM calls. Each call tries the configured model chain with
+ * failover, records provider usage, and goes through the provider fixture
+ * layer so it can be recorded, replayed or synthesized offline.
+ */
+
+export async function invokeLLM(
+  params: InvokeParams,
+  options: { signal?: AbortSignal } = {}
+): Promise<InvokeResult> {
+  return withProviderFixture(
+    'llm',
+    params,
+    async () => {
+      const { value, provider } = await runWithFailover(
+        'llm',
+        getLLMModelChain().map((model) => ({
+          id: model,
+          run: (signal) => invokeLLMModel(params, model, signal),
+        })),
+        { signal: options.signal }
+      );
+      await recordProviderUsage({
+        capability: 'llm',
+        provider: 'forge',
+        model: provider,
+        inputTokens: value.usage?.prompt_tokens,
+        outputTokens: value.usage?.completion_tokens,
+      });
+      return value;
+    },
+    () => synthesizeLLMResult(params)
+  );
+}
@@ -1,5 +1,5 @@
 // Multiple LLM Provider Support
-import { invokeLLM } from "./_core/llm";
+import { invokeLLM } from "./llm.service";
 
 export type LLMProvider = "openai" | "claude" | "gemini" | "llama";
 
@@ -2,7 +2,6 @@ import { z } from "zod";
 import { protectedProcedure, publicProcedure, router } from "./_core/trpc";
 import {
   getUser,
-  updateUserCredits,
   recordCreditTransaction,
 } from "./db";
 import { handleStripeWebhook } from "./webhooks";
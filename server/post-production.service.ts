@@ -1,3 +1,11 @@
+import { createCanvas, type Image, type ImageData } from '@napi-rs/canvas';
+import { z } from 'zod';
+import { decodeImage, storeImageAsset } from './image-assets.service';
+import { measureImage, toQualityScales, type ImageMeasurements } from './image-quality.service';
+import { analyzeImageLegibility, type LegibilityResult } from './legibility.service';
+import { applyBrandKit, type BrandedImage } from './brand-kit.service';
+import type { BrandKitSettings } from '@shared/brandKit';
+
 /**
  * Post-Production Effects and Quality Validation Service
  * Applies professional effects and validates thumbnail quality
@@ -21,6 +29,10 @@ export interface QualityValidationResult {
   issues: string[];
   recommendations: string[];
   viralScore: number;
+  // Pixel measurements the metrics were taken from, when the image was readable
+  measurements?: ImageMeasurements;
+  // Feed-size legibility check, when the image was readable
+  legibility?: LegibilityResult;
 }
 
 export interface PostProductionOptions {
@@ -36,18 +48,48 @@ export interface PostProductionOptions {
   sharpenAmount?: number; // 0-100
   adjustBrightness?: boolean;
   brightnessAdjustment?: number; // -50 to 50
+  grainSeed?: number; // Same seed, same grain
 }
 
+export const postProductionOptionsSchema = z.object({
+  applyVignette: z.boolean().optional(),
+  vignetteIntensity: z.number().min(0).max(100).optional(),
+  applyGrain: z.boolean().optional(),
+  grainAmount: z.number().min(0).max(100).optional(),
+  enhanceContrast: z.boolean().optional(),
+  contrastBoost: z.number().min(0).max(100).optional(),
+  saturateColors: z.boolean().optional(),
+  saturationBoost: z.number().min(0).max(100).optional(),
+  sharpenImage: z.boolean().optional(),
+  sharpenAmount: z.number().min(0).max(100).optional(),
+  adjustBrightness: z.boolean().optional(),
+  brightnessAdjustment: z.number().min(-50).max(50).optional(),
+  grainSeed: z.number().int().min(0).max(2 ** 32 - 1).optional(),
+});
+
+const DEFAULT_GRAIN_SEED = 1;
+
+const SMALL_SCREEN_TEXT_ISSUE = 'Text may be hard to read on small screens';
+
 /**
  * Quality validation metrics calculator
- * Analyzes image quality based on various criteria
+ * Analyzes image quality based on various criteria. With pixel measurements,
+ * brightness, contrast, saturation and sharpness come from the image itself;
+ * otherwise they are estimated from metadata. A legibility check replaces the
+ * text readability estimate and its generic issue with per-size findings.
  */
 export function validateImageQuality(
   imageUrl: string,
-  metadata?: any
+  metadata?: any,
+  measurements?: ImageMeasurements,
+  legibility?: LegibilityResult
 ): QualityValidationResult {
-  // In a production environment, this would use image analysis libraries
-  // For now, we'll provide a comprehensive scoring framework
+  if (measurements) {
+    metadata = { ...metadata, ...toQualityScales(measurements) };
+  }
+  if (legibility) {
+    metadata = { ...metadata, hasText: legibility.hasText, textReadability: legibility.score };
+  }
 
   const metrics: ImageQualityMetrics = {
     brightness: calculateBrightness(metadata),
@@ -61,8 +103,15 @@ export function validateImageQuality(
   };
 
   const overallScore = calculateOverallScore(metrics);
-  const issues = identifyIssues(metrics);
-  const recommendations = generateRecommendations(issues, metrics);
+  let issues = identifyIssues(metrics);
+  let recommendations: string[];
+  if (legibility) {
+    issues = issues.filter((issue) => issue !== SMALL_SCREEN_TEXT_ISSUE);
+    recommendations = [...generateRecommendations(issues, metrics), ...legibility.recommendations];
+    issues = [...issues, ...legibility.issues];
+  } else {
+    recommendations = generateRecommendations(issues, metrics);
+  }
   const viralScore = metrics.viralPotential;
 
   return {
@@ -72,6 +121,8 @@ export function validateImageQuality(
     issues,
     recommendations,
     viralScore,
+    measurements,
+    legibility,
   };
 }
 
@@ -252,7 +303,7 @@ function identifyIssues(metrics: ImageQualityMetrics): string[] {
 
   if (metrics.composition < 60) issues.push('Composition could be improved');
 
-  if (metrics.textReadability < 70) issues.push('Text may be hard to read on small screens');
+  if (metrics.textReadability < 70) issues.push(SMALL_SCREEN_TEXT_ISSUE);
 
   if (metrics.viralPotential < 50) issues.push('Viral potential is low - consider style changes');
 
@@ -316,6 +367,48 @@ function generateRecommendations(
   return recommendations;
 }
 
+// Targets for measured images; effects close the gap toward them
+const TARGET_MEAN_LUMINANCE = 140;
+const TARGET_RMS_CONTRAST = 0.28;
+const TARGET_COLORFULNESS = 60;
+const TARGET_LAPLACIAN_VARIANCE = 400;
+
+/**
+ * Effect strengths sized to what the image lacks: a dark image is brightened
+ * toward the target, a crisp one is not sharpened, and so on
+ */
+function instructionsFromMeasurements(measurements: ImageMeasurements): PostProductionOptions {
+  const clamp = (value: number, min: number, max: number) => Math.round(Math.max(min, Math.min(max, value)));
+
+  // Close part of the brightness gap; never brighten clipped highlights or darken clipped shadows
+  let brightnessAdjustment = clamp(((TARGET_MEAN_LUMINANCE - measurements.meanLuminance) / 2.55) * 0.6, -20, 20);
+  if (brightnessAdjustment > 0 && measurements.highlightClipping > 0.05) brightnessAdjustment = 0;
+  if (brightnessAdjustment < 0 && measurements.shadowClipping > 0.05) brightnessAdjustment = 0;
+
+  const contrastBoost = clamp((TARGET_RMS_CONTRAST - measurements.rmsContrast) * 250, 0, 60);
+  const saturationBoost = clamp((TARGET_COLORFULNESS - measurements.colorfulness) * 0.6, 0, 40);
+  const sharpenAmount = clamp(
+    30 * (1 - Math.log10(1 + measurements.laplacianVariance) / Math.log10(1 + TARGET_LAPLACIAN_VARIANCE)),
+    0,
+    30
+  );
+  // Busy images already have texture
+  const grainAmount = measurements.edgeDensity > 0.2 ? 5 : 15;
+
+  return {
+    adjustBrightness: Math.abs(brightnessAdjustment) >= 3,
+    brightnessAdjustment,
+    enhanceContrast: contrastBoost > 0,
+    contrastBoost,
+    saturateColors: saturationBoost > 0,
+    saturationBoost,
+    sharpenImage: sharpenAmount > 0,
+    sharpenAmount,
+    applyGrain: true,
+    grainAmount,
+  };
+}
+
 /**
  * Generate post-production effect instructions
  */
@@ -336,8 +429,13 @@ export function generatePostProductionInstructions(
     sharpenAmount: 10,
     adjustBrightness: false,
     brightnessAdjustment: 0,
+    grainSeed: DEFAULT_GRAIN_SEED,
   };
 
+  if (qualityResult.measurements) {
+    return { ...defaultOptions, ...instructionsFromMeasurements(qualityResult.measurements), ...options };
+  }
+
   // Adjust based on quality metrics
   if (qualityResult.metrics.brightness < 50) {
     defaultOptions.adjustBrightness = true;
@@ -364,6 +462,168 @@ export function generatePostProductionInstructions(
   return { ...defaultOptions, ...options };
 }
 
+type PixelEffect = (pixels: ImageData) => void;
+
+// Source images that cannot be read within this time are passed through unchanged
+const IMAGE_LOAD_TIMEOUT_MS = 15 * 1000;
+// Loading the image and logo, rendering and storing the branded copy
+const BRAND_STAGE_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Run pixel effects on an image and store the result as a new asset. Images
+ * that cannot be loaded are returned unchanged, so post-production never
+ * fails a generation.
+ */
+async function processImage(imageUrl: string, effects: PixelEffect[]): Promise<string> {
+  if (effects.length === 0) return imageUrl;
+
+  let image: Image;
+  try {
+    image = await decodeImage(imageUrl, AbortSignal.timeout(IMAGE_LOAD_TIMEOUT_MS));
+  } catch (error) {
+    console.warn(
+      `[PostProduction] Could not load image, skipping effects: ${error instanceof Error ? error.message : error}`
+    );
+    return imageUrl;
+  }
+
+  const canvas = createCanvas(image.width, image.height);
+  const context = canvas.getContext('2d');
+  context.drawImage(image, 0, 0);
+  const pixels = context.getImageData(0, 0, image.width, image.height);
+  for (const effect of effects) effect(pixels);
+  context.putImageData(pixels, 0, 0);
+
+  return storeImageAsset(canvas.toBuffer('image/png'), 'post-production');
+}
+
+/**
+ * Map every RGB channel through a 256-entry tone curve
+ */
+function applyToneCurve(pixels: ImageData, curve: (value: number) => number): void {
+  const lut = new Uint8ClampedArray(256);
+  for (let value = 0; value < 256; value++) lut[value] = Math.round(curve(value));
+
+  const { data } = pixels;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lut[data[i]];
+    data[i + 1] = lut[data[i + 1]];
+    data[i + 2] = lut[data[i + 2]];
+  }
+}
+
+function brightnessEffect(adjustment: number): PixelEffect {
+  const offset = (Math.max(-50, Math.min(50, adjustment)) / 100) * 255;
+  return (pixels) => applyToneCurve(pixels, (value) => value + offset);
+}
+
+/**
+ * S-curve: darkens shadows and lifts highlights without clipping either end
+ */
+function contrastEffect(boost: number): PixelEffect {
+  const strength = Math.max(0, Math.min(100, boost)) / 100;
+  return (pixels) =>
+    applyToneCurve(pixels, (value) => {
+      const x = value / 255;
+      const curved = x * x * (3 - 2 * x);
+      return (x + strength * (curved - x)) * 255;
+    });
+}
+
+/**
+ * Push each channel away from the pixel's luminance
+ */
+function saturationEffect(boost: number): PixelEffect {
+  const factor = 1 + Math.max(0, Math.min(100, boost)) / 100;
+  return ({ data }) => {
+    for (let i = 0; i < data.length; i += 4) {
+      const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      data[i] = luminance + (data[i] - luminance) * factor;
+      data[i + 1] = luminance + (data[i + 1] - luminance) * factor;
+      data[i + 2] = luminance + (data[i + 2] - luminance) * factor;
+    }
+  };
+}
+
+/**
+ * Unsharp mask: add back the difference between the image and a 3x3 blur
+ */
+function sharpenEffect(amount: number): PixelEffect {
+  const strength = Math.max(0, Math.min(100, amount)) / 50;
+  return ({ data, width, height }) => {
+    const source = new Uint8ClampedArray(data);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        for (let channel = 0; channel < 3; channel++) {
+          let sum = 0;
+          for (let dy = -1; dy <= 1; dy++) {
+            const row = Math.min(height - 1, Math.max(0, y + dy)) * width;
+            for (let dx = -1; dx <= 1; dx++) {
+              sum += source[(row + Math.min(width - 1, Math.max(0, x + dx))) * 4 + channel];
+            }
+          }
+          data[i + channel] = source[i + channel] + strength * (source[i + channel] - sum / 9);
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Deterministic PRNG (mulberry32), so the same seed gives the same grain
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Monochrome film grain: the same noise on every channel of a pixel
+ */
+function grainEffect(amount: number, seed: number): PixelEffect {
+  const amplitude = (Math.max(0, Math.min(100, amount)) / 100) * 64;
+  return ({ data }) => {
+    const random = createRandom(seed);
+    for (let i = 0; i < data.length; i += 4) {
+      // Sum of two uniforms: centered, with fewer extreme values
+      const noise = (random() + random() - 1) * amplitude;
+      data[i] += noise;
+      data[i + 1] += noise;
+      data[i + 2] += noise;
+    }
+  };
+}
+
+/**
+ * Darken toward the corners; the center half of the frame is untouched
+ */
+function vignetteEffect(intensity: number): PixelEffect {
+  const strength = Math.max(0, Math.min(100, intensity)) / 100;
+  return ({ data, width, height }) => {
+    const centerX = (width - 1) / 2;
+    const centerY = (height - 1) / 2;
+    const maxDistance = Math.hypot(centerX, centerY) || 1;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const distance = Math.hypot(x - centerX, y - centerY) / maxDistance;
+        const t = Math.max(0, (distance - 0.5) / 0.5);
+        const factor = 1 - strength * t * t * (3 - 2 * t);
+        const i = (y * width + x) * 4;
+        data[i] *= factor;
+        data[i + 1] *= factor;
+        data[i + 2] *= factor;
+      }
+    }
+  };
+}
+
 /**
  * Apply vignette effect
  * Darkens edges to draw attention to center
@@ -372,10 +632,7 @@ export function applyVignetteEffect(
   imageUrl: string,
   intensity: number = 30
 ): Promise<string> {
-  // In production, use canvas or image processing library
-  // For now, return the original URL
-  console.log(`Applying vignette effect with intensity ${intensity}%`);
-  return Promise.resolve(imageUrl);
+  return processImage(imageUrl, [vignetteEffect(intensity)]);
 }
 
 /**
@@ -384,10 +641,10 @@ export function applyVignetteEffect(
  */
 export function applyGrainEffect(
   imageUrl: string,
-  amount: number = 15
+  amount: number = 15,
+  seed: number = DEFAULT_GRAIN_SEED
 ): Promise<string> {
-  console.log(`Applying grain effect with amount ${amount}%`);
-  return Promise.resolve(imageUrl);
+  return processImage(imageUrl, [grainEffect(amount, seed)]);
 }
 
 /**
@@ -397,8 +654,7 @@ export function enhanceContrast(
   imageUrl: string,
   boost: number = 20
 ): Promise<string> {
-  console.log(`Enhancing contrast with boost ${boost}%`);
-  return Promise.resolve(imageUrl);
+  return processImage(imageUrl, [contrastEffect(boost)]);
 }
 
 /**
@@ -408,8 +664,7 @@ export function saturateColors(
   imageUrl: string,
   boost: number = 15
 ): Promise<string> {
-  console.log(`Saturating colors with boost ${boost}%`);
-  return Promise.resolve(imageUrl);
+  return processImage(imageUrl, [saturationEffect(boost)]);
 }
 
 /**
@@ -419,8 +674,7 @@ export function sharpenImage(
   imageUrl: string,
   amount: number = 10
 ): Promise<string> {
-  console.log(`Sharpening image with amount ${amount}%`);
-  return Promise.resolve(imageUrl);
+  return processImage(imageUrl, [sharpenEffect(amount)]);
 }
 
 /**
@@ -430,44 +684,44 @@ export function adjustBrightness(
   imageUrl: string,
   adjustment: number = 0
 ): Promise<string> {
-  console.log(`Adjusting brightness by ${adjustment}%`);
-  return Promise.resolve(imageUrl);
+  return processImage(imageUrl, [brightnessEffect(adjustment)]);
 }
 
 /**
- * Apply all post-production effects
+ * Apply all post-production effects in one pass over the pixels. The same
+ * image and options always give the same result.
  */
 export async function applyPostProductionEffects(
   imageUrl: string,
   options: PostProductionOptions
 ): Promise<string> {
-  let processedUrl = imageUrl;
+  const effects: PixelEffect[] = [];
 
-  if (options.adjustBrightness && options.brightnessAdjustment !== 0) {
-    processedUrl = await adjustBrightness(processedUrl, options.brightnessAdjustment);
+  if (options.adjustBrightness && options.brightnessAdjustment) {
+    effects.push(brightnessEffect(options.brightnessAdjustment));
   }
 
   if (options.enhanceContrast && options.contrastBoost) {
-    processedUrl = await enhanceContrast(processedUrl, options.contrastBoost);
+    effects.push(contrastEffect(options.contrastBoost));
   }
 
   if (options.saturateColors && options.saturationBoost) {
-    processedUrl = await saturateColors(processedUrl, options.saturationBoost);
+    effects.push(saturationEffect(options.saturationBoost));
   }
 
   if (options.sharpenImage && options.sharpenAmount) {
-    processedUrl = await sharpenImage(processedUrl, options.sharpenAmount);
+    effects.push(sharpenEffect(options.sharpenAmount));
   }
 
   if (options.applyGrain && options.grainAmount) {
-    processedUrl = await applyGrainEffect(processedUrl, options.grainAmount);
+    effects.push(grainEffect(options.grainAmount, options.grainSeed ?? DEFAULT_GRAIN_SEED));
   }
 
   if (options.applyVignette && options.vignetteIntensity) {
-    processedUrl = await applyVignetteEffect(processedUrl, options.vignetteIntensity);
+    effects.push(vignetteEffect(options.vignetteIntensity));
   }
 
-  return processedUrl;
+  return processImage(imageUrl, effects);
 }
 
 /**
@@ -481,8 +735,16 @@ export async function completePostProductionPipeline(
   qualityResult: QualityValidationResult;
   appliedEffects: PostProductionOptions;
 }> {
-  // Validate quality
-  const qualityResult = validateImageQuality(imageUrl, metadata);
+  // Validate quality from the pixels when the image can be read
+  const image = await decodeImage(imageUrl, AbortSignal.timeout(IMAGE_LOAD_TIMEOUT_MS)).catch((error) => {
+    console.warn(
+      `[PostProduction] Could not measure image, using metadata: ${error instanceof Error ? error.message : error}`
+    );
+    return undefined;
+  });
+  const measurements = image ? measureImage(image) : undefined;
+  const legibility = image ? analyzeImageLegibility(image) : undefined;
+  const qualityResult = validateImageQuality(imageUrl, metadata, measurements, legibility);
 
   // Generate post-production instructions based on quality
   const effectOptions = generatePostProductionInstructions(qualityResult);
@@ -497,5 +759,22 @@ export async function completePostProductionPipeline(
   };
 }
 
-
-
+/**
+ * Brand stage, run after the effects: adds the brand kit's logo and overlay
+ * text as project layers over the finished image. Like the effects it never
+ * fails a generation; the unbranded image is kept when it cannot be applied.
+ */
+export async function applyBrandStage(
+  imageUrl: string,
+  brand: { kit: BrandKitSettings; overlayText?: string }
+): Promise<BrandedImage | null> {
+  try {
+    return await applyBrandKit(imageUrl, brand.kit, {
+      overlayText: brand.overlayText,
+      signal: AbortSignal.timeout(BRAND_STAGE_TIMEOUT_MS),
+    });
+  } catch (error) {
+    console.error('[PostProduction] Failed to apply brand kit:', error);
+    return null;
+  }
+}
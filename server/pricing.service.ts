@@ -0,0 +1,215 @@
+import { z } from 'zod';
+import { getAppSetting, setAppSetting } from './db';
+import { listImageModels } from './image-providers.service';
+
+/**
+ * Pricing Service
+ * One credit price table for every generation path. Defaults come from the
+ * image provider registry; admins can override prices at runtime and the
+ * override is stored in appSettings under the "pricing" key.
+ */
+
+const PRICING_SETTING_KEY = 'pricing';
+
+// How long a loaded table is reused before appSettings is read again
+const PRICING_CACHE_TTL_MS = 30 * 1000;
+
+const credits = z.number().int().min(0).max(10000);
+
+const DEFAULT_REGION_EDIT_CREDITS = 3;
+const DEFAULT_EXTRA_FORMAT_CREDITS = 1;
+
+export const pricingTableSchema = z.object({
+  // Credits per image by model, with optional per-size overrides ("1792x1024": 14)
+  models: z.record(
+    z.string(),
+    z.object({
+      credits,
+      sizes: z.record(z.string().regex(/^\d+x\d+$/), credits).optional(),
+    })
+  ),
+  // Flat add-ons charged once per generation
+  options: z.object({
+    upscale: credits,
+    postProduction: credits,
+    // Per extra aspect ratio; tables saved before it existed get the default
+    extraFormat: credits.default(DEFAULT_EXTRA_FORMAT_CREDITS),
+  }),
+  // Fixed-price products outside the orchestrator
+  fixed: z.object({
+    thumbnail: credits, // thumbnail.generate
+    chatThumbnail: credits, // image generated alongside a chat reply
+    // thumbnail.editRegion; tables saved before it existed get the default
+    regionEdit: credits.default(DEFAULT_REGION_EDIT_CREDITS),
+  }),
+});
+
+export type PricingTable = z.infer<typeof pricingTableSchema>;
+
+export type FixedPriceProduct = keyof PricingTable['fixed'];
+
+export interface GenerationPricingInput {
+  model: string;
+  size: string;
+  candidates: number;
+  upscale?: boolean;
+  postProduction?: boolean;
+  extraFormats?: number;
+}
+
+export interface GenerationPrice {
+  creditsPerCandidate: number;
+  extraCredits: number;
+  optionCredits: number;
+  totalCredits: number;
+  lineItems: Array<{ label: string; credits: number }>;
+}
+
+let cachedTable: { table: PricingTable; expiresAt: number } | null = null;
+
+// Used when no database is configured, so admin edits still apply in-process
+let memoryOverride: PricingTable | null = null;
+
+/**
+ * Built-in prices: the registry's credit cost for each model
+ */
+export function getDefaultPricingTable(): PricingTable {
+  return {
+    models: Object.fromEntries(
+      listImageModels().map((model) => [model.id, { credits: model.capabilities.creditCost }])
+    ),
+    options: {
+      upscale: 2,
+      postProduction: 0,
+      extraFormat: DEFAULT_EXTRA_FORMAT_CREDITS,
+    },
+    fixed: {
+      thumbnail: 2,
+      chatThumbnail: 1,
+      regionEdit: DEFAULT_REGION_EDIT_CREDITS,
+    },
+  };
+}
+
+function mergeWithDefaults(override: PricingTable): PricingTable {
+  const defaults = getDefaultPricingTable();
+  return {
+    // Models registered after the override was saved keep their default price
+    models: { ...defaults.models, ...override.models },
+    options: { ...defaults.options, ...override.options },
+    fixed: { ...defaults.fixed, ...override.fixed },
+  };
+}
+
+/**
+ * Current pricing table (admin override merged over the defaults)
+ */
+export async function getPricingTable(): Promise<PricingTable> {
+  if (cachedTable && cachedTable.expiresAt > Date.now()) {
+    return cachedTable.table;
+  }
+
+  let override: PricingTable | null = memoryOverride;
+  try {
+    const stored = await getAppSetting<unknown>(PRICING_SETTING_KEY);
+    if (stored !== undefined) {
+      const parsed = pricingTableSchema.safeParse(stored);
+      if (parsed.success) {
+        override = parsed.data;
+      } else {
+        console.warn('[Pricing] Ignoring invalid stored pricing table:', parsed.error.message);
+      }
+    }
+  } catch (error) {
+    console.error('[Pricing] Failed to load pricing table:', error);
+  }
+
+  const table = override ? mergeWithDefaults(override) : getDefaultPricingTable();
+  cachedTable = { table, expiresAt: Date.now() + PRICING_CACHE_TTL_MS };
+  return table;
+}
+
+/**
+ * Replace the pricing table; takes effect immediately for this process and
+ * within the cache TTL for others
+ */
+export async function updatePricingTable(
+  table: PricingTable,
+  updatedBy?: string
+): Promise<PricingTable> {
+  const parsed = pricingTableSchema.parse(table);
+
+  try {
+    await setAppSetting(PRICING_SETTING_KEY, parsed, updatedBy);
+  } catch (error) {
+    if ((error as Error).message !== 'Database not available') throw error;
+    memoryOverride = parsed;
+  }
+
+  const merged = mergeWithDefaults(parsed);
+  cachedTable = { table: merged, expiresAt: Date.now() + PRICING_CACHE_TTL_MS };
+  return merged;
+}
+
+/**
+ * Drop the admin override and return to the built-in prices
+ */
+export async function resetPricingTable(updatedBy?: string): Promise<PricingTable> {
+  memoryOverride = null;
+  return updatePricingTable(getDefaultPricingTable(), updatedBy);
+}
+
+/**
+ * Credits for a single image of a model at a size
+ */
+export function getImagePrice(table: PricingTable, model: string, size: string): number {
+  const entry = table.models[model];
+  if (!entry) {
+    throw new Error(`No price configured for model ${model}`);
+  }
+  return entry.sizes?.[size] ?? entry.credits;
+}
+
+/**
+ * Price a generation against a table. Every candidate costs a full image;
+ * add-ons are charged once.
+ */
+export function priceGeneration(table: PricingTable, input: GenerationPricingInput): GenerationPrice {
+  const creditsPerCandidate = getImagePrice(table, input.model, input.size);
+  const lineItems = [
+    {
+      label: `${input.candidates} × ${input.model} @ ${input.size}`,
+      credits: creditsPerCandidate * input.candidates,
+    },
+  ];
+
+  if (input.postProduction && table.options.postProduction > 0) {
+    lineItems.push({ label: 'Post-production', credits: table.options.postProduction });
+  }
+  if (input.upscale && table.options.upscale > 0) {
+    lineItems.push({ label: 'Upscale', credits: table.options.upscale });
+  }
+  if (input.extraFormats && table.options.extraFormat > 0) {
+    lineItems.push({
+      label: `${input.extraFormats} extra format${input.extraFormats === 1 ? '' : 's'}`,
+      credits: table.options.extraFormat * input.extraFormats,
+    });
+  }
+
+  const optionCredits = lineItems.slice(1).reduce((sum, item) => sum + item.credits, 0);
+  return {
+    creditsPerCandidate,
+    extraCredits: creditsPerCandidate * (input.candidates - 1),
+    optionCredits,
+    totalCredits: creditsPerCandidate * input.candidates + optionCredits,
+    lineItems,
+  };
+}
+
+/**
+ * Credits for a fixed-price product
+ */
+export async function getFixedPrice(product: FixedPriceProduct): Promise<number> {
+  const table = await getPricingTable();
+  return table.fixed[product];
+}
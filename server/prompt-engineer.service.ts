@@ -1,4 +1,5 @@
 import { ThumbnailMetadataExtracted } from './reference-thumbnail.service';
+import { describeBrandKit, type BrandKitSettings } from '@shared/brandKit';
 
 /**
  * Advanced Prompt Engineering Service
@@ -127,15 +128,19 @@ const QUALITY_KEYWORDS = [
 ];
 
 /**
- * Build a comprehensive prompt from metadata
+ * Build a comprehensive prompt from metadata. A brand kit replaces the
+ * reference's palette and text style with the kit's, and names the colors
+ * to avoid.
  */
 export function buildOptimizedPrompt(
   userPrompt: string,
   userMetadata: Partial<ThumbnailMetadataExtracted>,
-  referenceMetadata: ThumbnailMetadataExtracted,
-  style?: string
+  referenceMetadata: Partial<ThumbnailMetadataExtracted>,
+  style?: string,
+  brandKit?: BrandKitSettings
 ): string {
   const parts: string[] = [];
+  const brand = brandKit ? describeBrandKit(brandKit) : undefined;
 
   // 1. Main subject and content
   parts.push(`Create a YouTube thumbnail featuring: ${userPrompt}`);
@@ -168,7 +173,10 @@ export function buildOptimizedPrompt(
   }
 
   // 6. Color palette
-  if (referenceMetadata.colorPalette) {
+  if (brand) {
+    parts.push(`Color palette: ${brand.palette}`);
+    if (brand.avoid) parts.push(`Avoid these colors: ${brand.avoid}`);
+  } else if (referenceMetadata.colorPalette) {
     let colorPalette: any = referenceMetadata.colorPalette;
     if (typeof colorPalette === 'string') {
       try {
@@ -185,7 +193,9 @@ export function buildOptimizedPrompt(
   }
 
   // 7. Text and typography (if applicable)
-  if (referenceMetadata.hasText) {
+  if (brand) {
+    parts.push(`Text style: ${brand.typography}`);
+  } else if (referenceMetadata.hasText) {
     parts.push(`Text style: ${referenceMetadata.textStyle || 'bold'} typography`);
     parts.push(`Text position: ${referenceMetadata.textPosition || 'top'} of frame`);
   }
@@ -208,20 +218,34 @@ export function buildOptimizedPrompt(
 export function generatePromptVariations(
   userPrompt: string,
   userMetadata: Partial<ThumbnailMetadataExtracted>,
-  referenceMetadata: ThumbnailMetadataExtracted,
-  variationCount: number = 3
+  referenceMetadata: Partial<ThumbnailMetadataExtracted>,
+  variationCount: number = 3,
+  brandKit?: BrandKitSettings
 ): string[] {
   const variations: string[] = [];
   const styles = Object.keys(STYLE_LIBRARY).slice(0, variationCount);
 
   for (const style of styles) {
-    const prompt = buildOptimizedPrompt(userPrompt, userMetadata, referenceMetadata, style);
+    const prompt = buildOptimizedPrompt(userPrompt, userMetadata, referenceMetadata, style, brandKit);
     variations.push(prompt);
   }
 
   return variations;
 }
 
+/**
+ * Add a brand kit's palette, banned colors and text style to a finished
+ * prompt, for prompts that were not built by buildOptimizedPrompt
+ */
+export function applyBrandKitToPrompt(prompt: string, brandKit?: BrandKitSettings): string {
+  if (!brandKit) return prompt;
+  const brand = describeBrandKit(brandKit);
+  const lines = [`Brand color palette: ${brand.palette}`];
+  if (brand.avoid) lines.push(`Avoid these colors: ${brand.avoid}`);
+  lines.push(`Text style: ${brand.typography}`);
+  return `${prompt}\n\n${lines.join('\n')}`;
+}
+
 /**
  * Enhance prompt with specific keywords for viral potential
  */
@@ -0,0 +1,280 @@
+import type { ProviderKind } from './_core/providerFixtures';
+
+/**
+ * Provider Failover Service
+ * Ordered fallback chains for external AI providers (LLM, vision, image).
+ * Every attempt runs under a deadline enforced with an AbortController, and a
+ * circuit breaker per provider skips one that keeps failing until a cooldown
+ * has passed.
+ */
+
+export type ProviderCapability = ProviderKind;
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ProviderAttempt<T> {
+  // Provider or model ID, unique within the capability
+  id: string;
+  run(signal: AbortSignal): Promise<T>;
+}
+
+export interface ProviderAttemptRecord {
+  provider: string;
+  status: 'succeeded' | 'failed' | 'skipped';
+  durationMs?: number;
+  error?: string;
+}
+
+export interface FailoverResult<T> {
+  value: T;
+  provider: string;
+  attempts: ProviderAttemptRecord[];
+}
+
+export interface CircuitBreakerSnapshot {
+  capability: ProviderCapability;
+  provider: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  lastError: string | null;
+  lastFailureAt: Date | null;
+  // When an open breaker lets the next trial request through
+  retryAt: Date | null;
+}
+
+// Consecutive failures that open a breaker
+export const CIRCUIT_FAILURE_THRESHOLD = 3;
+
+// How long an open breaker skips its provider
+export const CIRCUIT_COOLDOWN_MS = 30 * 1000;
+
+// Per-attempt deadlines; a hung provider falls through to the next one
+export const PROVIDER_ATTEMPT_TIMEOUTS: Record<ProviderCapability, number> = {
+  llm: 30 * 1000,
+  vision: 30 * 1000,
+  image: 90 * 1000,
+};
+
+interface CircuitBreaker {
+  capability: ProviderCapability;
+  provider: string;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  openedAt: number | null;
+  // Set while the single half-open trial request is in flight
+  trialInFlight: boolean;
+  lastError: string | null;
+  lastFailureAt: number | null;
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+function getBreaker(capability: ProviderCapability, provider: string): CircuitBreaker {
+  const key = `${capability}:${provider}`;
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = {
+      capability,
+      provider,
+      consecutiveFailures: 0,
+      totalFailures: 0,
+      totalSuccesses: 0,
+      openedAt: null,
+      trialInFlight: false,
+      lastError: null,
+      lastFailureAt: null,
+    };
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+function getState(breaker: CircuitBreaker, now = Date.now()): CircuitState {
+  if (breaker.openedAt === null) return 'closed';
+  return now - breaker.openedAt >= CIRCUIT_COOLDOWN_MS ? 'half-open' : 'open';
+}
+
+function recordSuccess(breaker: CircuitBreaker): void {
+  breaker.consecutiveFailures = 0;
+  breaker.totalSuccesses += 1;
+  breaker.openedAt = null;
+  breaker.trialInFlight = false;
+}
+
+function recordFailure(breaker: CircuitBreaker, error: string): void {
+  const wasTrial = breaker.trialInFlight;
+  breaker.consecutiveFailures += 1;
+  breaker.totalFailures += 1;
+  breaker.lastError = error;
+  breaker.lastFailureAt = Date.now();
+  breaker.trialInFlight = false;
+
+  // A failed half-open trial reopens the breaker for another cooldown
+  if (wasTrial || breaker.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+    if (breaker.openedAt === null || wasTrial) {
+      console.warn(
+        `[Failover] Opening circuit for ${breaker.capability} provider ${breaker.provider}: ${error}`
+      );
+    }
+    breaker.openedAt = Date.now();
+  }
+}
+
+/**
+ * Thrown when a deadline passes before the operation settles
+ */
+export class ProviderTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+/**
+ * Run an operation with a deadline. The operation receives a signal that is
+ * aborted when the deadline passes or the parent signal aborts; the returned
+ * promise rejects at that moment even if the operation ignores the signal.
+ */
+export function withDeadline<T>(
+  timeoutMs: number,
+  operation: (signal: AbortSignal) => Promise<T>,
+  parentSignal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+
+  return new Promise<T>((resolve, reject) => {
+    const onParentAbort = () => {
+      controller.abort(parentSignal?.reason);
+      reject(parentSignal?.reason ?? new Error('Aborted'));
+    };
+    const timer = setTimeout(() => {
+      const error = new ProviderTimeoutError(timeoutMs);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+    const cleanup = () => {
+      clearTimeout(timer);
+      parentSignal?.removeEventListener('abort', onParentAbort);
+    };
+
+    if (parentSignal?.aborted) {
+      cleanup();
+      onParentAbort();
+      return;
+    }
+    parentSignal?.addEventListener('abort', onParentAbort, { once: true });
+
+    operation(controller.signal).then(
+      (value) => {
+        cleanup();
+        resolve(value);
+      },
+      (error) => {
+        cleanup();
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Try each provider in order until one succeeds. Providers with an open
+ * breaker are skipped; a half-open breaker lets one trial request through.
+ * If the parent signal aborts, the chain stops without blaming the provider.
+ */
+export async function runWithFailover<T>(
+  capability: ProviderCapability,
+  providers: ProviderAttempt<T>[],
+  options: { timeoutMs?: number; signal?: AbortSignal } = {}
+): Promise<FailoverResult<T>> {
+  if (providers.length === 0) {
+    throw new Error(`No ${capability} providers configured`);
+  }
+
+  const timeoutMs = options.timeoutMs ?? PROVIDER_ATTEMPT_TIMEOUTS[capability];
+  const attempts: ProviderAttemptRecord[] = [];
+
+  for (const provider of providers) {
+    if (options.signal?.aborted) break;
+
+    const breaker = getBreaker(capability, provider.id);
+    const state = getState(breaker);
+    if (state === 'open' || (state === 'half-open' && breaker.trialInFlight)) {
+      attempts.push({ provider: provider.id, status: 'skipped', error: 'Circuit open' });
+      continue;
+    }
+    if (state === 'half-open') {
+      breaker.trialInFlight = true;
+    }
+
+    const startedAt = Date.now();
+    try {
+      const value = await withDeadline(timeoutMs, provider.run, options.signal);
+      recordSuccess(breaker);
+      attempts.push({ provider: provider.id, status: 'succeeded', durationMs: Date.now() - startedAt });
+
+      if (attempts.length > 1) {
+        console.warn(`[Failover] ${capability} served by fallback provider ${provider.id}`);
+      }
+      return { value, provider: provider.id, attempts };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      attempts.push({
+        provider: provider.id,
+        status: 'failed',
+        durationMs: Date.now() - startedAt,
+        error: message,
+      });
+
+      if (options.signal?.aborted) {
+        breaker.trialInFlight = false;
+        throw error;
+      }
+      recordFailure(breaker, message);
+      console.error(`[Failover] ${capability} provider ${provider.id} failed: ${message}`);
+    }
+  }
+
+  if (options.signal?.aborted) {
+    throw options.signal.reason ?? new Error('Aborted');
+  }
+
+  const summary = attempts
+    .map((attempt) => `${attempt.provider}: ${attempt.error ?? attempt.status}`)
+    .join('; ');
+  throw new Error(`All ${capability} providers failed (${summary})`);
+}
+
+/**
+ * Current state of every breaker that has seen traffic
+ */
+export function getCircuitBreakerStates(): CircuitBreakerSnapshot[] {
+  const now = Date.now();
+  return Array.from(breakers.values()).map((breaker) => {
+    const state = getState(breaker, now);
+    return {
+      capability: breaker.capability,
+      provider: breaker.provider,
+      state,
+      consecutiveFailures: breaker.consecutiveFailures,
+      totalFailures: breaker.totalFailures,
+      totalSuccesses: breaker.totalSuccesses,
+      lastError: breaker.lastError,
+      lastFailureAt: breaker.lastFailureAt ? new Date(breaker.lastFailureAt) : null,
+      retryAt:
+        state === 'open' && breaker.openedAt !== null
+          ? new Date(breaker.openedAt + CIRCUIT_COOLDOWN_MS)
+          : null,
+    };
+  });
+}
+
+/**
+ * Close every breaker (admin reset and tests)
+ */
+export function resetCircuitBreakers(): void {
+  breakers.clear();
+}
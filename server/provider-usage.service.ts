@@ -0,0 +1,444 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { and, desc, eq, gte, inArray, isNotNull, lt, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { getAppSetting, getDb, setAppSetting } from './db';
+import { generationHistory, providerUsage } from '../drizzle/schema';
+import { getProviderMode, type ProviderKind } from './_core/providerFixtures';
+
+/**
+ * Provider Usage Service
+ * Records tokens, images and estimated dollar cost for every external AI
+ * call, attributed to the user and generation job it was made for. Backs the
+ * daily spend caps and the admin cost report.
+ */
+
+export interface UsageContext {
+  userId?: string;
+  jobId?: string;
+}
+
+export interface ProviderUsageEntry {
+  capability: ProviderKind;
+  provider: string;
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  imageCount?: number;
+  // Computed from the token price table when omitted
+  costUsd?: number;
+}
+
+export interface ProviderUsageRecord extends Required<ProviderUsageEntry> {
+  id: string;
+  userId: string | null;
+  jobId: string | null;
+  createdAt: Date;
+}
+
+// USD per million tokens; models not listed use the default
+const TOKEN_PRICES_USD: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-pro-vision': { input: 0.5, output: 1.5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+};
+const DEFAULT_TOKEN_PRICE_USD = { input: 1, output: 3 };
+
+const COST_SETTINGS_KEY = 'costAccounting';
+const COST_SETTINGS_CACHE_TTL_MS = 30 * 1000;
+
+export const costSettingsSchema = z.object({
+  // What one credit is worth in dollars, for margin reporting
+  creditValueUsd: z.number().min(0).max(100),
+  // Daily provider spend caps in dollars (UTC day); null means no cap
+  userDailyCapUsd: z.number().min(0).nullable(),
+  globalDailyCapUsd: z.number().min(0).nullable(),
+});
+
+export type CostSettings = z.infer<typeof costSettingsSchema>;
+
+const DEFAULT_COST_SETTINGS: CostSettings = {
+  // 500 credits for $39.99
+  creditValueUsd: 0.08,
+  userDailyCapUsd: 5,
+  globalDailyCapUsd: 500,
+};
+
+const usageContext = new AsyncLocalStorage<UsageContext>();
+
+// Used when no database is configured (local tooling and tests)
+const memoryUsage: ProviderUsageRecord[] = [];
+const MAX_MEMORY_USAGE = 1000;
+
+let cachedSettings: { settings: CostSettings; expiresAt: number } | null = null;
+let memorySettings: CostSettings | null = null;
+
+/**
+ * Attribute every provider call made inside fn to a user and/or job
+ */
+export function runWithUsageContext<T>(context: UsageContext, fn: () => T): T {
+  return usageContext.run({ ...usageContext.getStore(), ...context }, fn);
+}
+
+export function getUsageContext(): UsageContext {
+  return usageContext.getStore() ?? {};
+}
+
+export function estimateTokenCostUsd(model: string, inputTokens: number, outputTokens: number): number {
+  const price = TOKEN_PRICES_USD[model] ?? DEFAULT_TOKEN_PRICE_USD;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Record one provider call. Replayed and synthetic calls cost nothing and are
+ * skipped. Failures are logged, never thrown, so accounting cannot break a
+ * generation.
+ */
+export async function recordProviderUsage(entry: ProviderUsageEntry): Promise<void> {
+  const mode = getProviderMode();
+  if (mode === 'replay' || mode === 'synthetic') return;
+
+  const { userId, jobId } = getUsageContext();
+  const inputTokens = entry.inputTokens ?? 0;
+  const outputTokens = entry.outputTokens ?? 0;
+  const record: ProviderUsageRecord = {
+    id: uuidv4(),
+    userId: userId ?? null,
+    jobId: jobId ?? null,
+    capability: entry.capability,
+    provider: entry.provider,
+    model: entry.model,
+    inputTokens,
+    outputTokens,
+    imageCount: entry.imageCount ?? 0,
+    costUsd: entry.costUsd ?? estimateTokenCostUsd(entry.model, inputTokens, outputTokens),
+    createdAt: new Date(),
+  };
+
+  try {
+    const db = await getDb();
+    if (!db) {
+      memoryUsage.push(record);
+      if (memoryUsage.length > MAX_MEMORY_USAGE) memoryUsage.shift();
+      return;
+    }
+
+    await db.insert(providerUsage).values({
+      ...record,
+      costUsd: record.costUsd.toFixed(6),
+    });
+  } catch (error) {
+    console.error('[Usage] Failed to record provider usage:', error);
+  }
+}
+
+/**
+ * Drop in-memory usage and cached settings (tests)
+ */
+export function resetProviderUsage(): void {
+  memoryUsage.length = 0;
+  cachedSettings = null;
+  memorySettings = null;
+}
+
+/**
+ * Cost settings (admin override merged over the defaults)
+ */
+export async function getCostSettings(): Promise<CostSettings> {
+  if (cachedSettings && cachedSettings.expiresAt > Date.now()) {
+    return cachedSettings.settings;
+  }
+
+  let settings = memorySettings ?? DEFAULT_COST_SETTINGS;
+  try {
+    const stored = await getAppSetting<unknown>(COST_SETTINGS_KEY);
+    if (stored !== undefined) {
+      const parsed = costSettingsSchema.partial().safeParse(stored);
+      if (parsed.success) {
+        settings = { ...DEFAULT_COST_SETTINGS, ...parsed.data };
+      } else {
+        console.warn('[Usage] Ignoring invalid stored cost settings:', parsed.error.message);
+      }
+    }
+  } catch (error) {
+    console.error('[Usage] Failed to load cost settings:', error);
+  }
+
+  cachedSettings = { settings, expiresAt: Date.now() + COST_SETTINGS_CACHE_TTL_MS };
+  return settings;
+}
+
+export async function updateCostSettings(
+  settings: CostSettings,
+  updatedBy?: string
+): Promise<CostSettings> {
+  const parsed = costSettingsSchema.parse(settings);
+
+  try {
+    await setAppSetting(COST_SETTINGS_KEY, parsed, updatedBy);
+  } catch (error) {
+    if ((error as Error).message !== 'Database not available') throw error;
+    memorySettings = parsed;
+  }
+
+  cachedSettings = { settings: parsed, expiresAt: Date.now() + COST_SETTINGS_CACHE_TTL_MS };
+  return parsed;
+}
+
+function startOfUtcDay(date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Estimated provider spend since midnight UTC, for one user or everyone
+ */
+export async function getDailySpendUsd(userId?: string): Promise<number> {
+  const since = startOfUtcDay();
+  const db = await getDb();
+
+  if (!db) {
+    return memoryUsage
+      .filter((record) => record.createdAt >= since && (!userId || record.userId === userId))
+      .reduce((sum, record) => sum + record.costUsd, 0);
+  }
+
+  const conditions = [gte(providerUsage.createdAt, since)];
+  if (userId) conditions.push(eq(providerUsage.userId, userId));
+
+  const [row] = await db
+    .select({ total: sql<string>`COALESCE(SUM(${providerUsage.costUsd}), 0)` })
+    .from(providerUsage)
+    .where(and(...conditions));
+  return Number(row?.total ?? 0);
+}
+
+/**
+ * Throw when today's spend has reached the user's or the global cap
+ */
+export async function assertWithinSpendCaps(userId: string): Promise<void> {
+  const settings = await getCostSettings();
+
+  if (settings.globalDailyCapUsd !== null) {
+    const globalSpend = await getDailySpendUsd();
+    if (globalSpend >= settings.globalDailyCapUsd) {
+      console.warn(`[Usage] Global daily spend cap reached: $${globalSpend.toFixed(2)}`);
+      throw new Error('Generation is temporarily unavailable. Please try again tomorrow.');
+    }
+  }
+
+  if (settings.userDailyCapUsd !== null) {
+    const userSpend = await getDailySpendUsd(userId);
+    if (userSpend >= settings.userDailyCapUsd) {
+      throw new Error('Daily generation limit reached. Please try again tomorrow.');
+    }
+  }
+}
+
+export interface CostReport {
+  from: Date;
+  to: Date;
+  settings: CostSettings;
+  totals: {
+    calls: number;
+    costUsd: number;
+    creditsCharged: number;
+    revenueUsd: number;
+    marginUsd: number;
+    marginPercent: number | null;
+  };
+  byModel: Array<{
+    capability: ProviderKind;
+    model: string;
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    imageCount: number;
+    costUsd: number;
+  }>;
+  generations: Array<{
+    jobId: string;
+    userId: string | null;
+    generationId: string | null;
+    model: string | null;
+    calls: number;
+    costUsd: number;
+    creditsCharged: number;
+    revenueUsd: number;
+    marginUsd: number;
+    createdAt: Date;
+  }>;
+}
+
+function withMargin(costUsd: number, creditsCharged: number, creditValueUsd: number) {
+  const revenueUsd = creditsCharged * creditValueUsd;
+  return { costUsd, creditsCharged, revenueUsd, marginUsd: revenueUsd - costUsd };
+}
+
+/**
+ * Provider cost by model and by generation, with margin against credits charged
+ */
+export async function getCostReport(options: {
+  from: Date;
+  to: Date;
+  limit?: number;
+}): Promise<CostReport> {
+  const settings = await getCostSettings();
+  const limit = options.limit ?? 50;
+  const db = await getDb();
+
+  let byModel: CostReport['byModel'];
+  let jobCosts: Array<{ jobId: string; userId: string | null; calls: number; costUsd: number; createdAt: Date }>;
+  let charges = new Map<string, { id: string; model: string | null; creditsUsed: number }>();
+  let creditsCharged = 0;
+
+  if (!db) {
+    const records = memoryUsage.filter(
+      (record) => record.createdAt >= options.from && record.createdAt < options.to
+    );
+
+    const models = new Map<string, CostReport['byModel'][number]>();
+    const jobs = new Map<string, (typeof jobCosts)[number]>();
+    for (const record of records) {
+      const key = `${record.capability}:${record.model}`;
+      const model = models.get(key) ?? {
+        capability: record.capability,
+        model: record.model,
+        calls: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        imageCount: 0,
+        costUsd: 0,
+      };
+      model.calls += 1;
+      model.inputTokens += record.inputTokens;
+      model.outputTokens += record.outputTokens;
+      model.imageCount += record.imageCount;
+      model.costUsd += record.costUsd;
+      models.set(key, model);
+
+      if (record.jobId) {
+        const job = jobs.get(record.jobId) ?? {
+          jobId: record.jobId,
+          userId: record.userId,
+          calls: 0,
+          costUsd: 0,
+          createdAt: record.createdAt,
+        };
+        job.calls += 1;
+        job.costUsd += record.costUsd;
+        jobs.set(record.jobId, job);
+      }
+    }
+
+    byModel = Array.from(models.values()).sort((a, b) => b.costUsd - a.costUsd);
+    jobCosts = Array.from(jobs.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  } else {
+    const range = and(
+      gte(providerUsage.createdAt, options.from),
+      lt(providerUsage.createdAt, options.to)
+    );
+
+    const modelRows = await db
+      .select({
+        capability: providerUsage.capability,
+        model: providerUsage.model,
+        calls: sql<string>`COUNT(*)`,
+        inputTokens: sql<string>`SUM(${providerUsage.inputTokens})`,
+        outputTokens: sql<string>`SUM(${providerUsage.outputTokens})`,
+        imageCount: sql<string>`SUM(${providerUsage.imageCount})`,
+        costUsd: sql<string>`SUM(${providerUsage.costUsd})`,
+      })
+      .from(providerUsage)
+      .where(range)
+      .groupBy(providerUsage.capability, providerUsage.model)
+      .orderBy(desc(sql`SUM(${providerUsage.costUsd})`));
+    byModel = modelRows.map((row: any) => ({
+      capability: row.capability,
+      model: row.model,
+      calls: Number(row.calls),
+      inputTokens: Number(row.inputTokens),
+      outputTokens: Number(row.outputTokens),
+      imageCount: Number(row.imageCount),
+      costUsd: Number(row.costUsd),
+    }));
+
+    const jobRows = await db
+      .select({
+        jobId: providerUsage.jobId,
+        userId: providerUsage.userId,
+        calls: sql<string>`COUNT(*)`,
+        costUsd: sql<string>`SUM(${providerUsage.costUsd})`,
+        createdAt: sql<Date>`MIN(${providerUsage.createdAt})`,
+      })
+      .from(providerUsage)
+      .where(and(range, isNotNull(providerUsage.jobId)))
+      .groupBy(providerUsage.jobId, providerUsage.userId)
+      .orderBy(desc(sql`MIN(${providerUsage.createdAt})`))
+      .limit(limit);
+    jobCosts = jobRows.map((row: any) => ({
+      jobId: row.jobId,
+      userId: row.userId,
+      calls: Number(row.calls),
+      costUsd: Number(row.costUsd),
+      createdAt: new Date(row.createdAt),
+    }));
+
+    if (jobCosts.length > 0) {
+      const history = await db
+        .select({
+          id: generationHistory.id,
+          jobId: generationHistory.jobId,
+          model: generationHistory.model,
+          creditsUsed: generationHistory.creditsUsed,
+          parentGenerationId: generationHistory.parentGenerationId,
+        })
+        .from(generationHistory)
+        .where(inArray(generationHistory.jobId, jobCosts.map((job) => job.jobId)));
+      // Format siblings stored before they dropped the job id would replace the charged record
+      charges = new Map(
+        history.filter((row: any) => !row.parentGenerationId).map((row: any) => [row.jobId, row])
+      );
+    }
+
+    const [credits] = await db
+      .select({ total: sql<string>`COALESCE(SUM(${generationHistory.creditsUsed}), 0)` })
+      .from(generationHistory)
+      .where(
+        and(
+          gte(generationHistory.createdAt, options.from),
+          lt(generationHistory.createdAt, options.to)
+        )
+      );
+    creditsCharged = Number(credits?.total ?? 0);
+  }
+
+  const costUsd = byModel.reduce((sum, model) => sum + model.costUsd, 0);
+  const totals = withMargin(costUsd, creditsCharged, settings.creditValueUsd);
+
+  return {
+    from: options.from,
+    to: options.to,
+    settings,
+    totals: {
+      calls: byModel.reduce((sum, model) => sum + model.calls, 0),
+      ...totals,
+      marginPercent: totals.revenueUsd > 0 ? (totals.marginUsd / totals.revenueUsd) * 100 : null,
+    },
+    byModel,
+    generations: jobCosts.map((job) => {
+      const charge = charges.get(job.jobId);
+      return {
+        jobId: job.jobId,
+        userId: job.userId,
+        generationId: charge?.id ?? null,
+        model: charge?.model ?? null,
+        calls: job.calls,
+        createdAt: job.createdAt,
+        ...withMargin(job.costUsd, charge?.creditsUsed ?? 0, settings.creditValueUsd),
+      };
+    }),
+  };
+}
@@ -119,6 +119,27 @@ export async function getAllReferenceThumbnails(): Promise<any[]> {
   }
 }
 
+/**
+ * Get a single reference thumbnail by ID
+ */
+export async function getReferenceThumbnail(referenceThumbnailId: string): Promise<any | null> {
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+
+  try {
+    const [thumbnail] = await (db as any)
+      .select()
+      .from(referenceThumbnails)
+      .where(eq(referenceThumbnails.id, referenceThumbnailId))
+      .limit(1);
+
+    return thumbnail ?? null;
+  } catch (error) {
+    console.error('Error fetching reference thumbnail:', error);
+    throw new Error('Failed to fetch reference thumbnail');
+  }
+}
+
 /**
  * Get reference thumbnails by category
  */
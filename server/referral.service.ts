@@ -1,5 +1,5 @@
-import { getDb } from './db';
-import { users, referrals, creditTransactions } from '../drizzle/schema';
+import { getDb, recordCreditTransaction } from './db';
+import { users, referrals } from '../drizzle/schema';
 import { eq } from 'drizzle-orm';
 
 export interface ReferralInfo {
@@ -139,22 +139,14 @@ export async function awardReferralBonus(
       return false;
     }
 
-    const newCredits = referrer.credits + REFERRAL_BONUS_CREDITS;
-
-    // Update referrer credits
-    await (db as any)
-      .update(users)
-      .set({ credits: newCredits })
-      .where(eq(users.id, referrerId));
-
-    // Record the bonus transaction
-    await (db as any).insert(creditTransactions).values({
-      id: `txn_${Date.now()}`,
-      userId: referrerId,
-      type: 'referral_bonus',
-      amount: REFERRAL_BONUS_CREDITS,
-      description: `Referral bonus for user ${referredUserId}`,
-    });
+    // Record the bonus on the referrer's ledger (once per referral)
+    await recordCreditTransaction(
+      referrerId,
+      REFERRAL_BONUS_CREDITS,
+      'referral_bonus',
+      `Referral bonus for user ${referredUserId}`,
+      { id: `referral-${referral.id}` }
+    );
 
     // Update referral record with awarded bonus
     await (db as any)
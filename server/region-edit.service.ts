@@ -0,0 +1,141 @@
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { z } from 'zod';
+import {
+  generateWithImageModel,
+  getClosestImageSize,
+  listImageModels,
+  resolveImageModel,
+  type ImageGenerationOutput,
+  type ImageModelConfig,
+} from './image-providers.service';
+import { loadImageBuffer } from './image-assets.service';
+
+/**
+ * Region Edit Service
+ * Inpaints one area of an existing thumbnail. The user marks the area with a
+ * brush mask or a rectangle and describes the change; everything outside the
+ * mask is kept.
+ */
+
+export const regionMaskSchema = z.discriminatedUnion('type', [
+  // Fractions of the image size, so the rectangle is resolution-independent
+  z.object({
+    type: z.literal('rect'),
+    x: z.number().min(0).max(1),
+    y: z.number().min(0).max(1),
+    width: z.number().gt(0).max(1),
+    height: z.number().gt(0).max(1),
+  }),
+  // Painted pixels (any alpha) are edited; scaled to the image size
+  z.object({
+    type: z.literal('brush'),
+    dataUrl: z.string().regex(/^data:image\/png;base64,/, 'Brush masks must be PNG data URLs'),
+  }),
+]);
+
+export type RegionMask = z.infer<typeof regionMaskSchema>;
+
+export interface RegionEditInput {
+  imageUrl: string;
+  mask: RegionMask;
+  instruction: string;
+  model?: string;
+  signal?: AbortSignal;
+}
+
+export interface RegionEditResult extends ImageGenerationOutput {
+  prompt: string;
+  // Share of the image inside the mask (0-1)
+  maskCoverage: number;
+}
+
+// Masks covering less than this share of the image are treated as empty
+const MIN_MASK_COVERAGE = 0.0005;
+
+/**
+ * Render a mask as an opaque grayscale PNG at the image size: white where the
+ * image may change, black where it is kept
+ */
+export async function renderInpaintMask(
+  width: number,
+  height: number,
+  mask: RegionMask
+): Promise<{ png: Buffer; coverage: number }> {
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d');
+
+  if (mask.type === 'rect') {
+    context.fillStyle = '#ffffff';
+    context.fillRect(
+      Math.round(mask.x * width),
+      Math.round(mask.y * height),
+      Math.round(mask.width * width),
+      Math.round(mask.height * height)
+    );
+  } else {
+    const brush = await loadImage(await loadImageBuffer(mask.dataUrl));
+    context.drawImage(brush, 0, 0, width, height);
+  }
+
+  // Binarize: any painted pixel is edited
+  const pixels = context.getImageData(0, 0, width, height);
+  let edited = 0;
+  for (let index = 0; index < pixels.data.length; index += 4) {
+    const value = pixels.data[index + 3] > 0 ? 255 : 0;
+    if (value) edited++;
+    pixels.data[index] = pixels.data[index + 1] = pixels.data[index + 2] = value;
+    pixels.data[index + 3] = 255;
+  }
+  context.putImageData(pixels, 0, 0);
+
+  return { png: canvas.toBuffer('image/png'), coverage: edited / (width * height) };
+}
+
+/**
+ * The requested model if it can inpaint, otherwise the first configured model that can
+ */
+export function selectMaskingModel(modelId?: string): ImageModelConfig {
+  const requested = resolveImageModel(modelId);
+  if (requested.capabilities.supportsMasking) return requested;
+
+  const models = listImageModels().filter((model) => model.capabilities.supportsMasking);
+  const fallback = models.find((model) => model.available) ?? models[0];
+  if (!fallback) {
+    throw new Error('No image model supports region editing');
+  }
+  return resolveImageModel(fallback.id);
+}
+
+export function buildRegionEditPrompt(instruction: string): string {
+  return `Edit only the masked region: ${instruction.trim()}. Keep everything outside the mask exactly as it is, and blend the edit seamlessly with the surrounding lighting, colors and perspective.`;
+}
+
+/**
+ * Inpaint the masked region of an image and return the edited image
+ */
+export async function editImageRegion(input: RegionEditInput): Promise<RegionEditResult> {
+  const source = await loadImageBuffer(input.imageUrl, input.signal);
+  const image = await loadImage(source);
+  const { png, coverage } = await renderInpaintMask(image.width, image.height, input.mask);
+  if (coverage < MIN_MASK_COVERAGE) {
+    throw new Error('The mask is empty; mark the area to edit');
+  }
+
+  const model = selectMaskingModel(input.model);
+  const prompt = buildRegionEditPrompt(input.instruction);
+  const result = await generateWithImageModel(
+    model.id,
+    {
+      prompt,
+      size: getClosestImageSize(model, image.width, image.height),
+      originalImages: [{ b64Json: source.toString('base64') }],
+      mask: { b64Json: png.toString('base64') },
+    },
+    { signal: input.signal }
+  );
+
+  console.log(
+    `[RegionEdit] Edited ${(coverage * 100).toFixed(1)}% of the image with ${result.modelId}`
+  );
+  return { ...result, prompt, maskCoverage: coverage };
+}
@@ -14,22 +14,73 @@ import {
   getTemplates,
   getTemplatesByCategory,
   recordCreditTransaction,
+  reserveCredits,
+  settleCreditReservation,
+  releaseCreditReservation,
   getUser,
-  updateUserCredits,
   getThumbnailById,
+  saveThumbnailPostProduction,
+  saveThumbnailProject,
+  replaceThumbnailImage,
 } from "./db";
-import { invokeLLM } from "./_core/llm";
-import { generateImage } from "./_core/imageGeneration";
+import { invokeLLM } from "./llm.service";
 import { storagePut, storageGet } from "./storage";
 import { paymentRouter } from "./payment";
 import { adminRouter } from "./admin.router";
 import { generationRouter } from "./generation.router";
+import { getFixedPrice, getPricingTable } from "./pricing.service";
+import { generateWithImageModel, isImageModelId } from "./image-providers.service";
+import { assertWithinSpendCaps } from "./provider-usage.service";
+import { enforceModerationPolicy } from "./moderation.service";
+import { assemblePrompt, validatePromptOutput } from "./prompt-assembly.service";
+import { editImageRegion, regionMaskSchema } from "./region-edit.service";
+import { checkThumbnailLegibility } from "./legibility.service";
+import { thumbnailProjectSchema, parseThumbnailProject } from "@shared/thumbnailProject";
+import {
+  createProjectForImage,
+  getFlatImageUrl,
+  loadThumbnailProject,
+  persistProjectImages,
+  rebaseThumbnailProject,
+  storeProjectRender,
+} from "./thumbnail-project.service";
+import {
+  compareThumbnailVersions,
+  getThumbnailVersion,
+  listThumbnailVersions,
+  recordThumbnailVersion,
+  restoreThumbnailVersion,
+} from "./thumbnail-versions.service";
+import {
+  aspectRatioSchema,
+  produceFormats,
+  THUMBNAIL_ASPECT_RATIOS,
+  THUMBNAIL_FORMATS,
+} from "./formats.service";
+import {
+  applyBrandStage,
+  applyPostProductionEffects,
+  completePostProductionPipeline,
+  postProductionOptionsSchema,
+} from "./post-production.service";
+import { resolveGenerationBrand } from "./brand-kit.service";
+import { applyBrandKitToPrompt } from "./prompt-engineer.service";
+import { brandKitRouter } from "./brand-kit.router";
+import {
+  deliverImageUrl,
+  deliverProject,
+  deliverThumbnail,
+  deliverVersion,
+  getPlanWatermark,
+  restoreProjectBackground,
+} from "./watermark.service";
 
 export const appRouter = router({
   system: systemRouter,
   payment: paymentRouter,
   admin: adminRouter,
   generation: generationRouter,
+  brandKit: brandKitRouter,
 
   auth: router({
     me: publicProcedure.query((opts) => opts.ctx.user),
@@ -91,69 +142,111 @@ export const appRouter = router({
         z.object({
           conversationId: z.string(),
           message: z.string(),
+          model: z.string().refine(isImageModelId, "Unknown image model").optional(),
+          brandKitId: z.string().optional(),
+          // Drawn in the brand kit's text style
+          overlayText: z.string().trim().min(1).max(100).optional(),
         })
       )
       .mutation(async ({ ctx, input }) => {
-        // Add user message to database
-        await addChatMessage(input.conversationId, "user", input.message);
-
-        // Get conversation history for context
-        const history = await getChatMessages(input.conversationId);
+        await assertWithinSpendCaps(ctx.user.id);
+        await enforceModerationPolicy([input.message, input.overlayText].filter(Boolean).join("\n"), {
+          userId: ctx.user.id,
+          source: "chat",
+        });
+        const brand = await resolveGenerationBrand(ctx.user.id, input.brandKitId, input.overlayText);
 
-        // Call LLM to generate response
-        const systemMessage = {
-          role: "system" as const,
-          content:
-            "You are Routix, an AI assistant specialized in helping users create stunning thumbnails. Help them describe what they want, suggest styles, and guide them through the thumbnail generation process. Be friendly, creative, and professional. When users ask to generate a thumbnail, provide a refined prompt that includes: visual elements, color scheme, text content, style, and mood.",
-        };
+        // The thumbnail's credits are held up front and charged once it is stored
+        const creditsNeeded = await getFixedPrice("chatThumbnail");
+        let reservationId =
+          creditsNeeded > 0
+            ? await reserveCredits(ctx.user.id, creditsNeeded, `Chat thumbnail: ${input.message.substring(0, 50)}`)
+            : undefined;
 
-        const historyMessages = history.map((msg) => ({
-          role: msg.role as "user" | "assistant",
-          content: msg.content,
-        }));
+        try {
+          // Add user message to database
+          await addChatMessage(input.conversationId, "user", input.message);
 
-        const response = await invokeLLM({
-          messages: [systemMessage, ...historyMessages],
-        });
+          // Get conversation history for context
+          const history = await getChatMessages(input.conversationId);
 
-        const assistantMessage =
-          typeof response.choices[0]?.message?.content === "string"
-            ? response.choices[0].message.content
-            : "I apologize, I could not generate a response.";
+          // Call LLM to generate response
+          const systemMessage = {
+            role: "system" as const,
+            content:
+              "You are Routix, an AI assistant specialized in helping users create stunning thumbnails. Help them describe what they want, suggest styles, and guide them through the thumbnail generation process. Be friendly, creative, and professional. When users ask to generate a thumbnail, provide a refined prompt that includes: visual elements, color scheme, text content, style, and mood.",
+          };
 
-        // Add assistant response to database
-        await addChatMessage(input.conversationId, "assistant", assistantMessage);
+          const historyMessages = history.map((msg) => ({
+            role: msg.role as "user" | "assistant",
+            content: msg.content,
+          }));
+
+          const response = await invokeLLM({
+            messages: [systemMessage, ...historyMessages],
+          });
+
+          const assistantMessage =
+            typeof response.choices[0]?.message?.content === "string"
+              ? response.choices[0].message.content
+              : "I apologize, I could not generate a response.";
+
+          // Add assistant response to database
+          await addChatMessage(input.conversationId, "assistant", assistantMessage);
+
+          // Generate thumbnail image
+          let thumbnail = null;
+          try {
+            const imageResult = await generateWithImageModel(input.model, {
+              prompt: applyBrandKitToPrompt(input.message, brand?.kit),
+            });
+            if (imageResult.url) {
+              // Create thumbnail record
+              const { createThumbnail } = await import("./db");
+              const thumbnailId = await createThumbnail(
+                ctx.user.id,
+                input.message,
+                imageResult.url
+              );
+              thumbnail = {
+                id: thumbnailId,
+                imageUrl: imageResult.url,
+                prompt: input.message,
+              };
+              // Update thumbnail status to completed
+              const { updateThumbnailStatus } = await import("./db");
+              await updateThumbnailStatus(thumbnailId, "completed", imageResult.url, creditsNeeded);
+              if (reservationId) {
+                await settleCreditReservation(reservationId);
+                reservationId = undefined;
+              }
+              const branded = brand ? await applyBrandStage(imageResult.url, brand) : null;
+              if (branded) {
+                await saveThumbnailProject(thumbnailId, branded);
+                thumbnail.imageUrl = branded.imageUrl;
+              }
+              await recordThumbnailVersion(thumbnailId, {
+                source: "generation",
+                prompt: input.message,
+                settings: { model: imageResult.modelId, brandKitId: input.brandKitId, overlayText: input.overlayText },
+              });
+            }
+          } catch (error) {
+            console.error("[Chat] Thumbnail generation failed:", error);
+          }
 
-        // Generate thumbnail image
-        let thumbnail = null;
-        try {
-          const { generateImage } = await import("./_core/imageGeneration");
-          const imageResult = await generateImage({ prompt: input.message });
-          if (imageResult.url) {
-            // Create thumbnail record
-            const { createThumbnail } = await import("./db");
-            const thumbnailId = await createThumbnail(
-              ctx.user.id,
-              input.message,
-              imageResult.url
+          return {
+            response: assistantMessage,
+            thumbnail: thumbnail && (await deliverThumbnail(ctx.user, thumbnail)),
+          };
+        } finally {
+          // Nothing is charged when no thumbnail was made
+          if (reservationId) {
+            await releaseCreditReservation(reservationId).catch((error) =>
+              console.error("[Chat] Failed to release credit hold:", error)
             );
-            thumbnail = {
-              id: thumbnailId,
-              imageUrl: imageResult.url,
-              prompt: input.message,
-            };
-            // Update thumbnail status to completed
-            const { updateThumbnailStatus } = await import("./db");
-            await updateThumbnailStatus(thumbnailId, "completed", imageResult.url, 1);
           }
-        } catch (error) {
-          console.error("[Chat] Thumbnail generation failed:", error);
         }
-
-        return {
-          response: assistantMessage,
-          thumbnail,
-        };
       }),
 
     regenerateThumbnail: protectedProcedure
@@ -164,22 +257,56 @@ export const appRouter = router({
         })
       )
       .mutation(async ({ ctx, input }) => {
-        const { generateImage } = await import("./_core/imageGeneration");
-        const { updateThumbnailStatus } = await import("./db");
+        const thumbnail = await getThumbnailById(input.thumbnailId);
+        if (!thumbnail || thumbnail.userId !== ctx.user.id) {
+          throw new Error("Thumbnail not found");
+        }
+        await assertWithinSpendCaps(ctx.user.id);
+        await enforceModerationPolicy(input.newPrompt, { userId: ctx.user.id, source: "chat" });
+
+        // Held for the duration of the regeneration and charged once the image is stored
+        const creditsNeeded = await getFixedPrice("chatThumbnail");
+        let reservationId =
+          creditsNeeded > 0
+            ? await reserveCredits(
+                ctx.user.id,
+                creditsNeeded,
+                `Thumbnail regeneration: ${input.newPrompt.substring(0, 50)}`,
+                thumbnail.id
+              )
+            : undefined;
 
         try {
-          const imageResult = await generateImage({ prompt: input.newPrompt });
+          const imageResult = await generateWithImageModel(undefined, { prompt: input.newPrompt });
           if (imageResult.url) {
-            await updateThumbnailStatus(input.thumbnailId, "completed", imageResult.url, 1);
-            return {
+            // The previous image stays available as an earlier version
+            await replaceThumbnailImage(input.thumbnailId, imageResult.url, creditsNeeded);
+            if (reservationId) {
+              await settleCreditReservation(reservationId);
+              reservationId = undefined;
+            }
+            const version = await recordThumbnailVersion(input.thumbnailId, {
+              source: "regeneration",
+              prompt: input.newPrompt,
+              settings: { model: imageResult.modelId },
+            });
+            return deliverThumbnail(ctx.user, {
               success: true,
               imageUrl: imageResult.url,
               prompt: input.newPrompt,
-            };
+              versionId: version?.id ?? null,
+            });
           }
         } catch (error) {
           console.error("[Chat] Regeneration failed:", error);
           throw new Error("Failed to regenerate thumbnail");
+        } finally {
+          // Nothing is charged for failed regenerations
+          if (reservationId) {
+            await releaseCreditReservation(reservationId).catch((error) =>
+              console.error("[Chat] Failed to release credit hold:", error)
+            );
+          }
         }
       }),
 
@@ -198,25 +325,24 @@ export const appRouter = router({
         })
       )
       .mutation(async ({ input }) => {
-        const systemMessage = {
-          role: "system" as const,
-          content:
-            "You are an expert at refining image generation prompts. Take the user\'s feedback and original prompt, and create an improved, detailed prompt for AI image generation. The prompt should be specific, vivid, and include visual details, colors, style, and mood. Return only the refined prompt, nothing else.",
-        };
-
-        const userMessage = {
-          role: "user" as const,
-          content: `Original prompt: \"${input.originalPrompt}\"\n\nUser feedback: \"${input.feedback}\"\n\nPlease refine the prompt based on the feedback.`,
-        };
-
-        const response = await invokeLLM({
-          messages: [systemMessage, userMessage],
+        const { messages, canary } = assemblePrompt({
+          instructions:
+            "You are an expert at refining image generation prompts. Take the user's feedback and original prompt, and create an improved, detailed prompt for AI image generation. The prompt should be specific, vivid, and include visual details, colors, style, and mood.",
+          userInputs: {
+            originalPrompt: input.originalPrompt,
+            feedback: input.feedback,
+          },
+          task: "Refine the original prompt based on the feedback. Return only the refined prompt, nothing else.",
         });
 
-        const refinedPrompt =
-          typeof response.choices[0]?.message?.content === "string"
-            ? response.choices[0].message.content
-            : input.originalPrompt;
+        const response = await invokeLLM({ messages });
+
+        let refinedPrompt = input.originalPrompt;
+        try {
+          refinedPrompt = validatePromptOutput(response.choices[0]?.message?.content, { canary });
+        } catch (error) {
+          console.warn("[Chat] Keeping the original prompt:", (error as Error).message);
+        }
 
         return { refinedPrompt };
       }),
@@ -233,8 +359,9 @@ export const appRouter = router({
         if (!thumbnail || thumbnail.userId !== ctx.user.id) {
           throw new Error("Thumbnail not found");
         }
+        // Plans with a watermark download the watermarked copy; the stored image stays clean
         return {
-          imageUrl: thumbnail.imageUrl,
+          imageUrl: await deliverImageUrl(ctx.user, thumbnail.imageUrl),
           prompt: thumbnail.prompt,
           fileName: `thumbnail-${thumbnail.id}.png`,
         };
@@ -250,7 +377,7 @@ export const appRouter = router({
           throw new Error("Thumbnail not found");
         }
         const shareUrl = `${process.env.VITE_APP_URL || "https://routix.app"}/share/${input.thumbnailId}`;
-        return { shareUrl, thumbnail };
+        return { shareUrl, thumbnail: await deliverThumbnail(ctx.user, thumbnail) };
       }),
 
     generate: protectedProcedure
@@ -260,72 +387,411 @@ export const appRouter = router({
           prompt: z.string(),
           templateId: z.string().optional(),
           style: z.string().optional(),
-          aspectRatio: z.enum(["16:9", "1:1", "9:16"]).optional(),
+          aspectRatio: aspectRatioSchema.optional(),
+          // Extra aspect ratios, saved as sibling thumbnails of this one
+          formats: z.array(aspectRatioSchema).max(THUMBNAIL_ASPECT_RATIOS.length).optional(),
+          postProduction: z.boolean().default(true),
+          brandKitId: z.string().optional(),
+          // Drawn in the brand kit's text style
+          overlayText: z.string().trim().min(1).max(100).optional(),
         })
       )
       .mutation(async ({ ctx, input }) => {
         const user = await getUser(ctx.user.id);
         if (!user) throw new Error("User not found");
 
-        // Check if user has enough credits (2 credits per generation)
-        const creditsNeeded = 2;
-        if (user.credits < creditsNeeded) {
-          throw new Error("Insufficient credits");
+        await assertWithinSpendCaps(ctx.user.id);
+        if (input.overlayText) {
+          await enforceModerationPolicy(input.overlayText, { userId: ctx.user.id, source: "generation" });
         }
+        const brand = await resolveGenerationBrand(ctx.user.id, input.brandKitId, input.overlayText);
+        const aspectRatio = input.aspectRatio ?? "16:9";
+        const extraFormats = Array.from(new Set(input.formats ?? [])).filter(
+          (format) => format !== aspectRatio
+        );
+        const pricing = await getPricingTable();
+        const creditsNeeded =
+          pricing.fixed.thumbnail + extraFormats.length * pricing.options.extraFormat;
 
         // Create thumbnail record
         const thumbnailId = await createThumbnail(
           ctx.user.id,
           input.conversationId,
           input.prompt,
-          input.templateId
+          input.templateId,
+          { aspectRatio }
         );
 
         // Update status to generating
         await updateThumbnailStatus(thumbnailId, "generating");
 
-        // Deduct credits immediately
-        await updateUserCredits(ctx.user.id, user.credits - creditsNeeded);
-        await recordCreditTransaction(
-          ctx.user.id,
-          -creditsNeeded,
-          "usage",
-          `Thumbnail generation: ${input.prompt.substring(0, 50)}`
-        );
+        // Hold the credits for the duration of the generation; free thumbnails hold nothing
+        let reservationId: string | undefined;
+        try {
+          reservationId =
+            creditsNeeded > 0
+              ? await reserveCredits(
+                  ctx.user.id,
+                  creditsNeeded,
+                  `Thumbnail generation: ${input.prompt.substring(0, 50)}`,
+                  thumbnailId
+                )
+              : undefined;
+        } catch (error) {
+          await updateThumbnailStatus(thumbnailId, "failed");
+          throw error;
+        }
 
         try {
           // Simulate image generation delay
           await new Promise((resolve) => setTimeout(resolve, 3000));
 
-          const imageUrl = `https://picsum.photos/seed/${thumbnailId}/1280/720`;
+          const { width, height } = THUMBNAIL_FORMATS[aspectRatio];
+          const imageUrl = `https://picsum.photos/seed/${thumbnailId}/${width}/${height}`;
+
+          // Only the formats that were produced are charged
+          const formats = await produceFormats(imageUrl, extraFormats).catch((error) => {
+            console.error("[Formats] Extra formats failed:", error);
+            return [];
+          });
+          const creditsUsed = pricing.fixed.thumbnail + formats.length * pricing.options.extraFormat;
+
+          // Effects are applied to a copy; the original is kept so they can be changed later
+          const postProduced = input.postProduction
+            ? await completePostProductionPipeline(imageUrl)
+            : null;
+          const finalImageUrl = postProduced?.processedImageUrl ?? imageUrl;
 
           // Update thumbnail status to completed
-          await updateThumbnailStatus(thumbnailId, "completed", imageUrl, creditsNeeded);
+          await updateThumbnailStatus(thumbnailId, "completed", finalImageUrl, creditsUsed);
+          if (postProduced) {
+            await saveThumbnailPostProduction(thumbnailId, {
+              originalImageUrl: imageUrl,
+              imageUrl: finalImageUrl,
+              postProduction: postProduced.appliedEffects,
+            });
+          }
+          // The brand kit's logo and overlay text become editable project layers
+          const branded = brand ? await applyBrandStage(finalImageUrl, brand) : null;
+          if (branded) await saveThumbnailProject(thumbnailId, branded);
+          const deliveredImageUrl = branded?.imageUrl ?? finalImageUrl;
+          await recordThumbnailVersion(thumbnailId, {
+            source: "generation",
+            settings: {
+              aspectRatio,
+              style: input.style,
+              templateId: input.templateId,
+              formats: extraFormats,
+              postProduction: input.postProduction,
+              brandKitId: input.brandKitId,
+              overlayText: input.overlayText,
+            },
+          });
+          const legibility = await checkThumbnailLegibility(thumbnailId, deliveredImageUrl);
+
+          const siblings = [];
+          for (const format of formats) {
+            const siblingId = await createThumbnail(
+              ctx.user.id,
+              input.conversationId,
+              input.prompt,
+              input.templateId,
+              { aspectRatio: format.aspectRatio, parentThumbnailId: thumbnailId }
+            );
+            await updateThumbnailStatus(siblingId, "completed", format.imageUrl, 0);
+            const brandedFormat = brand ? await applyBrandStage(format.imageUrl, brand) : null;
+            if (brandedFormat) {
+              await saveThumbnailProject(siblingId, brandedFormat);
+              format.imageUrl = brandedFormat.imageUrl;
+            }
+            await recordThumbnailVersion(siblingId, {
+              source: "generation",
+              settings: { aspectRatio: format.aspectRatio, method: format.method },
+            });
+            siblings.push({ id: siblingId, ...format });
+          }
+          if (reservationId) await settleCreditReservation(reservationId, creditsUsed);
 
-          return {
+          const deliveredFormats = [];
+          for (const sibling of siblings) {
+            deliveredFormats.push(await deliverThumbnail(ctx.user, sibling));
+          }
+          return deliverThumbnail(ctx.user, {
             id: thumbnailId,
-            imageUrl,
+            imageUrl: deliveredImageUrl,
             prompt: input.prompt,
-            creditsUsed: creditsNeeded,
+            creditsUsed,
             status: "completed",
-          };
+            formats: deliveredFormats,
+            legibility,
+            bannedColors: branded?.bannedColors ?? [],
+          });
         } catch (error) {
           console.error("Thumbnail generation failed:", error);
-          // Refund credits on failure
-          await updateUserCredits(ctx.user.id, user.credits);
-          await recordCreditTransaction(
-            ctx.user.id,
-            creditsNeeded,
-            "refund",
-            `Refund for failed generation: ${input.prompt.substring(0, 50)}`
-          );
+          // Nothing is charged for failed generations
+          if (reservationId) await releaseCreditReservation(reservationId);
           await updateThumbnailStatus(thumbnailId, "failed");
           throw new Error("Thumbnail generation failed");
         }
       }),
 
+    // Inpaint one area (brush mask or rectangle) and save the result as the
+    // thumbnail's new image; the previous image stays in storage
+    editRegion: protectedProcedure
+      .input(
+        z.object({
+          thumbnailId: z.string(),
+          mask: regionMaskSchema,
+          instruction: z.string().min(3).max(500),
+          model: z.string().refine(isImageModelId, "Unknown image model").optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const thumbnail = await getThumbnailById(input.thumbnailId);
+        if (!thumbnail || thumbnail.userId !== ctx.user.id) {
+          throw new Error("Thumbnail not found");
+        }
+        if (!thumbnail.imageUrl || thumbnail.status !== "completed") {
+          throw new Error("Only completed thumbnails can be edited");
+        }
+
+        await assertWithinSpendCaps(ctx.user.id);
+        await enforceModerationPolicy(input.instruction, { userId: ctx.user.id, source: "chat" });
+
+        const creditsNeeded = await getFixedPrice("regionEdit");
+        const reservationId =
+          creditsNeeded > 0
+            ? await reserveCredits(
+                ctx.user.id,
+                creditsNeeded,
+                `Region edit: ${input.instruction.substring(0, 50)}`,
+                thumbnail.id
+              )
+            : undefined;
+
+        try {
+          // Edit the image before effects and layers, then apply both again
+          const result = await editImageRegion({
+            imageUrl: thumbnail.originalImageUrl ?? getFlatImageUrl(thumbnail) ?? thumbnail.imageUrl,
+            mask: input.mask,
+            instruction: input.instruction,
+            model: input.model,
+          });
+          const postProduction = thumbnail.postProduction
+            ? postProductionOptionsSchema.parse(JSON.parse(thumbnail.postProduction))
+            : null;
+          const flatImageUrl = postProduction
+            ? await applyPostProductionEffects(result.url, postProduction)
+            : result.url;
+          const project = loadThumbnailProject(thumbnail.project);
+          const rebased = project ? await rebaseThumbnailProject(project, flatImageUrl) : null;
+          const imageUrl = rebased?.imageUrl ?? flatImageUrl;
+
+          await updateThumbnailStatus(
+            thumbnail.id,
+            "completed",
+            imageUrl,
+            (thumbnail.creditsUsed ?? 0) + creditsNeeded
+          );
+          if (postProduction) {
+            await saveThumbnailPostProduction(thumbnail.id, {
+              originalImageUrl: result.url,
+              imageUrl,
+              postProduction,
+            });
+          }
+          if (rebased) await saveThumbnailProject(thumbnail.id, rebased);
+          await recordThumbnailVersion(thumbnail.id, {
+            source: "edit",
+            settings: {
+              instruction: input.instruction,
+              model: result.modelId,
+              mask: input.mask.type,
+              maskCoverage: result.maskCoverage,
+            },
+          });
+          const legibility = await checkThumbnailLegibility(thumbnail.id, imageUrl);
+          if (reservationId) await settleCreditReservation(reservationId);
+
+          return deliverThumbnail(ctx.user, {
+            id: thumbnail.id,
+            imageUrl,
+            previousImageUrl: (await deliverThumbnail(ctx.user, thumbnail)).imageUrl,
+            model: result.modelId,
+            maskCoverage: result.maskCoverage,
+            creditsUsed: creditsNeeded,
+            legibility,
+          });
+        } catch (error) {
+          console.error("Region edit failed:", error);
+          // Nothing is charged for failed edits
+          if (reservationId) await releaseCreditReservation(reservationId);
+          throw new Error(
+            `Region edit failed: ${error instanceof Error ? error.message : "unknown error"}`
+          );
+        }
+      }),
+
+    // Re-render the post-production effects from the original image, e.g. to
+    // turn one off. Free: no model is called.
+    setPostProduction: protectedProcedure
+      .input(
+        z.object({
+          thumbnailId: z.string(),
+          options: postProductionOptionsSchema,
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const thumbnail = await getThumbnailById(input.thumbnailId);
+        if (!thumbnail || thumbnail.userId !== ctx.user.id) {
+          throw new Error("Thumbnail not found");
+        }
+        const originalImageUrl = thumbnail.originalImageUrl ?? getFlatImageUrl(thumbnail);
+        if (!originalImageUrl || thumbnail.status !== "completed") {
+          throw new Error("Only completed thumbnails can be edited");
+        }
+
+        const flatImageUrl = await applyPostProductionEffects(originalImageUrl, input.options);
+        const project = loadThumbnailProject(thumbnail.project);
+        const rebased = project ? await rebaseThumbnailProject(project, flatImageUrl) : null;
+        const imageUrl = rebased?.imageUrl ?? flatImageUrl;
+        await saveThumbnailPostProduction(thumbnail.id, {
+          originalImageUrl,
+          imageUrl,
+          postProduction: input.options,
+        });
+        if (rebased) await saveThumbnailProject(thumbnail.id, rebased);
+        await recordThumbnailVersion(thumbnail.id, { source: "post-production", settings: input.options });
+        const legibility = await checkThumbnailLegibility(thumbnail.id, imageUrl);
+
+        return deliverThumbnail(ctx.user, { id: thumbnail.id, imageUrl, postProduction: input.options, legibility });
+      }),
+
+    // The layered project behind a thumbnail. Thumbnails never edited as
+    // layers get a new project with their image as the background. Watermarked
+    // plans get the watermarked copy as the background.
+    getProject: protectedProcedure
+      .input(z.object({ thumbnailId: z.string() }))
+      .query(async ({ ctx, input }) => {
+        const thumbnail = await getThumbnailById(input.thumbnailId);
+        if (!thumbnail || thumbnail.userId !== ctx.user.id) {
+          throw new Error("Thumbnail not found");
+        }
+        if (!thumbnail.imageUrl || thumbnail.status !== "completed") {
+          throw new Error("Only completed thumbnails can be edited");
+        }
+
+        const project = loadThumbnailProject(thumbnail.project);
+        if (project) return { project: await deliverProject(ctx.user, project), saved: true };
+        return {
+          project: await deliverProject(ctx.user, await createProjectForImage(thumbnail.imageUrl)),
+          saved: false,
+        };
+      }),
+
+    // Save the project and render it as the thumbnail's image. Free: no model is called.
+    saveProject: protectedProcedure
+      .input(
+        z.object({
+          thumbnailId: z.string(),
+          project: thumbnailProjectSchema,
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const thumbnail = await getThumbnailById(input.thumbnailId);
+        if (!thumbnail || thumbnail.userId !== ctx.user.id) {
+          throw new Error("Thumbnail not found");
+        }
+        if (!thumbnail.imageUrl || thumbnail.status !== "completed") {
+          throw new Error("Only completed thumbnails can be edited");
+        }
+
+        // The editor's background is the watermarked copy on watermarked plans
+        const project = await persistProjectImages(
+          await restoreProjectBackground(ctx.user, parseThumbnailProject(input.project), getFlatImageUrl(thumbnail))
+        );
+        const imageUrl = await storeProjectRender(project);
+        await saveThumbnailProject(thumbnail.id, { project, imageUrl });
+        await recordThumbnailVersion(thumbnail.id, {
+          source: "edit",
+          settings: { editor: "layers", layers: project.layers.length },
+        });
+        const legibility = await checkThumbnailLegibility(thumbnail.id, imageUrl);
+
+        return {
+          ...(await deliverThumbnail(ctx.user, { id: thumbnail.id, imageUrl, legibility })),
+          project: await deliverProject(ctx.user, project),
+        };
+      }),
+
+    // Every version of the thumbnail, newest first
+    listVersions: protectedProcedure
+      .input(z.object({ thumbnailId: z.string() }))
+      .query(async ({ ctx, input }) => {
+        const thumbnail = await getThumbnailById(input.thumbnailId);
+        if (!thumbnail || thumbnail.userId !== ctx.user.id) {
+          throw new Error("Thumbnail not found");
+        }
+        const versions = [];
+        for (const version of await listThumbnailVersions(thumbnail.id)) {
+          versions.push(await deliverVersion(ctx.user, version));
+        }
+        return { currentVersionId: thumbnail.currentVersionId, versions };
+      }),
+
+    compareVersions: protectedProcedure
+      .input(
+        z.object({
+          thumbnailId: z.string(),
+          leftVersionId: z.string(),
+          rightVersionId: z.string(),
+        })
+      )
+      .query(async ({ ctx, input }) => {
+        const thumbnail = await getThumbnailById(input.thumbnailId);
+        if (!thumbnail || thumbnail.userId !== ctx.user.id) {
+          throw new Error("Thumbnail not found");
+        }
+        const [left, right] = await Promise.all([
+          getThumbnailVersion(thumbnail.id, input.leftVersionId),
+          getThumbnailVersion(thumbnail.id, input.rightVersionId),
+        ]);
+        if (!left || !right) throw new Error("Version not found");
+
+        return {
+          left: await deliverVersion(ctx.user, left),
+          right: await deliverVersion(ctx.user, right),
+          differences: compareThumbnailVersions(left, right),
+        };
+      }),
+
+    // Show a past version again. Free: its image is already stored.
+    makeVersionCurrent: protectedProcedure
+      .input(z.object({ thumbnailId: z.string(), versionId: z.string() }))
+      .mutation(async ({ ctx, input }) => {
+        const thumbnail = await getThumbnailById(input.thumbnailId);
+        if (!thumbnail || thumbnail.userId !== ctx.user.id) {
+          throw new Error("Thumbnail not found");
+        }
+
+        const version = await restoreThumbnailVersion(thumbnail.id, input.versionId);
+        const legibility = await checkThumbnailLegibility(thumbnail.id, version.imageUrl);
+
+        return deliverThumbnail(ctx.user, {
+          id: thumbnail.id,
+          imageUrl: version.imageUrl,
+          versionId: version.id,
+          legibility,
+        });
+      }),
+
+    // Images are delivered one at a time; each watermarked copy is rendered once
     list: protectedProcedure.query(async ({ ctx }) => {
-      return await getUserThumbnails(ctx.user.id);
+      const thumbnails = [];
+      for (const thumbnail of await getUserThumbnails(ctx.user.id)) {
+        thumbnails.push(await deliverThumbnail(ctx.user, thumbnail));
+      }
+      return thumbnails;
     }),
 
     get: protectedProcedure
@@ -335,7 +801,7 @@ export const appRouter = router({
         if (!thumbnail || thumbnail.userId !== ctx.user.id) {
           throw new Error("Thumbnail not found");
         }
-        return thumbnail;
+        return deliverThumbnail(ctx.user, thumbnail);
       }),
   }),
 
@@ -367,6 +833,11 @@ export const appRouter = router({
       return await getUser(ctx.user.id);
     }),
 
+    // The watermark the user's plan carries, or null; the editor stamps its exports with it
+    getWatermark: protectedProcedure.query(async ({ ctx }) => {
+      return await getPlanWatermark(ctx.user.subscriptionStatus);
+    }),
+
     updateProfile: protectedProcedure
       .input(
         z.object({
@@ -385,12 +856,7 @@ export const appRouter = router({
     buyCredits: protectedProcedure
       .input(z.object({ amount: z.number().positive() }))
       .mutation(async ({ ctx, input }) => {
-        const user = await getUser(ctx.user.id);
-        if (!user) throw new Error("User not found");
-
-        const newBalance = user.credits + input.amount;
-        await updateUserCredits(ctx.user.id, newBalance);
-        await recordCreditTransaction(
+        const newBalance = await recordCreditTransaction(
           ctx.user.id,
           input.amount,
           "purchase",
@@ -1,6 +1,6 @@
 import Stripe from 'stripe';
 import { config } from './config';
-import { recordCreditTransaction, updateUserCredits, getUser } from './db';
+import { recordCreditTransaction, getUser } from './db';
 import { sendEmail, paymentConfirmationTemplate } from './email.service';
 
 const stripe = new Stripe(config.stripe.secretKey);
@@ -89,8 +89,9 @@ async function handleChargeSucceeded(charge: Stripe.Charge): Promise<void> {
 
   try {
     const credits = Math.floor((charge.amount / 100) * 10); // 10 credits per dollar
-    await updateUserCredits(userId, credits);
-    await recordCreditTransaction(userId, credits, 'purchase', charge.id);
+    await recordCreditTransaction(userId, credits, 'purchase', charge.id, {
+      id: `charge-${charge.id}`,
+    });
 
     const user = await getUser(userId);
     if (user?.email) {
@@ -1,6 +1,6 @@
 import Stripe from 'stripe';
-import { getDb } from './db';
-import { creditTransactions, subscriptions, users } from '../drizzle/schema';
+import { getDb, recordCreditTransaction } from './db';
+import { subscriptions } from '../drizzle/schema';
 import { eq } from 'drizzle-orm';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
@@ -129,26 +129,14 @@ export async function handlePaymentSuccess(event: any) {
   const { userId, credits, type, planId } = session.metadata || {};
 
   if (type === 'credit_purchase' && credits) {
-    // Update user credits
-    const user = await (db as any).query.users.findFirst({ where: eq(users.id, userId) });
-    const currentCredits = user?.credits || 0;
-    
-    await (db as any)
-      .update(users)
-      .set({
-        credits: currentCredits + parseInt(credits),
-      })
-      .where(eq(users.id, userId));
-
-    // Record transaction
-    await (db as any).insert(creditTransactions).values({
-      id: `txn_${Date.now()}`,
+    // Record the purchase on the ledger (keyed by session so retries are no-ops)
+    await recordCreditTransaction(
       userId,
-      type: 'purchase',
-      amount: parseInt(credits),
-      description: `Credit purchase via Stripe (Session: ${session.id})`,
-      stripeInvoiceId: session.id,
-    });
+      parseInt(credits),
+      'purchase',
+      `Credit purchase via Stripe (Session: ${session.id})`,
+      { id: `session-${session.id}`, stripeInvoiceId: session.id }
+    );
   } else if (type === 'subscription' && planId) {
     // Update subscription status
     await (db as any)
@@ -0,0 +1,109 @@
+import { createCanvas, type Image } from '@napi-rs/canvas';
+import {
+  createThumbnailProject,
+  drawThumbnailProject,
+  parseThumbnailProject,
+  projectImageSources,
+  replaceProjectBackground,
+  type ThumbnailProject,
+} from '@shared/thumbnailProject';
+import { decodeImage, loadImageBuffer, storeImageAsset } from './image-assets.service';
+import { registerBundledFonts } from './typography.service';
+
+/**
+ * Thumbnail Project Service
+ * Loads, renders and stores the layered project behind a thumbnail. The
+ * project's background is the flat generated image; the thumbnail's imageUrl
+ * is the latest render of the whole project.
+ */
+
+// Layer images are fetched by the server when rendering
+const LAYER_IMAGE_TIMEOUT_MS = 15 * 1000;
+
+/**
+ * The stored project of a thumbnail, or null when it was never edited as layers
+ */
+export function loadThumbnailProject(stored: string | null | undefined): ThumbnailProject | null {
+  return stored ? parseThumbnailProject(JSON.parse(stored)) : null;
+}
+
+/**
+ * The thumbnail's image without project layers: the project background, or
+ * the image itself when there is no project
+ */
+export function getFlatImageUrl(thumbnail: { imageUrl: string | null; project?: string | null }): string | null {
+  const project = loadThumbnailProject(thumbnail.project);
+  const background = project?.layers.find((layer) => layer.type === 'background');
+  return (background && 'src' in background && background.src) || thumbnail.imageUrl;
+}
+
+/**
+ * A project holding only the flat image, sized to it
+ */
+export async function createProjectForImage(imageUrl: string, signal?: AbortSignal): Promise<ThumbnailProject> {
+  const image = await decodeImage(imageUrl, signal);
+  return createThumbnailProject(imageUrl, image.width, image.height);
+}
+
+/**
+ * Move inline layer images to storage so the stored document stays small
+ */
+export async function persistProjectImages(project: ThumbnailProject): Promise<ThumbnailProject> {
+  const stored = new Map<string, string>();
+  for (const src of projectImageSources(project)) {
+    if (!src.startsWith('data:')) continue;
+    const mimeType = src.startsWith('data:image/jpeg') ? 'image/jpeg' : 'image/png';
+    stored.set(src, await storeImageAsset(await loadImageBuffer(src), 'project-layers', mimeType));
+  }
+  if (stored.size === 0) return project;
+
+  return {
+    ...project,
+    layers: project.layers.map((layer) =>
+      'src' in layer && layer.src && stored.has(layer.src) ? { ...layer, src: stored.get(layer.src)! } : layer
+    ),
+  };
+}
+
+/**
+ * Render a project to PNG with the same drawing code as the editor canvas
+ */
+export async function renderThumbnailProject(project: ThumbnailProject, signal?: AbortSignal): Promise<Buffer> {
+  registerBundledFonts();
+
+  const images = new Map<string, Image>();
+  await Promise.all(
+    projectImageSources(project).map(async (src) => {
+      try {
+        images.set(src, await decodeImage(src, signal ?? AbortSignal.timeout(LAYER_IMAGE_TIMEOUT_MS)));
+      } catch (error) {
+        throw new Error(
+          `Could not load layer image ${src.slice(0, 80)}: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    })
+  );
+
+  const canvas = createCanvas(project.width, project.height);
+  drawThumbnailProject(canvas.getContext('2d'), project, images);
+  return canvas.toBuffer('image/png');
+}
+
+/**
+ * Render a project and store the PNG, returning its URL
+ */
+export async function storeProjectRender(project: ThumbnailProject, signal?: AbortSignal): Promise<string> {
+  return storeImageAsset(await renderThumbnailProject(project, signal), 'projects');
+}
+
+/**
+ * Swap in a new flat image under the project's layers and render again.
+ * Used when an edit or an effects change replaces the flat image.
+ */
+export async function rebaseThumbnailProject(
+  project: ThumbnailProject,
+  flatImageUrl: string
+): Promise<{ project: ThumbnailProject; imageUrl: string }> {
+  const rebased = replaceProjectBackground(project, flatImageUrl);
+  return { project: rebased, imageUrl: await storeProjectRender(rebased) };
+}
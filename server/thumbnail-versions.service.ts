@@ -0,0 +1,218 @@
+import { and, desc, eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { getDb, getThumbnailById, setThumbnailCurrentVersion } from './db';
+import { thumbnailVersions, type ThumbnailVersion } from '../drizzle/schema';
+import { loadThumbnailProject } from './thumbnail-project.service';
+import type { ThumbnailProject } from '@shared/thumbnailProject';
+
+/**
+ * Thumbnail Version Service
+ * Keeps a history of every image a thumbnail has had. Each generation,
+ * regeneration, edit and post-production change snapshots the thumbnail
+ * (image, effects and layers) as a version whose parent is the version it
+ * was made from, so any past version can be compared or made current again.
+ */
+
+export const THUMBNAIL_VERSION_SOURCES = ['generation', 'regeneration', 'edit', 'post-production'] as const;
+
+export type ThumbnailVersionSource = (typeof THUMBNAIL_VERSION_SOURCES)[number];
+
+export interface ThumbnailVersionRecord {
+  id: string;
+  thumbnailId: string;
+  userId: string;
+  parentVersionId: string | null;
+  source: ThumbnailVersionSource;
+  prompt: string;
+  settings: Record<string, unknown>;
+  imageUrl: string;
+  originalImageUrl: string | null;
+  postProduction: Record<string, unknown> | null;
+  project: ThumbnailProject | null;
+  createdAt: Date;
+}
+
+export interface ThumbnailVersionDifference {
+  path: string;
+  left: unknown;
+  right: unknown;
+}
+
+// In-memory store used when no database is configured (local tooling and tests)
+const memoryVersions = new Map<string, ThumbnailVersion>();
+
+function toRecord(row: ThumbnailVersion): ThumbnailVersionRecord {
+  return {
+    id: row.id,
+    thumbnailId: row.thumbnailId,
+    userId: row.userId,
+    parentVersionId: row.parentVersionId,
+    source: row.source,
+    prompt: row.prompt,
+    settings: JSON.parse(row.settings),
+    imageUrl: row.imageUrl,
+    originalImageUrl: row.originalImageUrl,
+    postProduction: row.postProduction ? JSON.parse(row.postProduction) : null,
+    project: loadThumbnailProject(row.project),
+    createdAt: row.createdAt ?? new Date(),
+  };
+}
+
+/**
+ * Snapshot a thumbnail as it is now as a new version, and make it current.
+ * Call after the thumbnail row has been updated. A failure is logged and
+ * returns null: the change itself has already been saved.
+ */
+export async function recordThumbnailVersion(
+  thumbnailId: string,
+  entry: { source: ThumbnailVersionSource; prompt?: string; settings?: Record<string, unknown> }
+): Promise<ThumbnailVersionRecord | null> {
+  try {
+    const thumbnail = await getThumbnailById(thumbnailId);
+    if (!thumbnail?.imageUrl) throw new Error(`Thumbnail ${thumbnailId} has no image`);
+
+    const row: ThumbnailVersion = {
+      id: `ver_${uuidv4()}`,
+      thumbnailId,
+      userId: thumbnail.userId,
+      parentVersionId: thumbnail.currentVersionId,
+      source: entry.source,
+      prompt: entry.prompt ?? thumbnail.prompt,
+      settings: JSON.stringify(entry.settings ?? {}),
+      imageUrl: thumbnail.imageUrl,
+      originalImageUrl: thumbnail.originalImageUrl,
+      postProduction: thumbnail.postProduction,
+      project: thumbnail.project,
+      createdAt: new Date(),
+    };
+
+    const db = await getDb();
+    if (db) {
+      await db.insert(thumbnailVersions).values(row);
+    } else {
+      memoryVersions.set(row.id, row);
+    }
+    await setThumbnailCurrentVersion(thumbnailId, { id: row.id });
+    return toRecord(row);
+  } catch (error) {
+    console.error(`[Versions] Failed to record ${entry.source} version of ${thumbnailId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Every version of a thumbnail, newest first
+ */
+export async function listThumbnailVersions(thumbnailId: string): Promise<ThumbnailVersionRecord[]> {
+  const db = await getDb();
+  if (!db) {
+    return Array.from(memoryVersions.values())
+      .filter((row) => row.thumbnailId === thumbnailId)
+      .reverse()
+      .map(toRecord);
+  }
+
+  const rows = await db
+    .select()
+    .from(thumbnailVersions)
+    .where(eq(thumbnailVersions.thumbnailId, thumbnailId))
+    .orderBy(desc(thumbnailVersions.createdAt));
+  return rows.map(toRecord);
+}
+
+/**
+ * One version of a thumbnail; versions of other thumbnails are not found
+ */
+export async function getThumbnailVersion(
+  thumbnailId: string,
+  versionId: string
+): Promise<ThumbnailVersionRecord | undefined> {
+  const db = await getDb();
+  if (!db) {
+    const row = memoryVersions.get(versionId);
+    return row?.thumbnailId === thumbnailId ? toRecord(row) : undefined;
+  }
+
+  const [row] = await db
+    .select()
+    .from(thumbnailVersions)
+    .where(and(eq(thumbnailVersions.id, versionId), eq(thumbnailVersions.thumbnailId, thumbnailId)))
+    .limit(1);
+  return row ? toRecord(row) : undefined;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function collectDifferences(
+  left: unknown,
+  right: unknown,
+  path: string,
+  differences: ThumbnailVersionDifference[]
+): void {
+  if (isPlainObject(left) && isPlainObject(right)) {
+    const keys = Array.from(new Set([...Object.keys(left), ...Object.keys(right)]));
+    for (const key of keys) {
+      collectDifferences(left[key], right[key], path ? `${path}.${key}` : key, differences);
+    }
+    return;
+  }
+  if (JSON.stringify(left) !== JSON.stringify(right)) {
+    differences.push({ path, left, right });
+  }
+}
+
+/**
+ * What changed between two versions: source, prompt, settings, effects and
+ * layers. Layers are compared by name so moving one shows as one change.
+ */
+export function compareThumbnailVersions(
+  left: ThumbnailVersionRecord,
+  right: ThumbnailVersionRecord
+): ThumbnailVersionDifference[] {
+  const comparable = (version: ThumbnailVersionRecord) => ({
+    source: version.source,
+    prompt: version.prompt,
+    settings: version.settings,
+    postProduction: version.postProduction ?? {},
+    layers: Object.fromEntries(
+      (version.project?.layers ?? [])
+        .filter((layer) => layer.type !== 'background')
+        .map(({ id, name, ...layer }) => [name || id, layer])
+    ),
+  });
+
+  const differences: ThumbnailVersionDifference[] = [];
+  collectDifferences(comparable(left), comparable(right), '', differences);
+  return differences;
+}
+
+/**
+ * Make a past version current: its image, effects and layers are copied back
+ * onto the thumbnail. Later versions are kept, and the next change branches
+ * from the restored version.
+ */
+export async function restoreThumbnailVersion(
+  thumbnailId: string,
+  versionId: string
+): Promise<ThumbnailVersionRecord> {
+  const version = await getThumbnailVersion(thumbnailId, versionId);
+  if (!version) throw new Error('Version not found');
+
+  await setThumbnailCurrentVersion(thumbnailId, {
+    id: version.id,
+    imageUrl: version.imageUrl,
+    originalImageUrl: version.originalImageUrl,
+    postProduction: version.postProduction ? JSON.stringify(version.postProduction) : null,
+    project: version.project ? JSON.stringify(version.project) : null,
+  });
+  return version;
+}
+
+/**
+ * Drop in-memory versions (tests)
+ */
+export function resetThumbnailVersions(): void {
+  memoryVersions.clear();
+}
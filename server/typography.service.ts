@@ -0,0 +1,105 @@
+import { createRequire } from 'node:module';
+import { createCanvas, GlobalFonts, type Canvas, type Image, type SKRSContext2D } from '@napi-rs/canvas';
+import {
+  drawTextLayer as drawSharedTextLayer,
+  fontFamilyName,
+  FONT_LIBRARY,
+  type FontId,
+  type TextLayerInput,
+  type TextLayout,
+} from '@shared/typography';
+import { decodeImage } from './image-assets.service';
+
+export {
+  FONT_LIBRARY,
+  fontIdSchema,
+  textLayerSchema,
+  type FontId,
+  type TextLayer,
+  type TextLayerInput,
+  type TextLayout,
+} from '@shared/typography';
+
+/**
+ * Typography Service
+ * Renders text overlays onto thumbnails on the server instead of asking an
+ * image model to spell them. Fonts are bundled (@fontsource) and registered
+ * under private family names, so the same text spec renders the same pixels
+ * on every machine. Layout and drawing live in shared/typography.ts so the
+ * editor canvas matches.
+ */
+
+let fontsRegistered = false;
+
+/**
+ * Register the bundled fonts with the canvas. Safe to call repeatedly.
+ */
+export function registerBundledFonts(): void {
+  if (fontsRegistered) return;
+
+  const require = createRequire(import.meta.url);
+  for (const id of Object.keys(FONT_LIBRARY) as FontId[]) {
+    const font = FONT_LIBRARY[id];
+    for (const weight of font.weights) {
+      const path = require.resolve(`@fontsource/${font.package}/files/${font.package}-latin-${weight}-normal.woff2`);
+      if (!GlobalFonts.registerFromPath(path, fontFamilyName(id))) {
+        throw new Error(`Failed to register font ${font.family} ${weight}`);
+      }
+    }
+  }
+  fontsRegistered = true;
+}
+
+/**
+ * The bundled fonts, for pickers
+ */
+export function listFonts(): Array<{ id: FontId; family: string; weights: number[] }> {
+  return (Object.keys(FONT_LIBRARY) as FontId[]).map((id) => ({
+    id,
+    family: FONT_LIBRARY[id].family,
+    weights: [...FONT_LIBRARY[id].weights],
+  }));
+}
+
+/**
+ * Map a font id or family name ("Bebas Neue", "bebas-neue") to a bundled font
+ */
+export function resolveFontId(name: string | undefined, fallback: FontId = 'anton'): FontId {
+  if (!name) return fallback;
+  const normalized = name.trim().toLowerCase();
+  const match = (Object.keys(FONT_LIBRARY) as FontId[]).find(
+    (id) => id === normalized || FONT_LIBRARY[id].family.toLowerCase() === normalized
+  );
+  return match ?? fallback;
+}
+
+/**
+ * Draw one text layer with the bundled fonts
+ */
+export function drawTextLayer(context: SKRSContext2D, layer: TextLayerInput): TextLayout {
+  registerBundledFonts();
+  return drawSharedTextLayer(context, layer);
+}
+
+/**
+ * Draw text layers onto an image, in order
+ */
+export function renderTextLayers(image: Image, layers: TextLayerInput[]): Canvas {
+  const canvas = createCanvas(image.width, image.height);
+  const context = canvas.getContext('2d');
+  context.drawImage(image, 0, 0);
+  for (const layer of layers) drawTextLayer(context, layer);
+  return canvas;
+}
+
+/**
+ * Fetch an image and render text layers onto it as a PNG
+ */
+export async function renderTextOverlay(
+  imageUrl: string,
+  layers: TextLayerInput[],
+  signal?: AbortSignal
+): Promise<Buffer> {
+  const image = await decodeImage(imageUrl, signal);
+  return renderTextLayers(image, layers).toBuffer('image/png');
+}
@@ -0,0 +1,126 @@
+import { z } from 'zod';
+import { ENV } from './_core/env';
+import { uploadImageToS3 } from './fileUpload';
+
+/**
+ * Uploaded Images Service
+ * Images a creator attaches to a generation (their face, their product, a
+ * backdrop or a style sample). Each one is sent to the image model as an
+ * image-to-image input, and its role tells the model how to use it.
+ */
+
+export const UPLOADED_IMAGE_ROLES = ['subject', 'product', 'background', 'style'] as const;
+
+export type UploadedImageRole = (typeof UPLOADED_IMAGE_ROLES)[number];
+
+export interface UploadedImage {
+  url: string;
+  role: UploadedImageRole;
+}
+
+export const MAX_UPLOADED_IMAGES = 4;
+
+// Identity and product inputs lead so models that weight the first input most keep them intact
+const ROLE_ORDER: UploadedImageRole[] = ['subject', 'product', 'background', 'style'];
+
+const ROLE_DIRECTIVES: Record<UploadedImageRole, string> = {
+  subject:
+    "shows the subject. Keep this person's face, identity and likeness exactly; only pose, expression and framing may change.",
+  product:
+    'shows the product. Reproduce its shape, colors, logo and label text faithfully and make it a prominent element.',
+  background: 'is the background scene. Use it as the backdrop behind the subject, restyled to match the thumbnail.',
+  style: 'is a style reference. Match its color grading, lighting and rendering style, but not its content.',
+};
+
+const DATA_URL_PATTERN = /^data:(image\/(?:png|jpeg|webp|gif));base64,/;
+
+/**
+ * Whether a URL points at the app's own storage: the storage proxy or a host
+ * listed in STORAGE_HOSTS. Uploads are fetched server-side, so no other URL is
+ * accepted.
+ */
+export function isStorageUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return false;
+
+  const hosts = [ENV.forgeApiUrl && new URL(ENV.forgeApiUrl).host, ...ENV.storageHosts.split(',')]
+    .map((host) => host?.trim().toLowerCase())
+    .filter(Boolean);
+  return hosts.includes(parsed.host);
+}
+
+const imageUrlSchema = z
+  .string()
+  .refine(
+    (url) => DATA_URL_PATTERN.test(url) || isStorageUrl(url),
+    'Uploaded images must be PNG, JPEG, WebP or GIF data URLs or files uploaded with chat.uploadImage'
+  );
+
+/**
+ * Accepts a bare URL (treated as the subject, as older clients send) or a URL with a role
+ */
+export const uploadedImageSchema = z.union([
+  imageUrlSchema.transform((url): UploadedImage => ({ url, role: 'subject' })),
+  z.object({
+    url: imageUrlSchema,
+    role: z.enum(UPLOADED_IMAGE_ROLES),
+  }),
+]);
+
+export const uploadedImagesSchema = z.array(uploadedImageSchema).max(MAX_UPLOADED_IMAGES);
+
+/**
+ * Order uploads by role, keeping upload order within a role
+ */
+export function sortUploadedImages(images: UploadedImage[] | undefined): UploadedImage[] {
+  return [...(images ?? [])].sort((a, b) => ROLE_ORDER.indexOf(a.role) - ROLE_ORDER.indexOf(b.role));
+}
+
+/**
+ * Image inputs for the provider, in the same order as describeUploadedImageRoles
+ */
+export function toOriginalImages(
+  images: UploadedImage[] | undefined
+): Array<{ url: string; mimeType?: string }> {
+  return sortUploadedImages(images).map((image) => ({
+    url: image.url,
+    mimeType: image.url.match(DATA_URL_PATTERN)?.[1],
+  }));
+}
+
+/**
+ * Instructions appended to the image prompt telling the model what each input image is for
+ */
+export function describeUploadedImageRoles(images: UploadedImage[] | undefined): string {
+  return sortUploadedImages(images)
+    .map((image, index) => `Input image ${index + 1} ${ROLE_DIRECTIVES[image.role]}`)
+    .join('\n');
+}
+
+/**
+ * Store inline (data URL) uploads so jobs, traces and replay inputs hold a
+ * short URL instead of the image bytes
+ */
+export async function persistUploadedImages(
+  images: UploadedImage[] | undefined
+): Promise<UploadedImage[] | undefined> {
+  if (!images?.length) return undefined;
+
+  return Promise.all(
+    images.map(async (image, index) => {
+      const match = image.url.match(DATA_URL_PATTERN);
+      if (!match) return image;
+
+      const mimeType = match[1];
+      const buffer = Buffer.from(image.url.slice(match[0].length), 'base64');
+      const extension = mimeType.split('/')[1].replace('jpeg', 'jpg');
+      const uploaded = await uploadImageToS3(buffer, `${image.role}-${index + 1}.${extension}`, mimeType);
+      return { url: uploaded.url, role: image.role };
+    })
+  );
+}
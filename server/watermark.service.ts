@@ -0,0 +1,284 @@
+import { createHash } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { createCanvas, type Image } from '@napi-rs/canvas';
+import { getAppSetting, getDb, setAppSetting } from './db';
+import { watermarkedImages } from '../drizzle/schema';
+import {
+  DEFAULT_WATERMARK_SETTINGS,
+  drawWatermark,
+  isWatermarkedPlan,
+  watermarkSettingsSchema,
+  type SubscriptionPlan,
+  type WatermarkSettings,
+} from '@shared/watermark';
+import { replaceProjectBackground, type ThumbnailProject } from '@shared/thumbnailProject';
+import { decodeImage, storeImageAsset } from './image-assets.service';
+import { registerBundledFonts } from './typography.service';
+
+/**
+ * Watermark Service
+ * Stamps images at delivery time for plans that carry a watermark. Stored
+ * images stay clean; watermarked copies are stored separately and reused
+ * until the source image or the settings change. Admins configure the
+ * watermark in appSettings under the "watermark" key.
+ */
+
+const WATERMARK_SETTING_KEY = 'watermark';
+
+// How long loaded settings are reused before appSettings is read again
+const WATERMARK_CACHE_TTL_MS = 30 * 1000;
+
+// Loading the source image and logo
+const IMAGE_LOAD_TIMEOUT_MS = 15 * 1000;
+
+const MAX_MEMORY_COPIES = 500;
+
+let cachedSettings: { settings: WatermarkSettings; expiresAt: number } | null = null;
+let memorySettings: WatermarkSettings | null = null;
+
+// Watermarked copies by key, used when no database is configured (local tooling and tests)
+const memoryCopies = new Map<string, string>();
+// Renders in progress, so concurrent requests for one image share a render
+const pendingCopies = new Map<string, Promise<string>>();
+
+export function getDefaultWatermarkSettings(): WatermarkSettings {
+  return structuredClone(DEFAULT_WATERMARK_SETTINGS);
+}
+
+/**
+ * Current settings (admin override or the defaults)
+ */
+export async function getWatermarkSettings(): Promise<WatermarkSettings> {
+  if (cachedSettings && cachedSettings.expiresAt > Date.now()) {
+    return cachedSettings.settings;
+  }
+
+  let settings = memorySettings ?? getDefaultWatermarkSettings();
+  try {
+    const stored = await getAppSetting<unknown>(WATERMARK_SETTING_KEY);
+    if (stored !== undefined) {
+      const parsed = watermarkSettingsSchema.safeParse(stored);
+      if (parsed.success) {
+        settings = parsed.data;
+      } else {
+        console.warn('[Watermark] Ignoring invalid stored settings:', parsed.error.message);
+      }
+    }
+  } catch (error) {
+    console.error('[Watermark] Failed to load settings:', error);
+  }
+
+  cachedSettings = { settings, expiresAt: Date.now() + WATERMARK_CACHE_TTL_MS };
+  return settings;
+}
+
+export async function updateWatermarkSettings(
+  settings: WatermarkSettings,
+  updatedBy?: string
+): Promise<WatermarkSettings> {
+  let parsed = watermarkSettingsSchema.parse(settings);
+
+  // Inline logos are moved to storage so every render does not carry them
+  if (parsed.logoUrl?.startsWith('data:')) {
+    let logo: Image;
+    try {
+      logo = await decodeImage(parsed.logoUrl);
+    } catch {
+      throw new Error('The watermark logo is not a readable image');
+    }
+    const canvas = createCanvas(logo.width, logo.height);
+    canvas.getContext('2d').drawImage(logo, 0, 0);
+    parsed = { ...parsed, logoUrl: await storeImageAsset(canvas.toBuffer('image/png'), 'watermarks') };
+  }
+
+  try {
+    await setAppSetting(WATERMARK_SETTING_KEY, parsed, updatedBy);
+  } catch (error) {
+    if ((error as Error).message !== 'Database not available') throw error;
+    memorySettings = parsed;
+  }
+
+  cachedSettings = { settings: parsed, expiresAt: Date.now() + WATERMARK_CACHE_TTL_MS };
+  return parsed;
+}
+
+/**
+ * The watermark for a plan's deliveries, or null when the plan has none
+ */
+export async function getPlanWatermark(plan: SubscriptionPlan): Promise<WatermarkSettings | null> {
+  const settings = await getWatermarkSettings();
+  return isWatermarkedPlan(settings, plan) ? settings : null;
+}
+
+/**
+ * Draw the watermark over an image and return the PNG
+ */
+export async function renderWatermarkedImage(
+  imageUrl: string,
+  settings: WatermarkSettings,
+  signal?: AbortSignal
+): Promise<Buffer> {
+  registerBundledFonts();
+  const image = await decodeImage(imageUrl, signal ?? AbortSignal.timeout(IMAGE_LOAD_TIMEOUT_MS));
+
+  let logo: Image | undefined;
+  if (settings.type === 'logo' && settings.logoUrl) {
+    logo = await decodeImage(settings.logoUrl, signal ?? AbortSignal.timeout(IMAGE_LOAD_TIMEOUT_MS)).catch(
+      (error) => {
+        console.warn(
+          `[Watermark] Could not load logo, using the text: ${error instanceof Error ? error.message : error}`
+        );
+        return undefined;
+      }
+    );
+  }
+
+  const canvas = createCanvas(image.width, image.height);
+  const context = canvas.getContext('2d');
+  context.drawImage(image, 0, 0);
+  drawWatermark(context, settings, image.width, image.height, logo);
+  return canvas.toBuffer('image/png');
+}
+
+function copyKey(imageUrl: string, settings: WatermarkSettings): string {
+  return createHash('sha256').update(JSON.stringify(settings)).update('\n').update(imageUrl).digest('hex');
+}
+
+async function findCopy(key: string): Promise<string | undefined> {
+  const db = await getDb();
+  if (!db) return memoryCopies.get(key);
+
+  const [row] = await db.select().from(watermarkedImages).where(eq(watermarkedImages.id, key)).limit(1);
+  return row?.imageUrl;
+}
+
+async function saveCopy(key: string, imageUrl: string): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    memoryCopies.set(key, imageUrl);
+    if (memoryCopies.size > MAX_MEMORY_COPIES) {
+      memoryCopies.delete(memoryCopies.keys().next().value!);
+    }
+    return;
+  }
+
+  await db.insert(watermarkedImages).values({ id: key, imageUrl }).onDuplicateKeyUpdate({ set: { imageUrl } });
+}
+
+/**
+ * The watermarked copy of an image, rendered and stored on first use
+ */
+export async function getWatermarkedImageUrl(imageUrl: string, settings: WatermarkSettings): Promise<string> {
+  const key = copyKey(imageUrl, settings);
+  const existing = await findCopy(key);
+  if (existing) return existing;
+
+  let pending = pendingCopies.get(key);
+  if (!pending) {
+    pending = (async () => {
+      const url = await storeImageAsset(await renderWatermarkedImage(imageUrl, settings), 'watermarked');
+      await saveCopy(key, url);
+      return url;
+    })().finally(() => pendingCopies.delete(key));
+    pendingCopies.set(key, pending);
+  }
+  return pending;
+}
+
+/**
+ * The URL to give a user for a stored image: the image itself, or its
+ * watermarked copy on plans that carry one. Throws rather than hand out the
+ * clean image when the copy cannot be made.
+ */
+export async function deliverImageUrl<T extends string | null | undefined>(
+  user: { subscriptionStatus: SubscriptionPlan },
+  imageUrl: T
+): Promise<T> {
+  if (!imageUrl) return imageUrl;
+  const settings = await getPlanWatermark(user.subscriptionStatus);
+  if (!settings) return imageUrl;
+
+  try {
+    return (await getWatermarkedImageUrl(imageUrl, settings)) as T;
+  } catch (error) {
+    console.error('[Watermark] Failed to watermark image:', error);
+    throw new Error('Could not prepare the image for delivery');
+  }
+}
+
+/**
+ * A thumbnail (or version) with its image as the user should see it. An
+ * image that cannot be watermarked is left out rather than delivered clean.
+ * The pre-effects image and the stored project (whose background is the clean
+ * image) are only needed by the server, so watermarked plans do not get them;
+ * routes that hand out a project deliver it with deliverProject.
+ */
+export async function deliverThumbnail<
+  T extends { imageUrl: string | null; originalImageUrl?: string | null; project?: unknown },
+>(user: { subscriptionStatus: SubscriptionPlan }, thumbnail: T): Promise<T> {
+  if (!(await getPlanWatermark(user.subscriptionStatus))) return thumbnail;
+
+  return {
+    ...thumbnail,
+    imageUrl: await deliverImageUrl(user, thumbnail.imageUrl).catch(() => null),
+    ...(thumbnail.originalImageUrl !== undefined && { originalImageUrl: null }),
+    ...(thumbnail.project !== undefined && { project: null }),
+  };
+}
+
+function getBackgroundSrc(project: ThumbnailProject): string | undefined {
+  const background = project.layers.find((layer) => layer.type === 'background');
+  return background && 'src' in background ? background.src : undefined;
+}
+
+/**
+ * A layered project as the user should see it: on plans that carry a
+ * watermark its background is the watermarked copy of the flat image. Throws
+ * rather than hand out the clean background.
+ */
+export async function deliverProject(
+  user: { subscriptionStatus: SubscriptionPlan },
+  project: ThumbnailProject
+): Promise<ThumbnailProject> {
+  const background = getBackgroundSrc(project);
+  if (!background) return project;
+  const delivered = await deliverImageUrl(user, background);
+  return delivered === background ? project : replaceProjectBackground(project, delivered);
+}
+
+/**
+ * A thumbnail version with its image and project as the user should see them
+ */
+export async function deliverVersion<
+  T extends { imageUrl: string | null; originalImageUrl?: string | null; project: ThumbnailProject | null },
+>(user: { subscriptionStatus: SubscriptionPlan }, version: T): Promise<T> {
+  return {
+    ...(await deliverThumbnail(user, version)),
+    project: version.project && (await deliverProject(user, version.project).catch(() => null)),
+  };
+}
+
+/**
+ * Undo deliverProject on a project sent back by the editor, so the stored
+ * background stays the clean image and the watermark is not baked in
+ */
+export async function restoreProjectBackground(
+  user: { subscriptionStatus: SubscriptionPlan },
+  project: ThumbnailProject,
+  cleanBackground: string | null
+): Promise<ThumbnailProject> {
+  const background = getBackgroundSrc(project);
+  if (!background || !cleanBackground || background === cleanBackground) return project;
+  const delivered = await deliverImageUrl(user, cleanBackground).catch(() => undefined);
+  return background === delivered ? replaceProjectBackground(project, cleanBackground) : project;
+}
+
+/**
+ * Drop cached settings and copies (tests)
+ */
+export function resetWatermarks(): void {
+  cachedSettings = null;
+  memorySettings = null;
+  memoryCopies.clear();
+  pendingCopies.clear();
+}
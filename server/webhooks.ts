@@ -4,7 +4,7 @@
  */
 
 import { z } from "zod";
-import { updateUserCredits, recordCreditTransaction, getUser } from "./db";
+import { recordCreditTransaction, getUser } from "./db";
 
 // Stripe event types we care about
 type StripeEvent = {
@@ -94,12 +94,10 @@ async function handleChargeSucceeded(event: StripeEvent): Promise<void> {
   const packageId = charge.metadata?.packageId || "custom";
   const description = `Credit purchase - ${packageId} package`;
 
-  // Update user credits
-  const newBalance = user.credits + creditsToAdd;
-  await updateUserCredits(userId, newBalance);
-
-  // Record transaction
-  await recordCreditTransaction(userId, creditsToAdd, "purchase", description);
+  // Record transaction (keyed by charge so webhook retries are no-ops)
+  const newBalance = await recordCreditTransaction(userId, creditsToAdd, "purchase", description, {
+    id: `charge-${charge.id}`,
+  });
 
   console.log(
     `[Stripe] Added ${creditsToAdd} credits to user ${userId}. New balance: ${newBalance}`
@@ -216,14 +214,12 @@ async function handleInvoicePaymentSucceeded(event: StripeEvent): Promise<void>
     ? parseInt(invoice.metadata.monthlyCredits)
     : 50; // Default to free plan credits
 
-  const newBalance = user.credits + planCredits;
-  await updateUserCredits(userId, newBalance);
-
-  await recordCreditTransaction(
+  const newBalance = await recordCreditTransaction(
     userId,
     planCredits,
     "purchase",
-    "Monthly subscription renewal"
+    "Monthly subscription renewal",
+    { id: `invoice-${invoice.id}`, stripeInvoiceId: invoice.id }
   );
 
   console.log(
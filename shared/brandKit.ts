@@ -0,0 +1,121 @@
+import { z } from "zod";
+import { colorSchema, fontIdSchema, FONT_LIBRARY } from "./typography";
+
+/**
+ * Brand kits
+ * A channel's colors, fonts, logo and text style, applied to every
+ * generation that uses the kit: the palette and banned colors steer the
+ * prompt, and post-production adds the logo and overlay text as layers.
+ */
+
+export const LOGO_POSITIONS = ["top-left", "top-right", "bottom-left", "bottom-right"] as const;
+
+export const TEXT_POSITIONS = ["top", "center", "bottom"] as const;
+
+// Logos are fetched by the server, so only https and inline images are allowed
+const logoSourceSchema = z
+  .string()
+  .max(5_000_000)
+  .regex(/^(https:\/\/|data:image\/)/, "Logos must be https or data:image URLs");
+
+export const brandKitSettingsSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  // Most important first
+  palette: z.array(colorSchema).min(1).max(8),
+  bannedColors: z.array(colorSchema).max(8).default([]),
+  fonts: z
+    .object({
+      heading: fontIdSchema.default("anton"),
+      body: fontIdSchema.default("montserrat"),
+    })
+    .default({ heading: "anton", body: "montserrat" }),
+  logo: z
+    .object({
+      src: logoSourceSchema,
+      position: z.enum(LOGO_POSITIONS).default("bottom-right"),
+      // Width as a fraction of the image width
+      size: z.number().min(0.05).max(0.4).default(0.15),
+      opacity: z.number().min(0.1).max(1).default(1),
+    })
+    .optional(),
+  // How overlay text is drawn, in the heading font
+  textStyle: z
+    .object({
+      color: colorSchema.default("#ffffff"),
+      outlineColor: colorSchema.optional(),
+      highlightColor: colorSchema.optional(),
+      uppercase: z.boolean().default(true),
+      position: z.enum(TEXT_POSITIONS).default("top"),
+      shadow: z.boolean().default(true),
+    })
+    .default({ color: "#ffffff", uppercase: true, position: "top", shadow: true }),
+});
+
+export type BrandKitSettings = z.infer<typeof brandKitSettingsSchema>;
+export type BrandKitSettingsInput = z.input<typeof brandKitSettingsSchema>;
+
+export interface BrandKit extends BrandKitSettings {
+  id: string;
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const HUE_NAMES: Array<[number, string]> = [
+  [15, "red"],
+  [45, "orange"],
+  [70, "yellow"],
+  [150, "green"],
+  [190, "teal"],
+  [250, "blue"],
+  [290, "purple"],
+  [330, "pink"],
+  [360, "red"],
+];
+
+/**
+ * A plain-language name for a hex color, e.g. "dark blue (#1e3a8a)". Image
+ * models follow color names more reliably than hex codes.
+ */
+export function describeColor(hex: string): string {
+  const value = parseInt(hex.slice(1, 7), 16);
+  const [r, g, b] = [(value >> 16) & 255, (value >> 8) & 255, value & 255].map((channel) => channel / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  const saturation = delta === 0 ? 0 : delta / (1 - Math.abs(2 * lightness - 1));
+
+  let name: string;
+  if (saturation < 0.15 || delta < 0.08) {
+    if (lightness < 0.12) name = "black";
+    else if (lightness > 0.9) name = "white";
+    else name = lightness < 0.4 ? "dark gray" : lightness > 0.7 ? "light gray" : "gray";
+  } else {
+    const hue =
+      max === r ? ((g - b) / delta + 6) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+    const base = HUE_NAMES.find(([limit]) => hue * 60 < limit)![1];
+    name = lightness < 0.3 ? `dark ${base}` : lightness > 0.75 ? `light ${base}` : base;
+  }
+  return `${name} (${hex.slice(0, 7).toLowerCase()})`;
+}
+
+/**
+ * Prompt lines for a kit: its palette, the colors to avoid and its typography
+ */
+export function describeBrandKit(kit: BrandKitSettings): { palette: string; avoid?: string; typography: string } {
+  const { textStyle } = kit;
+  const typography = [
+    `${FONT_LIBRARY[kit.fonts.heading].family}-style bold display typography`,
+    `${describeColor(textStyle.color)} text`,
+    textStyle.outlineColor ? `with a ${describeColor(textStyle.outlineColor)} outline` : undefined,
+    textStyle.uppercase ? "in capitals" : undefined,
+    `at the ${textStyle.position} of the frame`,
+  ];
+
+  return {
+    palette: kit.palette.map(describeColor).join(", "),
+    avoid: kit.bannedColors.length ? kit.bannedColors.map(describeColor).join(", ") : undefined,
+    typography: typography.filter(Boolean).join(" "),
+  };
+}
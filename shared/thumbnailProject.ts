@@ -0,0 +1,331 @@
+import { z } from "zod";
+import { colorSchema, drawTextLayer, textLayerSchema, type Canvas2D } from "./typography";
+
+/**
+ * Thumbnail project documents
+ * A thumbnail as editable layers instead of a flat PNG. The server renders
+ * projects with @napi-rs/canvas and the editor with the browser canvas; both
+ * run drawThumbnailProject, so a saved project looks the same in either.
+ */
+
+// Bump when the document shape changes, and migrate older documents in
+// parseThumbnailProject
+export const THUMBNAIL_PROJECT_VERSION = 1;
+
+export const BLEND_MODES = [
+  "normal",
+  "multiply",
+  "screen",
+  "overlay",
+  "darken",
+  "lighten",
+  "color-dodge",
+  "color-burn",
+  "hard-light",
+  "soft-light",
+  "difference",
+  "exclusion",
+  "hue",
+  "saturation",
+  "color",
+  "luminosity",
+] as const;
+
+export type BlendMode = (typeof BLEND_MODES)[number];
+
+// Position and size of the layer's box in project pixels, before rotation
+// (degrees clockwise around the box center)
+export const layerTransformSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  rotation: z.number().min(-360).max(360).default(0),
+  flipX: z.boolean().default(false),
+  flipY: z.boolean().default(false),
+  opacity: z.number().min(0).max(1).default(1),
+});
+
+// Brightness, contrast and saturation are percentages; 100 leaves the layer unchanged
+export const layerEffectsSchema = z.object({
+  shadow: z
+    .object({
+      color: colorSchema,
+      blur: z.number().min(0).max(100).default(0),
+      offsetX: z.number().default(0),
+      offsetY: z.number().default(0),
+    })
+    .optional(),
+  blur: z.number().min(0).max(50).optional(),
+  brightness: z.number().min(0).max(300).optional(),
+  contrast: z.number().min(0).max(300).optional(),
+  saturation: z.number().min(0).max(300).optional(),
+});
+
+// Layer images are fetched by the server, so only https and inline images are allowed
+const imageSourceSchema = z
+  .string()
+  .max(10_000_000)
+  .regex(/^(https:\/\/|data:image\/)/, "Layer images must be https or data:image URLs");
+
+const layerBase = {
+  id: z.string().min(1).max(64),
+  name: z.string().max(100).optional(),
+  visible: z.boolean().default(true),
+  transform: layerTransformSchema,
+  blendMode: z.enum(BLEND_MODES).default("normal"),
+  effects: layerEffectsSchema.default({}),
+};
+
+const imageFitSchema = z.enum(["contain", "cover", "fill"]);
+
+export const projectLayerSchema = z.discriminatedUnion("type", [
+  z.object({
+    ...layerBase,
+    type: z.literal("background"),
+    src: imageSourceSchema.optional(),
+    color: colorSchema.optional(),
+    fit: imageFitSchema.default("cover"),
+  }),
+  z.object({ ...layerBase, type: z.literal("subject"), src: imageSourceSchema, fit: imageFitSchema.default("contain") }),
+  z.object({ ...layerBase, type: z.literal("sticker"), src: imageSourceSchema, fit: imageFitSchema.default("contain") }),
+  // The text box is the layer's transform; its shadow is the layer's shadow effect
+  z.object({
+    ...layerBase,
+    type: z.literal("text"),
+    ...textLayerSchema.omit({ box: true, rotation: true, shadow: true }).shape,
+  }),
+  z.object({
+    ...layerBase,
+    type: z.literal("shape"),
+    shape: z.enum(["rectangle", "ellipse", "arrow"]),
+    fill: colorSchema.optional(),
+    stroke: z.object({ color: colorSchema, width: z.number().positive().max(100) }).optional(),
+    cornerRadius: z.number().min(0).default(0),
+  }),
+]);
+
+export const thumbnailProjectSchema = z.object({
+  version: z.literal(THUMBNAIL_PROJECT_VERSION),
+  width: z.number().int().min(16).max(4096),
+  height: z.number().int().min(16).max(4096),
+  // Bottom to top
+  layers: z.array(projectLayerSchema).max(50),
+});
+
+export type ProjectLayer = z.infer<typeof projectLayerSchema>;
+export type ProjectLayerInput = z.input<typeof projectLayerSchema>;
+export type ThumbnailProject = z.infer<typeof thumbnailProjectSchema>;
+export type ThumbnailProjectInput = z.input<typeof thumbnailProjectSchema>;
+
+export interface ProjectImage {
+  width: number;
+  height: number;
+}
+
+/**
+ * Validate a stored or submitted document, filling in defaults
+ */
+export function parseThumbnailProject(value: unknown): ThumbnailProject {
+  const version = (value as { version?: unknown } | null)?.version;
+  if (typeof version === "number" && version > THUMBNAIL_PROJECT_VERSION) {
+    throw new Error(`Project version ${version} is newer than this app supports`);
+  }
+  return thumbnailProjectSchema.parse(value);
+}
+
+/**
+ * A new project holding a flat image as its background
+ */
+export function createThumbnailProject(imageUrl: string, width: number, height: number): ThumbnailProject {
+  return parseThumbnailProject({
+    version: THUMBNAIL_PROJECT_VERSION,
+    width,
+    height,
+    layers: [
+      {
+        id: "background",
+        name: "Background",
+        type: "background",
+        src: imageUrl,
+        transform: { x: 0, y: 0, width, height },
+      },
+    ],
+  });
+}
+
+/**
+ * Point the background at a new flat image, e.g. after a region edit
+ */
+export function replaceProjectBackground(project: ThumbnailProject, imageUrl: string): ThumbnailProject {
+  const index = project.layers.findIndex((layer) => layer.type === "background");
+  if (index === -1) {
+    const background = createThumbnailProject(imageUrl, project.width, project.height).layers[0];
+    return { ...project, layers: [background, ...project.layers] };
+  }
+  return {
+    ...project,
+    layers: project.layers.map((layer, i) => (i === index ? { ...layer, src: imageUrl } : layer)),
+  };
+}
+
+/**
+ * Every image a project draws, so callers can load them before rendering
+ */
+export function projectImageSources(project: ThumbnailProject): string[] {
+  const sources = project.layers.flatMap((layer) => ("src" in layer && layer.src ? [layer.src] : []));
+  return Array.from(new Set(sources));
+}
+
+function filterString(effects: ProjectLayer["effects"]): string {
+  const filters: string[] = [];
+  if (effects.blur) filters.push(`blur(${effects.blur}px)`);
+  if (effects.brightness !== undefined) filters.push(`brightness(${effects.brightness}%)`);
+  if (effects.contrast !== undefined) filters.push(`contrast(${effects.contrast}%)`);
+  if (effects.saturation !== undefined) filters.push(`saturate(${effects.saturation}%)`);
+  return filters.length ? filters.join(" ") : "none";
+}
+
+function drawFittedImage(
+  context: Canvas2D,
+  image: ProjectImage,
+  fit: "contain" | "cover" | "fill",
+  width: number,
+  height: number
+): void {
+  if (fit === "fill") {
+    context.drawImage(image, 0, 0, width, height);
+    return;
+  }
+  const scale =
+    fit === "cover"
+      ? Math.max(width / image.width, height / image.height)
+      : Math.min(width / image.width, height / image.height);
+  if (fit === "cover") {
+    // Crop the source so the box is covered without drawing outside it
+    const sourceWidth = width / scale;
+    const sourceHeight = height / scale;
+    context.drawImage(
+      image,
+      (image.width - sourceWidth) / 2,
+      (image.height - sourceHeight) / 2,
+      sourceWidth,
+      sourceHeight,
+      0,
+      0,
+      width,
+      height
+    );
+    return;
+  }
+  const drawWidth = image.width * scale;
+  const drawHeight = image.height * scale;
+  context.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+}
+
+function traceShape(context: Canvas2D, layer: Extract<ProjectLayer, { type: "shape" }>): void {
+  const { width, height } = layer.transform;
+  context.beginPath();
+  if (layer.shape === "ellipse") {
+    context.ellipse(width / 2, height / 2, width / 2, height / 2, 0, 0, Math.PI * 2);
+  } else if (layer.shape === "arrow") {
+    // Points right; the shaft is 40% of the box height
+    const shaftTop = height * 0.3;
+    const shaftBottom = height * 0.7;
+    const headStart = width * 0.6;
+    context.moveTo(0, shaftTop);
+    context.lineTo(headStart, shaftTop);
+    context.lineTo(headStart, 0);
+    context.lineTo(width, height / 2);
+    context.lineTo(headStart, height);
+    context.lineTo(headStart, shaftBottom);
+    context.lineTo(0, shaftBottom);
+  } else {
+    const radius = Math.min(layer.cornerRadius, width / 2, height / 2);
+    context.moveTo(radius, 0);
+    context.arcTo(width, 0, width, height, radius);
+    context.arcTo(width, height, 0, height, radius);
+    context.arcTo(0, height, 0, 0, radius);
+    context.arcTo(0, 0, width, 0, radius);
+  }
+  context.closePath();
+}
+
+function drawLayer(context: Canvas2D, layer: ProjectLayer, images: ReadonlyMap<string, ProjectImage>): void {
+  const { width, height } = layer.transform;
+
+  switch (layer.type) {
+    case "background": {
+      if (layer.color) {
+        context.fillStyle = layer.color;
+        context.fillRect(0, 0, width, height);
+      }
+      const image = layer.src ? images.get(layer.src) : undefined;
+      if (image) drawFittedImage(context, image, layer.fit, width, height);
+      return;
+    }
+    case "subject":
+    case "sticker": {
+      const image = images.get(layer.src);
+      if (image) drawFittedImage(context, image, layer.fit, width, height);
+      return;
+    }
+    case "shape": {
+      traceShape(context, layer);
+      if (layer.fill) {
+        context.fillStyle = layer.fill;
+        context.fill();
+      }
+      if (layer.stroke) {
+        // The outline would cast a second shadow
+        context.shadowColor = "rgba(0, 0, 0, 0)";
+        context.strokeStyle = layer.stroke.color;
+        context.lineWidth = layer.stroke.width;
+        context.lineJoin = "round";
+        context.stroke();
+      }
+      return;
+    }
+    case "text": {
+      const { id, name, visible, transform, blendMode, effects, type, ...text } = layer;
+      drawTextLayer(context, { ...text, box: { x: 0, y: 0, width, height }, shadow: effects.shadow });
+      return;
+    }
+  }
+}
+
+/**
+ * Draw a project onto a context of the project's size. Images must already
+ * be loaded into `images`, keyed by their src; missing ones are skipped.
+ */
+export function drawThumbnailProject(
+  context: Canvas2D,
+  project: ThumbnailProject,
+  images: ReadonlyMap<string, ProjectImage>
+): void {
+  for (const layer of project.layers) {
+    if (!layer.visible || layer.transform.opacity === 0) continue;
+    const { x, y, width, height, rotation, flipX, flipY, opacity } = layer.transform;
+
+    context.save();
+    context.globalAlpha = opacity;
+    context.globalCompositeOperation = layer.blendMode === "normal" ? "source-over" : layer.blendMode;
+    context.filter = filterString(layer.effects);
+    const shadow = layer.effects.shadow;
+    if (shadow && layer.type !== "text") {
+      context.shadowColor = shadow.color;
+      context.shadowBlur = shadow.blur;
+      context.shadowOffsetX = shadow.offsetX;
+      context.shadowOffsetY = shadow.offsetY;
+    }
+
+    // Work in box coordinates: rotated and flipped around the box center
+    context.translate(x + width / 2, y + height / 2);
+    context.rotate((rotation * Math.PI) / 180);
+    context.scale(flipX ? -1 : 1, flipY ? -1 : 1);
+    context.translate(-width / 2, -height / 2);
+
+    drawLayer(context, layer, images);
+    context.restore();
+  }
+}
@@ -0,0 +1,342 @@
+import { z } from "zod";
+
+/**
+ * Typography shared by the server renderer and the editor canvas. Layout and
+ * drawing only use the Canvas 2D API, so the same text spec produces the same
+ * result in both once the bundled fonts are loaded.
+ */
+
+// The Canvas 2D members text and project rendering use; satisfied by the
+// browser's context and by @napi-rs/canvas
+export interface CanvasGradientLike {
+  addColorStop(offset: number, color: string): void;
+}
+
+export interface Canvas2D {
+  font: string;
+  textAlign: string;
+  textBaseline: string;
+  lineJoin: string;
+  miterLimit: number;
+  lineWidth: number;
+  fillStyle: string | object;
+  strokeStyle: string | object;
+  shadowColor: string;
+  shadowBlur: number;
+  shadowOffsetX: number;
+  shadowOffsetY: number;
+  globalAlpha: number;
+  globalCompositeOperation: string;
+  filter: string;
+  measureText(text: string): { width: number };
+  save(): void;
+  restore(): void;
+  translate(x: number, y: number): void;
+  rotate(angle: number): void;
+  scale(x: number, y: number): void;
+  fillText(text: string, x: number, y: number): void;
+  strokeText(text: string, x: number, y: number): void;
+  fillRect(x: number, y: number, width: number, height: number): void;
+  createLinearGradient(x0: number, y0: number, x1: number, y1: number): CanvasGradientLike;
+  drawImage(image: any, ...args: number[]): void;
+  beginPath(): void;
+  closePath(): void;
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  rect(x: number, y: number, width: number, height: number): void;
+  ellipse(
+    x: number,
+    y: number,
+    radiusX: number,
+    radiusY: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number
+  ): void;
+  arcTo(x1: number, y1: number, x2: number, y2: number, radius: number): void;
+  fill(): void;
+  stroke(): void;
+}
+
+export const FONT_LIBRARY = {
+  anton: { family: "Anton", package: "anton", weights: [400] },
+  bangers: { family: "Bangers", package: "bangers", weights: [400] },
+  "bebas-neue": { family: "Bebas Neue", package: "bebas-neue", weights: [400] },
+  montserrat: { family: "Montserrat", package: "montserrat", weights: [400, 700, 800, 900] },
+  oswald: { family: "Oswald", package: "oswald", weights: [400, 700] },
+  roboto: { family: "Roboto", package: "roboto", weights: [400, 700, 900] },
+} as const;
+
+export type FontId = keyof typeof FONT_LIBRARY;
+
+export const fontIdSchema = z.enum(["anton", "bangers", "bebas-neue", "montserrat", "oswald", "roboto"]);
+
+// Hex only: named and functional colors are left to the client
+export const colorSchema = z.string().regex(/^#([0-9a-f]{6}|[0-9a-f]{8})$/i, "Colors must be #rrggbb or #rrggbbaa");
+
+// All lengths are in pixels of the image the text is drawn on
+export const textLayerSchema = z.object({
+  text: z.string().min(1).max(200),
+  font: fontIdSchema.default("anton"),
+  // Snapped to the nearest bundled weight; defaults to the boldest
+  weight: z.number().int().min(100).max(900).optional(),
+  box: z.object({
+    x: z.number(),
+    y: z.number(),
+    width: z.number().positive(),
+    height: z.number().positive(),
+  }),
+  align: z.enum(["left", "center", "right"]).default("center"),
+  verticalAlign: z.enum(["top", "middle", "bottom"]).default("middle"),
+  // A fixed size; without one the text is fitted to the box
+  fontSize: z.number().positive().optional(),
+  minFontSize: z.number().positive().default(12),
+  maxFontSize: z.number().positive().optional(),
+  lineHeight: z.number().min(0.5).max(3).default(1.1),
+  uppercase: z.boolean().default(false),
+  color: colorSchema.default("#ffffff"),
+  // Replaces the solid color. 0° runs left to right, 90° top to bottom.
+  gradient: z
+    .object({
+      angle: z.number().default(90),
+      stops: z
+        .array(z.object({ offset: z.number().min(0).max(1), color: colorSchema }))
+        .min(2)
+        .max(8),
+    })
+    .optional(),
+  // Outline thickness outside the glyphs
+  stroke: z.object({ color: colorSchema, width: z.number().positive().max(100) }).optional(),
+  shadow: z
+    .object({
+      color: colorSchema,
+      blur: z.number().min(0).max(100).default(0),
+      offsetX: z.number().default(0),
+      offsetY: z.number().default(0),
+    })
+    .optional(),
+  // Words drawn in their own color, matched case-insensitively without punctuation
+  highlights: z.array(z.object({ word: z.string().min(1), color: colorSchema })).max(50).default([]),
+  // Degrees clockwise around the center of the box
+  rotation: z.number().min(-360).max(360).default(0),
+});
+
+export type TextLayer = z.infer<typeof textLayerSchema>;
+export type TextLayerInput = z.input<typeof textLayerSchema>;
+
+export interface TextLayoutWord {
+  text: string;
+  x: number; // Left edge, relative to the box
+  width: number;
+  color?: string; // Highlight color
+}
+
+export interface TextLayout {
+  fontSize: number;
+  lines: Array<{ y: number; width: number; words: TextLayoutWord[] }>; // y: line middle, relative to the box
+  width: number;
+  height: number;
+  // The text did not fit the box even at the minimum size
+  overflow: boolean;
+}
+
+function resolveWeight(font: FontId, weight?: number): number {
+  const weights: readonly number[] = FONT_LIBRARY[font].weights;
+  if (weight === undefined) return weights[weights.length - 1];
+  return weights.reduce((best, candidate) =>
+    Math.abs(candidate - weight) < Math.abs(best - weight) ? candidate : best
+  );
+}
+
+/**
+ * The family the bundled font is registered under. The prefix keeps
+ * installed fonts of the same name from replacing it.
+ */
+export function fontFamilyName(font: FontId): string {
+  return `Routix ${FONT_LIBRARY[font].family}`;
+}
+
+function fontString(layer: TextLayer, size: number): string {
+  return `${resolveWeight(layer.font, layer.weight)} ${size}px "${fontFamilyName(layer.font)}"`;
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+/**
+ * Break text into lines no wider than maxWidth. A word wider than the box
+ * gets a line of its own; explicit newlines are kept.
+ */
+function breakLines(context: Canvas2D, text: string, maxWidth: number): string[][] {
+  const lines: string[][] = [];
+  for (const paragraph of text.split("\n")) {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    let line: string[] = [];
+    for (const word of words) {
+      const candidate = [...line, word];
+      if (line.length > 0 && context.measureText(candidate.join(" ")).width > maxWidth) {
+        lines.push(line);
+        line = [word];
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Lay out a text layer in its box: pick the size, break lines and place
+ * each word
+ */
+export function layoutText(context: Canvas2D, layer: TextLayer): TextLayout {
+  const text = layer.uppercase ? layer.text.toUpperCase() : layer.text;
+  // The outline grows the text on every side
+  const inset = layer.stroke ? layer.stroke.width : 0;
+  const maxWidth = Math.max(1, layer.box.width - inset * 2);
+  const maxHeight = Math.max(1, layer.box.height - inset * 2);
+
+  const measure = (size: number) => {
+    context.font = fontString(layer, size);
+    const lines = breakLines(context, text, maxWidth);
+    const widths = lines.map((line) => context.measureText(line.join(" ")).width);
+    const fits = lines.length * size * layer.lineHeight <= maxHeight && Math.max(...widths) <= maxWidth;
+    return { size, lines, widths, fits };
+  };
+
+  // Largest whole-pixel size that fits, so the result never depends on float steps
+  let fitted: ReturnType<typeof measure>;
+  if (layer.fontSize) {
+    fitted = measure(layer.fontSize);
+  } else {
+    let low = Math.ceil(layer.minFontSize);
+    let high = Math.floor(Math.max(low, layer.maxFontSize ?? layer.box.height));
+    fitted = measure(low);
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      const attempt = measure(middle);
+      if (attempt.fits) {
+        fitted = attempt;
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+  }
+
+  context.font = fontString(layer, fitted.size);
+  const spaceWidth = context.measureText(" ").width;
+  const highlights = new Map(layer.highlights.map((highlight) => [normalizeWord(highlight.word), highlight.color]));
+  const lineHeight = fitted.size * layer.lineHeight;
+  const blockHeight = fitted.lines.length * lineHeight;
+  const top =
+    layer.verticalAlign === "top"
+      ? inset
+      : layer.verticalAlign === "bottom"
+        ? layer.box.height - inset - blockHeight
+        : (layer.box.height - blockHeight) / 2;
+
+  const lines = fitted.lines.map((line, index) => {
+    const width = fitted.widths[index];
+    let x =
+      layer.align === "left"
+        ? inset
+        : layer.align === "right"
+          ? layer.box.width - inset - width
+          : (layer.box.width - width) / 2;
+    const words = line.map((word) => {
+      const wordWidth = context.measureText(word).width;
+      const placed: TextLayoutWord = { text: word, x, width: wordWidth, color: highlights.get(normalizeWord(word)) };
+      x += wordWidth + spaceWidth;
+      return placed;
+    });
+    return { y: top + (index + 0.5) * lineHeight, width, words };
+  });
+
+  return {
+    fontSize: fitted.size,
+    lines,
+    width: Math.max(0, ...fitted.widths),
+    height: blockHeight,
+    overflow: !fitted.fits,
+  };
+}
+
+function createFill(context: Canvas2D, layer: TextLayer, layout: TextLayout): string | CanvasGradientLike {
+  if (!layer.gradient) return layer.color;
+
+  // Spans the laid-out text along the angle, centered on the box
+  const radians = (layer.gradient.angle * Math.PI) / 180;
+  const centerX = layer.box.width / 2;
+  const centerY = layout.lines.length ? (layout.lines[0].y + layout.lines[layout.lines.length - 1].y) / 2 : 0;
+  const half =
+    (Math.abs(Math.cos(radians)) * layout.width + Math.abs(Math.sin(radians)) * layout.height) / 2 || 1;
+  const gradient = context.createLinearGradient(
+    centerX - Math.cos(radians) * half,
+    centerY - Math.sin(radians) * half,
+    centerX + Math.cos(radians) * half,
+    centerY + Math.sin(radians) * half
+  );
+  for (const stop of layer.gradient.stops) gradient.addColorStop(stop.offset, stop.color);
+  return gradient;
+}
+
+/**
+ * Draw one text layer: shadow and outline first, then the fill
+ */
+export function drawTextLayer(context: Canvas2D, input: TextLayerInput): TextLayout {
+  const layer = textLayerSchema.parse(input);
+
+  context.save();
+  const layout = layoutText(context, layer);
+
+  // Rotate around the box center, then work in box coordinates
+  context.translate(layer.box.x + layer.box.width / 2, layer.box.y + layer.box.height / 2);
+  context.rotate((layer.rotation * Math.PI) / 180);
+  context.translate(-layer.box.width / 2, -layer.box.height / 2);
+
+  context.font = fontString(layer, layout.fontSize);
+  context.textAlign = "left";
+  context.textBaseline = "middle";
+  context.lineJoin = "round";
+  context.miterLimit = 2;
+
+  const words = layout.lines.flatMap((line) => line.words.map((word) => ({ ...word, y: line.y })));
+  const withShadow = (draw: () => void) => {
+    if (!layer.shadow) return draw();
+    context.shadowColor = layer.shadow.color;
+    context.shadowBlur = layer.shadow.blur;
+    context.shadowOffsetX = layer.shadow.offsetX;
+    context.shadowOffsetY = layer.shadow.offsetY;
+    draw();
+    context.shadowColor = "rgba(0, 0, 0, 0)";
+    context.shadowBlur = 0;
+    context.shadowOffsetX = 0;
+    context.shadowOffsetY = 0;
+  };
+
+  // The shadow is cast once, by the outermost pass
+  if (layer.stroke) {
+    const stroke = layer.stroke;
+    withShadow(() => {
+      context.strokeStyle = stroke.color;
+      context.lineWidth = stroke.width * 2;
+      for (const word of words) context.strokeText(word.text, word.x, word.y);
+    });
+  }
+
+  const fill = createFill(context, layer, layout);
+  const drawFill = () => {
+    for (const word of words) {
+      context.fillStyle = word.color ?? fill;
+      context.fillText(word.text, word.x, word.y);
+    }
+  };
+  if (layer.stroke) drawFill();
+  else withShadow(drawFill);
+
+  context.restore();
+  return layout;
+}
@@ -0,0 +1,144 @@
+import { z } from "zod";
+import { colorSchema, fontFamilyName, fontIdSchema, FONT_LIBRARY, type Canvas2D } from "./typography";
+import type { ProjectImage } from "./thumbnailProject";
+
+/**
+ * Watermarks
+ * Drawn over images delivered to plans that carry one. Stored images stay
+ * clean, so an upgrade removes the watermark from past thumbnails. The server
+ * stamps delivered images and the editor stamps its exports with the same
+ * drawing code.
+ */
+
+export const SUBSCRIPTION_PLANS = ["free", "pro", "enterprise"] as const;
+
+export type SubscriptionPlan = (typeof SUBSCRIPTION_PLANS)[number];
+
+export const WATERMARK_POSITIONS = ["top-left", "top-right", "bottom-left", "bottom-right", "center"] as const;
+
+export const watermarkSettingsSchema = z
+  .object({
+    enabled: z.boolean(),
+    // Plans whose delivered images carry the watermark
+    plans: z.array(z.enum(SUBSCRIPTION_PLANS)),
+    type: z.enum(["text", "logo"]),
+    text: z.string().trim().min(1).max(60),
+    font: fontIdSchema,
+    color: colorSchema,
+    // Fetched by the server, so only https and inline images are allowed
+    logoUrl: z
+      .string()
+      .max(5_000_000)
+      .regex(/^(https:\/\/|data:image\/)/, "Logos must be https or data:image URLs")
+      .optional(),
+    position: z.enum(WATERMARK_POSITIONS),
+    // Width of one mark as a fraction of the image width
+    size: z.number().min(0.05).max(0.6),
+    opacity: z.number().min(0.05).max(1),
+    // Repeat the mark across the whole image instead of placing it once
+    tiled: z.boolean(),
+    // Rotation of tiled marks, in degrees
+    angle: z.number().min(-90).max(90),
+  })
+  .refine((settings) => settings.type !== "logo" || settings.logoUrl, {
+    message: "A logo watermark needs a logo",
+    path: ["logoUrl"],
+  });
+
+export type WatermarkSettings = z.infer<typeof watermarkSettingsSchema>;
+
+export const DEFAULT_WATERMARK_SETTINGS: WatermarkSettings = {
+  enabled: true,
+  plans: ["free"],
+  type: "text",
+  text: "Made with Routix",
+  font: "montserrat",
+  color: "#ffffff",
+  position: "bottom-right",
+  size: 0.25,
+  opacity: 0.6,
+  tiled: false,
+  angle: -30,
+};
+
+/**
+ * Whether images delivered to a plan carry the watermark
+ */
+export function isWatermarkedPlan(settings: WatermarkSettings, plan: SubscriptionPlan): boolean {
+  return settings.enabled && settings.plans.includes(plan);
+}
+
+/**
+ * Draw the watermark over an image of the given size. A logo watermark whose
+ * logo is not loaded falls back to the text.
+ */
+export function drawWatermark(
+  context: Canvas2D,
+  settings: WatermarkSettings,
+  width: number,
+  height: number,
+  logo?: ProjectImage
+): void {
+  let markWidth = width * settings.size;
+  const useLogo = settings.type === "logo" && logo !== undefined;
+
+  let markHeight: number;
+  let fontSize = 0;
+  // The heaviest bundled weight
+  const { weights } = FONT_LIBRARY[settings.font];
+  const font = (size: number) => `${weights[weights.length - 1]} ${size}px "${fontFamilyName(settings.font)}"`;
+  if (useLogo) {
+    markHeight = (markWidth * logo.height) / logo.width;
+  } else {
+    context.font = font(100);
+    const measured = context.measureText(settings.text).width;
+    // Short texts are capped so they do not grow taller than a fifth of the image
+    fontSize = Math.min((100 * markWidth) / measured, height * 0.2);
+    markWidth = (measured * fontSize) / 100;
+    markHeight = fontSize;
+  }
+
+  context.save();
+  context.globalAlpha = settings.opacity;
+  if (!useLogo) {
+    context.font = font(fontSize);
+    context.fillStyle = settings.color;
+    context.textAlign = "center";
+    context.textBaseline = "middle";
+    // Keeps light text visible on light images
+    context.shadowColor = "rgba(0, 0, 0, 0.5)";
+    context.shadowBlur = fontSize / 6;
+  }
+  const drawMark = (centerX: number, centerY: number) => {
+    if (useLogo) {
+      context.drawImage(logo, centerX - markWidth / 2, centerY - markHeight / 2, markWidth, markHeight);
+    } else {
+      context.fillText(settings.text, centerX, centerY);
+    }
+  };
+
+  if (settings.tiled) {
+    // Cover the rotated grid's reach over the whole image
+    const reach = Math.hypot(width, height) / 2;
+    const stepX = markWidth * 1.5;
+    const stepY = Math.max(markHeight * 3, height * 0.15);
+    context.translate(width / 2, height / 2);
+    context.rotate((settings.angle * Math.PI) / 180);
+    for (let y = -reach, row = 0; y <= reach; y += stepY, row++) {
+      // Alternate rows are offset so the marks form a brick pattern
+      for (let x = -reach + (row % 2) * (stepX / 2); x <= reach; x += stepX) {
+        drawMark(x, y);
+      }
+    }
+  } else {
+    const margin = width * 0.03;
+    const [vertical, horizontal] =
+      settings.position === "center" ? ["center", "center"] : settings.position.split("-");
+    const centerX =
+      horizontal === "left" ? margin + markWidth / 2 : horizontal === "right" ? width - margin - markWidth / 2 : width / 2;
+    const centerY =
+      vertical === "top" ? margin + markHeight / 2 : vertical === "bottom" ? height - margin - markHeight / 2 : height / 2;
+    drawMark(centerX, centerY);
+  }
+  context.restore();
+}